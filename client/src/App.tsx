@@ -15,6 +15,7 @@ import Register from './pages/Register'
 import WaterTracking from './pages/WaterTracking'
 import MealPlanner from './pages/MealPlanner'
 import Progress from './pages/Progress'
+import Recipes from './pages/Recipes'
 
 /**
  * Protected Route Component
@@ -122,6 +123,7 @@ function App() {
         <Route path="/meals" element={<MealLog />} />
         <Route path="/water" element={<WaterTracking />} />
         <Route path="/planner" element={<MealPlanner />} />
+        <Route path="/recipes" element={<Recipes />} />
         <Route path="/progress" element={<Progress />} />
         <Route path="/profile" element={<Profile />} />
       </Route>
@@ -1,14 +1,39 @@
-import { Outlet } from 'react-router-dom'
+import { useEffect } from 'react'
+import { Outlet, useLocation } from 'react-router-dom'
+import toast from 'react-hot-toast'
 import Sidebar from './Sidebar'
 import Navbar from './Navbar'
+import { achievementApi } from '../../services/api'
 
 /**
  * MainLayout Component
  * ====================
  * The main layout for authenticated pages.
- * Contains sidebar navigation and top navbar.
+ * Contains sidebar navigation and top navbar, and announces
+ * newly unlocked badges as the user moves between pages.
  */
 const MainLayout = () => {
+  const { pathname } = useLocation()
+
+  useEffect(() => {
+    const announceBadges = async () => {
+      try {
+        const response = await achievementApi.get()
+        const badges = response.data?.unannounced || []
+        if (badges.length === 0) return
+
+        badges.forEach((badge) => {
+          toast.success(`${badge.title}: ${badge.description}`, { icon: badge.icon })
+        })
+        await achievementApi.markAnnounced(badges.map((badge) => badge.key))
+      } catch {
+        // Badges can wait for the next page
+      }
+    }
+
+    announceBadges()
+  }, [pathname])
+
   return (
     <div className="min-h-screen bg-gray-950 flex">
       {/* Sidebar - Fixed on desktop */}
@@ -31,4 +56,3 @@ const MainLayout = () => {
 }
 
 export default MainLayout
-
@@ -2,6 +2,7 @@ import { useLocation } from 'react-router-dom'
 import { Bell, Search } from 'lucide-react'
 import { useAuthStore } from '../../stores/authStore'
 import { ThemeToggle } from '../ui/ThemeToggle'
+import { formatIn, userTimezone } from '../../lib/timezone'
 
 /**
  * Navbar Component
@@ -24,8 +25,8 @@ const Navbar = () => {
     subtitle: 'Welcome back!' 
   }
 
-  // Get current date in a nice format
-  const today = new Date().toLocaleDateString('en-US', {
+  // Get current date in a nice format (in the user's timezone)
+  const today = formatIn(new Date(), userTimezone(user), {
     weekday: 'long',
     month: 'long',
     day: 'numeric',
@@ -9,7 +9,8 @@ import {
   X,
   Droplets,
   Calendar,
-  TrendingUp
+  TrendingUp,
+  BookOpen
 } from 'lucide-react'
 import { useState } from 'react'
 import clsx from 'clsx'
@@ -32,6 +33,7 @@ const navItems: NavItem[] = [
   { path: '/meals', label: 'Meal Log', icon: <UtensilsCrossed size={20} /> },
   { path: '/water', label: 'Water Intake', icon: <Droplets size={20} /> },
   { path: '/planner', label: 'Meal Planner', icon: <Calendar size={20} /> },
+  { path: '/recipes', label: 'Recipes', icon: <BookOpen size={20} /> },
   { path: '/progress', label: 'Progress', icon: <TrendingUp size={20} /> },
   { path: '/profile', label: 'Profile', icon: <User size={20} /> },
 ]
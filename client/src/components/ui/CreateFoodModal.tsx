@@ -0,0 +1,169 @@
+/**
+ * CreateFoodModal Component
+ * =========================
+ * Quick form for adding a custom food when search finds no match.
+ * The new food is saved to the user's custom foods and returned to the caller.
+ */
+
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { Plus, X } from 'lucide-react'
+import { foodApi, CustomFoodFormData } from '../../services/api'
+import { FoodItem } from '../../types'
+import toast from 'react-hot-toast'
+
+interface CreateFoodModalProps {
+  initialName: string
+  onCreated: (food: FoodItem) => void
+  onClose: () => void
+}
+
+const SERVING_UNITS = ['serving', 'piece', 'g', 'ml', 'cup', 'tbsp', 'tsp', 'oz']
+
+const CreateFoodModal = ({ initialName, onCreated, onClose }: CreateFoodModalProps) => {
+  const [isSaving, setIsSaving] = useState(false)
+  const [form, setForm] = useState({
+    name: initialName,
+    brand: '',
+    servingSize: '1',
+    servingUnit: 'serving',
+    calories: '',
+    protein: '',
+    carbs: '',
+    fat: '',
+    isPublic: false,
+  })
+
+  const update = (field: keyof typeof form, value: string | boolean) => {
+    setForm({ ...form, [field]: value })
+  }
+
+  const handleSubmit = async () => {
+    if (!form.name.trim() || form.calories === '') {
+      toast.error('Name and calories are required')
+      return
+    }
+
+    const data: CustomFoodFormData = {
+      name: form.name.trim(),
+      brand: form.brand.trim() || undefined,
+      servingSize: parseFloat(form.servingSize) || 1,
+      servingUnit: form.servingUnit,
+      calories: parseFloat(form.calories) || 0,
+      protein: parseFloat(form.protein) || 0,
+      carbs: parseFloat(form.carbs) || 0,
+      fat: parseFloat(form.fat) || 0,
+      visibility: form.isPublic ? 'public' : 'private',
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await foodApi.createCustomFood(data)
+      if (response.success && response.data) {
+        toast.success('Food created!')
+        onCreated(response.data.food)
+      }
+    } catch (error) {
+      toast.error('Failed to create food')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="relative bg-gray-900 rounded-2xl border border-gray-800 w-full max-w-md p-6 space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Create Food</h3>
+          <button type="button" onClick={onClose} className="p-1 hover:bg-gray-800 rounded-lg">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="col-span-2">
+            <label className="label">Name</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => update('name', e.target.value)}
+              className="input-field"
+              autoFocus
+            />
+          </div>
+          <div className="col-span-2">
+            <label className="label">Brand (optional)</label>
+            <input
+              type="text"
+              value={form.brand}
+              onChange={(e) => update('brand', e.target.value)}
+              className="input-field"
+              placeholder="Homemade"
+            />
+          </div>
+          <div>
+            <label className="label">Serving Size</label>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={form.servingSize}
+              onChange={(e) => update('servingSize', e.target.value)}
+              className="input-field"
+            />
+          </div>
+          <div>
+            <label className="label">Unit</label>
+            <select
+              value={form.servingUnit}
+              onChange={(e) => update('servingUnit', e.target.value)}
+              className="input-field"
+            >
+              {SERVING_UNITS.map((unit) => (
+                <option key={unit} value={unit}>{unit}</option>
+              ))}
+            </select>
+          </div>
+          {(['calories', 'protein', 'carbs', 'fat'] as const).map((field) => (
+            <div key={field}>
+              <label className="label capitalize">
+                {field}{field === 'calories' ? '' : ' (g)'}
+              </label>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={form[field]}
+                onChange={(e) => update(field, e.target.value)}
+                className="input-field"
+              />
+            </div>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={form.isPublic}
+            onChange={(e) => update('isPublic', e.target.checked)}
+            className="w-4 h-4 accent-primary-500"
+          />
+          Share with other users
+        </label>
+
+        <button type="button" onClick={handleSubmit} disabled={isSaving} className="btn-primary w-full flex items-center justify-center gap-2">
+          <Plus size={18} />
+          {isSaving ? 'Saving...' : 'Create Food'}
+        </button>
+      </motion.div>
+    </div>
+  )
+}
+
+export default CreateFoodModal
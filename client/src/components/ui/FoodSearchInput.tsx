@@ -2,14 +2,16 @@
  * FoodSearchInput Component
  * =========================
  * Autocomplete search input for food database.
- * Searches local foods and USDA database with debounced queries.
+ * Searches the user's recipes, local foods and imported USDA/IFCT foods with debounced queries.
+ * With an empty query it shows the user's frequent and recent foods instead.
  */
 
-import { useState, useEffect, useRef, useCallback } from 'react'
-import { Search, X, Loader2, UtensilsCrossed, ChevronDown } from 'lucide-react'
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import { Search, X, Loader2, UtensilsCrossed, ChevronDown, Plus } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { foodApi } from '../../services/api'
 import { FoodItem } from '../../types'
+import CreateFoodModal from './CreateFoodModal'
 import clsx from 'clsx'
 
 interface FoodSearchInputProps {
@@ -33,6 +35,34 @@ function useDebounce<T>(value: T, delay: number): T {
   return debouncedValue
 }
 
+interface HistorySection {
+  title: string
+  foods: FoodItem[]
+}
+
+// Foods shown per history section
+const HISTORY_LIMIT = 5
+
+// Food name with the words that matched the search emphasised
+const HighlightedName = ({ name, matches }: { name: string; matches?: string[] }) => {
+  if (!matches || matches.length === 0) return <>{name}</>
+
+  const escaped = matches.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  const parts = name.split(new RegExp(`(${escaped.join('|')})`, 'g'))
+
+  return (
+    <>
+      {parts.map((part, i) =>
+        matches.includes(part) ? (
+          <mark key={i} className="bg-transparent text-primary-400">{part}</mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  )
+}
+
 const FoodSearchInput = ({
   value,
   onChange,
@@ -46,6 +76,8 @@ const FoodSearchInput = ({
   const [isLoading, setIsLoading] = useState(false)
   const [selectedIndex, setSelectedIndex] = useState(-1)
   const [hasSearched, setHasSearched] = useState(false)
+  const [showCreate, setShowCreate] = useState(false)
+  const [history, setHistory] = useState<{ recent: FoodItem[]; frequent: FoodItem[] } | null>(null)
 
   const inputRef = useRef<HTMLInputElement>(null)
   const dropdownRef = useRef<HTMLDivElement>(null)
@@ -80,6 +112,36 @@ const FoodSearchInput = ({
     searchFoods()
   }, [debouncedQuery])
 
+  // Frequent foods first, then recent ones not already listed
+  const historySections = useMemo<HistorySection[]>(() => {
+    if (!history) return []
+    const frequent = history.frequent.slice(0, HISTORY_LIMIT)
+    const frequentIds = new Set(frequent.map((food) => food.id))
+    const recent = history.recent.filter((food) => !frequentIds.has(food.id)).slice(0, HISTORY_LIMIT)
+
+    return [
+      { title: 'Frequent', foods: frequent },
+      { title: 'Recent', foods: recent },
+    ].filter((section) => section.foods.length > 0)
+  }, [history])
+
+  const showHistory = value.length === 0
+  const options = showHistory ? historySections.flatMap((section) => section.foods) : results
+
+  const loadHistory = async () => {
+    try {
+      const [recent, frequent] = await Promise.all([foodApi.getRecent(), foodApi.getFrequent()])
+      setHistory({
+        recent: recent.data?.foods ?? [],
+        frequent: frequent.data?.foods ?? [],
+      })
+      setIsOpen(true)
+    } catch (error) {
+      console.error('Food history error:', error)
+      setHistory({ recent: [], frequent: [] })
+    }
+  }
+
   // Handle click outside to close dropdown
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -101,7 +163,7 @@ const FoodSearchInput = ({
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
       if (!isOpen) {
-        if (e.key === 'ArrowDown' && results.length > 0) {
+        if (e.key === 'ArrowDown' && options.length > 0) {
           setIsOpen(true)
           setSelectedIndex(0)
           e.preventDefault()
@@ -112,7 +174,7 @@ const FoodSearchInput = ({
       switch (e.key) {
         case 'ArrowDown':
           e.preventDefault()
-          setSelectedIndex((prev) => (prev < results.length - 1 ? prev + 1 : prev))
+          setSelectedIndex((prev) => (prev < options.length - 1 ? prev + 1 : prev))
           break
         case 'ArrowUp':
           e.preventDefault()
@@ -120,8 +182,8 @@ const FoodSearchInput = ({
           break
         case 'Enter':
           e.preventDefault()
-          if (selectedIndex >= 0 && results[selectedIndex]) {
-            handleSelectFood(results[selectedIndex])
+          if (selectedIndex >= 0 && options[selectedIndex]) {
+            handleSelectFood(options[selectedIndex])
           }
           break
         case 'Escape':
@@ -130,7 +192,7 @@ const FoodSearchInput = ({
           break
       }
     },
-    [isOpen, results, selectedIndex]
+    [isOpen, options, selectedIndex]
   )
 
   const handleSelectFood = (food: FoodItem) => {
@@ -144,6 +206,7 @@ const FoodSearchInput = ({
     onChange('')
     setResults([])
     setHasSearched(false)
+    setIsOpen(historySections.length > 0)
     inputRef.current?.focus()
   }
 
@@ -154,11 +217,68 @@ const FoodSearchInput = ({
   }
 
   const handleFocus = () => {
-    if (results.length > 0 || value.length >= 2) {
+    if (showHistory && history === null) {
+      loadHistory()
+    } else if (options.length > 0 || value.length >= 2) {
       setIsOpen(true)
     }
   }
 
+  const renderFood = (food: FoodItem, index: number) => (
+    <li key={food.id}>
+      <button
+        type="button"
+        onClick={() => handleSelectFood(food)}
+        onMouseEnter={() => setSelectedIndex(index)}
+        className={clsx(
+          'w-full px-4 py-3 text-left transition-colors flex items-start gap-3',
+          index === selectedIndex
+            ? 'bg-primary-500/10'
+            : 'hover:bg-gray-800/50'
+        )}
+      >
+        <div className="w-10 h-10 rounded-lg bg-gray-800 flex items-center justify-center shrink-0">
+          <UtensilsCrossed className="w-5 h-5 text-primary-400" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-white truncate">
+              <HighlightedName name={food.name} matches={food.matches} />
+            </span>
+            {food.source === 'local' && (
+              <span className="px-1.5 py-0.5 text-[10px] font-medium bg-primary-500/20 text-primary-400 rounded">
+                Local
+              </span>
+            )}
+            {food.source === 'ifct' && (
+              <span className="px-1.5 py-0.5 text-[10px] font-medium bg-orange-500/20 text-orange-400 rounded">
+                IFCT
+              </span>
+            )}
+            {food.source === 'custom' && (
+              <span className="px-1.5 py-0.5 text-[10px] font-medium bg-blue-500/20 text-blue-400 rounded">
+                Custom
+              </span>
+            )}
+            {food.source === 'recipe' && (
+              <span className="px-1.5 py-0.5 text-[10px] font-medium bg-accent-500/20 text-accent-400 rounded">
+                Recipe
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-gray-400 truncate">
+            {food.brand} • {food.servingSize} {food.servingUnit}
+            {food.count ? ` • logged ${food.count}×` : ''}
+          </p>
+          <p className="text-xs text-gray-500 mt-0.5">
+            <span className="text-primary-400 font-medium">{food.calories} cal</span>
+            {' • '}P: {food.protein}g • C: {food.carbs}g • F: {food.fat}g
+          </p>
+        </div>
+      </button>
+    </li>
+  )
+
   return (
     <div className={clsx('relative', className)}>
       {/* Search Input */}
@@ -208,7 +328,7 @@ const FoodSearchInput = ({
 
       {/* Dropdown Results */}
       <AnimatePresence>
-        {isOpen && (results.length > 0 || (hasSearched && value.length >= 2)) && (
+        {isOpen && (options.length > 0 || (hasSearched && value.length >= 2)) && (
           <motion.div
             ref={dropdownRef}
             initial={{ opacity: 0, y: -10 }}
@@ -221,59 +341,49 @@ const FoodSearchInput = ({
               border: '1px solid rgb(var(--color-border))',
             }}
           >
-            {results.length > 0 ? (
+            {options.length > 0 ? (
               <ul className="max-h-72 overflow-y-auto py-2">
-                {results.map((food, index) => (
-                  <li key={food.id}>
-                    <button
-                      type="button"
-                      onClick={() => handleSelectFood(food)}
-                      onMouseEnter={() => setSelectedIndex(index)}
-                      className={clsx(
-                        'w-full px-4 py-3 text-left transition-colors flex items-start gap-3',
-                        index === selectedIndex
-                          ? 'bg-primary-500/10'
-                          : 'hover:bg-gray-800/50'
-                      )}
-                    >
-                      <div className="w-10 h-10 rounded-lg bg-gray-800 flex items-center justify-center shrink-0">
-                        <UtensilsCrossed className="w-5 h-5 text-primary-400" />
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center gap-2">
-                          <span className="font-medium text-white truncate">
-                            {food.name}
-                          </span>
-                          {food.source === 'local' && (
-                            <span className="px-1.5 py-0.5 text-[10px] font-medium bg-primary-500/20 text-primary-400 rounded">
-                              Local
-                            </span>
-                          )}
-                        </div>
-                        <p className="text-sm text-gray-400 truncate">
-                          {food.brand} • {food.servingSize} {food.servingUnit}
-                        </p>
-                        <p className="text-xs text-gray-500 mt-0.5">
-                          <span className="text-primary-400 font-medium">{food.calories} cal</span>
-                          {' • '}P: {food.protein}g • C: {food.carbs}g • F: {food.fat}g
-                        </p>
-                      </div>
-                    </button>
-                  </li>
-                ))}
+                {showHistory
+                  ? historySections.map((section, sectionIndex) => {
+                      const offset = historySections
+                        .slice(0, sectionIndex)
+                        .reduce((sum, s) => sum + s.foods.length, 0)
+                      return [
+                        <li
+                          key={section.title}
+                          className="px-4 pt-2 pb-1 text-[11px] font-semibold uppercase tracking-wide text-gray-500"
+                        >
+                          {section.title}
+                        </li>,
+                        ...section.foods.map((food, i) => renderFood(food, offset + i)),
+                      ]
+                    })
+                  : results.map((food, index) => renderFood(food, index))}
               </ul>
             ) : hasSearched && value.length >= 2 ? (
               <div className="px-4 py-6 text-center">
                 <UtensilsCrossed className="w-10 h-10 mx-auto text-gray-600 mb-2" />
                 <p className="text-gray-400 text-sm">No foods found</p>
-                <p className="text-gray-500 text-xs mt-1">
-                  Continue typing to enter custom food
+                <button
+                  type="button"
+                  onClick={() => {
+                    setIsOpen(false)
+                    setShowCreate(true)
+                  }}
+                  className="mt-3 inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-primary-400 
+                           bg-primary-500/10 hover:bg-primary-500/20 rounded-lg transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  Create "{value}"
+                </button>
+                <p className="text-gray-500 text-xs mt-2">
+                  or continue typing to enter it manually
                 </p>
               </div>
             ) : null}
 
             {/* Hint for manual entry */}
-            {results.length > 0 && (
+            {!showHistory && results.length > 0 && (
               <div className="px-4 py-2 border-t border-gray-800 bg-gray-900/50">
                 <p className="text-xs text-gray-500">
                   💡 Select a food or keep typing for custom entry
@@ -283,6 +393,18 @@ const FoodSearchInput = ({
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Create custom food */}
+      {showCreate && (
+        <CreateFoodModal
+          initialName={value}
+          onClose={() => setShowCreate(false)}
+          onCreated={(food) => {
+            setShowCreate(false)
+            handleSelectFood(food)
+          }}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,212 @@
+/**
+ * Serving Units
+ * =============
+ * Client copy of the server's unit conversion (server/src/utils/servingUnits.js),
+ * so nutrition can be recomputed live while the user edits an amount.
+ *
+ * Mass and volume units convert by fixed factors; volumes convert to grams
+ * through the food's density; count units (piece, slice, bowl...) need the
+ * food's own gram weight.
+ */
+
+import { FoodItem, Nutrition } from '../types'
+
+type UnitKind = 'mass' | 'volume' | 'count'
+
+export const UNITS: Record<string, { kind: UnitKind; factor?: number }> = {
+  g: { kind: 'mass', factor: 1 },
+  kg: { kind: 'mass', factor: 1000 },
+  oz: { kind: 'mass', factor: 28.35 },
+  lb: { kind: 'mass', factor: 453.6 },
+  ml: { kind: 'volume', factor: 1 },
+  l: { kind: 'volume', factor: 1000 },
+  tsp: { kind: 'volume', factor: 5 },
+  tbsp: { kind: 'volume', factor: 15 },
+  cup: { kind: 'volume', factor: 240 },
+  glass: { kind: 'volume', factor: 250 },
+  piece: { kind: 'count' },
+  slice: { kind: 'count' },
+  bowl: { kind: 'count' },
+  small: { kind: 'count' },
+  medium: { kind: 'count' },
+  large: { kind: 'count' },
+  serving: { kind: 'count' },
+}
+
+const UNIT_ALIASES: Record<string, string> = {
+  gram: 'g', grams: 'g', gm: 'g', gms: 'g', grm: 'g',
+  kilogram: 'kg', kilograms: 'kg', kgs: 'kg',
+  ounce: 'oz', ounces: 'oz', onz: 'oz',
+  pound: 'lb', pounds: 'lb', lbs: 'lb',
+  milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml', mlt: 'ml',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  teaspoon: 'tsp', teaspoons: 'tsp',
+  tablespoon: 'tbsp', tablespoons: 'tbsp',
+  cups: 'cup',
+  glasses: 'glass',
+  pieces: 'piece', pcs: 'piece', pc: 'piece', each: 'piece', whole: 'piece',
+  slices: 'slice',
+  bowls: 'bowl', katori: 'bowl',
+  servings: 'serving', portion: 'serving', portions: 'serving', plate: 'serving',
+}
+
+const NUTRIENTS = ['calories', 'protein', 'carbs', 'fat', 'fiber', 'sugar', 'sodium'] as const
+
+const MICRONUTRIENTS = [
+  'saturatedFat', 'iron', 'calcium', 'vitaminD', 'vitaminB12', 'folate', 'potassium', 'vitaminC',
+] as const
+
+// Density used for volumes when a food gives none (water)
+const DEFAULT_DENSITY = 1
+
+export interface ScaledNutrition {
+  quantity: number
+  unit: string
+  grams: number | null
+  approximate: boolean
+  nutrition: Nutrition
+}
+
+type ConvertibleFood = Pick<FoodItem, 'servingSize' | 'servingUnit' | 'servingWeight' | 'density' | 'unitWeights'> &
+  Partial<Record<(typeof NUTRIENTS)[number] | (typeof MICRONUTRIENTS)[number], number>>
+
+const round = (value: number, decimals = 1) => {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Canonical unit for a label ("Tablespoons" → "tbsp"), or null if unknown
+ */
+export const parseUnit = (unit?: string | null): string | null => {
+  if (!unit) return null
+  const key = unit.toLowerCase().trim()
+  if (UNITS[key]) return key
+  return UNIT_ALIASES[key] ?? null
+}
+
+const densityOf = (food: ConvertibleFood) => {
+  if (food.density) return { density: food.density, approximate: false }
+
+  const unit = UNITS[parseUnit(food.servingUnit) ?? '']
+  if (unit?.kind === 'volume' && food.servingWeight && food.servingSize) {
+    return { density: food.servingWeight / (food.servingSize * (unit.factor ?? 1)), approximate: false }
+  }
+
+  return { density: DEFAULT_DENSITY, approximate: true }
+}
+
+const gramsPerUnit = (food: ConvertibleFood, unit: string) => {
+  const key = parseUnit(unit) ?? unit
+  const info = UNITS[key]
+
+  if (info?.kind === 'mass') return { grams: info.factor ?? 1, approximate: false }
+
+  if (info?.kind === 'volume') {
+    const { density, approximate } = densityOf(food)
+    return { grams: (info.factor ?? 1) * density, approximate }
+  }
+
+  // Count and custom units need a food-specific weight
+  const weight = food.unitWeights?.[key]
+  if (weight) return { grams: weight, approximate: false }
+
+  if (food.servingWeight) {
+    if (key === parseUnit(food.servingUnit) && food.servingSize) {
+      return { grams: food.servingWeight / food.servingSize, approximate: false }
+    }
+    if (key === 'serving') return { grams: food.servingWeight, approximate: false }
+  }
+
+  return null
+}
+
+const toServings = (food: ConvertibleFood, quantity: number, unit: string) => {
+  const servingSize = food.servingSize || 1
+  const from = parseUnit(unit) ?? unit
+  const to = parseUnit(food.servingUnit) ?? (food.servingUnit || 'serving')
+  const servingGrams = gramsPerUnit(food, to)
+  const grams = (info: { grams: number } | null) => (info ? round(quantity * info.grams) : null)
+
+  // Same unit, or "serving" of the labelled serving - no weights needed
+  if (from === to) {
+    return { servings: quantity / servingSize, grams: grams(servingGrams), approximate: false }
+  }
+  if (from === 'serving') {
+    return {
+      servings: quantity,
+      grams: servingGrams ? round(quantity * servingSize * servingGrams.grams) : null,
+      approximate: false,
+    }
+  }
+
+  // Same kind of measure (cup → tbsp, kg → g) - fixed factors
+  const fromInfo = UNITS[from]
+  const toInfo = UNITS[to]
+  if (fromInfo && toInfo && fromInfo.kind === toInfo.kind && fromInfo.kind !== 'count') {
+    return {
+      servings: (quantity * (fromInfo.factor ?? 1)) / (servingSize * (toInfo.factor ?? 1)),
+      grams: grams(gramsPerUnit(food, from)),
+      approximate: false,
+    }
+  }
+
+  // Anything else goes through grams
+  const unitGrams = gramsPerUnit(food, from)
+  if (!unitGrams || !servingGrams) return null
+
+  return {
+    servings: (quantity * unitGrams.grams) / (servingSize * servingGrams.grams),
+    grams: grams(unitGrams),
+    approximate: unitGrams.approximate || servingGrams.approximate,
+  }
+}
+
+/**
+ * Scale a food's nutrition to `quantity` of `unit`, or null if the unit
+ * is not convertible for this food
+ */
+export const scaleNutrition = (
+  food: ConvertibleFood,
+  quantity: number,
+  unit: string
+): ScaledNutrition | null => {
+  const result = toServings(food, quantity, unit)
+  if (!result) return null
+
+  const nutrition: Nutrition = { calories: 0, protein: 0, carbs: 0, fat: 0 }
+  for (const nutrient of NUTRIENTS) {
+    const value = food[nutrient]
+    if (value !== undefined && value !== null) {
+      nutrition[nutrient] = round(value * result.servings)
+    }
+  }
+  for (const nutrient of MICRONUTRIENTS) {
+    const value = food[nutrient]
+    if (value !== undefined && value !== null) {
+      nutrition[nutrient] = round(value * result.servings, 2)
+    }
+  }
+  nutrition.calories = Math.round(nutrition.calories)
+
+  return {
+    quantity,
+    unit: parseUnit(unit) ?? unit,
+    grams: result.grams,
+    approximate: result.approximate,
+    nutrition,
+  }
+}
+
+/**
+ * Units a food can be measured in without guessing, labelled serving unit first
+ */
+export const availableUnits = (food: ConvertibleFood): string[] => {
+  const servingUnit = parseUnit(food.servingUnit) ?? (food.servingUnit || 'serving')
+  const units = [servingUnit, ...Object.keys(food.unitWeights ?? {}), ...Object.keys(UNITS)]
+
+  return [...new Set(units)].filter((unit) => {
+    const result = toServings(food, 1, unit)
+    return result !== null && !result.approximate
+  })
+}
@@ -0,0 +1,77 @@
+/**
+ * Timezones
+ * =========
+ * Dates and times shown in the user's own timezone (User.timezone), which is
+ * also the zone the server counts days in. Days travel as "YYYY-MM-DD" keys.
+ */
+
+import type { User } from '../types'
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * The browser's IANA timezone (e.g. "Asia/Kolkata")
+ */
+export const browserTimezone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+
+/**
+ * A user's timezone, or the browser's before one is set
+ */
+export const userTimezone = (user?: Pick<User, 'timezone'> | null): string =>
+  user?.timezone || browserTimezone()
+
+/**
+ * IANA timezones the browser knows, for pickers
+ */
+export const timezoneOptions = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] }
+  return intl.supportedValuesOf?.('timeZone') ?? [browserTimezone(), 'UTC']
+}
+
+/**
+ * "YYYY-MM-DD" of an instant in a timezone
+ */
+export const dateKeyIn = (date: Date | string, timezone: string): string =>
+  // en-CA formats dates as YYYY-MM-DD
+  new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date(date))
+
+/**
+ * Today's date key in a timezone
+ */
+export const todayIn = (timezone: string): string => dateKeyIn(new Date(), timezone)
+
+/**
+ * Hour of the day (0-23) in a timezone
+ */
+export const hourIn = (timezone: string, date: Date | string = new Date()): number =>
+  Number(
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: 'numeric', hourCycle: 'h23' }).format(new Date(date))
+  )
+
+/**
+ * Format an instant in a timezone
+ */
+export const formatIn = (
+  date: Date | string,
+  timezone: string,
+  options: Intl.DateTimeFormatOptions
+): string => new Date(date).toLocaleString('en-US', { ...options, timeZone: timezone })
+
+/**
+ * Format a "YYYY-MM-DD" day key (or an instant, in `timezone`) as a calendar date.
+ * Day keys are not shifted by the browser's timezone.
+ */
+export const formatDay = (
+  day: string,
+  options: Intl.DateTimeFormatOptions,
+  timezone = 'UTC'
+): string => {
+  const key = DATE_KEY.test(day) ? day : dateKeyIn(day, timezone)
+  return new Date(`${key}T12:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' })
+}
@@ -14,12 +14,19 @@ import {
   TrendingUp,
   Plus,
   Sparkles,
-  UtensilsCrossed
+  UtensilsCrossed,
+  X,
+  Clock,
+  ThumbsUp,
+  ThumbsDown
 } from 'lucide-react'
 import { dashboardApi, recommendationApi } from '../services/api'
 import { DashboardData, Recommendation } from '../types'
+import { useAuthStore } from '../stores/authStore'
+import { formatDay, formatIn, hourIn, userTimezone } from '../lib/timezone'
 import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, Tooltip } from 'recharts'
 import clsx from 'clsx'
+import toast from 'react-hot-toast'
 
 // Progress Ring Component
 const ProgressRing = ({ 
@@ -137,6 +144,7 @@ const StatCard = ({
 }
 
 const Dashboard = () => {
+  const timezone = userTimezone(useAuthStore((state) => state.user))
   const [data, setData] = useState<DashboardData | null>(null)
   const [recommendations, setRecommendations] = useState<Recommendation[]>([])
   const [isLoading, setIsLoading] = useState(true)
@@ -153,7 +161,7 @@ const Dashboard = () => {
           setData(dashboardRes.data)
         }
         if (recsRes.success && recsRes.data) {
-          setRecommendations(recsRes.data.recommendations.slice(0, 3))
+          setRecommendations(recsRes.data.recommendations)
         }
       } catch (error) {
         console.error('Failed to fetch dashboard:', error)
@@ -165,6 +173,25 @@ const Dashboard = () => {
     fetchData()
   }, [])
 
+  // Dismissed and snoozed cards make room for the next ones
+  const hideRecommendation = async (rec: Recommendation, action: 'dismiss' | 'snooze') => {
+    try {
+      await (action === 'dismiss' ? recommendationApi.dismiss(rec.id) : recommendationApi.snooze(rec.id))
+      setRecommendations((recs) => recs.filter((r) => r.id !== rec.id))
+    } catch {
+      toast.error('Failed to update recommendation')
+    }
+  }
+
+  const rateRecommendation = async (rec: Recommendation, helpful: boolean) => {
+    try {
+      await recommendationApi.rate(rec.id, helpful)
+      setRecommendations((recs) => recs.map((r) => (r.id === rec.id ? { ...r, helpful } : r)))
+    } catch {
+      toast.error('Failed to save rating')
+    }
+  }
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -189,7 +216,7 @@ const Dashboard = () => {
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-display font-bold text-white">
-            Good {new Date().getHours() < 12 ? 'morning' : new Date().getHours() < 18 ? 'afternoon' : 'evening'}! 👋
+            Good {hourIn(timezone) < 12 ? 'morning' : hourIn(timezone) < 18 ? 'afternoon' : 'evening'}! 👋
           </h2>
           <p className="text-gray-400 mt-1">
             Here's your nutrition summary for today
@@ -280,7 +307,7 @@ const Dashboard = () => {
               <BarChart data={weeklyChart}>
                 <XAxis 
                   dataKey="date" 
-                  tickFormatter={(date) => new Date(date).toLocaleDateString('en-US', { weekday: 'short' })}
+                  tickFormatter={(date) => formatDay(date, { weekday: 'short' })}
                   axisLine={false}
                   tickLine={false}
                   tick={{ fill: '#9ca3af', fontSize: 12 }}
@@ -297,7 +324,7 @@ const Dashboard = () => {
                     borderRadius: '12px',
                     color: '#fff',
                   }}
-                  labelFormatter={(date) => new Date(date).toLocaleDateString('en-US', { 
+                  labelFormatter={(date) => formatDay(date, { 
                     weekday: 'long', 
                     month: 'short', 
                     day: 'numeric' 
@@ -322,16 +349,46 @@ const Dashboard = () => {
 
           {recommendations.length > 0 ? (
             <div className="space-y-4">
-              {recommendations.map((rec, index) => (
+              {recommendations.slice(0, 3).map((rec) => (
                 <div 
-                  key={index}
+                  key={rec.id}
                   className="flex items-start gap-3 p-4 bg-gray-800/50 rounded-xl"
                 >
                   <span className="text-2xl">{rec.icon}</span>
                   <div className="flex-1">
                     <h4 className="font-medium text-white text-sm">{rec.title}</h4>
                     <p className="text-gray-400 text-xs mt-1">{rec.message}</p>
+                    <div className="flex items-center gap-3 mt-2 text-gray-500">
+                      <button
+                        onClick={() => rateRecommendation(rec, true)}
+                        className={clsx('hover:text-primary-400', rec.helpful === true && 'text-primary-400')}
+                        title="Helpful"
+                      >
+                        <ThumbsUp className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => rateRecommendation(rec, false)}
+                        className={clsx('hover:text-red-400', rec.helpful === false && 'text-red-400')}
+                        title="Not helpful"
+                      >
+                        <ThumbsDown className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => hideRecommendation(rec, 'snooze')}
+                        className="hover:text-gray-300"
+                        title="Remind me later"
+                      >
+                        <Clock className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
                   </div>
+                  <button
+                    onClick={() => hideRecommendation(rec, 'dismiss')}
+                    className="text-gray-500 hover:text-gray-300"
+                    title="Dismiss for today"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
                 </div>
               ))}
             </div>
@@ -373,7 +430,7 @@ const Dashboard = () => {
                   </div>
                 </div>
                 <span className="text-sm text-gray-400">
-                  {new Date(meal.consumedAt).toLocaleTimeString('en-US', { 
+                  {formatIn(meal.consumedAt, timezone, { 
                     hour: 'numeric', 
                     minute: '2-digit' 
                   })}
@@ -21,13 +21,16 @@ import {
 } from 'lucide-react'
 import { useVirtualizer } from '@tanstack/react-virtual'
 import { motion, AnimatePresence } from 'framer-motion'
-import { mealApi } from '../services/api'
-import { Meal, MealType, MealFormData, FoodItem } from '../types'
+import { mealApi, foodApi } from '../services/api'
+import { Meal, MealType, MealFormData, FoodItem, ServingUnit } from '../types'
 import clsx from 'clsx'
 import toast from 'react-hot-toast'
-import { format } from 'date-fns'
+import { addDays, format, parseISO } from 'date-fns'
 import { MealItemSkeleton } from '../components/ui/Skeleton'
 import FoodSearchInput from '../components/ui/FoodSearchInput'
+import { availableUnits, parseUnit, scaleNutrition } from '../lib/servingUnits'
+import { formatIn, todayIn, userTimezone } from '../lib/timezone'
+import { useAuthStore } from '../stores/authStore'
 
 // Meal Type Badge Component
 const MealTypeBadge = ({ type }: { type: MealType }) => {
@@ -61,6 +64,7 @@ const VirtualizedMealList = ({
   onToggleFavorite: (id: string) => void
   onAddFirst: () => void
 }) => {
+  const timezone = userTimezone(useAuthStore((state) => state.user))
   const parentRef = useRef<HTMLDivElement>(null)
 
   // Virtual list configuration
@@ -138,7 +142,7 @@ const VirtualizedMealList = ({
                             <MealTypeBadge type={meal.mealType} />
                           </div>
                           <p className="text-sm text-gray-400 mt-1">
-                            {format(new Date(meal.consumedAt), 'h:mm a')}
+                            {formatIn(meal.consumedAt, timezone, { hour: 'numeric', minute: '2-digit' })}
                           </p>
                           <div className="flex items-center gap-4 mt-2 text-sm">
                             <span className="text-primary-400">{meal.nutrition.calories} kcal</span>
@@ -185,6 +189,9 @@ const VirtualizedMealList = ({
   )
 }
 
+// meal_* ids are past log entries without a food-database ID
+const isDatabaseFood = (food: FoodItem) => !food.id.startsWith('meal_')
+
 // Add Meal Modal Component
 const AddMealModal = ({ 
   isOpen, 
@@ -204,8 +211,17 @@ const AddMealModal = ({
   })
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [selectedFood, setSelectedFood] = useState<FoodItem | null>(null)
+  // Amount being logged of the selected food (kept as text while typing)
+  const [serving, setServing] = useState({ amount: '', unit: 'serving' })
+
+  // Foods already in the meal being edited
+  const editItems = editMeal?.items ?? []
+  // Nutrition is calculated from the meal's foods rather than typed in
+  const isItemised = !!formData.items?.length || editItems.length > 0
 
   useEffect(() => {
+    let cancelled = false
+
     if (editMeal) {
       setFormData({
         name: editMeal.name,
@@ -215,6 +231,18 @@ const AddMealModal = ({
         notes: editMeal.notes,
       })
       setSelectedFood(null)
+
+      // A single-food meal can be rescaled, which needs the food itself
+      const [item] = editMeal.items ?? []
+      if (editMeal.items?.length === 1 && item.foodId) {
+        foodApi.getById(item.foodId)
+          .then((response) => {
+            if (cancelled || !response.success || !response.data) return
+            setSelectedFood(response.data.food)
+            setServing({ amount: String(item.quantity), unit: item.unit })
+          })
+          .catch(() => {})
+      }
     } else {
       setFormData({
         name: '',
@@ -223,6 +251,10 @@ const AddMealModal = ({
       })
       setSelectedFood(null)
     }
+
+    return () => {
+      cancelled = true
+    }
   }, [editMeal, isOpen])
 
   if (!isOpen) return null
@@ -241,9 +273,13 @@ const AddMealModal = ({
   // Handle food selection from search
   const handleFoodSelect = (food: FoodItem) => {
     setSelectedFood(food)
+    setServing({ amount: String(food.servingSize), unit: parseUnit(food.servingUnit) ?? 'serving' })
     setFormData({
       ...formData,
       name: food.name,
+      items: isDatabaseFood(food)
+        ? [{ foodId: food.id, quantity: food.servingSize, unit: parseUnit(food.servingUnit) ?? 'serving' }]
+        : undefined,
       nutrition: {
         calories: food.calories,
         protein: food.protein,
@@ -253,11 +289,36 @@ const AddMealModal = ({
       },
       servingSize: {
         amount: food.servingSize,
-        unit: food.servingUnit as MealFormData['servingSize'] extends { unit: infer U } ? U : 'g',
+        unit: (parseUnit(food.servingUnit) ?? 'serving') as ServingUnit,
       },
     })
   }
 
+  // Recompute nutrition for the selected food when the amount or unit changes
+  const handleServingChange = (amount: string, unit: string) => {
+    setServing({ amount, unit })
+    if (!selectedFood) return
+
+    const quantity = parseFloat(amount)
+    if (!quantity || quantity <= 0) return
+
+    const scaled = scaleNutrition(selectedFood, quantity, unit)
+    if (!scaled) return
+
+    setFormData({
+      ...formData,
+      items: isDatabaseFood(selectedFood)
+        ? [{ foodId: selectedFood.id, quantity, unit: scaled.unit }]
+        : undefined,
+      nutrition: scaled.nutrition,
+      servingSize: { amount: quantity, unit: scaled.unit as ServingUnit },
+    })
+  }
+
+  const scaledServing = selectedFood && parseFloat(serving.amount) > 0
+    ? scaleNutrition(selectedFood, parseFloat(serving.amount), serving.unit)
+    : null
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
       <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
@@ -280,7 +341,7 @@ const AddMealModal = ({
             <label className="label">Search Food</label>
             <FoodSearchInput
               value={formData.name}
-              onChange={(name) => setFormData({ ...formData, name })}
+              onChange={(name) => setFormData({ ...formData, name, items: undefined })}
               onFoodSelect={handleFoodSelect}
               placeholder="Type to search foods..."
               disabled={!!editMeal}
@@ -306,23 +367,77 @@ const AddMealModal = ({
                   {selectedFood.brand} • {selectedFood.servingSize} {selectedFood.servingUnit}
                 </p>
               </div>
-              <button
-                type="button"
-                onClick={() => {
-                  setSelectedFood(null)
-                  setFormData({
-                    ...formData,
-                    name: '',
-                    nutrition: { calories: 0, protein: 0, carbs: 0, fat: 0 },
-                  })
-                }}
-                className="p-1 hover:bg-gray-800 rounded-lg transition-colors"
-              >
-                <X className="w-4 h-4 text-gray-400" />
-              </button>
+              {!editMeal && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSelectedFood(null)
+                    setFormData({
+                      ...formData,
+                      name: '',
+                      items: undefined,
+                      nutrition: { calories: 0, protein: 0, carbs: 0, fat: 0 },
+                    })
+                  }}
+                  className="p-1 hover:bg-gray-800 rounded-lg transition-colors"
+                >
+                  <X className="w-4 h-4 text-gray-400" />
+                </button>
+              )}
             </motion.div>
           )}
 
+          {/* Amount - nutrition below follows it */}
+          {selectedFood && (
+            <div>
+              <label className="label">Amount</label>
+              <div className="grid grid-cols-2 gap-3">
+                <input
+                  type="number"
+                  value={serving.amount}
+                  onChange={(e) => handleServingChange(e.target.value, serving.unit)}
+                  className="input-field"
+                  min="0.1"
+                  step="any"
+                />
+                <select
+                  value={serving.unit}
+                  onChange={(e) => handleServingChange(serving.amount, e.target.value)}
+                  className="input-field"
+                >
+                  {availableUnits(selectedFood).map((unit) => (
+                    <option key={unit} value={unit}>{unit}</option>
+                  ))}
+                </select>
+              </div>
+              {scaledServing?.grams && (
+                <p className="text-xs text-gray-500 mt-1.5">
+                  ≈ {scaledServing.grams} g{scaledServing.approximate ? ' (estimated)' : ''}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Foods in a multi-food meal (not editable here) */}
+          {editItems.length > 1 && (
+            <div>
+              <label className="label">Foods</label>
+              <ul className="space-y-1.5">
+                {editItems.map((item, index) => (
+                  <li
+                    key={item._id ?? index}
+                    className="flex items-center justify-between p-2.5 bg-gray-800/50 rounded-lg text-sm"
+                  >
+                    <span className="text-white truncate">{item.name}</span>
+                    <span className="text-gray-400 shrink-0 ml-3">
+                      {item.quantity} {item.unit} • {item.nutrition.calories} cal
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Meal Type */}
           <div>
             <label className="label">Meal Type</label>
@@ -348,6 +463,11 @@ const AddMealModal = ({
           {/* Nutrition Grid */}
           <div>
             <label className="label">Nutrition Information</label>
+            {isItemised && (
+              <p className="text-xs text-gray-500 -mt-1 mb-2">
+                Calculated from the foods in this meal
+              </p>
+            )}
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="text-xs text-gray-500">Calories (kcal)</label>
@@ -359,6 +479,7 @@ const AddMealModal = ({
                     nutrition: { ...formData.nutrition, calories: Number(e.target.value) }
                   })}
                   className="input-field mt-1"
+                  readOnly={isItemised}
                   placeholder="0"
                   required
                   min="0"
@@ -375,6 +496,7 @@ const AddMealModal = ({
                     nutrition: { ...formData.nutrition, protein: Number(e.target.value) }
                   })}
                   className="input-field mt-1"
+                  readOnly={isItemised}
                   placeholder="0"
                   min="0"
                   step="0.1"
@@ -390,6 +512,7 @@ const AddMealModal = ({
                     nutrition: { ...formData.nutrition, carbs: Number(e.target.value) }
                   })}
                   className="input-field mt-1"
+                  readOnly={isItemised}
                   placeholder="0"
                   min="0"
                   step="0.1"
@@ -405,6 +528,7 @@ const AddMealModal = ({
                     nutrition: { ...formData.nutrition, fat: Number(e.target.value) }
                   })}
                   className="input-field mt-1"
+                  readOnly={isItemised}
                   placeholder="0"
                   min="0"
                   step="0.1"
@@ -439,9 +563,11 @@ const AddMealModal = ({
 }
 
 const MealLog = () => {
+  const timezone = userTimezone(useAuthStore((state) => state.user))
   const [meals, setMeals] = useState<Meal[]>([])
   const [isLoading, setIsLoading] = useState(true)
-  const [selectedDate, setSelectedDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+  // Day keys are in the user's timezone, matching how the server buckets meals
+  const [selectedDate, setSelectedDate] = useState(() => todayIn(timezone))
   const [filterType, setFilterType] = useState<MealType | 'all'>('all')
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [editingMeal, setEditingMeal] = useState<Meal | null>(null)
@@ -541,9 +667,7 @@ const MealLog = () => {
   }
 
   const changeDate = (days: number) => {
-    const date = new Date(selectedDate)
-    date.setDate(date.getDate() + days)
-    setSelectedDate(format(date, 'yyyy-MM-dd'))
+    setSelectedDate(format(addDays(parseISO(selectedDate), days), 'yyyy-MM-dd'))
     setPage(1)
   }
 
@@ -17,9 +17,15 @@ import {
   ChevronLeft,
   ChevronRight,
   Sparkles,
+  CheckCircle2,
+  Undo2,
+  ShoppingCart,
+  Download,
+  X,
 } from 'lucide-react'
 import { format, addDays, startOfWeek, isSameDay } from 'date-fns'
 import { mealPlanApi } from '../services/api'
+import { GroceryList } from '../types'
 import { AnimatedContainer, AnimatedItem, AnimatedButton } from '../components/ui/PageTransition'
 import clsx from 'clsx'
 import toast from 'react-hot-toast'
@@ -33,15 +39,18 @@ interface PlannedMeal {
   carbs: number
   fat: number
   notes?: string
+  isCompleted: boolean
 }
 
 interface DayPlan {
   date: string
+  dayOfWeek: number
   meals: PlannedMeal[]
   totalCalories: number
 }
 
 interface WeekPlan {
+  planId: string
   weekStart: string
   days: DayPlan[]
 }
@@ -54,6 +63,9 @@ const MEAL_TYPES = [
   { type: 'snack', label: 'Snacks', icon: '🍎', time: 'Any time', color: 'green' },
 ]
 
+// Portion multipliers offered when logging a planned meal
+const PORTIONS = [0.5, 1, 1.5, 2]
+
 // Sample meal suggestions
 const MEAL_SUGGESTIONS = [
   { name: 'Oatmeal with fruits', mealType: 'breakfast', calories: 320, protein: 8, carbs: 54, fat: 8 },
@@ -66,6 +78,134 @@ const MEAL_SUGGESTIONS = [
   { name: 'Mixed nuts', mealType: 'snack', calories: 170, protein: 5, carbs: 8, fat: 15 },
 ]
 
+// Shopping list for the week, grouped by food category
+const GroceryListModal = ({ planId, onClose }: { planId: string; onClose: () => void }) => {
+  const [list, setList] = useState<GroceryList | null>(null)
+
+  useEffect(() => {
+    mealPlanApi.getGroceryList(planId)
+      .then((response) => {
+        if (response.success && response.data) setList(response.data)
+      })
+      .catch(() => toast.error('Failed to load shopping list'))
+  }, [planId])
+
+  const handleToggle = async (itemKey: string, checked: boolean) => {
+    if (!list) return
+
+    // Optimistic update
+    setList({
+      ...list,
+      checkedItems: list.checkedItems + (checked ? 1 : -1),
+      categories: list.categories.map((group) => ({
+        ...group,
+        items: group.items.map((item) => (item.key === itemKey ? { ...item, checked } : item)),
+      })),
+    })
+
+    try {
+      await mealPlanApi.checkGroceryItem(planId, itemKey, checked)
+    } catch (error) {
+      toast.error('Failed to update item')
+    }
+  }
+
+  const handleExport = async (fileFormat: 'text' | 'csv') => {
+    try {
+      const blob = await mealPlanApi.exportGroceryList(planId, fileFormat)
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `shopping-list-${list?.weekStart}.${fileFormat === 'csv' ? 'csv' : 'txt'}`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      toast.error('Failed to export shopping list')
+    }
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="glass-card w-full max-w-lg p-6 max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <ShoppingCart className="w-5 h-5 text-primary-400" />
+            Shopping List
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-gray-800 rounded-lg">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {!list ? (
+          <p className="text-gray-400 text-center py-8">Loading...</p>
+        ) : list.totalItems === 0 ? (
+          <p className="text-gray-400 text-center py-8">No meals planned this week</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-400 mb-4">
+              {list.checkedItems} of {list.totalItems} items checked
+            </p>
+            <div className="overflow-y-auto space-y-4 pr-1">
+              {list.categories.map(({ category, items }) => (
+                <div key={category}>
+                  <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                    {category}
+                  </p>
+                  <div className="space-y-1">
+                    {items.map((item) => (
+                      <label
+                        key={item.key}
+                        className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-800/50 cursor-pointer"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={item.checked}
+                          onChange={(e) => handleToggle(item.key, e.target.checked)}
+                          className="w-4 h-4 accent-primary-500"
+                        />
+                        <span className={clsx(
+                          'flex-1 text-sm',
+                          item.checked ? 'text-gray-500 line-through' : 'text-white'
+                        )}>
+                          {item.name}
+                        </span>
+                        <span className="text-xs text-gray-400">{item.display}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-3 mt-6">
+              <button onClick={() => handleExport('text')} className="btn-secondary flex-1 flex items-center justify-center gap-2">
+                <Download size={16} />
+                Text
+              </button>
+              <button onClick={() => handleExport('csv')} className="btn-secondary flex-1 flex items-center justify-center gap-2">
+                <Download size={16} />
+                CSV
+              </button>
+            </div>
+          </>
+        )}
+      </motion.div>
+    </motion.div>
+  )
+}
+
 const MealPlanner = () => {
   const [weekPlan, setWeekPlan] = useState<WeekPlan | null>(null)
   const [selectedDate, setSelectedDate] = useState<Date>(new Date())
@@ -73,6 +213,9 @@ const MealPlanner = () => {
   const [isLoading, setIsLoading] = useState(true)
   const [showAddModal, setShowAddModal] = useState(false)
   const [selectedMealType, setSelectedMealType] = useState<string>('breakfast')
+  const [completingMealId, setCompletingMealId] = useState<string | null>(null)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [showGroceryList, setShowGroceryList] = useState(false)
 
   // Form state
   const [newMeal, setNewMeal] = useState({
@@ -153,6 +296,56 @@ const MealPlanner = () => {
     }
   }
 
+  const handleCompleteMeal = async (dayPlan: DayPlan, meal: PlannedMeal, portion: number) => {
+    if (!weekPlan) return
+    try {
+      const response = await mealPlanApi.complete(weekPlan.planId, dayPlan.dayOfWeek, meal._id, { portion })
+      if (response.success) {
+        toast.success('Logged to your meals!')
+        setCompletingMealId(null)
+        fetchWeekPlan()
+      }
+    } catch (error) {
+      toast.error('Failed to log meal')
+    }
+  }
+
+  const handleUncompleteMeal = async (dayPlan: DayPlan, meal: PlannedMeal) => {
+    if (!weekPlan) return
+    try {
+      const response = await mealPlanApi.uncomplete(weekPlan.planId, dayPlan.dayOfWeek, meal._id)
+      if (response.success) {
+        toast.success('Meal log removed')
+        fetchWeekPlan()
+      }
+    } catch (error) {
+      toast.error('Failed to undo meal')
+    }
+  }
+
+  const handleGenerateWeek = async () => {
+    const hasPlannedMeals = weekPlan?.days.some(d => d.meals.some(m => !m.isCompleted))
+    if (hasPlannedMeals && !confirm('Replace the meals already planned for this week?')) return
+
+    setIsGenerating(true)
+    try {
+      const response = await mealPlanApi.generate({
+        weekStart: format(weekStart, 'yyyy-MM-dd'),
+        replace: hasPlannedMeals,
+      })
+      if (response.success && response.data) {
+        const { daysWithinTolerance, report, warnings } = response.data
+        toast.success(`Week generated: ${daysWithinTolerance}/${report.length} days on target`)
+        warnings.forEach(warning => toast(warning, { icon: '⚠️' }))
+        fetchWeekPlan()
+      }
+    } catch (error) {
+      toast.error('Failed to generate meal plan')
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
   const handleUseSuggestion = (suggestion: typeof MEAL_SUGGESTIONS[0]) => {
     setNewMeal({
       name: suggestion.name,
@@ -165,12 +358,18 @@ const MealPlanner = () => {
     setSelectedMealType(suggestion.mealType)
   }
 
-  const handleCopyDay = async (fromDate: string) => {
+  const handleCopyDay = async (fromDate: Date) => {
+    const toDate = addDays(fromDate, 1)
     try {
-      const response = await mealPlanApi.copyDay(fromDate, format(selectedDate, 'yyyy-MM-dd'))
+      const response = await mealPlanApi.copyDay(format(fromDate, 'yyyy-MM-dd'), format(toDate, 'yyyy-MM-dd'))
       if (response.success) {
-        toast.success('Day copied successfully!')
-        fetchWeekPlan()
+        toast.success(`Copied to ${format(toDate, 'EEEE')}!`)
+        setSelectedDate(toDate)
+        if (isSameDay(toDate, addDays(weekStart, 7))) {
+          setWeekStart(toDate)
+        } else {
+          fetchWeekPlan()
+        }
       }
     } catch (error) {
       toast.error('Failed to copy day')
@@ -198,13 +397,31 @@ const MealPlanner = () => {
             </h2>
             <p className="text-gray-400 mt-1">Plan your meals for the week</p>
           </div>
-          <AnimatedButton
-            onClick={() => setShowAddModal(true)}
-            className="btn-primary flex items-center gap-2"
-          >
-            <Plus size={20} />
-            Add Meal
-          </AnimatedButton>
+          <div className="flex items-center gap-2">
+            <AnimatedButton
+              onClick={() => setShowGroceryList(true)}
+              disabled={!weekPlan}
+              className="btn-secondary flex items-center gap-2"
+            >
+              <ShoppingCart size={18} />
+              Shopping List
+            </AnimatedButton>
+            <AnimatedButton
+              onClick={handleGenerateWeek}
+              disabled={isGenerating}
+              className="btn-secondary flex items-center gap-2"
+            >
+              <Sparkles size={18} />
+              {isGenerating ? 'Generating...' : 'Generate Week'}
+            </AnimatedButton>
+            <AnimatedButton
+              onClick={() => setShowAddModal(true)}
+              className="btn-primary flex items-center gap-2"
+            >
+              <Plus size={20} />
+              Add Meal
+            </AnimatedButton>
+          </div>
         </div>
       </AnimatedItem>
 
@@ -296,11 +513,11 @@ const MealPlanner = () => {
             </div>
             {getDayPlan(selectedDate)?.meals.length ? (
               <button
-                onClick={() => handleCopyDay(format(selectedDate, 'yyyy-MM-dd'))}
+                onClick={() => handleCopyDay(selectedDate)}
                 className="btn-ghost flex items-center gap-2"
               >
                 <Copy size={16} />
-                Copy Day
+                Copy to Next Day
               </button>
             ) : null}
           </div>
@@ -344,10 +561,45 @@ const MealPlanner = () => {
                             >
                               <Trash2 className="w-3 h-3 text-red-400" />
                             </button>
-                            <p className="font-medium text-white text-sm pr-6">{meal.name}</p>
+                            <p className={clsx(
+                              'font-medium text-sm pr-6',
+                              meal.isCompleted ? 'text-gray-400 line-through' : 'text-white'
+                            )}>
+                              {meal.name}
+                            </p>
                             <p className="text-xs text-gray-400 mt-1">
                               {meal.calories} cal • P: {meal.protein}g • C: {meal.carbs}g • F: {meal.fat}g
                             </p>
+
+                            {meal.isCompleted ? (
+                              <button
+                                onClick={() => handleUncompleteMeal(getDayPlan(selectedDate)!, meal)}
+                                className="mt-2 flex items-center gap-1 text-xs text-primary-400 hover:text-primary-300"
+                              >
+                                <Undo2 size={12} />
+                                Logged • Undo
+                              </button>
+                            ) : completingMealId === meal._id ? (
+                              <div className="mt-2 flex items-center gap-1">
+                                {PORTIONS.map((portion) => (
+                                  <button
+                                    key={portion}
+                                    onClick={() => handleCompleteMeal(getDayPlan(selectedDate)!, meal, portion)}
+                                    className="flex-1 py-1 rounded bg-gray-700 hover:bg-primary-600 text-xs text-white transition-colors"
+                                  >
+                                    {portion}x
+                                  </button>
+                                ))}
+                              </div>
+                            ) : (
+                              <button
+                                onClick={() => setCompletingMealId(meal._id)}
+                                className="mt-2 flex items-center gap-1 text-xs text-gray-400 hover:text-green-400"
+                              >
+                                <CheckCircle2 size={12} />
+                                Mark as eaten
+                              </button>
+                            )}
                           </motion.div>
                         ))}
                       </motion.div>
@@ -527,6 +779,13 @@ const MealPlanner = () => {
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Shopping List Modal */}
+      <AnimatePresence>
+        {showGroceryList && weekPlan && (
+          <GroceryListModal planId={weekPlan.planId} onClose={() => setShowGroceryList(false)} />
+        )}
+      </AnimatePresence>
     </AnimatedContainer>
   )
 }
@@ -18,9 +18,12 @@ import {
 } from 'lucide-react'
 import { useAuthStore } from '../stores/authStore'
 import { authApi } from '../services/api'
+import { timezoneOptions, userTimezone } from '../lib/timezone'
 import toast from 'react-hot-toast'
 import clsx from 'clsx'
 
+const TIMEZONES = timezoneOptions()
+
 const Profile = () => {
   const { user, updateUser } = useAuthStore()
   const [isLoading, setIsLoading] = useState(false)
@@ -28,6 +31,7 @@ const Profile = () => {
 
   const [profileData, setProfileData] = useState({
     name: user?.name || '',
+    timezone: userTimezone(user),
     profile: {
       age: user?.profile?.age || '',
       gender: user?.profile?.gender || '',
@@ -35,6 +39,7 @@ const Profile = () => {
       weight: user?.profile?.weight || '',
       activityLevel: user?.profile?.activityLevel || 'moderate',
       goal: user?.profile?.goal || 'maintain',
+      lifeStage: user?.profile?.lifeStage || 'none',
     },
   })
 
@@ -47,11 +52,17 @@ const Profile = () => {
     water: user?.dailyTargets?.water || 8,
   })
 
+  // Keep the saved zone selectable even if the browser doesn't list it (e.g. "UTC")
+  const timezones = TIMEZONES.includes(profileData.timezone)
+    ? TIMEZONES
+    : [profileData.timezone, ...TIMEZONES]
+
   const handleProfileSave = async () => {
     setIsLoading(true)
     try {
       const response = await authApi.updateProfile({
         name: profileData.name,
+        timezone: profileData.timezone,
         profile: {
           age: Number(profileData.profile.age) || undefined,
           gender: profileData.profile.gender as 'male' | 'female' | 'other' | 'prefer-not-to-say' || undefined,
@@ -59,6 +70,7 @@ const Profile = () => {
           weight: Number(profileData.profile.weight) || undefined,
           activityLevel: profileData.profile.activityLevel as 'sedentary' | 'light' | 'moderate' | 'active' | 'very-active',
           goal: profileData.profile.goal as 'lose-weight' | 'maintain' | 'gain-weight' | 'build-muscle',
+          lifeStage: profileData.profile.lifeStage as 'none' | 'pregnant' | 'breastfeeding',
         },
       })
 
@@ -263,6 +275,43 @@ const Profile = () => {
                 </div>
               </div>
 
+              {/* Life Stage (vitamin and mineral targets) */}
+              <div>
+                <label className="label">Pregnancy / Breastfeeding</label>
+                <div className="relative">
+                  <select
+                    value={profileData.profile.lifeStage}
+                    onChange={(e) => setProfileData({
+                      ...profileData,
+                      profile: { ...profileData.profile, lifeStage: e.target.value as 'none' | 'pregnant' | 'breastfeeding' }
+                    })}
+                    className="input-field appearance-none"
+                  >
+                    <option value="none">Neither</option>
+                    <option value="pregnant">Pregnant</option>
+                    <option value="breastfeeding">Breastfeeding</option>
+                  </select>
+                  <ChevronDown className="absolute right-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-500 pointer-events-none" />
+                </div>
+              </div>
+
+              {/* Timezone (when your day starts and ends) */}
+              <div>
+                <label className="label">Timezone</label>
+                <div className="relative">
+                  <select
+                    value={profileData.timezone}
+                    onChange={(e) => setProfileData({ ...profileData, timezone: e.target.value })}
+                    className="input-field appearance-none"
+                  >
+                    {timezones.map((zone) => (
+                      <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                    ))}
+                  </select>
+                  <ChevronDown className="absolute right-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-500 pointer-events-none" />
+                </div>
+              </div>
+
               {/* Goal */}
               <div className="md:col-span-2">
                 <label className="label">Fitness Goal</label>
@@ -33,7 +33,8 @@ import {
   CartesianGrid,
   Legend,
 } from 'recharts'
-import { dashboardApi, authApi } from '../services/api'
+import { dashboardApi, measurementApi } from '../services/api'
+import { formatDay } from '../lib/timezone'
 import { AnimatedContainer, AnimatedItem } from '../components/ui/PageTransition'
 import { ChartSkeleton, StatCardSkeleton } from '../components/ui/Skeleton'
 import clsx from 'clsx'
@@ -107,11 +108,9 @@ const Progress = () => {
 
     setIsUpdating(true)
     try {
-      const response = await authApi.updateProfile({
-        profile: { weight },
-      })
+      const response = await measurementApi.create({ weight })
       if (response.success) {
-        toast.success('Weight updated!')
+        toast.success('Weight logged!')
         setNewWeight('')
         fetchProgressData()
       }
@@ -316,7 +315,7 @@ const Progress = () => {
                 <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
                 <XAxis
                   dataKey="date"
-                  tickFormatter={(date) => format(new Date(date), 'MMM d')}
+                  tickFormatter={(date) => formatDay(date, { month: 'short', day: 'numeric' })}
                   axisLine={false}
                   tickLine={false}
                   tick={{ fill: '#9ca3af', fontSize: 12 }}
@@ -336,7 +335,7 @@ const Progress = () => {
                     color: '#fff',
                   }}
                   formatter={(value: number) => [`${value.toFixed(1)} kg`, 'Weight']}
-                  labelFormatter={(date) => format(new Date(date), 'EEEE, MMM d')}
+                  labelFormatter={(date) => formatDay(date, { weekday: 'long', month: 'short', day: 'numeric' })}
                 />
                 <Area
                   type="monotone"
@@ -365,7 +364,7 @@ const Progress = () => {
                 <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
                 <XAxis
                   dataKey="date"
-                  tickFormatter={(date) => format(new Date(date), 'MMM d')}
+                  tickFormatter={(date) => formatDay(date, { month: 'short', day: 'numeric' })}
                   axisLine={false}
                   tickLine={false}
                   tick={{ fill: '#9ca3af', fontSize: 12 }}
@@ -386,7 +385,7 @@ const Progress = () => {
                     `${Math.round(value)} kcal`,
                     name === 'consumed' ? 'Consumed' : 'Target',
                   ]}
-                  labelFormatter={(date) => format(new Date(date), 'EEEE, MMM d')}
+                  labelFormatter={(date) => formatDay(date, { weekday: 'long', month: 'short', day: 'numeric' })}
                 />
                 <Legend />
                 <Bar
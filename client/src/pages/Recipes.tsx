@@ -0,0 +1,449 @@
+/**
+ * Recipes Page
+ * ============
+ * Build home-cooked dishes from food-database ingredients and
+ * log servings of them as meals.
+ */
+
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { BookOpen, Plus, Trash2, Pencil, ChefHat, UtensilsCrossed, X } from 'lucide-react'
+import { recipeApi } from '../services/api'
+import { FoodItem, MealType, Nutrition, Recipe } from '../types'
+import FoodSearchInput from '../components/ui/FoodSearchInput'
+import { AnimatedContainer, AnimatedItem, AnimatedButton } from '../components/ui/PageTransition'
+import toast from 'react-hot-toast'
+
+interface IngredientRow {
+  foodId: string
+  name: string
+  quantity: number
+  unit: string
+  // Nutrition for one unit of quantity
+  perUnit: Pick<Nutrition, 'calories' | 'protein' | 'carbs' | 'fat'>
+}
+
+const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack']
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+const sumIngredients = (rows: IngredientRow[]) =>
+  rows.reduce(
+    (total, row) => ({
+      calories: total.calories + row.perUnit.calories * row.quantity,
+      protein: total.protein + row.perUnit.protein * row.quantity,
+      carbs: total.carbs + row.perUnit.carbs * row.quantity,
+      fat: total.fat + row.perUnit.fat * row.quantity,
+    }),
+    { calories: 0, protein: 0, carbs: 0, fat: 0 }
+  )
+
+// Create / edit recipe modal
+const RecipeModal = ({
+  recipe,
+  onClose,
+  onSaved,
+}: {
+  recipe: Recipe | null
+  onClose: () => void
+  onSaved: () => void
+}) => {
+  const [name, setName] = useState(recipe?.name || '')
+  const [servings, setServings] = useState(recipe?.servings || 1)
+  const [search, setSearch] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [updateLoggedMeals, setUpdateLoggedMeals] = useState(false)
+  const [rows, setRows] = useState<IngredientRow[]>(
+    recipe?.ingredients.map((i) => ({
+      foodId: i.foodId,
+      name: i.name,
+      quantity: i.quantity,
+      unit: i.unit,
+      perUnit: {
+        calories: i.nutrition.calories / i.quantity,
+        protein: i.nutrition.protein / i.quantity,
+        carbs: i.nutrition.carbs / i.quantity,
+        fat: i.nutrition.fat / i.quantity,
+      },
+    })) || []
+  )
+
+  const handleFoodSelect = (food: FoodItem) => {
+    if (food.source === 'recipe') {
+      toast.error('Recipes cannot be used as ingredients')
+      return
+    }
+
+    const size = food.servingSize || 1
+    setRows([
+      ...rows,
+      {
+        foodId: food.id,
+        name: food.name,
+        quantity: size,
+        unit: food.servingUnit,
+        perUnit: {
+          calories: food.calories / size,
+          protein: food.protein / size,
+          carbs: food.carbs / size,
+          fat: food.fat / size,
+        },
+      },
+    ])
+    setSearch('')
+  }
+
+  const updateQuantity = (index: number, quantity: number) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, quantity } : row)))
+  }
+
+  const total = sumIngredients(rows)
+  const perServing = {
+    calories: Math.round(total.calories / servings),
+    protein: round(total.protein / servings),
+    carbs: round(total.carbs / servings),
+    fat: round(total.fat / servings),
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Please enter a recipe name')
+      return
+    }
+    if (rows.length === 0 || rows.some((row) => !(row.quantity > 0))) {
+      toast.error('Add ingredients with quantities')
+      return
+    }
+
+    const data = {
+      name: name.trim(),
+      servings,
+      ingredients: rows.map((row) => ({ foodId: row.foodId, quantity: row.quantity, unit: row.unit })),
+    }
+
+    setIsSaving(true)
+    try {
+      const response = recipe
+        ? await recipeApi.update(recipe._id, { ...data, propagateToMeals: updateLoggedMeals })
+        : await recipeApi.create(data)
+      if (response.success) {
+        const mealsUpdated = response.data && 'mealsUpdated' in response.data ? response.data.mealsUpdated : 0
+        toast.success(
+          mealsUpdated
+            ? `Recipe updated! ${mealsUpdated} logged meal${mealsUpdated === 1 ? '' : 's'} recalculated`
+            : recipe ? 'Recipe updated!' : 'Recipe saved!'
+        )
+        onSaved()
+      }
+    } catch (error) {
+      toast.error('Failed to save recipe')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="glass-card w-full max-w-lg p-6 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <ChefHat className="w-5 h-5 text-primary-400" />
+            {recipe ? 'Edit Recipe' : 'New Recipe'}
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-gray-800 rounded-lg">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className="label">Recipe Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="input-field"
+                placeholder="e.g., Dal Rice Roti Thali"
+              />
+            </div>
+            <div>
+              <label className="label">Servings</label>
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={servings}
+                onChange={(e) => setServings(Math.max(1, parseInt(e.target.value) || 1))}
+                className="input-field"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="label">Add Ingredient</label>
+            <FoodSearchInput
+              value={search}
+              onChange={setSearch}
+              onFoodSelect={handleFoodSelect}
+              placeholder="Search foods..."
+            />
+          </div>
+
+          {rows.length > 0 && (
+            <div className="space-y-2">
+              {rows.map((row, index) => (
+                <div key={`${row.foodId}-${index}`} className="flex items-center gap-3 p-3 bg-gray-800/50 rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-white truncate">{row.name}</p>
+                    <p className="text-xs text-gray-400">
+                      {Math.round(row.perUnit.calories * row.quantity)} cal
+                    </p>
+                  </div>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={row.quantity}
+                    onChange={(e) => updateQuantity(index, parseFloat(e.target.value) || 0)}
+                    className="input-field w-20 py-1.5"
+                  />
+                  <span className="text-xs text-gray-400 w-12">{row.unit}</span>
+                  <button
+                    onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                    className="p-1 hover:bg-red-500/20 rounded"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-400" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="p-4 bg-primary-500/10 border border-primary-500/30 rounded-xl">
+            <p className="text-xs text-gray-400 mb-1">Per serving</p>
+            <p className="text-white font-medium">
+              {perServing.calories} cal • P: {perServing.protein}g • C: {perServing.carbs}g • F: {perServing.fat}g
+            </p>
+          </div>
+
+          {recipe && (
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={updateLoggedMeals}
+                onChange={(e) => setUpdateLoggedMeals(e.target.checked)}
+                className="w-4 h-4 accent-primary-500"
+              />
+              Also update meals already logged from this recipe
+            </label>
+          )}
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button onClick={onClose} className="btn-secondary flex-1">
+            Cancel
+          </button>
+          <AnimatedButton onClick={handleSave} disabled={isSaving} className="btn-primary flex-1">
+            {isSaving ? 'Saving...' : 'Save Recipe'}
+          </AnimatedButton>
+        </div>
+      </motion.div>
+    </motion.div>
+  )
+}
+
+const Recipes = () => {
+  const [recipes, setRecipes] = useState<Recipe[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editing, setEditing] = useState<Recipe | null>(null)
+  const [showModal, setShowModal] = useState(false)
+  const [loggingId, setLoggingId] = useState<string | null>(null)
+  const [logServings, setLogServings] = useState(1)
+  const [logMealType, setLogMealType] = useState<MealType>('lunch')
+
+  const fetchRecipes = async () => {
+    setIsLoading(true)
+    try {
+      const response = await recipeApi.getAll()
+      if (response.success && response.data) {
+        setRecipes(response.data.recipes)
+      }
+    } catch (error) {
+      console.error('Failed to fetch recipes:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchRecipes()
+  }, [])
+
+  const openModal = (recipe: Recipe | null) => {
+    setEditing(recipe)
+    setShowModal(true)
+  }
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this recipe?')) return
+    try {
+      const response = await recipeApi.delete(id)
+      if (response.success) {
+        toast.success('Recipe deleted')
+        setRecipes(recipes.filter((r) => r._id !== id))
+      }
+    } catch (error) {
+      toast.error('Failed to delete recipe')
+    }
+  }
+
+  const handleLog = async (id: string) => {
+    try {
+      const response = await recipeApi.log(id, { servings: logServings, mealType: logMealType })
+      if (response.success) {
+        toast.success('Logged to your meals!')
+        setLoggingId(null)
+        setLogServings(1)
+      }
+    } catch (error) {
+      toast.error('Failed to log recipe')
+    }
+  }
+
+  return (
+    <AnimatedContainer className="space-y-6">
+      {/* Header */}
+      <AnimatedItem>
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-display font-bold text-white flex items-center gap-2">
+              <BookOpen className="w-7 h-7 text-primary-400" />
+              Recipes
+            </h2>
+            <p className="text-gray-400 mt-1">Build your home-cooked dishes once, log them anytime</p>
+          </div>
+          <AnimatedButton onClick={() => openModal(null)} className="btn-primary flex items-center gap-2">
+            <Plus size={20} />
+            New Recipe
+          </AnimatedButton>
+        </div>
+      </AnimatedItem>
+
+      {/* Recipe list */}
+      <AnimatedItem>
+        {isLoading ? (
+          <p className="text-gray-400 text-center py-12">Loading recipes...</p>
+        ) : recipes.length === 0 ? (
+          <div className="glass-card p-12 text-center">
+            <UtensilsCrossed className="w-12 h-12 mx-auto text-gray-600 mb-3" />
+            <p className="text-gray-400">No recipes yet</p>
+            <p className="text-sm text-gray-500 mt-1">Combine foods like dal, rice and roti into one dish</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {recipes.map((recipe) => (
+              <div key={recipe._id} className="glass-card p-5 group">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <h3 className="font-semibold text-white truncate">{recipe.name}</h3>
+                    <p className="text-xs text-gray-400 mt-0.5">
+                      {recipe.ingredients.length} ingredients • {recipe.servings} serving{recipe.servings === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => openModal(recipe)} className="p-1 hover:bg-gray-700 rounded">
+                      <Pencil className="w-4 h-4 text-gray-400" />
+                    </button>
+                    <button onClick={() => handleDelete(recipe._id)} className="p-1 hover:bg-red-500/20 rounded">
+                      <Trash2 className="w-4 h-4 text-red-400" />
+                    </button>
+                  </div>
+                </div>
+
+                <p className="text-sm text-gray-300 mt-3 line-clamp-2">
+                  {recipe.ingredients.map((i) => i.name).join(', ')}
+                </p>
+
+                <p className="text-xs text-gray-400 mt-3">
+                  <span className="text-primary-400 font-medium">{recipe.nutritionPerServing.calories} cal</span>
+                  {' '}per serving • P: {recipe.nutritionPerServing.protein}g • C: {recipe.nutritionPerServing.carbs}g • F: {recipe.nutritionPerServing.fat}g
+                </p>
+
+                {loggingId === recipe._id ? (
+                  <div className="mt-4 space-y-2">
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        min={0.25}
+                        step={0.25}
+                        value={logServings}
+                        onChange={(e) => setLogServings(parseFloat(e.target.value) || 1)}
+                        className="input-field w-20 py-1.5"
+                      />
+                      <select
+                        value={logMealType}
+                        onChange={(e) => setLogMealType(e.target.value as MealType)}
+                        className="input-field flex-1 py-1.5 capitalize"
+                      >
+                        {MEAL_TYPES.map((type) => (
+                          <option key={type} value={type}>{type}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex gap-2">
+                      <button onClick={() => setLoggingId(null)} className="btn-secondary flex-1 py-1.5 text-sm">
+                        Cancel
+                      </button>
+                      <button onClick={() => handleLog(recipe._id)} className="btn-primary flex-1 py-1.5 text-sm">
+                        Log {logServings} serving{logServings === 1 ? '' : 's'}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => {
+                      setLoggingId(recipe._id)
+                      setLogServings(1)
+                    }}
+                    className="btn-ghost w-full mt-4 flex items-center justify-center gap-2 text-sm"
+                  >
+                    <Plus size={16} />
+                    Log as meal
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </AnimatedItem>
+
+      <AnimatePresence>
+        {showModal && (
+          <RecipeModal
+            recipe={editing}
+            onClose={() => setShowModal(false)}
+            onSaved={() => {
+              setShowModal(false)
+              fetchRecipes()
+            }}
+          />
+        )}
+      </AnimatePresence>
+    </AnimatedContainer>
+  )
+}
+
+export default Recipes
@@ -16,9 +16,10 @@ import {
   Award,
   Waves
 } from 'lucide-react'
-import { format, subDays, startOfDay } from 'date-fns'
 import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, Tooltip, Cell } from 'recharts'
 import { waterApi } from '../services/api'
+import { useAuthStore } from '../stores/authStore'
+import { formatDay, formatIn, userTimezone } from '../lib/timezone'
 import { AnimatedContainer, AnimatedItem, AnimatedButton } from '../components/ui/PageTransition'
 import { WaterCardSkeleton } from '../components/ui/Skeleton'
 import clsx from 'clsx'
@@ -75,6 +76,7 @@ const WaterDrop = ({ delay = 0 }: { delay?: number }) => (
 )
 
 const WaterTracking = () => {
+  const timezone = userTimezone(useAuthStore((state) => state.user))
   const [stats, setStats] = useState<WaterStats | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [customAmount, setCustomAmount] = useState('')
@@ -302,7 +304,7 @@ const WaterTracking = () => {
               <BarChart data={weekly}>
                 <XAxis
                   dataKey="date"
-                  tickFormatter={(date) => format(new Date(date), 'EEE')}
+                  tickFormatter={(date) => formatDay(date, { weekday: 'short' }, timezone)}
                   axisLine={false}
                   tickLine={false}
                   tick={{ fill: '#9ca3af', fontSize: 12 }}
@@ -321,7 +323,7 @@ const WaterTracking = () => {
                     color: '#fff',
                   }}
                   formatter={(value: number) => [`${value}ml`, 'Water']}
-                  labelFormatter={(date) => format(new Date(date), 'EEEE, MMM d')}
+                  labelFormatter={(date) => formatDay(date, { weekday: 'long', month: 'short', day: 'numeric' }, timezone)}
                 />
                 <Bar dataKey="amount" radius={[6, 6, 0, 0]}>
                   {weekly.map((entry, index) => (
@@ -368,7 +370,9 @@ const WaterTracking = () => {
                       </div>
                       <div>
                         <p className="font-medium text-white">{entry.amount}ml</p>
-                        <p className="text-xs text-gray-400">{entry.time}</p>
+                        <p className="text-xs text-gray-400">
+                          {formatIn(entry.time, timezone, { hour: 'numeric', minute: '2-digit' })}
+                        </p>
                       </div>
                     </div>
                     <button
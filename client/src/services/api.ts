@@ -16,7 +16,15 @@ import {
   Meal,
   MealFormData,
   PaginatedResponse,
-  Recommendation
+  Recommendation,
+  BodyMeasurement,
+  CalorieSuggestion,
+  TdeeEstimate,
+  GroceryList,
+  Recipe,
+  FoodItem,
+  MicronutrientReport,
+  Achievements
 } from '../types'
 
 // Create axios instance with base configuration
@@ -94,6 +102,26 @@ export const authApi = {
     return response.data
   },
 
+  getTargetHistory: async (): Promise<ApiResponse<{
+    history: Array<{ effectiveDate: string; targets: User['dailyTargets'] }>
+  }>> => {
+    const response = await api.get('/auth/targets/history')
+    return response.data
+  },
+
+  getCalorieSuggestion: async (): Promise<ApiResponse<CalorieSuggestion>> => {
+    const response = await api.get('/auth/targets/suggestion')
+    return response.data
+  },
+
+  applyCalorieSuggestion: async (): Promise<ApiResponse<{
+    dailyTargets: User['dailyTargets']
+    estimate: TdeeEstimate
+  }>> => {
+    const response = await api.post('/auth/targets/suggestion/apply')
+    return response.data
+  },
+
   changePassword: async (currentPassword: string, newPassword: string): Promise<ApiResponse<{ token: string }>> => {
     const response = await api.put('/auth/password', { currentPassword, newPassword })
     return response.data
@@ -188,6 +216,7 @@ export const dashboardApi = {
     targets: User['dailyTargets']
     progress: Record<string, number>
     remaining: Record<string, number>
+    micronutrients: MicronutrientReport
     mealCount: number
   }>> => {
     const response = await api.get('/dashboard/today')
@@ -196,7 +225,7 @@ export const dashboardApi = {
 
   getTrends: async (period: '7d' | '14d' | '30d' | '90d' = '7d'): Promise<ApiResponse<{
     period: string
-    trends: Array<{ date: string; calories: number; protein: number; carbs: number; fat: number; mealCount: number }>
+    trends: Array<{ date: string; calories: number; protein: number; carbs: number; fat: number; mealCount: number; target: number }>
     summary: {
       totalDays: number
       daysWithMeals: number
@@ -211,6 +240,7 @@ export const dashboardApi = {
   getMacros: async (date?: string, period?: 'day' | 'week' | 'month'): Promise<ApiResponse<{
     totals: Record<string, number>
     distribution: Record<string, number>
+    micronutrients: MicronutrientReport
   }>> => {
     const response = await api.get('/dashboard/macros', { params: { date, period } })
     return response.data
@@ -223,6 +253,34 @@ export const dashboardApi = {
     const response = await api.get('/dashboard/weekly-overview')
     return response.data
   },
+
+  getProgress: async (period: '7d' | '14d' | '30d' | '90d' = '30d'): Promise<ApiResponse<{
+    weight: {
+      current: number
+      start: number
+      change: number
+      history: Array<{ date: string; weight: number }>
+    }
+    calories: {
+      average: number
+      target: number
+      trend: Array<{ date: string; consumed: number; target: number }>
+    }
+    macros: {
+      averageProtein: number
+      averageCarbs: number
+      averageFat: number
+      distribution: Array<{ name: string; value: number }>
+    }
+    streaks: {
+      current: number
+      longest: number
+      goalsReached: number
+    }
+  }>> => {
+    const response = await api.get('/dashboard/progress', { params: { period } })
+    return response.data
+  },
 }
 
 // ============================================
@@ -245,8 +303,21 @@ export const recommendationApi = {
       name: string
       nutrition: Record<string, number>
       tags: string[]
+      allergens: string[]
+      source: 'catalog' | 'favorite' | 'history'
+      mealId?: string
+      isFavorite: boolean
+      timesEaten: number
+      lastEatenDaysAgo: number | null
       matchScore: number
+      scores: { macroFit: number; familiarity: number; variety: number }
     }>
+    // Dishes left out for the user's diet type, allergies or disliked foods
+    excluded: Array<{
+      name: string
+      reasons: Array<{ rule: 'diet' | 'allergy' | 'disliked'; message: string }>
+    }>
+    message?: string
   }>> => {
     const response = await api.get(`/recommendations/meals/${mealType}`)
     return response.data
@@ -266,6 +337,23 @@ export const recommendationApi = {
     const response = await api.get('/recommendations/insights')
     return response.data
   },
+
+  // Hide for the rest of the day
+  dismiss: async (id: string): Promise<ApiResponse<unknown>> => {
+    const response = await api.post(`/recommendations/${encodeURIComponent(id)}/dismiss`)
+    return response.data
+  },
+
+  // Hide the rule's recommendations for a few hours (server default 3)
+  snooze: async (id: string, hours?: number): Promise<ApiResponse<unknown>> => {
+    const response = await api.post(`/recommendations/${encodeURIComponent(id)}/snooze`, { hours })
+    return response.data
+  },
+
+  rate: async (id: string, helpful: boolean): Promise<ApiResponse<unknown>> => {
+    const response = await api.post(`/recommendations/${encodeURIComponent(id)}/rate`, { helpful })
+    return response.data
+  },
 }
 
 // ============================================
@@ -303,6 +391,16 @@ export const waterApi = {
     const response = await api.get('/water/history', { params: { startDate, endDate } })
     return response.data
   },
+
+  // Hot day / workout today; both raise the day's water target
+  updateConditions: async (data: { hot?: boolean; workoutMinutes?: number }): Promise<ApiResponse<{
+    conditions: { hot: boolean; workoutMinutes: number }
+    target: number
+    adjustedTarget: number
+  }>> => {
+    const response = await api.put('/water/conditions', data)
+    return response.data
+  },
 }
 
 // ============================================
@@ -311,9 +409,12 @@ export const waterApi = {
 
 export const mealPlanApi = {
   getWeek: async (weekStart: string): Promise<ApiResponse<{
+    planId: string
     weekStart: string
+    weekEnd: string
     days: Array<{
       date: string
+      dayOfWeek: number
       meals: Array<{
         _id: string
         name: string
@@ -322,7 +423,9 @@ export const mealPlanApi = {
         protein: number
         carbs: number
         fat: number
+        time: string
         notes?: string
+        isCompleted: boolean
       }>
       totalCalories: number
     }>
@@ -339,8 +442,9 @@ export const mealPlanApi = {
     protein?: number
     carbs?: number
     fat?: number
+    time?: string
     notes?: string
-  }): Promise<ApiResponse<{ meal: object }>> => {
+  }): Promise<ApiResponse<{ planId: string; date: string; meal: object; totalCalories: number }>> => {
     const response = await api.post('/meal-plans', data)
     return response.data
   },
@@ -350,8 +454,171 @@ export const mealPlanApi = {
     return response.data
   },
 
-  copyDay: async (fromDate: string, toDate: string): Promise<ApiResponse<{ copied: number }>> => {
-    const response = await api.post('/meal-plans/copy', { fromDate, toDate })
+  copyDay: async (fromDate: string, toDate: string, replace = false): Promise<ApiResponse<{ copied: number; date: string }>> => {
+    const response = await api.post('/meal-plans/copy', { fromDate, toDate, replace })
+    return response.data
+  },
+
+  generate: async (data: {
+    weekStart?: string
+    tolerance?: number
+    maxRepeats?: number
+    replace?: boolean
+  } = {}): Promise<ApiResponse<{
+    planId: string
+    weekStart: string
+    weekEnd: string
+    report: Array<{
+      date: string
+      totals: { calories: number; protein: number; carbs: number; fat: number }
+      targets: { calories: number; protein: number; carbs: number; fat: number }
+      deviation: Record<'calories' | 'protein' | 'carbs' | 'fat', { amount: number; percent: number }>
+      withinTolerance: boolean
+    }>
+    daysWithinTolerance: number
+    warnings: string[]
+  }>> => {
+    const response = await api.post('/meal-plans/generate', data)
+    return response.data
+  },
+
+  complete: async (
+    planId: string,
+    dayOfWeek: number,
+    mealId: string,
+    data: {
+      portion?: number
+      foods?: Array<{ _id: string; servingSize: number }>
+      consumedAt?: string
+    } = {}
+  ): Promise<ApiResponse<{ meal: object; loggedMeal: Meal }>> => {
+    const response = await api.post(`/meal-plans/${planId}/days/${dayOfWeek}/meals/${mealId}/complete`, data)
+    return response.data
+  },
+
+  uncomplete: async (planId: string, dayOfWeek: number, mealId: string): Promise<ApiResponse<{ meal: object }>> => {
+    const response = await api.delete(`/meal-plans/${planId}/days/${dayOfWeek}/meals/${mealId}/complete`)
+    return response.data
+  },
+
+  getGroceryList: async (planId: string): Promise<ApiResponse<GroceryList>> => {
+    const response = await api.get(`/meal-plans/${planId}/grocery-list`)
+    return response.data
+  },
+
+  checkGroceryItem: async (planId: string, itemKey: string, checked: boolean): Promise<ApiResponse<{ itemKey: string; checked: boolean; checkedItems: number }>> => {
+    const response = await api.patch(`/meal-plans/${planId}/grocery-list/${encodeURIComponent(itemKey)}`, { checked })
+    return response.data
+  },
+
+  exportGroceryList: async (planId: string, format: 'text' | 'csv'): Promise<Blob> => {
+    const response = await api.get(`/meal-plans/${planId}/grocery-list`, {
+      params: { format },
+      responseType: 'blob',
+    })
+    return response.data
+  },
+}
+
+// ============================================
+// RECIPE API
+// ============================================
+
+export interface RecipeFormData {
+  name: string
+  description?: string
+  servings: number
+  ingredients: Array<{ foodId: string; quantity: number; unit?: string }>
+  tags?: string[]
+  // On update: recalculate meals already logged from this recipe
+  propagateToMeals?: boolean
+}
+
+export const recipeApi = {
+  getAll: async (q?: string): Promise<ApiResponse<{ recipes: Recipe[]; count: number }>> => {
+    const response = await api.get('/recipes', { params: { q } })
+    return response.data
+  },
+
+  getById: async (id: string): Promise<ApiResponse<{ recipe: Recipe }>> => {
+    const response = await api.get(`/recipes/${id}`)
+    return response.data
+  },
+
+  create: async (data: RecipeFormData): Promise<ApiResponse<{ recipe: Recipe }>> => {
+    const response = await api.post('/recipes', data)
+    return response.data
+  },
+
+  update: async (id: string, data: Partial<RecipeFormData>): Promise<ApiResponse<{ recipe: Recipe; mealsUpdated: number }>> => {
+    const response = await api.put(`/recipes/${id}`, data)
+    return response.data
+  },
+
+  delete: async (id: string): Promise<ApiResponse<null>> => {
+    const response = await api.delete(`/recipes/${id}`)
+    return response.data
+  },
+
+  log: async (id: string, data: { servings: number; mealType: string; consumedAt?: string }): Promise<ApiResponse<{ meal: Meal }>> => {
+    const response = await api.post(`/recipes/${id}/log`, data)
+    return response.data
+  },
+}
+
+// ============================================
+// ACHIEVEMENT API
+// ============================================
+
+export const achievementApi = {
+  get: async (): Promise<ApiResponse<Achievements>> => {
+    const response = await api.get('/achievements')
+    return response.data
+  },
+
+  markAnnounced: async (keys?: string[]): Promise<ApiResponse<null>> => {
+    const response = await api.post('/achievements/announced', { keys })
+    return response.data
+  },
+}
+
+// ============================================
+// BODY MEASUREMENT API
+// ============================================
+
+export type MeasurementFormData = Partial<Pick<BodyMeasurement, 'date' | 'weight' | 'waist' | 'hip' | 'bodyFat' | 'notes'>>
+
+export const measurementApi = {
+  getHistory: async (startDate?: string, endDate?: string): Promise<ApiResponse<{
+    measurements: BodyMeasurement[]
+    stats: {
+      count: number
+      startWeight: number | null
+      currentWeight: number | null
+      weightChange: number
+    }
+  }>> => {
+    const response = await api.get('/measurements', { params: { startDate, endDate } })
+    return response.data
+  },
+
+  getLatest: async (): Promise<ApiResponse<{ measurement: BodyMeasurement | null }>> => {
+    const response = await api.get('/measurements/latest')
+    return response.data
+  },
+
+  create: async (data: MeasurementFormData): Promise<ApiResponse<{ measurement: BodyMeasurement }>> => {
+    const response = await api.post('/measurements', data)
+    return response.data
+  },
+
+  update: async (id: string, data: MeasurementFormData): Promise<ApiResponse<{ measurement: BodyMeasurement }>> => {
+    const response = await api.put(`/measurements/${id}`, data)
+    return response.data
+  },
+
+  delete: async (id: string): Promise<ApiResponse<null>> => {
+    const response = await api.delete(`/measurements/${id}`)
     return response.data
   },
 }
@@ -360,6 +627,9 @@ export const mealPlanApi = {
 // FOOD DATABASE API
 // ============================================
 
+export type CustomFoodFormData = Pick<FoodItem, 'name' | 'calories'> &
+  Partial<Pick<FoodItem, 'brand' | 'servingSize' | 'servingUnit' | 'protein' | 'carbs' | 'fat' | 'fiber' | 'category' | 'visibility'>>
+
 export const foodApi = {
   search: async (query: string, limit = 25): Promise<ApiResponse<{
     foods: Array<{
@@ -383,7 +653,7 @@ export const foodApi = {
     return response.data
   },
 
-  getById: async (id: string): Promise<ApiResponse<{ food: object }>> => {
+  getById: async (id: string): Promise<ApiResponse<{ food: FoodItem }>> => {
     const response = await api.get(`/foods/${id}`)
     return response.data
   },
@@ -392,39 +662,39 @@ export const foodApi = {
     const response = await api.get('/foods/categories')
     return response.data
   },
-}
 
-// ============================================
-// PROGRESS API EXTENSION
-// ============================================
+  getRecent: async (limit = 10): Promise<ApiResponse<{ foods: FoodItem[]; count: number }>> => {
+    const response = await api.get('/foods/recent', { params: { limit } })
+    return response.data
+  },
 
-// Extend dashboardApi for progress tracking
-dashboardApi.getProgress = async (period: string): Promise<ApiResponse<{
-  weight: {
-    current: number
-    start: number
-    change: number
-    history: Array<{ date: string; weight: number }>
-  }
-  calories: {
-    average: number
-    target: number
-    trend: Array<{ date: string; consumed: number; target: number }>
-  }
-  macros: {
-    averageProtein: number
-    averageCarbs: number
-    averageFat: number
-    distribution: Array<{ name: string; value: number }>
-  }
-  streaks: {
-    current: number
-    longest: number
-    goalsReached: number
-  }
-}>> => {
-  const response = await api.get('/dashboard/progress', { params: { period } })
-  return response.data
+  getFrequent: async (limit = 10): Promise<ApiResponse<{ foods: FoodItem[]; count: number }>> => {
+    const response = await api.get('/foods/frequent', { params: { limit } })
+    return response.data
+  },
+
+  getCustomFoods: async (): Promise<ApiResponse<{ foods: FoodItem[]; count: number }>> => {
+    const response = await api.get('/foods/custom')
+    return response.data
+  },
+
+  createCustomFood: async (data: CustomFoodFormData): Promise<ApiResponse<{ food: FoodItem }>> => {
+    const response = await api.post('/foods/custom', data)
+    return response.data
+  },
+
+  updateCustomFood: async (
+    id: string,
+    data: Partial<CustomFoodFormData> & { propagateToMeals?: boolean }
+  ): Promise<ApiResponse<{ food: FoodItem; mealsUpdated: number }>> => {
+    const response = await api.put(`/foods/custom/${id}`, data)
+    return response.data
+  },
+
+  deleteCustomFood: async (id: string): Promise<ApiResponse<null>> => {
+    const response = await api.delete(`/foods/custom/${id}`)
+    return response.data
+  },
 }
 
 export default api
@@ -11,6 +11,7 @@ import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import { User, LoginCredentials, RegisterData } from '../types'
 import { authApi } from '../services/api'
+import { browserTimezone } from '../lib/timezone'
 import toast from 'react-hot-toast'
 
 interface AuthState {
@@ -78,7 +79,8 @@ export const useAuthStore = create<AuthState>()(
         set({ isLoading: true, error: null })
         
         try {
-          const response = await authApi.register(data)
+          // New accounts count days in the browser's timezone
+          const response = await authApi.register({ timezone: browserTimezone(), ...data })
           
           if (response.success && response.data) {
             set({
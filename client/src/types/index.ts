@@ -15,6 +15,7 @@ export interface UserProfile {
   weight?: number
   activityLevel?: 'sedentary' | 'light' | 'moderate' | 'active' | 'very-active'
   goal?: 'lose-weight' | 'maintain' | 'gain-weight' | 'build-muscle'
+  lifeStage?: 'none' | 'pregnant' | 'breastfeeding'
 }
 
 export interface DailyTargets {
@@ -24,12 +25,22 @@ export interface DailyTargets {
   fat: number
   fiber: number
   water: number
+  saturatedFat?: number
+  iron?: number
+  calcium?: number
+  vitaminD?: number
+  vitaminB12?: number
+  folate?: number
+  potassium?: number
+  vitaminC?: number
 }
 
 export interface UserPreferences {
   dietType?: 'none' | 'vegetarian' | 'vegan' | 'keto' | 'paleo' | 'mediterranean'
   allergies?: string[]
   dislikedFoods?: string[]
+  // Let the adaptive TDEE estimate move the calorie target
+  autoAdjustCalories?: boolean
 }
 
 export interface User {
@@ -40,10 +51,50 @@ export interface User {
   profile: UserProfile
   dailyTargets: DailyTargets
   preferences: UserPreferences
+  // IANA timezone; decides which day meals and water count towards
+  timezone?: string
+  role?: 'user' | 'admin'
   createdAt?: string
   lastLogin?: string
 }
 
+export interface BodyMeasurement {
+  _id: string
+  date: string
+  weight?: number
+  waist?: number
+  hip?: number
+  bodyFat?: number
+  notes?: string
+  waistToHip?: number | null
+  createdAt: string
+  updatedAt: string
+}
+
+// TDEE estimated from logged intake and the weight trend
+export interface TdeeEstimate {
+  tdee: number
+  averageIntake: number
+  weightChangePerWeek: number
+  startDate: string
+  endDate: string
+  days: number
+  loggedDays: number
+  weighIns: number
+  confidence: number
+  level: 'low' | 'medium' | 'high'
+}
+
+export interface CalorieSuggestion {
+  estimate: TdeeEstimate | null
+  currentCalories: number
+  formulaCalories: number
+  suggestedCalories: number | null
+  change: number
+  autoAdjust: boolean
+  message?: string
+}
+
 // ============================================
 // MEAL TYPES
 // ============================================
@@ -58,13 +109,61 @@ export interface Nutrition {
   fiber?: number
   sugar?: number
   sodium?: number
+  // Micronutrients: saturated fat g; iron, calcium, potassium, vitamin C mg;
+  // vitamin D, B12, folate mcg
+  saturatedFat?: number
+  iron?: number
+  calcium?: number
+  vitaminD?: number
+  vitaminB12?: number
+  folate?: number
+  potassium?: number
+  vitaminC?: number
+}
+
+export type Micronutrient =
+  | 'saturatedFat' | 'iron' | 'calcium' | 'vitaminD'
+  | 'vitaminB12' | 'folate' | 'potassium' | 'vitaminC'
+
+// Consumed vs target for one micronutrient (limit: target is a maximum)
+export interface MicronutrientProgress {
+  label: string
+  unit: 'g' | 'mg' | 'mcg'
+  consumed: number
+  target: number
+  progress: number
+  limit: boolean
 }
 
+export type MicronutrientReport = Record<Micronutrient, MicronutrientProgress>
+
+export type ServingUnit =
+  | 'g' | 'kg' | 'oz' | 'lb'
+  | 'ml' | 'l' | 'tsp' | 'tbsp' | 'cup' | 'glass'
+  | 'piece' | 'slice' | 'bowl' | 'small' | 'medium' | 'large' | 'serving'
+
 export interface ServingSize {
   amount: number
-  unit: 'g' | 'ml' | 'oz' | 'cup' | 'tbsp' | 'tsp' | 'piece' | 'serving'
+  unit: ServingUnit
+}
+
+export type MealItemSource = 'local' | 'usda' | 'ifct' | 'custom' | 'recipe' | 'manual'
+
+// One food in a meal, with its nutrition for the quantity eaten
+export interface MealItem {
+  _id?: string
+  foodId?: string
+  source: MealItemSource
+  name?: string
+  quantity: number
+  unit: string
+  nutrition: Nutrition
 }
 
+// Food-database items need only { foodId, quantity, unit }; manual items need nutrition
+export type MealItemInput = Pick<MealItem, 'foodId' | 'name' | 'quantity'> &
+  Partial<Pick<MealItem, 'unit' | 'nutrition'>>
+
 export interface Meal {
   _id: string
   name: string
@@ -77,6 +176,8 @@ export interface Meal {
   tags?: string[]
   notes?: string
   isFavorite: boolean
+  // When present, nutrition is the sum of the items
+  items?: MealItem[]
   createdAt: string
   updatedAt: string
 }
@@ -90,6 +191,52 @@ export interface MealFormData {
   consumedAt?: string
   tags?: string[]
   notes?: string
+  items?: MealItemInput[]
+}
+
+// ============================================
+// MEAL PLAN TYPES
+// ============================================
+
+export interface GroceryItem {
+  key: string
+  name: string
+  quantity: number
+  unit: string
+  display: string
+  meals: number
+  checked: boolean
+}
+
+export interface GroceryList {
+  planId: string
+  weekStart: string
+  weekEnd: string
+  categories: Array<{ category: string; items: GroceryItem[] }>
+  totalItems: number
+  checkedItems: number
+}
+
+export interface RecipeIngredient {
+  _id?: string
+  foodId: string
+  name: string
+  quantity: number
+  unit: string
+  nutrition: Nutrition
+}
+
+export interface Recipe {
+  _id: string
+  name: string
+  description?: string
+  ingredients: RecipeIngredient[]
+  servings: number
+  totalNutrition: Nutrition
+  nutritionPerServing: Nutrition
+  tags: string[]
+  createdAt: string
+  updatedAt: string
 }
 
 // ============================================
@@ -135,11 +282,44 @@ export interface DashboardData {
   mealTypeDistribution: MealTypeDistribution[]
 }
 
+// ============================================
+// ACHIEVEMENT TYPES
+// ============================================
+
+export interface Streak {
+  current: number
+  longest: number
+  lastDate: string | null
+}
+
+export interface Badge {
+  key: string
+  title: string
+  description: string
+  icon: string
+  threshold: number
+  progress: number
+  unlocked: boolean
+  unlockedAt: string | null
+  announced: boolean
+}
+
+export interface Achievements {
+  streaks: Record<'logging' | 'calories' | 'protein' | 'water', Streak>
+  totals: { loggedDays: number; meals: number }
+  badges: Badge[]
+  unannounced: Badge[]
+}
+
 // ============================================
 // RECOMMENDATION TYPES
 // ============================================
 
 export interface Recommendation {
+  // Stable for the day: "<rule key>:<YYYY-MM-DD>"
+  id: string
+  // Key of the rule that produced it
+  rule?: string
   category: string
   priority: number
   title: string
@@ -147,13 +327,24 @@ export interface Recommendation {
   action?: string
   icon: string
   suggestions?: string[]
+  // The user's rating today, if any
+  helpful?: boolean | null
 }
 
 export interface MealSuggestion {
   name: string
   nutrition: Nutrition
   tags: string[]
+  allergens?: string[]
+  // Catalogue dish, or one of the user's own favorites / regular meals
+  source?: 'catalog' | 'favorite' | 'history'
+  // The user's latest log of it, to re-log
+  mealId?: string
+  isFavorite?: boolean
+  timesEaten?: number
+  lastEatenDaysAgo?: number | null
   matchScore: number
+  scores?: { macroFit: number; familiarity: number; variety: number }
 }
 
 export interface WeeklyInsight {
@@ -201,6 +392,7 @@ export interface RegisterData {
   name: string
   email: string
   password: string
+  timezone?: string
 }
 
 // ============================================
@@ -214,13 +406,32 @@ export interface FoodItem {
   servingSize: number
   servingUnit: string
   servingWeight: number
+  // Grams per ml and per count unit (piece, slice...), for unit conversion
+  density?: number
+  unitWeights?: Record<string, number>
   calories: number
   protein: number
   carbs: number
   fat: number
   fiber?: number
   sodium?: number
+  saturatedFat?: number
+  iron?: number
+  calcium?: number
+  vitaminD?: number
+  vitaminB12?: number
+  folate?: number
+  potassium?: number
+  vitaminC?: number
   category: string
-  source: 'local' | 'usda'
+  source: 'local' | 'usda' | 'ifct' | 'recipe' | 'custom' | 'history'
+  visibility?: 'private' | 'public'
+  // Search relevance (0-1) and the name words that matched the query
+  score?: number
+  matches?: string[]
+  // Recent/frequent foods from the user's meal log
+  lastLoggedAt?: string
+  frequency?: number
+  count?: number
 }
 
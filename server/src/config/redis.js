@@ -10,6 +10,12 @@ const Redis = require('ioredis');
 let redisClient = null;
 let isConnected = false;
 
+// Tag sets outlive any cached response they point to (seconds)
+const TAG_TTL = 24 * 60 * 60;
+
+// Keys fetched per SCAN step
+const SCAN_COUNT = 100;
+
 /**
  * Initialize Redis connection
  */
@@ -120,15 +126,63 @@ const cache = {
 
   /**
    * Delete all keys matching pattern
+   * Walks the keyspace with SCAN (KEYS blocks the server) and frees
+   * memory in the background with UNLINK.
    * @param {string} pattern - Pattern to match (e.g., "user:*")
    */
   async delPattern(pattern) {
     if (!isConnected) return;
     try {
-      const keys = await redisClient.keys(pattern);
-      if (keys.length > 0) {
-        await redisClient.del(...keys);
+      let cursor = '0';
+      do {
+        const [next, keys] = await redisClient.scan(cursor, 'MATCH', pattern, 'COUNT', SCAN_COUNT);
+        cursor = next;
+        if (keys.length > 0) {
+          await redisClient.unlink(...keys);
+        }
+      } while (cursor !== '0');
+    } catch {
+      // Ignore cache errors
+    }
+  },
+
+  /**
+   * Record a cached key under tags, so it can be evicted with them
+   * @param {string} key - Cache key
+   * @param {string[]} tagKeys - Tag set keys (see keys.tag)
+   */
+  async tag(key, tagKeys) {
+    if (!isConnected || tagKeys.length === 0) return;
+    try {
+      const pipeline = redisClient.pipeline();
+      for (const tagKey of tagKeys) {
+        pipeline.sadd(tagKey, key);
+        pipeline.expire(tagKey, TAG_TTL);
       }
+      await pipeline.exec();
+    } catch {
+      // Ignore cache errors
+    }
+  },
+
+  /**
+   * Delete every key recorded under the given tags
+   * @param {string[]} tagKeys - Tag set keys (see keys.tag)
+   */
+  async invalidateTags(tagKeys) {
+    if (!isConnected || tagKeys.length === 0) return;
+    try {
+      const members = await Promise.all(tagKeys.map((tagKey) => redisClient.smembers(tagKey)));
+      const pipeline = redisClient.pipeline();
+
+      tagKeys.forEach((tagKey, i) => {
+        if (members[i].length === 0) return;
+        pipeline.unlink(...members[i]);
+        // Only forget the keys just evicted; others may have been tagged meanwhile
+        pipeline.srem(tagKey, ...members[i]);
+      });
+
+      await pipeline.exec();
     } catch {
       // Ignore cache errors
     }
@@ -168,6 +222,7 @@ const keys = {
   water: (userId, date) => `water:${userId}:${date}`,
   foodSearch: (query) => `food:search:${query.toLowerCase().trim()}`,
   recommendations: (userId) => `recommendations:${userId}`,
+  tag: (userId, tag) => `tag:${userId}:${tag}`,
 };
 
 module.exports = {
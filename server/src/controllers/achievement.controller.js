@@ -0,0 +1,39 @@
+/**
+ * Achievement Controller
+ * ======================
+ * Streaks and badges for the current user.
+ */
+
+const { getAchievements, markAnnounced } = require('../services/achievement.service');
+const asyncHandler = require('../utils/asyncHandler');
+const { sendSuccess } = require('../utils/response');
+
+/**
+ * @desc    Get streaks, totals and badges (unlocked and locked)
+ * @route   GET /api/achievements
+ * @access  Private
+ */
+const getUserAchievements = asyncHandler(async (req, res) => {
+  const achievements = await getAchievements(req.user);
+
+  sendSuccess(res, 200, 'Achievements retrieved', achievements);
+});
+
+/**
+ * @desc    Mark unlocked badges as announced to the user
+ * @route   POST /api/achievements/announced
+ * @access  Private
+ *
+ * Body:
+ * - keys: badge keys (default: every unannounced badge)
+ */
+const announceBadges = asyncHandler(async (req, res) => {
+  await markAnnounced(req.user._id, req.body.keys);
+
+  sendSuccess(res, 200, 'Badges marked as announced');
+});
+
+module.exports = {
+  getUserAchievements,
+  announceBadges,
+};
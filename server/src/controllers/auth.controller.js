@@ -5,9 +5,11 @@
  */
 
 const User = require('../models/User');
+const TargetHistory = require('../models/TargetHistory');
 const ApiError = require('../utils/ApiError');
 const asyncHandler = require('../utils/asyncHandler');
 const { sendSuccess } = require('../utils/response');
+const { MICRONUTRIENT_KEYS } = require('../utils/nutrients');
 const { 
   generateToken, 
   generateTokens, 
@@ -15,6 +17,8 @@ const {
   clearRefreshToken,
   REFRESH_TOKEN_EXPIRY_DAYS 
 } = require('../middleware/auth');
+const { invalidateUserCache } = require('../middleware/cacheMiddleware');
+const { getCalorieSuggestion } = require('../services/tdee.service');
 
 /**
  * @desc    Register a new user
@@ -22,7 +26,7 @@ const {
  * @access  Public
  */
 const register = asyncHandler(async (req, res) => {
-  const { name, email, password } = req.body;
+  const { name, email, password, timezone } = req.body;
 
   const existingUser = await User.findOne({ email: email.toLowerCase() });
   
@@ -34,6 +38,7 @@ const register = asyncHandler(async (req, res) => {
     name,
     email: email.toLowerCase(),
     password,
+    timezone,
   });
 
   // Generate both access and refresh tokens
@@ -55,6 +60,7 @@ const register = asyncHandler(async (req, res) => {
       profile: user.profile,
       dailyTargets: user.dailyTargets,
       preferences: user.preferences,
+      timezone: user.timezone,
       createdAt: user.createdAt,
     },
     token: accessToken,
@@ -112,6 +118,7 @@ const login = asyncHandler(async (req, res) => {
       profile: user.profile,
       dailyTargets: user.dailyTargets,
       preferences: user.preferences,
+      timezone: user.timezone,
       lastLogin: user.lastLogin,
     },
     token: accessToken,
@@ -183,6 +190,7 @@ const logout = asyncHandler(async (req, res) => {
  */
 const getMe = asyncHandler(async (req, res) => {
   const user = await User.findById(req.user._id);
+  const currentWeight = await user.getCurrentWeight();
 
   sendSuccess(res, 200, 'Profile retrieved successfully', {
     user: {
@@ -193,7 +201,8 @@ const getMe = asyncHandler(async (req, res) => {
       profile: user.profile,
       dailyTargets: user.dailyTargets,
       preferences: user.preferences,
-      bmi: user.bmi,
+      timezone: user.timezone,
+      bmi: user.calculateBMI(currentWeight),
       createdAt: user.createdAt,
       lastLogin: user.lastLogin,
     },
@@ -206,7 +215,7 @@ const getMe = asyncHandler(async (req, res) => {
  * @access  Private
  */
 const updateProfile = asyncHandler(async (req, res) => {
-  const { name, avatar, profile, preferences } = req.body;
+  const { name, avatar, profile, preferences, timezone } = req.body;
 
   const updates = {};
 
@@ -214,6 +223,7 @@ const updateProfile = asyncHandler(async (req, res) => {
   if (avatar !== undefined) updates.avatar = avatar;
   if (profile) updates.profile = { ...req.user.profile.toObject(), ...profile };
   if (preferences) updates.preferences = { ...req.user.preferences.toObject(), ...preferences };
+  if (timezone) updates.timezone = timezone;
 
   const user = await User.findByIdAndUpdate(
     req.user._id,
@@ -221,15 +231,19 @@ const updateProfile = asyncHandler(async (req, res) => {
     { new: true, runValidators: true }
   );
 
-  if (profile) {
-    const calculatedCalories = user.calculateDailyCalories();
-    user.dailyTargets.calories = calculatedCalories;
-    user.dailyTargets.protein = Math.round((calculatedCalories * 0.20) / 4);
-    user.dailyTargets.carbs = Math.round((calculatedCalories * 0.50) / 4);
-    user.dailyTargets.fat = Math.round((calculatedCalories * 0.30) / 9);
+  // Prefer the latest logged weight over the profile value
+  const currentWeight = await user.getCurrentWeight();
+
+  // Users who opted in to auto-adjust follow the adaptive TDEE estimate
+  // instead of the formula (see measurement.controller syncProfileWeight)
+  if (profile && !user.preferences.autoAdjustCalories) {
+    user.recalculateTargets(currentWeight);
     await user.save();
   }
 
+  // Targets, preferences and timezone all feed the dashboard and recommendations
+  await invalidateUserCache(user._id);
+
   sendSuccess(res, 200, 'Profile updated successfully', {
     user: {
       id: user._id,
@@ -239,7 +253,8 @@ const updateProfile = asyncHandler(async (req, res) => {
       profile: user.profile,
       dailyTargets: user.dailyTargets,
       preferences: user.preferences,
-      bmi: user.bmi,
+      timezone: user.timezone,
+      bmi: user.calculateBMI(currentWeight),
     },
   });
 });
@@ -259,18 +274,75 @@ const updateTargets = asyncHandler(async (req, res) => {
   if (fat !== undefined) updates['dailyTargets.fat'] = fat;
   if (fiber !== undefined) updates['dailyTargets.fiber'] = fiber;
   if (water !== undefined) updates['dailyTargets.water'] = water;
+  for (const nutrient of MICRONUTRIENT_KEYS) {
+    if (req.body[nutrient] !== undefined) updates[`dailyTargets.${nutrient}`] = req.body[nutrient];
+  }
 
-  const user = await User.findByIdAndUpdate(
-    req.user._id,
-    { $set: updates },
-    { new: true, runValidators: true }
-  );
+  // Saved through the document so the change lands in the target history
+  const user = await User.findById(req.user._id);
+  user.set(updates);
+  await user.save();
+
+  await invalidateUserCache(user._id);
 
   sendSuccess(res, 200, 'Daily targets updated successfully', {
     dailyTargets: user.dailyTargets,
   });
 });
 
+/**
+ * @desc    Get the history of daily target changes
+ * @route   GET /api/auth/targets/history
+ * @access  Private
+ */
+const getTargetHistory = asyncHandler(async (req, res) => {
+  const history = await TargetHistory.find({ user: req.user._id })
+    .sort({ effectiveDate: -1 })
+    .lean();
+
+  sendSuccess(res, 200, 'Target history retrieved', {
+    history: history.map((entry) => ({
+      effectiveDate: entry.effectiveDate,
+      targets: entry.targets,
+    })),
+  });
+});
+
+/**
+ * @desc    Get a calorie target suggestion from the adaptive TDEE estimate
+ * @route   GET /api/auth/targets/suggestion
+ * @access  Private
+ */
+const getTargetSuggestion = asyncHandler(async (req, res) => {
+  const suggestion = await getCalorieSuggestion(req.user);
+
+  sendSuccess(res, 200, 'Calorie suggestion retrieved', suggestion);
+});
+
+/**
+ * @desc    Apply the suggested calorie target
+ * @route   POST /api/auth/targets/suggestion/apply
+ * @access  Private
+ */
+const applyTargetSuggestion = asyncHandler(async (req, res) => {
+  const user = await User.findById(req.user._id);
+  const suggestion = await getCalorieSuggestion(user);
+
+  if (!suggestion.suggestedCalories) {
+    throw ApiError.badRequest(suggestion.message);
+  }
+
+  user.setCalorieTarget(suggestion.suggestedCalories);
+  await user.save();
+
+  await invalidateUserCache(user._id);
+
+  sendSuccess(res, 200, 'Calorie target updated from your TDEE estimate', {
+    dailyTargets: user.dailyTargets,
+    estimate: suggestion.estimate,
+  });
+});
+
 /**
  * @desc    Change password
  * @route   PUT /api/auth/password
@@ -318,5 +390,8 @@ module.exports = {
   getMe,
   updateProfile,
   updateTargets,
+  getTargetHistory,
+  getTargetSuggestion,
+  applyTargetSuggestion,
   changePassword,
 };
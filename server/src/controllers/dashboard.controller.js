@@ -8,12 +8,39 @@
  * - Weekly/Monthly trends
  * - Macro breakdown analysis
  * - Progress towards goals
+ *
+ * Daily totals come from the DailySummary collection
+ * (services/dailySummary.service.js) rather than raw meals.
  */
 
 const Meal = require('../models/Meal');
 const User = require('../models/User');
+const BodyMeasurement = require('../models/BodyMeasurement');
 const asyncHandler = require('../utils/asyncHandler');
 const { sendSuccess } = require('../utils/response');
+const {
+  MICRONUTRIENT_KEYS,
+  micronutrientTotals,
+  micronutrientReport,
+} = require('../utils/nutrients');
+const {
+  timezoneOf,
+  dateKey,
+  todayKey,
+  toDateKey,
+  addDays,
+  dayOfWeek,
+  startOfDay,
+  endOfDay,
+} = require('../utils/timezone');
+const {
+  getDailySummaries,
+  rebuildDailySummaries,
+  sumNutrition,
+  mealTypeTotals,
+} = require('../services/dailySummary.service');
+const { dayHits, streakOf } = require('../services/achievement.service');
+const { invalidateUserCache } = require('../middleware/cacheMiddleware');
 
 /**
  * @desc    Get today's nutrition summary
@@ -21,51 +48,50 @@ const { sendSuccess } = require('../utils/response');
  * @access  Private
  */
 const getTodaySummary = asyncHandler(async (req, res) => {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  const endOfDay = new Date();
-  endOfDay.setHours(23, 59, 59, 999);
-
-  // Get today's summary
-  const summary = await Meal.getDailySummary(req.user._id, today);
-
   // Get user's daily targets
   const user = await User.findById(req.user._id);
   const targets = user.dailyTargets;
 
+  // "Today" in the user's timezone
+  const today = todayKey(timezoneOf(user));
+
+  // Get today's summary
+  const [summary] = await getDailySummaries(user, today, today);
+  const consumed = summary.nutrition;
+
   // Calculate progress percentages
   const progress = {
-    calories: Math.round((summary.totalCalories / targets.calories) * 100),
-    protein: Math.round((summary.totalProtein / targets.protein) * 100),
-    carbs: Math.round((summary.totalCarbs / targets.carbs) * 100),
-    fat: Math.round((summary.totalFat / targets.fat) * 100),
-    fiber: Math.round((summary.totalFiber / targets.fiber) * 100),
+    calories: Math.round((consumed.calories / targets.calories) * 100),
+    protein: Math.round((consumed.protein / targets.protein) * 100),
+    carbs: Math.round((consumed.carbs / targets.carbs) * 100),
+    fat: Math.round((consumed.fat / targets.fat) * 100),
+    fiber: Math.round((consumed.fiber / targets.fiber) * 100),
   };
 
   // Get remaining amounts
   const remaining = {
-    calories: Math.max(0, targets.calories - summary.totalCalories),
-    protein: Math.max(0, targets.protein - summary.totalProtein),
-    carbs: Math.max(0, targets.carbs - summary.totalCarbs),
-    fat: Math.max(0, targets.fat - summary.totalFat),
-    fiber: Math.max(0, targets.fiber - summary.totalFiber),
+    calories: Math.max(0, targets.calories - consumed.calories),
+    protein: Math.max(0, targets.protein - consumed.protein),
+    carbs: Math.max(0, targets.carbs - consumed.carbs),
+    fat: Math.max(0, targets.fat - consumed.fat),
+    fiber: Math.max(0, targets.fiber - consumed.fiber),
   };
 
   sendSuccess(res, 200, "Today's summary retrieved", {
-    date: today.toISOString().split('T')[0],
+    date: today,
     consumed: {
-      calories: summary.totalCalories,
-      protein: summary.totalProtein,
-      carbs: summary.totalCarbs,
-      fat: summary.totalFat,
-      fiber: summary.totalFiber,
-      sugar: summary.totalSugar,
-      sodium: summary.totalSodium,
+      calories: consumed.calories,
+      protein: consumed.protein,
+      carbs: consumed.carbs,
+      fat: consumed.fat,
+      fiber: consumed.fiber,
+      sugar: consumed.sugar,
+      sodium: consumed.sodium,
     },
     targets,
     progress,
     remaining,
+    micronutrients: micronutrientReport(micronutrientTotals(consumed), targets),
     mealCount: summary.mealCount,
   });
 });
@@ -88,63 +114,24 @@ const getCalorieTrends = asyncHandler(async (req, res) => {
 
   const period = periods[req.query.period] || 7;
   
-  // Calculate date range
-  const endDate = new Date();
-  endDate.setHours(23, 59, 59, 999);
-  
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - period + 1);
-  startDate.setHours(0, 0, 0, 0);
-
-  // Aggregate meals by date
-  const trends = await Meal.aggregate([
-    {
-      $match: {
-        user: req.user._id,
-        consumedAt: { $gte: startDate, $lte: endDate },
-      },
-    },
-    {
-      $group: {
-        _id: {
-          $dateToString: { format: '%Y-%m-%d', date: '$consumedAt' },
-        },
-        calories: { $sum: '$nutrition.calories' },
-        protein: { $sum: '$nutrition.protein' },
-        carbs: { $sum: '$nutrition.carbs' },
-        fat: { $sum: '$nutrition.fat' },
-        mealCount: { $sum: 1 },
-      },
-    },
-    {
-      $sort: { _id: 1 },
-    },
-  ]);
-
-  // Fill in missing dates with zeros
-  const trendMap = new Map(trends.map((t) => [t._id, t]));
-  const filledTrends = [];
-  
-  for (let d = new Date(startDate); d <= endDate; d.setDate(d.getDate() + 1)) {
-    const dateStr = d.toISOString().split('T')[0];
-    const dayData = trendMap.get(dateStr) || {
-      _id: dateStr,
-      calories: 0,
-      protein: 0,
-      carbs: 0,
-      fat: 0,
-      mealCount: 0,
-    };
-    
-    filledTrends.push({
-      date: dateStr,
-      calories: dayData.calories,
-      protein: dayData.protein,
-      carbs: dayData.carbs,
-      fat: dayData.fat,
-      mealCount: dayData.mealCount,
-    });
-  }
+  // Calculate date range (days in the user's timezone)
+  const timezone = timezoneOf(req.user);
+  const endKey = todayKey(timezone);
+  const startKey = addDays(endKey, -period + 1);
+
+  // One summary per day, including days with no meals
+  const summaries = await getDailySummaries(req.user, startKey, endKey);
+
+  const filledTrends = summaries.map((summary) => ({
+    date: summary.date,
+    calories: summary.nutrition.calories,
+    protein: summary.nutrition.protein,
+    carbs: summary.nutrition.carbs,
+    fat: summary.nutrition.fat,
+    mealCount: summary.mealCount,
+    // Calorie target that applied that day
+    target: summary.targets.calories,
+  }));
 
   // Calculate averages
   const totalDays = filledTrends.length;
@@ -169,8 +156,8 @@ const getCalorieTrends = asyncHandler(async (req, res) => {
 
   sendSuccess(res, 200, `${period}-day trends retrieved`, {
     period: req.query.period || '7d',
-    startDate: startDate.toISOString().split('T')[0],
-    endDate: endDate.toISOString().split('T')[0],
+    startDate: startKey,
+    endDate: endKey,
     trends: filledTrends,
     summary: {
       totalDays,
@@ -191,71 +178,39 @@ const getCalorieTrends = asyncHandler(async (req, res) => {
  * - period: 'day', 'week', 'month' (default: 'day')
  */
 const getMacroBreakdown = asyncHandler(async (req, res) => {
-  let startDate, endDate;
+  let startKey, endKey;
   const period = req.query.period || 'day';
 
-  if (req.query.date) {
-    startDate = new Date(req.query.date);
-  } else {
-    startDate = new Date();
-  }
+  // Day keys in the user's timezone
+  const timezone = timezoneOf(req.user);
+  const day = toDateKey(req.query.date, timezone);
 
   switch (period) {
     case 'week':
       // Get start of week (Sunday)
-      startDate.setDate(startDate.getDate() - startDate.getDay());
-      endDate = new Date(startDate);
-      endDate.setDate(endDate.getDate() + 6);
+      startKey = addDays(day, -dayOfWeek(day));
+      endKey = addDays(startKey, 6);
       break;
     case 'month':
       // Get start of month
-      startDate.setDate(1);
-      endDate = new Date(startDate);
-      endDate.setMonth(endDate.getMonth() + 1);
-      endDate.setDate(0); // Last day of month
+      startKey = `${day.slice(0, 8)}01`;
+      // Last day of month: the day before the 1st of the next month
+      endKey = addDays(`${addDays(startKey, 31).slice(0, 8)}01`, -1);
       break;
     default: // 'day'
-      endDate = new Date(startDate);
+      startKey = day;
+      endKey = day;
   }
 
-  startDate.setHours(0, 0, 0, 0);
-  endDate.setHours(23, 59, 59, 999);
-
-  // Aggregate macro data
-  const macroData = await Meal.aggregate([
-    {
-      $match: {
-        user: req.user._id,
-        consumedAt: { $gte: startDate, $lte: endDate },
-      },
-    },
-    {
-      $group: {
-        _id: null,
-        totalCalories: { $sum: '$nutrition.calories' },
-        totalProtein: { $sum: '$nutrition.protein' },
-        totalCarbs: { $sum: '$nutrition.carbs' },
-        totalFat: { $sum: '$nutrition.fat' },
-        totalFiber: { $sum: '$nutrition.fiber' },
-        totalSugar: { $sum: '$nutrition.sugar' },
-      },
-    },
-  ]);
-
-  const data = macroData[0] || {
-    totalCalories: 0,
-    totalProtein: 0,
-    totalCarbs: 0,
-    totalFat: 0,
-    totalFiber: 0,
-    totalSugar: 0,
-  };
+  // Add up the period's daily summaries
+  const summaries = await getDailySummaries(req.user, startKey, endKey);
+  const data = sumNutrition(summaries);
 
   // Calculate calorie distribution from macros
   // Protein = 4 cal/g, Carbs = 4 cal/g, Fat = 9 cal/g
-  const caloriesFromProtein = data.totalProtein * 4;
-  const caloriesFromCarbs = data.totalCarbs * 4;
-  const caloriesFromFat = data.totalFat * 9;
+  const caloriesFromProtein = data.protein * 4;
+  const caloriesFromCarbs = data.carbs * 4;
+  const caloriesFromFat = data.fat * 9;
   const totalMacroCalories = caloriesFromProtein + caloriesFromCarbs + caloriesFromFat;
 
   const distribution = {
@@ -270,17 +225,23 @@ const getMacroBreakdown = asyncHandler(async (req, res) => {
       : 0,
   };
 
+  // Micronutrient targets for the whole period (each day's own targets)
+  const periodTargets = {};
+  for (const nutrient of MICRONUTRIENT_KEYS) {
+    periodTargets[nutrient] = summaries.reduce((sum, d) => sum + (d.targets[nutrient] || 0), 0);
+  }
+
   sendSuccess(res, 200, 'Macro breakdown retrieved', {
     period,
-    startDate: startDate.toISOString().split('T')[0],
-    endDate: endDate.toISOString().split('T')[0],
+    startDate: startKey,
+    endDate: endKey,
     totals: {
-      calories: data.totalCalories,
-      protein: data.totalProtein,
-      carbs: data.totalCarbs,
-      fat: data.totalFat,
-      fiber: data.totalFiber,
-      sugar: data.totalSugar,
+      calories: data.calories,
+      protein: data.protein,
+      carbs: data.carbs,
+      fat: data.fat,
+      fiber: data.fiber,
+      sugar: data.sugar,
     },
     distribution,
     caloriesFromMacros: {
@@ -288,6 +249,7 @@ const getMacroBreakdown = asyncHandler(async (req, res) => {
       carbs: caloriesFromCarbs,
       fat: caloriesFromFat,
     },
+    micronutrients: micronutrientReport(micronutrientTotals(data), periodTargets),
   });
 });
 
@@ -299,39 +261,19 @@ const getMacroBreakdown = asyncHandler(async (req, res) => {
 const getMealDistribution = asyncHandler(async (req, res) => {
   const period = parseInt(req.query.days, 10) || 7;
   
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - period + 1);
-  startDate.setHours(0, 0, 0, 0);
-
-  const distribution = await Meal.aggregate([
-    {
-      $match: {
-        user: req.user._id,
-        consumedAt: { $gte: startDate },
-      },
-    },
-    {
-      $group: {
-        _id: '$mealType',
-        count: { $sum: 1 },
-        totalCalories: { $sum: '$nutrition.calories' },
-        avgCalories: { $avg: '$nutrition.calories' },
-      },
-    },
-    {
-      $sort: { count: -1 },
-    },
-  ]);
+  const today = todayKey(timezoneOf(req.user));
+  const summaries = await getDailySummaries(req.user, addDays(today, -period + 1), today);
+  const distribution = mealTypeTotals(summaries);
 
   // Calculate percentages
   const totalMeals = distribution.reduce((sum, d) => sum + d.count, 0);
   
   const enriched = distribution.map((d) => ({
-    mealType: d._id,
+    mealType: d.mealType,
     count: d.count,
     percentage: totalMeals > 0 ? Math.round((d.count / totalMeals) * 100) : 0,
-    totalCalories: Math.round(d.totalCalories),
-    avgCalories: Math.round(d.avgCalories),
+    totalCalories: Math.round(d.calories),
+    avgCalories: Math.round(d.calories / d.count),
   }));
 
   sendSuccess(res, 200, 'Meal distribution retrieved', {
@@ -348,39 +290,29 @@ const getMealDistribution = asyncHandler(async (req, res) => {
  */
 const getWeeklyOverview = asyncHandler(async (req, res) => {
   const user = await User.findById(req.user._id);
-  const targets = user.dailyTargets;
-
-  // Get last 7 days
-  const days = [];
-  for (let i = 6; i >= 0; i--) {
-    const date = new Date();
-    date.setDate(date.getDate() - i);
-    date.setHours(0, 0, 0, 0);
-    days.push(date);
-  }
 
-  // Get summary for each day
-  const weekData = await Promise.all(
-    days.map(async (date) => {
-      const summary = await Meal.getDailySummary(req.user._id, date);
-      return {
-        date: date.toISOString().split('T')[0],
-        dayName: date.toLocaleDateString('en-US', { weekday: 'short' }),
-        calories: summary.totalCalories,
-        target: targets.calories,
-        percentage: Math.round((summary.totalCalories / targets.calories) * 100),
-        mealsLogged: summary.mealCount,
-      };
-    })
-  );
+  // Get last 7 days (in the user's timezone)
+  const today = todayKey(timezoneOf(user));
+  const summaries = await getDailySummaries(user, addDays(today, -6), today);
+
+  // Each day against the calorie target that applied on it
+  const weekData = summaries.map(({ date, nutrition, mealCount, targets }) => ({
+    date,
+    dayName: new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' }),
+    calories: nutrition.calories,
+    target: targets.calories,
+    percentage: Math.round((nutrition.calories / targets.calories) * 100),
+    mealsLogged: mealCount,
+  }));
 
   // Calculate week totals and averages
   const weekTotals = weekData.reduce(
     (acc, day) => ({
       calories: acc.calories + day.calories,
+      target: acc.target + day.target,
       mealsLogged: acc.mealsLogged + day.mealsLogged,
     }),
-    { calories: 0, mealsLogged: 0 }
+    { calories: 0, target: 0, mealsLogged: 0 }
   );
 
   const daysWithMeals = weekData.filter((d) => d.mealsLogged > 0).length;
@@ -392,8 +324,8 @@ const getWeeklyOverview = asyncHandler(async (req, res) => {
       avgCaloriesPerDay: Math.round(weekTotals.calories / (daysWithMeals || 1)),
       totalMeals: weekTotals.mealsLogged,
       daysTracked: daysWithMeals,
-      weeklyTarget: targets.calories * 7,
-      weeklyProgress: Math.round((weekTotals.calories / (targets.calories * 7)) * 100),
+      weeklyTarget: weekTotals.target,
+      weeklyProgress: Math.round((weekTotals.calories / weekTotals.target) * 100),
     },
   });
 });
@@ -409,91 +341,49 @@ const getDashboardData = asyncHandler(async (req, res) => {
   const user = await User.findById(req.user._id);
   const targets = user.dailyTargets;
 
-  // Today's date range
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const endOfToday = new Date();
-  endOfToday.setHours(23, 59, 59, 999);
-
-  // Week start (7 days ago)
-  const weekStart = new Date();
-  weekStart.setDate(weekStart.getDate() - 6);
-  weekStart.setHours(0, 0, 0, 0);
+  // Last 7 days, in the user's timezone
+  const today = todayKey(timezoneOf(user));
 
   // Run all queries in parallel for performance
   const [
-    todaySummary,
-    weeklyData,
+    weekSummaries,
     recentMeals,
-    mealTypeStats,
   ] = await Promise.all([
-    // Today's summary
-    Meal.getDailySummary(req.user._id, today),
-    
-    // Weekly aggregation
-    Meal.aggregate([
-      {
-        $match: {
-          user: req.user._id,
-          consumedAt: { $gte: weekStart, $lte: endOfToday },
-        },
-      },
-      {
-        $group: {
-          _id: { $dateToString: { format: '%Y-%m-%d', date: '$consumedAt' } },
-          calories: { $sum: '$nutrition.calories' },
-          mealCount: { $sum: 1 },
-        },
-      },
-      { $sort: { _id: 1 } },
-    ]),
+    // Daily summaries for the week (today last)
+    getDailySummaries(user, addDays(today, -6), today),
     
     // Recent meals (last 5)
     Meal.find({ user: req.user._id })
       .sort({ consumedAt: -1 })
       .limit(5)
       .lean(),
-    
-    // Meal type distribution
-    Meal.aggregate([
-      {
-        $match: {
-          user: req.user._id,
-          consumedAt: { $gte: weekStart },
-        },
-      },
-      {
-        $group: {
-          _id: '$mealType',
-          count: { $sum: 1 },
-          calories: { $sum: '$nutrition.calories' },
-        },
-      },
-    ]),
   ]);
 
+  const todaySummary = weekSummaries[weekSummaries.length - 1];
+  const consumed = todaySummary.nutrition;
+
   // Calculate today's progress
   const todayProgress = {
     calories: {
-      consumed: todaySummary.totalCalories,
+      consumed: consumed.calories,
       target: targets.calories,
-      remaining: Math.max(0, targets.calories - todaySummary.totalCalories),
-      percentage: Math.min(100, Math.round((todaySummary.totalCalories / targets.calories) * 100)),
+      remaining: Math.max(0, targets.calories - consumed.calories),
+      percentage: Math.min(100, Math.round((consumed.calories / targets.calories) * 100)),
     },
     protein: {
-      consumed: todaySummary.totalProtein,
+      consumed: consumed.protein,
       target: targets.protein,
-      percentage: Math.min(100, Math.round((todaySummary.totalProtein / targets.protein) * 100)),
+      percentage: Math.min(100, Math.round((consumed.protein / targets.protein) * 100)),
     },
     carbs: {
-      consumed: todaySummary.totalCarbs,
+      consumed: consumed.carbs,
       target: targets.carbs,
-      percentage: Math.min(100, Math.round((todaySummary.totalCarbs / targets.carbs) * 100)),
+      percentage: Math.min(100, Math.round((consumed.carbs / targets.carbs) * 100)),
     },
     fat: {
-      consumed: todaySummary.totalFat,
+      consumed: consumed.fat,
       target: targets.fat,
-      percentage: Math.min(100, Math.round((todaySummary.totalFat / targets.fat) * 100)),
+      percentage: Math.min(100, Math.round((consumed.fat / targets.fat) * 100)),
     },
   };
 
@@ -507,11 +397,13 @@ const getDashboardData = asyncHandler(async (req, res) => {
       ...todayProgress,
       mealCount: todaySummary.mealCount,
     },
-    weeklyChart: weeklyData.map((d) => ({
-      date: d._id,
-      calories: d.calories,
-      mealCount: d.mealCount,
-    })),
+    weeklyChart: weekSummaries
+      .filter((d) => d.mealCount > 0)
+      .map((d) => ({
+        date: d.date,
+        calories: d.nutrition.calories,
+        mealCount: d.mealCount,
+      })),
     recentMeals: recentMeals.map((m) => ({
       id: m._id,
       name: m.name,
@@ -519,14 +411,151 @@ const getDashboardData = asyncHandler(async (req, res) => {
       calories: m.nutrition.calories,
       consumedAt: m.consumedAt,
     })),
-    mealTypeDistribution: mealTypeStats.map((s) => ({
-      type: s._id,
+    mealTypeDistribution: mealTypeTotals(weekSummaries).map((s) => ({
+      type: s.mealType,
       count: s.count,
       totalCalories: s.calories,
     })),
   });
 });
 
+/**
+ * @desc    Get progress stats (weight, calories, macros, streaks)
+ * @route   GET /api/dashboard/progress
+ * @access  Private
+ * 
+ * Query Parameters:
+ * - period: '7d', '14d', '30d', '90d' (default: '30d')
+ */
+const getProgress = asyncHandler(async (req, res) => {
+  const periods = {
+    '7d': 7,
+    '14d': 14,
+    '30d': 30,
+    '90d': 90,
+  };
+
+  const period = periods[req.query.period] || 30;
+
+  const user = await User.findById(req.user._id);
+  const targets = user.dailyTargets;
+
+  // Calculate date range (days in the user's timezone)
+  const timezone = timezoneOf(user);
+  const endKey = todayKey(timezone);
+  const startKey = addDays(endKey, -period + 1);
+  const startDate = startOfDay(startKey, timezone);
+  const endDate = endOfDay(endKey, timezone);
+
+  // One summary per day, including days with no meals
+  const summaries = await getDailySummaries(user, startKey, endKey);
+
+  const days = summaries.map((summary) => ({
+    date: summary.date,
+    calories: summary.nutrition.calories,
+    protein: summary.nutrition.protein,
+    carbs: summary.nutrition.carbs,
+    fat: summary.nutrition.fat,
+    mealCount: summary.mealCount,
+    target: summary.targets.calories,
+  }));
+
+  const loggedDays = days.filter((d) => d.mealCount > 0);
+  const loggedCount = loggedDays.length || 1;
+
+  // Weight history from the measurement log
+  const [measurements, currentWeight] = await Promise.all([
+    BodyMeasurement.getRange(req.user._id, startDate, endDate),
+    user.getCurrentWeight(),
+  ]);
+
+  const history = measurements
+    .filter((m) => m.weight != null)
+    .map((m) => ({
+      date: dateKey(m.date, timezone),
+      weight: m.weight,
+    }));
+
+  const startWeight = history.length > 0 ? history[0].weight : currentWeight || 0;
+  const weight = {
+    current: currentWeight || 0,
+    start: startWeight,
+    change: Math.round(((currentWeight || 0) - startWeight) * 10) / 10,
+    history,
+  };
+
+  // Calories vs target
+  const totalCalories = loggedDays.reduce((sum, d) => sum + d.calories, 0);
+  const calories = {
+    average: Math.round(totalCalories / loggedCount),
+    target: targets.calories,
+    // Each day's own target, which may differ from today's
+    trend: days.map((d) => ({
+      date: d.date,
+      consumed: d.calories,
+      target: d.target,
+    })),
+  };
+
+  // Average macros and calorie distribution
+  // Protein = 4 cal/g, Carbs = 4 cal/g, Fat = 9 cal/g
+  const averageProtein = Math.round(loggedDays.reduce((sum, d) => sum + d.protein, 0) / loggedCount);
+  const averageCarbs = Math.round(loggedDays.reduce((sum, d) => sum + d.carbs, 0) / loggedCount);
+  const averageFat = Math.round(loggedDays.reduce((sum, d) => sum + d.fat, 0) / loggedCount);
+
+  const proteinCalories = averageProtein * 4;
+  const carbsCalories = averageCarbs * 4;
+  const fatCalories = averageFat * 9;
+  const macroCalories = proteinCalories + carbsCalories + fatCalories;
+
+  const macros = {
+    averageProtein,
+    averageCarbs,
+    averageFat,
+    distribution: [
+      { name: 'Protein', value: macroCalories > 0 ? Math.round((proteinCalories / macroCalories) * 100) : 0 },
+      { name: 'Carbs', value: macroCalories > 0 ? Math.round((carbsCalories / macroCalories) * 100) : 0 },
+      { name: 'Fat', value: macroCalories > 0 ? Math.round((fatCalories / macroCalories) * 100) : 0 },
+    ],
+  };
+
+  // Streaks: consecutive days with at least one meal logged.
+  // A goal is reached when the day's calories are within 10% of that day's target
+  const hits = summaries.map(dayHits);
+  const { current, longest } = streakOf(hits.map((hit) => hit.logging));
+  const goalsReached = hits.filter((hit) => hit.calories).length;
+
+  sendSuccess(res, 200, `${period}-day progress retrieved`, {
+    period: req.query.period || '30d',
+    startDate: startKey,
+    endDate: endKey,
+    weight,
+    calories,
+    macros,
+    streaks: {
+      current,
+      longest,
+      goalsReached,
+    },
+  });
+});
+
+/**
+ * @desc    Rebuild daily summaries from meals and water records
+ * @route   POST /api/dashboard/summaries/rebuild
+ * @access  Private
+ *
+ * Body:
+ * - startDate: first day to rebuild (default: first meal or water record)
+ * - endDate: last day to rebuild (default: today)
+ */
+const rebuildSummaries = asyncHandler(async (req, res) => {
+  const result = await rebuildDailySummaries(req.user._id, req.body);
+  await invalidateUserCache(req.user._id);
+
+  sendSuccess(res, 200, `${result.days} daily summaries rebuilt`, result);
+});
+
 module.exports = {
   getTodaySummary,
   getCalorieTrends,
@@ -534,5 +563,7 @@ module.exports = {
   getMealDistribution,
   getWeeklyOverview,
   getDashboardData,
+  getProgress,
+  rebuildSummaries,
 };
 
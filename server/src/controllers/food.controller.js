@@ -7,12 +7,17 @@
 const asyncHandler = require('../utils/asyncHandler');
 const { sendSuccess } = require('../utils/response');
 const ApiError = require('../utils/ApiError');
+const CustomFood = require('../models/CustomFood');
 const {
   searchFoods,
   getFoodById,
   getCategories,
   getFoodsByCategory,
 } = require('../services/foodDatabase.service');
+const { getRecentFoods, getFrequentFoods } = require('../services/foodHistory.service');
+const { refreshFoodInMeals } = require('../services/mealItems.service');
+const { scaleNutrition, availableUnits } = require('../utils/servingUnits');
+const { MICRONUTRIENT_KEYS } = require('../utils/nutrients');
 
 /**
  * @desc    Search foods by name
@@ -20,7 +25,7 @@ const {
  * @access  Private
  * @query   q - search query (required)
  * @query   limit - max results (default 25)
- * @query   includeUSDA - include USDA results (default true)
+ * @query   includeUSDA - include imported USDA/IFCT foods (default true)
  */
 const search = asyncHandler(async (req, res) => {
   const { q, limit = 25, includeUSDA = 'true' } = req.query;
@@ -32,6 +37,7 @@ const search = asyncHandler(async (req, res) => {
   const results = await searchFoods(q.trim(), {
     limit: parseInt(limit, 10),
     includeUSDA: includeUSDA === 'true',
+    userId: req.user._id,
   });
 
   sendSuccess(res, 200, 'Search completed', results);
@@ -45,7 +51,7 @@ const search = asyncHandler(async (req, res) => {
 const getFood = asyncHandler(async (req, res) => {
   const { id } = req.params;
 
-  const food = await getFoodById(id);
+  const food = await getFoodById(id, req.user._id);
 
   if (!food) {
     throw ApiError.notFound('Food not found');
@@ -54,6 +60,33 @@ const getFood = asyncHandler(async (req, res) => {
   sendSuccess(res, 200, 'Food retrieved', { food });
 });
 
+/**
+ * @desc    Get a food's nutrition for a quantity in any compatible unit
+ * @route   GET /api/foods/:id/nutrition
+ * @access  Private
+ * @query   quantity - amount (default: one labelled serving)
+ * @query   unit - unit to measure in (default: the food's serving unit)
+ */
+const getFoodNutrition = asyncHandler(async (req, res) => {
+  const food = await getFoodById(req.params.id, req.user._id);
+
+  if (!food) {
+    throw ApiError.notFound('Food not found');
+  }
+
+  const { quantity = food.servingSize || 1, unit = food.servingUnit } = req.query;
+  const result = scaleNutrition(food, quantity, unit);
+
+  if (!result) {
+    throw ApiError.badRequest(`Cannot measure ${food.name} in ${unit}`);
+  }
+
+  sendSuccess(res, 200, 'Nutrition calculated', {
+    ...result,
+    units: availableUnits(food),
+  });
+});
+
 /**
  * @desc    Get all food categories
  * @route   GET /api/foods/categories
@@ -103,11 +136,135 @@ const getPopular = asyncHandler(async (req, res) => {
   });
 });
 
+/**
+ * @desc    Get foods the user logged most recently
+ * @route   GET /api/foods/recent
+ * @access  Private
+ * @query   limit - max foods (default 10)
+ * @query   days - how far back to look (default 30)
+ */
+const getRecent = asyncHandler(async (req, res) => {
+  const { limit = 10, days = 30 } = req.query;
+
+  const foods = await getRecentFoods(req.user._id, { limit, days });
+
+  sendSuccess(res, 200, 'Recent foods retrieved', {
+    foods,
+    count: foods.length,
+  });
+});
+
+/**
+ * @desc    Get foods the user logs most often (recent logs weigh more)
+ * @route   GET /api/foods/frequent
+ * @access  Private
+ * @query   limit - max foods (default 10)
+ * @query   days - how far back to look (default 90)
+ */
+const getFrequent = asyncHandler(async (req, res) => {
+  const { limit = 10, days = 90 } = req.query;
+
+  const foods = await getFrequentFoods(req.user._id, { limit, days });
+
+  sendSuccess(res, 200, 'Frequent foods retrieved', {
+    foods,
+    count: foods.length,
+  });
+});
+
+// Fields a user may set on a custom food
+const CUSTOM_FOOD_FIELDS = [
+  'name', 'brand', 'servingSize', 'servingUnit', 'servingWeight',
+  'calories', 'protein', 'carbs', 'fat', 'fiber', 'sodium',
+  ...MICRONUTRIENT_KEYS,
+  'category', 'visibility',
+];
+
+/**
+ * @desc    Get the user's custom foods
+ * @route   GET /api/foods/custom
+ * @access  Private
+ */
+const getCustomFoods = asyncHandler(async (req, res) => {
+  const foods = await CustomFood.find({ user: req.user._id }).sort({ name: 1 });
+
+  sendSuccess(res, 200, 'Custom foods retrieved', {
+    foods: foods.map((food) => food.toFoodItem()),
+    count: foods.length,
+  });
+});
+
+/**
+ * @desc    Create a custom food
+ * @route   POST /api/foods/custom
+ * @access  Private
+ */
+const createCustomFood = asyncHandler(async (req, res) => {
+  const data = { user: req.user._id };
+  for (const field of CUSTOM_FOOD_FIELDS) {
+    if (req.body[field] !== undefined) data[field] = req.body[field];
+  }
+
+  const food = await CustomFood.create(data);
+
+  sendSuccess(res, 201, 'Custom food created', { food: food.toFoodItem() });
+});
+
+/**
+ * @desc    Update a custom food
+ * @route   PUT /api/foods/custom/:id
+ * @access  Private
+ *
+ * Set `propagateToMeals: true` to apply the corrected nutrition to meals
+ * already logged with this food.
+ */
+const updateCustomFood = asyncHandler(async (req, res) => {
+  const food = await CustomFood.findOne({ _id: req.params.id, user: req.user._id });
+
+  if (!food) {
+    throw ApiError.notFound('Custom food not found');
+  }
+
+  for (const field of CUSTOM_FOOD_FIELDS) {
+    if (req.body[field] !== undefined) food[field] = req.body[field];
+  }
+
+  await food.save();
+
+  const mealsUpdated = req.body.propagateToMeals
+    ? await refreshFoodInMeals(req.user._id, `custom_${food._id}`)
+    : 0;
+
+  sendSuccess(res, 200, 'Custom food updated', { food: food.toFoodItem(), mealsUpdated });
+});
+
+/**
+ * @desc    Delete a custom food
+ * @route   DELETE /api/foods/custom/:id
+ * @access  Private
+ */
+const deleteCustomFood = asyncHandler(async (req, res) => {
+  const food = await CustomFood.findOneAndDelete({ _id: req.params.id, user: req.user._id });
+
+  if (!food) {
+    throw ApiError.notFound('Custom food not found');
+  }
+
+  sendSuccess(res, 200, 'Custom food deleted');
+});
+
 module.exports = {
   search,
   getFood,
+  getFoodNutrition,
   listCategories,
   byCategory,
   getPopular,
+  getRecent,
+  getFrequent,
+  getCustomFoods,
+  createCustomFood,
+  updateCustomFood,
+  deleteCustomFood,
 };
 
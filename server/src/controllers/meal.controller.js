@@ -11,11 +11,18 @@ const Meal = require('../models/Meal');
 const ApiError = require('../utils/ApiError');
 const asyncHandler = require('../utils/asyncHandler');
 const { sendSuccess, sendPaginated } = require('../utils/response');
+const { resolveItems, scaleItems } = require('../services/mealItems.service');
+const { refreshDailySummaries } = require('../services/dailySummary.service');
+const { invalidateUserCache, CACHE_TAGS } = require('../middleware/cacheMiddleware');
+const { timezoneOf, toDateKey, startOfDay, endOfDay, dayRange } = require('../utils/timezone');
 
 /**
  * @desc    Create a new meal entry
  * @route   POST /api/meals
  * @access  Private
+ *
+ * When `items` are given, each food's nutrition is looked up and the
+ * meal's nutrition is their total (any `nutrition` sent is ignored).
  */
 const createMeal = asyncHandler(async (req, res) => {
   // Add the user ID from the auth token
@@ -24,8 +31,14 @@ const createMeal = asyncHandler(async (req, res) => {
     user: req.user._id,
   };
 
+  if (req.body.items?.length) {
+    mealData.items = await resolveItems(req.user._id, req.body.items);
+  }
+
   // Create the meal
   const meal = await Meal.create(mealData);
+  await refreshDailySummaries(req.user._id, [meal.consumedAt]);
+  await invalidateUserCache(req.user._id);
 
   sendSuccess(res, 201, 'Meal logged successfully!', { meal });
 });
@@ -58,18 +71,17 @@ const getMeals = asyncHandler(async (req, res) => {
     filter.mealType = req.query.mealType;
   }
 
-  // Filter by date range
+  // Filter by date range (whole days in the user's timezone)
   if (req.query.startDate || req.query.endDate) {
+    const timezone = timezoneOf(req.user);
     filter.consumedAt = {};
     
     if (req.query.startDate) {
-      filter.consumedAt.$gte = new Date(req.query.startDate);
+      filter.consumedAt.$gte = startOfDay(toDateKey(req.query.startDate, timezone), timezone);
     }
     
     if (req.query.endDate) {
-      const endDate = new Date(req.query.endDate);
-      endDate.setHours(23, 59, 59, 999);
-      filter.consumedAt.$lte = endDate;
+      filter.consumedAt.$lte = endOfDay(toDateKey(req.query.endDate, timezone), timezone);
     }
   }
 
@@ -125,10 +137,15 @@ const getMealById = asyncHandler(async (req, res) => {
  * @desc    Update a meal
  * @route   PUT /api/meals/:id
  * @access  Private
+ *
+ * For meals with items:
+ * - `items` replaces them, rescaling each food from its source
+ * - a new `servingSize.amount` alone scales every item to match
+ * - `items: []` turns the meal back into one with manually entered nutrition
  */
 const updateMeal = asyncHandler(async (req, res) => {
   // Find the meal first
-  let meal = await Meal.findOne({
+  const meal = await Meal.findOne({
     _id: req.params.id,
     user: req.user._id,
   });
@@ -140,12 +157,21 @@ const updateMeal = asyncHandler(async (req, res) => {
   // Remove fields that shouldn't be updated
   const { user, _id, createdAt, updatedAt, ...updateData } = req.body;
 
-  // Update the meal
-  meal = await Meal.findByIdAndUpdate(
-    req.params.id,
-    { $set: updateData },
-    { new: true, runValidators: true }
-  );
+  // Moving the meal to another day changes both days' summaries
+  const previousDate = meal.consumedAt;
+
+  if (updateData.items) {
+    updateData.items = await resolveItems(req.user._id, updateData.items, meal.items);
+  } else if (meal.items.length > 0 && updateData.servingSize?.amount && meal.servingSize?.amount) {
+    const factor = updateData.servingSize.amount / meal.servingSize.amount;
+    updateData.items = scaleItems(meal.items, factor);
+  }
+
+  // Update the meal (saving re-derives nutrition from items)
+  meal.set(updateData);
+  await meal.save();
+  await refreshDailySummaries(req.user._id, [previousDate, meal.consumedAt]);
+  await invalidateUserCache(req.user._id);
 
   sendSuccess(res, 200, 'Meal updated successfully', { meal });
 });
@@ -165,6 +191,9 @@ const deleteMeal = asyncHandler(async (req, res) => {
     throw ApiError.notFound('Meal not found');
   }
 
+  await refreshDailySummaries(req.user._id, [meal.consumedAt]);
+  await invalidateUserCache(req.user._id);
+
   sendSuccess(res, 200, 'Meal deleted successfully');
 });
 
@@ -185,6 +214,8 @@ const toggleFavorite = asyncHandler(async (req, res) => {
 
   meal.isFavorite = !meal.isFavorite;
   await meal.save();
+  // Favorites feed meal suggestions
+  await invalidateUserCache(req.user._id, [CACHE_TAGS.RECOMMENDATIONS]);
 
   sendSuccess(res, 200, `Meal ${meal.isFavorite ? 'added to' : 'removed from'} favorites`, {
     isFavorite: meal.isFavorite,
@@ -197,23 +228,20 @@ const toggleFavorite = asyncHandler(async (req, res) => {
  * @access  Private
  */
 const getMealsByDate = asyncHandler(async (req, res) => {
-  const { date } = req.params; // Format: YYYY-MM-DD
-
-  // Parse the date and create start/end of day
-  const startOfDay = new Date(date);
-  startOfDay.setHours(0, 0, 0, 0);
+  const timezone = timezoneOf(req.user);
+  const date = toDateKey(req.params.date, timezone); // Format: YYYY-MM-DD
 
-  const endOfDay = new Date(date);
-  endOfDay.setHours(23, 59, 59, 999);
+  // Start/end of the day in the user's timezone
+  const { start, end } = dayRange(date, timezone);
 
   // Get meals and group by meal type
   const meals = await Meal.find({
     user: req.user._id,
-    consumedAt: { $gte: startOfDay, $lte: endOfDay },
+    consumedAt: { $gte: start, $lte: end },
   }).sort({ consumedAt: 1 });
 
   // Get daily summary
-  const summary = await Meal.getDailySummary(req.user._id, new Date(date));
+  const summary = await Meal.getDailySummary(req.user._id, date, timezone);
 
   // Group meals by type
   const grouped = {
@@ -254,6 +282,7 @@ const duplicateMeal = asyncHandler(async (req, res) => {
     description: originalMeal.description,
     mealType: req.body.mealType || originalMeal.mealType,
     nutrition: originalMeal.nutrition,
+    items: scaleItems(originalMeal.items, 1),
     servingSize: originalMeal.servingSize,
     consumedAt: req.body.consumedAt || new Date(),
     imageUrl: originalMeal.imageUrl,
@@ -263,6 +292,8 @@ const duplicateMeal = asyncHandler(async (req, res) => {
   };
 
   const newMeal = await Meal.create(newMealData);
+  await refreshDailySummaries(req.user._id, [newMeal.consumedAt]);
+  await invalidateUserCache(req.user._id);
 
   sendSuccess(res, 201, 'Meal duplicated successfully', { meal: newMeal });
 });
@@ -280,10 +311,12 @@ const bulkDeleteMeals = asyncHandler(async (req, res) => {
   }
 
   // Delete only meals belonging to this user
-  const result = await Meal.deleteMany({
-    _id: { $in: ids },
-    user: req.user._id,
-  });
+  const filter = { _id: { $in: ids }, user: req.user._id };
+  const meals = await Meal.find(filter).select('consumedAt').lean();
+  const result = await Meal.deleteMany(filter);
+
+  await refreshDailySummaries(req.user._id, meals.map((m) => m.consumedAt));
+  await invalidateUserCache(req.user._id);
 
   sendSuccess(res, 200, `${result.deletedCount} meal(s) deleted successfully`);
 });
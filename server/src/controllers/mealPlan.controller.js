@@ -5,17 +5,397 @@
  */
 
 const MealPlan = require('../models/MealPlan');
+const Meal = require('../models/Meal');
+const { generateWeek } = require('../services/mealPlanGenerator.service');
+const { buildGroceryList, toText, toCsv } = require('../services/groceryList.service');
+const { sourceOf } = require('../services/mealItems.service');
+const { parseUnit } = require('../utils/servingUnits');
+const {
+  timezoneOf,
+  todayKey,
+  dateKey,
+  toDateKey,
+  addDays,
+  dayOfWeek,
+  startOfDay,
+  zonedTime,
+} = require('../utils/timezone');
+const { refreshDailySummaries } = require('../services/dailySummary.service');
+const { invalidateUserCache } = require('../middleware/cacheMiddleware');
 const asyncHandler = require('../utils/asyncHandler');
 const { sendSuccess } = require('../utils/response');
 const ApiError = require('../utils/ApiError');
 
+// Default times for planned meals added without one
+const DEFAULT_MEAL_TIMES = {
+  breakfast: '08:00',
+  lunch: '13:00',
+  snack: '16:30',
+  dinner: '20:00',
+};
+
+/**
+ * Flatten a planned meal into a single nutrition row
+ */
+const toFlatMeal = (meal) => ({
+  _id: meal._id,
+  name: meal.name,
+  mealType: meal.mealType,
+  time: meal.time,
+  calories: meal.foods.reduce((s, f) => s + (f.calories || 0), 0),
+  protein: meal.foods.reduce((s, f) => s + (f.protein || 0), 0),
+  carbs: meal.foods.reduce((s, f) => s + (f.carbs || 0), 0),
+  fat: meal.foods.reduce((s, f) => s + (f.fat || 0), 0),
+  foods: meal.foods,
+  notes: meal.notes,
+  isCompleted: meal.isCompleted,
+});
+
+/**
+ * Shape a plan document as the week planner response, dated in the user's timezone
+ */
+const toWeekResponse = (plan, timezone) => ({
+  planId: plan._id,
+  weekStart: dateKey(plan.weekStart, timezone),
+  weekEnd: dateKey(plan.weekEnd, timezone),
+  days: [...plan.days]
+    .sort((a, b) => a.date - b.date)
+    .map((day) => ({
+      date: dateKey(day.date, timezone),
+      dayOfWeek: day.dayOfWeek,
+      meals: day.meals.map(toFlatMeal),
+      totalCalories: day.totalCalories,
+      totalProtein: day.totalProtein,
+      totalCarbs: day.totalCarbs,
+      totalFat: day.totalFat,
+    })),
+  summary: plan.weekSummary,
+});
+
+/**
+ * Log a planned meal to the Meal collection and mark it completed.
+ *
+ * Options:
+ * - portion: multiplier applied to every food (default 1)
+ * - foods: per-food serving overrides as [{ _id, servingSize }]
+ * - consumedAt: when it was eaten (default: planned day at planned time)
+ * - timezone: the user's timezone, which the planned time is in
+ */
+const logPlannedMeal = async (userId, plan, day, meal, options = {}) => {
+  const { portion = 1, foods: overrides = [], consumedAt, timezone } = options;
+
+  const round = (value) => Math.round(value * 10) / 10;
+
+  // One meal item per planned food; the Meal derives its totals from them
+  const items = meal.foods.map((food) => {
+    const override = overrides.find((o) => o._id === food._id.toString());
+    let scale = portion;
+
+    if (override && override.servingSize && food.servingSize) {
+      scale *= override.servingSize / food.servingSize;
+    }
+
+    return {
+      foodId: food.foodId,
+      source: sourceOf(food.foodId),
+      name: food.name,
+      quantity: Math.round((food.servingSize || 1) * scale * 100) / 100,
+      unit: parseUnit(food.servingUnit) || 'serving',
+      nutrition: {
+        calories: Math.round((food.calories || 0) * scale),
+        protein: round((food.protein || 0) * scale),
+        carbs: round((food.carbs || 0) * scale),
+        fat: round((food.fat || 0) * scale),
+      },
+    };
+  });
+
+  let eatenAt = consumedAt ? new Date(consumedAt) : new Date();
+  if (!consumedAt && day.date) {
+    const [hours, minutes] = meal.time.split(':').map(Number);
+    eatenAt = zonedTime(dateKey(day.date, timezone), timezone, hours, minutes);
+  }
+
+  const loggedMeal = await Meal.create({
+    user: userId,
+    name: meal.name,
+    mealType: meal.mealType,
+    items,
+    // Replaced by the item totals; only used for planned meals without foods
+    nutrition: { calories: 0 },
+    servingSize: { amount: portion, unit: 'serving' },
+    consumedAt: eatenAt,
+    notes: meal.notes,
+    tags: ['meal-plan'],
+    plannedMeal: { plan: plan._id, meal: meal._id },
+  });
+
+  meal.isCompleted = true;
+  meal.completedAt = new Date();
+  meal.loggedMeal = loggedMeal._id;
+
+  await refreshDailySummaries(userId, [loggedMeal.consumedAt]);
+  await invalidateUserCache(userId);
+
+  return loggedMeal;
+};
+
+/**
+ * Remove the logged Meal for a planned meal and mark it pending again
+ */
+const unlogPlannedMeal = async (userId, meal) => {
+  if (meal.loggedMeal) {
+    const deleted = await Meal.findOneAndDelete({ _id: meal.loggedMeal, user: userId });
+    await refreshDailySummaries(userId, [deleted?.consumedAt]);
+    await invalidateUserCache(userId);
+  }
+
+  meal.isCompleted = false;
+  meal.completedAt = undefined;
+  meal.loggedMeal = undefined;
+};
+
+/**
+ * @desc    Get a week's plan (created on demand)
+ * @route   GET /api/meal-plans/week?weekStart=YYYY-MM-DD
+ * @access  Private
+ */
+const getWeek = asyncHandler(async (req, res) => {
+  const timezone = timezoneOf(req.user);
+  const plan = await MealPlan.getWeekPlan(req.user._id, req.query.weekStart, timezone);
+
+  sendSuccess(res, 200, 'Week plan retrieved', toWeekResponse(plan, timezone));
+});
+
+/**
+ * @desc    Generate a week of meals that hits the user's daily targets
+ * @route   POST /api/meal-plans/generate
+ * @access  Private
+ *
+ * Body:
+ * - weekStart: Monday of the week to fill (YYYY-MM-DD, default: this week)
+ * - tolerance: allowed deviation per macro as a fraction (default 0.1)
+ * - maxRepeats: times a dish may appear in the week (default 2)
+ * - replace: overwrite meals already planned (completed meals are kept)
+ */
+const generatePlan = asyncHandler(async (req, res) => {
+  const { tolerance = 0.1, maxRepeats = 2, replace = false } = req.body;
+
+  const timezone = timezoneOf(req.user);
+
+  let weekStart = req.body.weekStart;
+  if (!weekStart) {
+    const today = todayKey(timezone);
+    weekStart = addDays(today, -((dayOfWeek(today) + 6) % 7));
+  }
+
+  const plan = await MealPlan.getWeekPlan(req.user._id, weekStart, timezone);
+  const days = [...plan.days].sort((a, b) => a.date - b.date);
+
+  const hasPending = days.some((day) => day.meals.some((meal) => !meal.isCompleted));
+  if (hasPending && !replace) {
+    throw ApiError.conflict('This week already has planned meals. Set replace to overwrite them.');
+  }
+
+  // Completed meals stay; their nutrition counts towards the day and their slots are skipped
+  const requests = days.map((day) => {
+    const completed = day.meals.filter((meal) => meal.isCompleted).map(toFlatMeal);
+
+    return {
+      date: day.date,
+      skipSlots: completed.map((meal) => meal.mealType),
+      fixed: completed.reduce((sum, meal) => ({
+        calories: sum.calories + meal.calories,
+        protein: sum.protein + meal.protein,
+        carbs: sum.carbs + meal.carbs,
+        fat: sum.fat + meal.fat,
+      }), { calories: 0, protein: 0, carbs: 0, fat: 0 }),
+    };
+  });
+
+  const result = generateWeek(req.user, requests, { tolerance, maxRepeats });
+
+  days.forEach((day, i) => {
+    const kept = day.meals.filter((meal) => meal.isCompleted);
+    const generated = result.days[i].meals.map((meal) => ({
+      ...meal,
+      time: DEFAULT_MEAL_TIMES[meal.mealType],
+    }));
+
+    day.meals = [...kept, ...generated];
+  });
+
+  plan.targetCalories = req.user.dailyTargets.calories;
+  await plan.save();
+  await invalidateUserCache(req.user._id);
+
+  const report = result.days.map((day) => ({
+    date: dateKey(day.date, timezone),
+    totals: day.totals,
+    targets: day.targets,
+    deviation: day.deviation,
+    withinTolerance: day.withinTolerance,
+  }));
+
+  sendSuccess(res, 201, 'Meal plan generated', {
+    ...toWeekResponse(plan, timezone),
+    report,
+    daysWithinTolerance: report.filter((day) => day.withinTolerance).length,
+    warnings: result.warnings,
+  });
+});
+
+/**
+ * @desc    Add a planned meal to a date
+ * @route   POST /api/meal-plans
+ * @access  Private
+ */
+const addPlannedMeal = asyncHandler(async (req, res) => {
+  const {
+    date,
+    mealType,
+    name,
+    time,
+    foods,
+    calories = 0,
+    protein = 0,
+    carbs = 0,
+    fat = 0,
+    notes,
+  } = req.body;
+
+  const timezone = timezoneOf(req.user);
+  const day = toDateKey(date, timezone);
+  const plan = await MealPlan.getPlanForDate(req.user._id, day, timezone);
+  const dayPlan = plan.getDay(day, timezone);
+
+  // Without a food breakdown the meal itself is the single food line
+  const mealFoods = foods && foods.length > 0
+    ? foods
+    : [{ name, servingSize: 1, servingUnit: 'serving', calories, protein, carbs, fat }];
+
+  dayPlan.meals.push({
+    name,
+    mealType,
+    time: time || DEFAULT_MEAL_TIMES[mealType],
+    foods: mealFoods,
+    notes,
+  });
+
+  await plan.save();
+  await invalidateUserCache(req.user._id);
+
+  sendSuccess(res, 201, 'Meal added to plan', {
+    planId: plan._id,
+    date: day,
+    meal: toFlatMeal(dayPlan.meals[dayPlan.meals.length - 1]),
+    totalCalories: dayPlan.totalCalories,
+  });
+});
+
+/**
+ * @desc    Remove a planned meal by its ID (and its logged Meal, if completed)
+ * @route   DELETE /api/meal-plans/:mealId
+ * @access  Private
+ */
+const deletePlannedMeal = asyncHandler(async (req, res) => {
+  const { mealId } = req.params;
+
+  const plan = await MealPlan.findOne({
+    user: req.user._id,
+    'days.meals._id': mealId,
+  });
+
+  if (!plan) {
+    throw ApiError.notFound('Planned meal not found');
+  }
+
+  const day = plan.days.find((d) => d.meals.id(mealId));
+  const meal = day.meals.id(mealId);
+
+  // A completed meal takes its diary entry with it, as un-completing does
+  if (meal.isCompleted) {
+    await unlogPlannedMeal(req.user._id, meal);
+  }
+  day.meals.pull(mealId);
+
+  await plan.save();
+  await invalidateUserCache(req.user._id);
+
+  sendSuccess(res, 200, 'Meal removed from plan');
+});
+
+/**
+ * @desc    Copy all planned meals from one date to another
+ * @route   POST /api/meal-plans/copy
+ * @access  Private
+ */
+const copyDay = asyncHandler(async (req, res) => {
+  const { fromDate, toDate, replace = false } = req.body;
+
+  if (fromDate === toDate) {
+    throw ApiError.badRequest('Source and target dates must be different');
+  }
+
+  const timezone = timezoneOf(req.user);
+  const from = toDateKey(fromDate, timezone);
+  const to = toDateKey(toDate, timezone);
+
+  const sourcePlan = await MealPlan.getPlanForDate(req.user._id, from, timezone);
+  const sourceDay = sourcePlan.getDay(from, timezone);
+
+  if (sourceDay.meals.length === 0) {
+    throw ApiError.badRequest('No meals planned on the source date');
+  }
+
+  // Source and target may be in the same plan document
+  const targetStart = startOfDay(to, timezone);
+  const targetPlan = sourcePlan.weekStart <= targetStart && sourcePlan.weekEnd >= targetStart
+    ? sourcePlan
+    : await MealPlan.getPlanForDate(req.user._id, to, timezone);
+  const targetDay = targetPlan.getDay(to, timezone);
+
+  const copies = sourceDay.meals.map((meal) => ({
+    name: meal.name,
+    mealType: meal.mealType,
+    time: meal.time,
+    foods: meal.foods.map((f) => ({
+      name: f.name,
+      servingSize: f.servingSize,
+      servingUnit: f.servingUnit,
+      calories: f.calories,
+      protein: f.protein,
+      carbs: f.carbs,
+      fat: f.fat,
+      foodId: f.foodId,
+    })),
+    notes: meal.notes,
+    isCompleted: false,
+  }));
+
+  if (replace) {
+    // Completed meals stay, like in generatePlan: their diary entries point at them
+    targetDay.meals = [...targetDay.meals.filter((meal) => meal.isCompleted), ...copies];
+  } else {
+    targetDay.meals.push(...copies);
+  }
+
+  await targetPlan.save();
+  await invalidateUserCache(req.user._id);
+
+  sendSuccess(res, 200, `Copied ${copies.length} meal(s)`, {
+    copied: copies.length,
+    date: to,
+  });
+});
+
 /**
  * @desc    Get current week's meal plan
  * @route   GET /api/meal-plans/current
  * @access  Private
  */
 const getCurrentPlan = asyncHandler(async (req, res) => {
-  const plan = await MealPlan.getCurrentWeekPlan(req.user._id);
+  const plan = await MealPlan.getCurrentWeekPlan(req.user._id, timezoneOf(req.user));
 
   sendSuccess(res, 200, 'Current meal plan retrieved', { plan });
 });
@@ -111,6 +491,7 @@ const addMeal = asyncHandler(async (req, res) => {
     sum + meal.foods.reduce((s, f) => s + (f.fat || 0), 0), 0);
 
   await plan.save();
+  await invalidateUserCache(req.user._id);
 
   sendSuccess(res, 201, 'Meal added to plan', {
     meal: day.meals[day.meals.length - 1],
@@ -157,9 +538,10 @@ const updateMeal = asyncHandler(async (req, res) => {
   if (time) meal.time = time;
   if (foods) meal.foods = foods;
   if (notes !== undefined) meal.notes = notes;
-  if (isCompleted !== undefined) {
-    meal.isCompleted = isCompleted;
-    if (isCompleted) meal.completedAt = new Date();
+  if (isCompleted === true && !meal.isCompleted) {
+    await logPlannedMeal(req.user._id, plan, day, meal, { timezone: timezoneOf(req.user) });
+  } else if (isCompleted === false && meal.isCompleted) {
+    await unlogPlannedMeal(req.user._id, meal);
   }
 
   // Recalculate totals
@@ -173,12 +555,13 @@ const updateMeal = asyncHandler(async (req, res) => {
     sum + m.foods.reduce((s, f) => s + (f.fat || 0), 0), 0);
 
   await plan.save();
+  await invalidateUserCache(req.user._id);
 
   sendSuccess(res, 200, 'Meal updated', { meal });
 });
 
 /**
- * @desc    Delete meal from plan
+ * @desc    Delete meal from plan (and its logged Meal, if completed)
  * @route   DELETE /api/meal-plans/:planId/days/:dayOfWeek/meals/:mealId
  * @access  Private
  */
@@ -204,6 +587,10 @@ const deleteMeal = asyncHandler(async (req, res) => {
     throw ApiError.notFound('Meal not found');
   }
 
+  // A completed meal takes its diary entry with it, as un-completing does
+  if (day.meals[mealIndex].isCompleted) {
+    await unlogPlannedMeal(req.user._id, day.meals[mealIndex]);
+  }
   day.meals.splice(mealIndex, 1);
 
   // Recalculate totals
@@ -213,17 +600,24 @@ const deleteMeal = asyncHandler(async (req, res) => {
     sum + m.foods.reduce((s, f) => s + (f.protein || 0), 0), 0);
 
   await plan.save();
+  await invalidateUserCache(req.user._id);
 
   sendSuccess(res, 200, 'Meal deleted');
 });
 
 /**
- * @desc    Mark meal as completed
+ * @desc    Mark meal as completed and log it as a Meal
  * @route   POST /api/meal-plans/:planId/days/:dayOfWeek/meals/:mealId/complete
  * @access  Private
+ * 
+ * Body (all optional):
+ * - portion: multiplier for the whole meal (e.g. 0.5, 1.5)
+ * - foods: per-food serving overrides [{ _id, servingSize }]
+ * - consumedAt: when the meal was eaten
  */
 const completeMeal = asyncHandler(async (req, res) => {
   const { planId, dayOfWeek, mealId } = req.params;
+  const { portion, foods, consumedAt } = req.body;
 
   const plan = await MealPlan.findOne({
     _id: planId,
@@ -244,12 +638,53 @@ const completeMeal = asyncHandler(async (req, res) => {
     throw ApiError.notFound('Meal not found');
   }
 
-  meal.isCompleted = true;
-  meal.completedAt = new Date();
+  if (meal.isCompleted) {
+    throw ApiError.badRequest('Meal is already completed');
+  }
+
+  const loggedMeal = await logPlannedMeal(req.user._id, plan, day, meal, {
+    portion,
+    foods,
+    consumedAt,
+    timezone: timezoneOf(req.user),
+  });
 
   await plan.save();
 
-  sendSuccess(res, 200, 'Meal marked as completed', { meal });
+  sendSuccess(res, 200, 'Meal marked as completed', { meal, loggedMeal });
+});
+
+/**
+ * @desc    Undo completion and remove the logged Meal
+ * @route   DELETE /api/meal-plans/:planId/days/:dayOfWeek/meals/:mealId/complete
+ * @access  Private
+ */
+const uncompleteMeal = asyncHandler(async (req, res) => {
+  const { planId, dayOfWeek, mealId } = req.params;
+
+  const plan = await MealPlan.findOne({
+    _id: planId,
+    user: req.user._id,
+  });
+
+  if (!plan) {
+    throw ApiError.notFound('Meal plan not found');
+  }
+
+  const day = plan.days.find(d => d.dayOfWeek === parseInt(dayOfWeek, 10));
+  if (!day) {
+    throw ApiError.badRequest('Invalid day of week');
+  }
+
+  const meal = day.meals.id(mealId);
+  if (!meal) {
+    throw ApiError.notFound('Meal not found');
+  }
+
+  await unlogPlannedMeal(req.user._id, meal);
+  await plan.save();
+
+  sendSuccess(res, 200, 'Meal marked as not completed', { meal });
 });
 
 /**
@@ -315,13 +750,13 @@ const applyTemplate = asyncHandler(async (req, res) => {
     throw ApiError.notFound('Template not found');
   }
 
-  const plan = await MealPlan.getCurrentWeekPlan(req.user._id);
+  const plan = await MealPlan.getCurrentWeekPlan(req.user._id, timezoneOf(req.user));
 
   // Apply template meals to current plan
   for (const templateDay of template.days) {
     const planDay = plan.days.find(d => d.dayOfWeek === templateDay.dayOfWeek);
     if (planDay) {
-      planDay.meals = templateDay.meals.map(meal => ({
+      const copies = templateDay.meals.map(meal => ({
         name: meal.name,
         mealType: meal.mealType,
         time: meal.time,
@@ -330,6 +765,9 @@ const applyTemplate = asyncHandler(async (req, res) => {
         isCompleted: false,
       }));
 
+      // Completed meals stay, like in copyDay: their diary entries point at them
+      planDay.meals = [...planDay.meals.filter((meal) => meal.isCompleted), ...copies];
+
       // Recalculate totals
       planDay.totalCalories = planDay.meals.reduce((sum, m) => 
         sum + m.foods.reduce((s, f) => s + (f.calories || 0), 0), 0);
@@ -343,11 +781,91 @@ const applyTemplate = asyncHandler(async (req, res) => {
   }
 
   await plan.save();
+  await invalidateUserCache(req.user._id);
 
   sendSuccess(res, 200, 'Template applied', { plan });
 });
 
+/**
+ * @desc    Get the shopping list for a meal plan
+ * @route   GET /api/meal-plans/:planId/grocery-list
+ * @access  Private
+ *
+ * Query Parameters:
+ * - format: json (default), text or csv
+ */
+const getGroceryList = asyncHandler(async (req, res) => {
+  const plan = await MealPlan.findOne({
+    _id: req.params.planId,
+    user: req.user._id,
+  });
+
+  if (!plan) {
+    throw ApiError.notFound('Meal plan not found');
+  }
+
+  const list = buildGroceryList(plan);
+  const timezone = timezoneOf(req.user);
+  const weekStart = dateKey(plan.weekStart, timezone);
+  const weekEnd = dateKey(plan.weekEnd, timezone);
+  const { format = 'json' } = req.query;
+
+  if (format === 'text') {
+    res.type('text/plain');
+    res.attachment(`shopping-list-${weekStart}.txt`);
+    return res.send(toText(list, `Shopping list: ${weekStart} to ${weekEnd}`));
+  }
+
+  if (format === 'csv') {
+    res.type('text/csv');
+    res.attachment(`shopping-list-${weekStart}.csv`);
+    return res.send(toCsv(list));
+  }
+
+  sendSuccess(res, 200, 'Grocery list retrieved', {
+    planId: plan._id,
+    weekStart,
+    weekEnd,
+    ...list,
+  });
+});
+
+/**
+ * @desc    Check or uncheck a grocery list item
+ * @route   PATCH /api/meal-plans/:planId/grocery-list/:itemKey
+ * @access  Private
+ */
+const checkGroceryItem = asyncHandler(async (req, res) => {
+  const { planId, itemKey } = req.params;
+  const { checked } = req.body;
+
+  const update = checked
+    ? { $addToSet: { groceryChecked: itemKey } }
+    : { $pull: { groceryChecked: itemKey } };
+
+  const plan = await MealPlan.findOneAndUpdate(
+    { _id: planId, user: req.user._id },
+    update,
+    { new: true }
+  );
+
+  if (!plan) {
+    throw ApiError.notFound('Meal plan not found');
+  }
+
+  sendSuccess(res, 200, checked ? 'Item checked off' : 'Item unchecked', {
+    itemKey,
+    checked,
+    checkedItems: plan.groceryChecked.length,
+  });
+});
+
 module.exports = {
+  getWeek,
+  generatePlan,
+  addPlannedMeal,
+  deletePlannedMeal,
+  copyDay,
   getCurrentPlan,
   getPlan,
   getPlans,
@@ -355,7 +873,10 @@ module.exports = {
   updateMeal,
   deleteMeal,
   completeMeal,
+  uncompleteMeal,
   saveAsTemplate,
   applyTemplate,
+  getGroceryList,
+  checkGroceryItem,
 };
 
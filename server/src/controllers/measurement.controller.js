@@ -0,0 +1,185 @@
+/**
+ * Body Measurement Controller
+ * ===========================
+ * Handles the weight and body-measurement log.
+ */
+
+const BodyMeasurement = require('../models/BodyMeasurement');
+const User = require('../models/User');
+const asyncHandler = require('../utils/asyncHandler');
+const { sendSuccess } = require('../utils/response');
+const ApiError = require('../utils/ApiError');
+const { autoAdjustCalories } = require('../services/tdee.service');
+const { invalidateUserCache } = require('../middleware/cacheMiddleware');
+const { timezoneOf, toDateKey, startOfDay, endOfDay } = require('../utils/timezone');
+
+/**
+ * Keep profile weight and calorie targets in line with the latest weigh-in
+ * (users who opted in to auto-adjust follow the adaptive TDEE estimate
+ * instead of the formula)
+ */
+const syncProfileWeight = async (userId) => {
+  const latest = await BodyMeasurement.getLatestWeight(userId);
+  if (!latest) return;
+
+  const user = await User.findById(userId);
+
+  if (user.profile.weight !== latest.weight) {
+    user.profile.weight = latest.weight;
+    if (!user.preferences.autoAdjustCalories) {
+      user.recalculateTargets(latest.weight);
+    }
+    await user.save();
+    await invalidateUserCache(userId);
+  }
+
+  await autoAdjustCalories(user);
+};
+
+/**
+ * @desc    Get measurement history (optionally within a date range)
+ * @route   GET /api/measurements
+ * @access  Private
+ *
+ * Query Parameters:
+ * - startDate: entries from this date (YYYY-MM-DD)
+ * - endDate: entries until this date (YYYY-MM-DD)
+ */
+const getMeasurements = asyncHandler(async (req, res) => {
+  const { startDate, endDate } = req.query;
+
+  // Whole days in the user's timezone
+  const timezone = timezoneOf(req.user);
+  const start = startDate ? startOfDay(toDateKey(startDate, timezone), timezone) : undefined;
+  const end = endDate ? endOfDay(toDateKey(endDate, timezone), timezone) : undefined;
+
+  const measurements = await BodyMeasurement.getRange(req.user._id, start, end);
+
+  // Weight change across the range
+  const weighIns = measurements.filter((m) => m.weight != null);
+  const first = weighIns[0];
+  const last = weighIns[weighIns.length - 1];
+
+  sendSuccess(res, 200, 'Measurements retrieved', {
+    measurements,
+    stats: {
+      count: measurements.length,
+      startWeight: first ? first.weight : null,
+      currentWeight: last ? last.weight : null,
+      weightChange: first && last
+        ? Math.round((last.weight - first.weight) * 10) / 10
+        : 0,
+    },
+  });
+});
+
+/**
+ * @desc    Get latest weigh-in
+ * @route   GET /api/measurements/latest
+ * @access  Private
+ */
+const getLatest = asyncHandler(async (req, res) => {
+  const measurement = await BodyMeasurement.getLatestWeight(req.user._id);
+
+  sendSuccess(res, 200, 'Latest measurement retrieved', { measurement });
+});
+
+/**
+ * @desc    Get a single measurement
+ * @route   GET /api/measurements/:id
+ * @access  Private
+ */
+const getMeasurement = asyncHandler(async (req, res) => {
+  const measurement = await BodyMeasurement.findOne({
+    _id: req.params.id,
+    user: req.user._id,
+  });
+
+  if (!measurement) {
+    throw ApiError.notFound('Measurement not found');
+  }
+
+  sendSuccess(res, 200, 'Measurement retrieved', { measurement });
+});
+
+/**
+ * @desc    Log a new measurement
+ * @route   POST /api/measurements
+ * @access  Private
+ */
+const createMeasurement = asyncHandler(async (req, res) => {
+  const { date, weight, waist, hip, bodyFat, notes } = req.body;
+
+  const measurement = await BodyMeasurement.create({
+    user: req.user._id,
+    date: date || new Date(),
+    weight,
+    waist,
+    hip,
+    bodyFat,
+    notes,
+  });
+
+  await syncProfileWeight(req.user._id);
+
+  sendSuccess(res, 201, 'Measurement logged', { measurement });
+});
+
+/**
+ * @desc    Update a measurement
+ * @route   PUT /api/measurements/:id
+ * @access  Private
+ */
+const updateMeasurement = asyncHandler(async (req, res) => {
+  const measurement = await BodyMeasurement.findOne({
+    _id: req.params.id,
+    user: req.user._id,
+  });
+
+  if (!measurement) {
+    throw ApiError.notFound('Measurement not found');
+  }
+
+  const { date, weight, waist, hip, bodyFat, notes } = req.body;
+
+  if (date !== undefined) measurement.date = date;
+  if (weight !== undefined) measurement.weight = weight;
+  if (waist !== undefined) measurement.waist = waist;
+  if (hip !== undefined) measurement.hip = hip;
+  if (bodyFat !== undefined) measurement.bodyFat = bodyFat;
+  if (notes !== undefined) measurement.notes = notes;
+
+  await measurement.save();
+  await syncProfileWeight(req.user._id);
+
+  sendSuccess(res, 200, 'Measurement updated', { measurement });
+});
+
+/**
+ * @desc    Delete a measurement
+ * @route   DELETE /api/measurements/:id
+ * @access  Private
+ */
+const deleteMeasurement = asyncHandler(async (req, res) => {
+  const measurement = await BodyMeasurement.findOneAndDelete({
+    _id: req.params.id,
+    user: req.user._id,
+  });
+
+  if (!measurement) {
+    throw ApiError.notFound('Measurement not found');
+  }
+
+  await syncProfileWeight(req.user._id);
+
+  sendSuccess(res, 200, 'Measurement deleted');
+});
+
+module.exports = {
+  getMeasurements,
+  getLatest,
+  getMeasurement,
+  createMeasurement,
+  updateMeasurement,
+  deleteMeasurement,
+};
@@ -0,0 +1,212 @@
+/**
+ * Recipe Controller
+ * =================
+ * Handles the recipe builder and logging recipe servings as meals.
+ */
+
+const Recipe = require('../models/Recipe');
+const Meal = require('../models/Meal');
+const asyncHandler = require('../utils/asyncHandler');
+const { sendSuccess } = require('../utils/response');
+const ApiError = require('../utils/ApiError');
+const { getFoodById } = require('../services/foodDatabase.service');
+const { scaleNutrition } = require('../utils/servingUnits');
+const { refreshFoodInMeals } = require('../services/mealItems.service');
+const { refreshDailySummaries } = require('../services/dailySummary.service');
+const { invalidateUserCache } = require('../middleware/cacheMiddleware');
+const { MICRONUTRIENT_KEYS } = require('../utils/nutrients');
+
+const NUTRIENTS = ['calories', 'protein', 'carbs', 'fat', 'fiber', 'sodium', ...MICRONUTRIENT_KEYS];
+
+/**
+ * Look up each ingredient in the food database and compute its nutrition
+ * @param {ObjectId} userId - Owner (for private custom foods)
+ * @param {Array} ingredients - [{ foodId, quantity, unit }] (unit defaults to the food's serving unit)
+ */
+const resolveIngredients = async (userId, ingredients) => Promise.all(
+  ingredients.map(async ({ foodId, quantity, unit }) => {
+    if (foodId.startsWith('recipe_')) {
+      throw ApiError.badRequest('Recipes cannot be used as ingredients');
+    }
+
+    const food = await getFoodById(foodId, userId);
+
+    if (!food) {
+      throw ApiError.badRequest(`Ingredient not found: ${foodId}`);
+    }
+
+    const scaled = scaleNutrition(food, quantity, unit || food.servingUnit);
+
+    if (!scaled) {
+      throw ApiError.badRequest(`Cannot measure ${food.name} in ${unit}`);
+    }
+
+    const nutrition = {};
+    for (const nutrient of NUTRIENTS) {
+      nutrition[nutrient] = scaled.nutrition[nutrient] || 0;
+    }
+
+    return {
+      foodId,
+      name: food.name,
+      quantity,
+      unit: scaled.unit,
+      nutrition,
+    };
+  })
+);
+
+/**
+ * @desc    Get user's recipes (optionally filtered by name)
+ * @route   GET /api/recipes
+ * @access  Private
+ *
+ * Query Parameters:
+ * - q: name search
+ */
+const getRecipes = asyncHandler(async (req, res) => {
+  const recipes = req.query.q
+    ? await Recipe.search(req.user._id, req.query.q, 50)
+    : await Recipe.find({ user: req.user._id }).sort({ updatedAt: -1 });
+
+  sendSuccess(res, 200, 'Recipes retrieved', { recipes, count: recipes.length });
+});
+
+/**
+ * @desc    Get a single recipe
+ * @route   GET /api/recipes/:id
+ * @access  Private
+ */
+const getRecipe = asyncHandler(async (req, res) => {
+  const recipe = await Recipe.findOne({ _id: req.params.id, user: req.user._id });
+
+  if (!recipe) {
+    throw ApiError.notFound('Recipe not found');
+  }
+
+  sendSuccess(res, 200, 'Recipe retrieved', { recipe });
+});
+
+/**
+ * @desc    Create a recipe
+ * @route   POST /api/recipes
+ * @access  Private
+ */
+const createRecipe = asyncHandler(async (req, res) => {
+  const { name, description, servings, tags } = req.body;
+
+  const ingredients = await resolveIngredients(req.user._id, req.body.ingredients);
+
+  const recipe = await Recipe.create({
+    user: req.user._id,
+    name,
+    description,
+    servings,
+    tags,
+    ingredients,
+  });
+
+  sendSuccess(res, 201, 'Recipe created', { recipe });
+});
+
+/**
+ * @desc    Update a recipe
+ * @route   PUT /api/recipes/:id
+ * @access  Private
+ *
+ * Set `propagateToMeals: true` to apply the new nutrition to meals
+ * already logged from this recipe.
+ */
+const updateRecipe = asyncHandler(async (req, res) => {
+  const recipe = await Recipe.findOne({ _id: req.params.id, user: req.user._id });
+
+  if (!recipe) {
+    throw ApiError.notFound('Recipe not found');
+  }
+
+  const { name, description, servings, tags, ingredients } = req.body;
+
+  if (name !== undefined) recipe.name = name;
+  if (description !== undefined) recipe.description = description;
+  if (servings !== undefined) recipe.servings = servings;
+  if (tags !== undefined) recipe.tags = tags;
+  if (ingredients !== undefined) recipe.ingredients = await resolveIngredients(req.user._id, ingredients);
+
+  await recipe.save();
+
+  const mealsUpdated = req.body.propagateToMeals
+    ? await refreshFoodInMeals(req.user._id, `recipe_${recipe._id}`)
+    : 0;
+
+  sendSuccess(res, 200, 'Recipe updated', { recipe, mealsUpdated });
+});
+
+/**
+ * @desc    Delete a recipe
+ * @route   DELETE /api/recipes/:id
+ * @access  Private
+ */
+const deleteRecipe = asyncHandler(async (req, res) => {
+  const recipe = await Recipe.findOneAndDelete({ _id: req.params.id, user: req.user._id });
+
+  if (!recipe) {
+    throw ApiError.notFound('Recipe not found');
+  }
+
+  sendSuccess(res, 200, 'Recipe deleted');
+});
+
+/**
+ * @desc    Log servings of a recipe as a meal
+ * @route   POST /api/recipes/:id/log
+ * @access  Private
+ *
+ * Body:
+ * - servings: number of servings eaten (default 1)
+ * - mealType: breakfast, lunch, dinner or snack
+ * - consumedAt: when it was eaten (default now)
+ */
+const logRecipe = asyncHandler(async (req, res) => {
+  const recipe = await Recipe.findOne({ _id: req.params.id, user: req.user._id });
+
+  if (!recipe) {
+    throw ApiError.notFound('Recipe not found');
+  }
+
+  const { servings = 1, mealType, consumedAt } = req.body;
+
+  const scaled = scaleNutrition(recipe.toFoodItem(), servings, 'serving');
+
+  const meal = await Meal.create({
+    user: req.user._id,
+    name: recipe.name,
+    description: recipe.ingredients.map((i) => i.name).join(', ').slice(0, 500),
+    mealType,
+    items: [{
+      foodId: `recipe_${recipe._id}`,
+      source: 'recipe',
+      name: recipe.name,
+      quantity: servings,
+      unit: 'serving',
+      nutrition: scaled.nutrition,
+    }],
+    servingSize: { amount: servings, unit: 'serving' },
+    consumedAt: consumedAt || new Date(),
+    tags: ['recipe', ...recipe.tags],
+    recipe: recipe._id,
+  });
+
+  await refreshDailySummaries(req.user._id, [meal.consumedAt]);
+  await invalidateUserCache(req.user._id);
+
+  sendSuccess(res, 201, 'Recipe logged as meal', { meal });
+});
+
+module.exports = {
+  getRecipes,
+  getRecipe,
+  createRecipe,
+  updateRecipe,
+  deleteRecipe,
+  logRecipe,
+};
@@ -6,12 +6,31 @@
 
 const {
   generateDailyRecommendations,
+  recordFeedback,
   getMealSuggestions,
   getWeeklyInsights,
 } = require('../services/recommendation.service');
+const { invalidateUserCache, CACHE_TAGS } = require('../middleware/cacheMiddleware');
 const asyncHandler = require('../utils/asyncHandler');
+const ApiError = require('../utils/ApiError');
 const { sendSuccess } = require('../utils/response');
 
+// How long a snooze lasts unless the user says otherwise
+const DEFAULT_SNOOZE_HOURS = 3;
+
+/**
+ * Save feedback and evict the user's cached recommendations
+ */
+const saveFeedback = async (req, update) => {
+  const feedback = await recordFeedback(req.user._id, req.params.id, update);
+  if (!feedback) {
+    throw ApiError.notFound('Recommendation not found');
+  }
+
+  await invalidateUserCache(req.user._id, [CACHE_TAGS.RECOMMENDATIONS]);
+  return feedback;
+};
+
 /**
  * @desc    Get daily personalized recommendations
  * @route   GET /api/recommendations
@@ -58,9 +77,57 @@ const getInsights = asyncHandler(async (req, res) => {
   sendSuccess(res, 200, 'Weekly insights generated', insights);
 });
 
+/**
+ * @desc    Dismiss a recommendation for the rest of its day
+ * @route   POST /api/recommendations/:id/dismiss
+ * @access  Private
+ */
+const dismissRecommendation = asyncHandler(async (req, res) => {
+  const feedback = await saveFeedback(req, { dismissedAt: new Date() });
+
+  sendSuccess(res, 200, 'Recommendation dismissed', { feedback });
+});
+
+/**
+ * @desc    Hide a recommendation's rule for a while
+ * @route   POST /api/recommendations/:id/snooze
+ * @access  Private
+ *
+ * Body:
+ * - hours: how long to snooze (default 3)
+ */
+const snoozeRecommendation = asyncHandler(async (req, res) => {
+  const hours = Number(req.body.hours ?? DEFAULT_SNOOZE_HOURS);
+  const feedback = await saveFeedback(req, {
+    snoozedUntil: new Date(Date.now() + hours * 60 * 60 * 1000),
+  });
+
+  sendSuccess(res, 200, `Recommendation snoozed for ${hours} hour${hours === 1 ? '' : 's'}`, { feedback });
+});
+
+/**
+ * @desc    Rate a recommendation helpful or not
+ * @route   POST /api/recommendations/:id/rate
+ * @access  Private
+ *
+ * Body:
+ * - helpful: true or false
+ */
+const rateRecommendation = asyncHandler(async (req, res) => {
+  const feedback = await saveFeedback(req, {
+    helpful: req.body.helpful,
+    ratedAt: new Date(),
+  });
+
+  sendSuccess(res, 200, 'Thanks for the feedback', { feedback });
+});
+
 module.exports = {
   getRecommendations,
   getSuggestions,
   getInsights,
+  dismissRecommendation,
+  snoozeRecommendation,
+  rateRecommendation,
 };
 
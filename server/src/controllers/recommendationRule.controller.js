@@ -0,0 +1,134 @@
+/**
+ * Recommendation Rule Controller
+ * ==============================
+ * Admin endpoints for adding, tuning and testing the daily
+ * recommendation rules (see utils/ruleEngine.js).
+ */
+
+const RecommendationRule = require('../models/RecommendationRule');
+const {
+  getRecommendationRules,
+  clearRuleCache,
+} = require('../services/recommendation.service');
+const { runFixtures } = require('../utils/ruleEngine');
+const asyncHandler = require('../utils/asyncHandler');
+const { sendSuccess } = require('../utils/response');
+const ApiError = require('../utils/ApiError');
+const { clearCache } = require('../middleware/cacheMiddleware');
+
+// Fields an admin may set on a rule
+const RULE_FIELDS = [
+  'key', 'category', 'priority', 'conditions', 'group', 'order',
+  'title', 'message', 'action', 'icon', 'suggestions', 'enabled',
+];
+
+const pickRule = (body) => Object.fromEntries(
+  RULE_FIELDS.filter((field) => body[field] !== undefined).map((field) => [field, body[field]])
+);
+
+/**
+ * New rules apply to everyone: drop cached rules and recommendations
+ */
+const rulesChanged = async () => {
+  clearRuleCache();
+  await clearCache('api:*:/api/recommendations*');
+};
+
+/**
+ * @desc    Get all recommendation rules (including disabled ones)
+ * @route   GET /api/recommendations/rules
+ * @access  Admin
+ */
+const getRules = asyncHandler(async (req, res) => {
+  // Seeds the defaults on first use
+  await getRecommendationRules();
+  const rules = await RecommendationRule.find().sort({ order: 1, key: 1 }).lean();
+
+  sendSuccess(res, 200, 'Recommendation rules retrieved', {
+    count: rules.length,
+    rules,
+  });
+});
+
+/**
+ * @desc    Add a recommendation rule
+ * @route   POST /api/recommendations/rules
+ * @access  Admin
+ */
+const createRule = asyncHandler(async (req, res) => {
+  const existing = await RecommendationRule.exists({ key: req.body.key });
+  if (existing) {
+    throw ApiError.conflict(`A rule with key "${req.body.key}" already exists`);
+  }
+
+  const rule = await RecommendationRule.create(pickRule(req.body));
+  await rulesChanged();
+
+  sendSuccess(res, 201, 'Recommendation rule created', { rule });
+});
+
+/**
+ * @desc    Update a recommendation rule (thresholds, messages, priority, enabled...)
+ * @route   PUT /api/recommendations/rules/:key
+ * @access  Admin
+ */
+const updateRule = asyncHandler(async (req, res) => {
+  const rule = await RecommendationRule.findOne({ key: req.params.key });
+
+  if (!rule) {
+    throw ApiError.notFound('Recommendation rule not found');
+  }
+
+  const { key, ...updates } = pickRule(req.body);
+  rule.set(updates);
+  await rule.save();
+  await rulesChanged();
+
+  sendSuccess(res, 200, 'Recommendation rule updated', { rule });
+});
+
+/**
+ * @desc    Delete a recommendation rule
+ * @route   DELETE /api/recommendations/rules/:key
+ * @access  Admin
+ */
+const deleteRule = asyncHandler(async (req, res) => {
+  const rule = await RecommendationRule.findOneAndDelete({ key: req.params.key });
+
+  if (!rule) {
+    throw ApiError.notFound('Recommendation rule not found');
+  }
+
+  await rulesChanged();
+
+  sendSuccess(res, 200, 'Recommendation rule deleted');
+});
+
+/**
+ * @desc    Run rules over fixture user-days
+ * @route   POST /api/recommendations/rules/test
+ * @access  Admin
+ *
+ * Body:
+ * - days: [{ name, goal, targets, hour, today, history, expect }]
+ * - rules: rule definitions to try instead of the stored ones (optional)
+ */
+const testRules = asyncHandler(async (req, res) => {
+  const rules = req.body.rules || await getRecommendationRules();
+  const results = runFixtures(rules, req.body.days);
+  const checked = results.filter((result) => result.passed !== null);
+
+  sendSuccess(res, 200, 'Rules evaluated', {
+    passed: checked.filter((result) => result.passed).length,
+    failed: checked.filter((result) => !result.passed).length,
+    results,
+  });
+});
+
+module.exports = {
+  getRules,
+  createRule,
+  updateRule,
+  deleteRule,
+  testRules,
+};
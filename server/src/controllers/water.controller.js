@@ -5,9 +5,18 @@
  */
 
 const WaterIntake = require('../models/WaterIntake');
+const Achievement = require('../models/Achievement');
 const asyncHandler = require('../utils/asyncHandler');
 const { sendSuccess } = require('../utils/response');
 const ApiError = require('../utils/ApiError');
+const { timezoneOf, todayKey, addDays, startOfDay } = require('../utils/timezone');
+const { refreshDailySummaries } = require('../services/dailySummary.service');
+const { activeStreak } = require('../services/achievement.service');
+const { ML_PER_GLASS } = require('../utils/hydration');
+const { CACHE_TAGS, invalidateUserCache } = require('../middleware/cacheMiddleware');
+
+// Cached responses that include water intake
+const WATER_CACHE_TAGS = [CACHE_TAGS.DASHBOARD, CACHE_TAGS.RECOMMENDATIONS];
 
 /**
  * @desc    Get today's water intake
@@ -15,8 +24,12 @@ const ApiError = require('../utils/ApiError');
  * @access  Private
  */
 const getToday = asyncHandler(async (req, res) => {
-  const target = req.user.dailyTargets?.water * 250 || 2000; // Convert glasses to ml
-  const record = await WaterIntake.getOrCreateToday(req.user._id, target);
+  const target = req.user.dailyTargets?.water * ML_PER_GLASS || 2000; // Convert glasses to ml
+  const timezone = timezoneOf(req.user);
+  const [record, achievements] = await Promise.all([
+    WaterIntake.getOrCreateToday(req.user._id, target, timezone),
+    Achievement.findOne({ user: req.user._id }).select('streaks.water').lean(),
+  ]);
 
   sendSuccess(res, 200, 'Today\'s water intake retrieved', {
     date: record.date,
@@ -25,6 +38,11 @@ const getToday = asyncHandler(async (req, res) => {
     target: record.target,
     progress: record.progress,
     glasses: record.glasses,
+    // Hot day / workout, and the target with them taken into account
+    conditions: record.conditions,
+    adjustedTarget: record.adjustedTarget,
+    // Days in a row the water target was met
+    streak: activeStreak(achievements?.streaks?.water, todayKey(timezone)),
   });
 });
 
@@ -40,8 +58,8 @@ const addEntry = asyncHandler(async (req, res) => {
     throw ApiError.badRequest('Please provide a valid amount');
   }
 
-  const target = req.user.dailyTargets?.water * 250 || 2000;
-  const record = await WaterIntake.getOrCreateToday(req.user._id, target);
+  const target = req.user.dailyTargets?.water * ML_PER_GLASS || 2000;
+  const record = await WaterIntake.getOrCreateToday(req.user._id, target, timezoneOf(req.user));
 
   record.entries.push({
     amount,
@@ -51,6 +69,8 @@ const addEntry = asyncHandler(async (req, res) => {
   });
 
   await record.save();
+  await refreshDailySummaries(req.user._id, [record.date]);
+  await invalidateUserCache(req.user._id, WATER_CACHE_TAGS);
 
   sendSuccess(res, 201, 'Water entry added', {
     entry: record.entries[record.entries.length - 1],
@@ -70,7 +90,7 @@ const quickAdd = asyncHandler(async (req, res) => {
 
   const presets = {
     small: { amount: 150, unit: 'ml', note: 'Small glass' },
-    glass: { amount: 250, unit: 'ml', note: 'Standard glass' },
+    glass: { amount: ML_PER_GLASS, unit: 'ml', note: 'Standard glass' },
     bottle: { amount: 500, unit: 'ml', note: 'Bottle' },
     large: { amount: 750, unit: 'ml', note: 'Large bottle' },
   };
@@ -80,8 +100,8 @@ const quickAdd = asyncHandler(async (req, res) => {
     throw ApiError.badRequest('Invalid preset. Use: small, glass, bottle, large');
   }
 
-  const target = req.user.dailyTargets?.water * 250 || 2000;
-  const record = await WaterIntake.getOrCreateToday(req.user._id, target);
+  const target = req.user.dailyTargets?.water * ML_PER_GLASS || 2000;
+  const record = await WaterIntake.getOrCreateToday(req.user._id, target, timezoneOf(req.user));
 
   record.entries.push({
     ...selected,
@@ -89,6 +109,8 @@ const quickAdd = asyncHandler(async (req, res) => {
   });
 
   await record.save();
+  await refreshDailySummaries(req.user._id, [record.date]);
+  await invalidateUserCache(req.user._id, WATER_CACHE_TAGS);
 
   sendSuccess(res, 201, `Added ${selected.note}`, {
     entry: record.entries[record.entries.length - 1],
@@ -106,8 +128,8 @@ const quickAdd = asyncHandler(async (req, res) => {
 const deleteEntry = asyncHandler(async (req, res) => {
   const { entryId } = req.params;
 
-  const target = req.user.dailyTargets?.water * 250 || 2000;
-  const record = await WaterIntake.getOrCreateToday(req.user._id, target);
+  const target = req.user.dailyTargets?.water * ML_PER_GLASS || 2000;
+  const record = await WaterIntake.getOrCreateToday(req.user._id, target, timezoneOf(req.user));
 
   const entryIndex = record.entries.findIndex(
     e => e._id.toString() === entryId
@@ -119,6 +141,8 @@ const deleteEntry = asyncHandler(async (req, res) => {
 
   record.entries.splice(entryIndex, 1);
   await record.save();
+  await refreshDailySummaries(req.user._id, [record.date]);
+  await invalidateUserCache(req.user._id, WATER_CACHE_TAGS);
 
   sendSuccess(res, 200, 'Entry deleted', {
     totalMl: record.totalMl,
@@ -135,9 +159,8 @@ const getHistory = asyncHandler(async (req, res) => {
   const { days = 7 } = req.query;
   const daysNum = parseInt(days, 10);
 
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - daysNum);
-  startDate.setHours(0, 0, 0, 0);
+  const timezone = timezoneOf(req.user);
+  const startDate = startOfDay(addDays(todayKey(timezone), -daysNum), timezone);
 
   const records = await WaterIntake.find({
     user: req.user._id,
@@ -163,7 +186,7 @@ const getHistory = asyncHandler(async (req, res) => {
       totalDays,
       totalMl,
       avgMl,
-      avgGlasses: Math.round(avgMl / 250 * 10) / 10,
+      avgGlasses: Math.round(avgMl / ML_PER_GLASS * 10) / 10,
       goalsHit,
       goalPercentage: totalDays > 0 ? Math.round((goalsHit / totalDays) * 100) : 0,
     },
@@ -183,9 +206,11 @@ const updateTarget = asyncHandler(async (req, res) => {
   }
 
   // Update today's record
-  const record = await WaterIntake.getOrCreateToday(req.user._id, target);
+  const record = await WaterIntake.getOrCreateToday(req.user._id, target, timezoneOf(req.user));
   record.target = target;
   await record.save();
+  await refreshDailySummaries(req.user._id, [record.date]);
+  await invalidateUserCache(req.user._id, WATER_CACHE_TAGS);
 
   sendSuccess(res, 200, 'Target updated', {
     target: record.target,
@@ -193,6 +218,32 @@ const updateTarget = asyncHandler(async (req, res) => {
   });
 });
 
+/**
+ * @desc    Record today's conditions (hot day, workout) that raise water needs
+ * @route   PUT /api/water/conditions
+ * @access  Private
+ *
+ * Body:
+ * - hot: whether it's a hot day
+ * - workoutMinutes: minutes of exercise today
+ */
+const updateConditions = asyncHandler(async (req, res) => {
+  const { hot, workoutMinutes } = req.body;
+
+  const target = req.user.dailyTargets?.water * ML_PER_GLASS || 2000;
+  const record = await WaterIntake.getOrCreateToday(req.user._id, target, timezoneOf(req.user));
+  if (hot !== undefined) record.conditions.hot = hot;
+  if (workoutMinutes !== undefined) record.conditions.workoutMinutes = workoutMinutes;
+  await record.save();
+  await invalidateUserCache(req.user._id, [CACHE_TAGS.RECOMMENDATIONS]);
+
+  sendSuccess(res, 200, 'Conditions updated', {
+    conditions: record.conditions,
+    target: record.target,
+    adjustedTarget: record.adjustedTarget,
+  });
+});
+
 module.exports = {
   getToday,
   addEntry,
@@ -200,5 +251,6 @@ module.exports = {
   deleteEntry,
   getHistory,
   updateTarget,
+  updateConditions,
 };
 
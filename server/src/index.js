@@ -87,6 +87,9 @@ const recommendationRoutes = require('./routes/recommendation.routes');
 const foodRoutes = require('./routes/food.routes');
 const waterRoutes = require('./routes/water.routes');
 const mealPlanRoutes = require('./routes/mealPlan.routes');
+const measurementRoutes = require('./routes/measurement.routes');
+const recipeRoutes = require('./routes/recipe.routes');
+const achievementRoutes = require('./routes/achievement.routes');
 
 // Health check endpoint - useful for monitoring
 app.get('/api/health', (req, res) => {
@@ -106,6 +109,9 @@ app.use('/api/recommendations', recommendationRoutes);
 app.use('/api/foods', foodRoutes);
 app.use('/api/water', waterRoutes);
 app.use('/api/meal-plans', mealPlanRoutes);
+app.use('/api/measurements', measurementRoutes);
+app.use('/api/recipes', recipeRoutes);
+app.use('/api/achievements', achievementRoutes);
 
 // ============================================
 // ERROR HANDLING
@@ -56,6 +56,17 @@ const protect = asyncHandler(async (req, res, next) => {
   }
 });
 
+/**
+ * Restrict routes to users with one of the roles (use after protect)
+ * @param {...string} roles - e.g. 'admin'
+ */
+const authorize = (...roles) => (req, res, next) => {
+  if (!req.user || !roles.includes(req.user.role)) {
+    return next(ApiError.forbidden('You do not have permission to do this'));
+  }
+  next();
+};
+
 /**
  * Optional authentication
  */
@@ -177,6 +188,7 @@ const generateToken = (userId) => {
 
 module.exports = {
   protect,
+  authorize,
   optionalAuth,
   generateToken,
   generateAccessToken,
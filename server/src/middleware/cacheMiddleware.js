@@ -2,9 +2,25 @@
  * Cache Middleware
  * ================
  * Express middleware for caching API responses.
+ *
+ * User-specific responses can be tagged (dashboard, trends, recommendations).
+ * Controllers that change a user's data call invalidateUserCache with the
+ * tags it affects, which evicts exactly that user's tagged responses.
  */
 
-const { cache, isAvailable } = require('../config/redis');
+const { cache, isAvailable, keys } = require('../config/redis');
+
+/**
+ * Cache tags for user-specific responses
+ */
+const CACHE_TAGS = {
+  DASHBOARD: 'dashboard',
+  TRENDS: 'trends',
+  RECOMMENDATIONS: 'recommendations',
+};
+
+// Everything derived from what a user eats and drinks, or their targets
+const NUTRITION_TAGS = Object.values(CACHE_TAGS);
 
 /**
  * Create cache middleware
@@ -12,12 +28,14 @@ const { cache, isAvailable } = require('../config/redis');
  * @param {number} options.ttl - Time to live in seconds (default 300)
  * @param {function} options.keyGenerator - Function to generate cache key from request
  * @param {boolean} options.userSpecific - Whether cache is user-specific (default true)
+ * @param {string[]} options.tags - CACHE_TAGS the response belongs to (user-specific only)
  */
 const cacheMiddleware = (options = {}) => {
   const {
     ttl = 300,
     keyGenerator,
     userSpecific = true,
+    tags = [],
   } = options;
 
   return async (req, res, next) => {
@@ -59,6 +77,11 @@ const cacheMiddleware = (options = {}) => {
         // Only cache successful responses
         if (res.statusCode >= 200 && res.statusCode < 300) {
           cache.set(cacheKey, data, ttl).catch(() => {});
+
+          if (userSpecific && req.user && tags.length > 0) {
+            const userId = req.user._id.toString();
+            cache.tag(cacheKey, tags.map((tag) => keys.tag(userId, tag))).catch(() => {});
+          }
         }
         res.set('X-Cache', 'MISS');
         return originalJson(data);
@@ -87,6 +110,17 @@ const clearCache = async (patterns) => {
   }
 };
 
+/**
+ * Evict a user's cached responses carrying any of the tags
+ * @param {ObjectId|string} userId
+ * @param {string[]} tags - CACHE_TAGS (default: all of them)
+ */
+const invalidateUserCache = async (userId, tags = NUTRITION_TAGS) => {
+  if (!isAvailable()) return;
+
+  await cache.invalidateTags(tags.map((tag) => keys.tag(userId.toString(), tag)));
+};
+
 /**
  * Clear user-specific cache
  */
@@ -101,8 +135,10 @@ const clearUserCache = async (userId) => {
 };
 
 module.exports = {
+  CACHE_TAGS,
   cacheMiddleware,
   clearCache,
   clearUserCache,
+  invalidateUserCache,
 };
 
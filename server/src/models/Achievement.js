@@ -0,0 +1,68 @@
+/**
+ * Achievement Model
+ * =================
+ * Each user's streaks, logging totals and unlocked badges.
+ *
+ * One document per user, kept up to date by
+ * services/achievement.service.js whenever the user's daily summaries
+ * change. Badges are never taken back once unlocked; `announced` records
+ * whether the UI has shown the user a badge yet.
+ */
+
+const mongoose = require('mongoose');
+
+const streakSchema = new mongoose.Schema({
+  current: { type: Number, default: 0 },
+  longest: { type: Number, default: 0 },
+  // Last day ("YYYY-MM-DD") of the current run
+  lastDate: { type: String, default: null },
+}, { _id: false });
+
+const badgeSchema = new mongoose.Schema({
+  // Key from the badge catalogue (achievement.service BADGES)
+  key: {
+    type: String,
+    required: true,
+  },
+  unlockedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  announced: {
+    type: Boolean,
+    default: false,
+  },
+}, { _id: false });
+
+const achievementSchema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      unique: true,
+    },
+
+    // Consecutive days (in the user's timezone) meeting each condition
+    streaks: {
+      logging: { type: streakSchema, default: () => ({}) }, // at least one meal
+      calories: { type: streakSchema, default: () => ({}) }, // within 10% of target
+      protein: { type: streakSchema, default: () => ({}) }, // protein target met
+      water: { type: streakSchema, default: () => ({}) }, // water target met
+    },
+
+    totals: {
+      loggedDays: { type: Number, default: 0 },
+      meals: { type: Number, default: 0 },
+    },
+
+    badges: [badgeSchema],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const Achievement = mongoose.model('Achievement', achievementSchema);
+
+module.exports = Achievement;
@@ -0,0 +1,93 @@
+/**
+ * Body Measurement Model
+ * ======================
+ * Dated log of weight and body measurements for each user.
+ * Keeps the full history so weight trends can be charted.
+ */
+
+const mongoose = require('mongoose');
+
+const bodyMeasurementSchema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    date: {
+      type: Date,
+      required: [true, 'Measurement date is required'],
+      default: Date.now,
+    },
+    weight: {
+      type: Number, // in kg
+      min: [20, 'Weight must be at least 20 kg'],
+      max: [500, 'Weight seems unrealistic'],
+    },
+    waist: {
+      type: Number, // in cm
+      min: [20, 'Waist must be at least 20 cm'],
+      max: [300, 'Waist seems unrealistic'],
+    },
+    hip: {
+      type: Number, // in cm
+      min: [20, 'Hip must be at least 20 cm'],
+      max: [300, 'Hip seems unrealistic'],
+    },
+    bodyFat: {
+      type: Number, // percentage
+      min: [1, 'Body fat must be at least 1%'],
+      max: [75, 'Body fat seems unrealistic'],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Notes cannot exceed 500 characters'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for history and latest-entry queries
+bodyMeasurementSchema.index({ user: 1, date: -1 });
+
+// An entry must record at least one measurement
+bodyMeasurementSchema.pre('validate', function (next) {
+  if (this.weight == null && this.waist == null && this.hip == null && this.bodyFat == null) {
+    this.invalidate('weight', 'At least one measurement is required');
+  }
+  next();
+});
+
+// Virtual: Waist-to-hip ratio
+bodyMeasurementSchema.virtual('waistToHip').get(function () {
+  if (!this.waist || !this.hip) return null;
+  return Math.round((this.waist / this.hip) * 100) / 100;
+});
+
+// Static: Get the most recent entry that has a weight
+bodyMeasurementSchema.statics.getLatestWeight = async function (userId) {
+  return this.findOne({ user: userId, weight: { $ne: null } }).sort({ date: -1 });
+};
+
+// Static: Get entries within a date range (oldest first)
+bodyMeasurementSchema.statics.getRange = async function (userId, startDate, endDate) {
+  const query = { user: userId };
+
+  if (startDate || endDate) {
+    query.date = {};
+    if (startDate) query.date.$gte = startDate;
+    if (endDate) query.date.$lte = endDate;
+  }
+
+  return this.find(query).sort({ date: 1 });
+};
+
+bodyMeasurementSchema.set('toJSON', { virtuals: true });
+bodyMeasurementSchema.set('toObject', { virtuals: true });
+
+const BodyMeasurement = mongoose.model('BodyMeasurement', bodyMeasurementSchema);
+
+module.exports = BodyMeasurement;
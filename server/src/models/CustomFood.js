@@ -0,0 +1,127 @@
+/**
+ * Custom Food Model
+ * =================
+ * Foods created by users, stored in the same shape as the built-in
+ * food database items. Private foods are only visible to their owner;
+ * public foods show up in everyone's search.
+ */
+
+const mongoose = require('mongoose');
+const { SERVING_UNITS } = require('../utils/servingUnits');
+const { MICRONUTRIENT_KEYS } = require('../utils/nutrients');
+
+const customFoodSchema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Food name is required'],
+      trim: true,
+      maxlength: [100, 'Food name cannot exceed 100 characters'],
+    },
+    brand: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Brand cannot exceed 100 characters'],
+      default: 'Homemade',
+    },
+    servingSize: {
+      type: Number,
+      required: true,
+      default: 1,
+      min: [0.01, 'Serving size must be greater than 0'],
+    },
+    servingUnit: {
+      type: String,
+      default: 'serving',
+      enum: SERVING_UNITS,
+    },
+    // Weight of one serving in grams
+    servingWeight: {
+      type: Number,
+      min: 0,
+    },
+    calories: {
+      type: Number,
+      required: [true, 'Calories are required'],
+      min: [0, 'Calories cannot be negative'],
+      max: [10000, 'Calories seem unrealistic'],
+    },
+    protein: { type: Number, default: 0, min: 0 },
+    carbs: { type: Number, default: 0, min: 0 },
+    fat: { type: Number, default: 0, min: 0 },
+    fiber: { type: Number, default: 0, min: 0 },
+    sodium: { type: Number, default: 0, min: 0 }, // in mg
+    // Micronutrients (units in utils/nutrients)
+    saturatedFat: { type: Number, default: 0, min: 0 }, // g
+    iron: { type: Number, default: 0, min: 0 }, // mg
+    calcium: { type: Number, default: 0, min: 0 }, // mg
+    vitaminD: { type: Number, default: 0, min: 0 }, // mcg
+    vitaminB12: { type: Number, default: 0, min: 0 }, // mcg
+    folate: { type: Number, default: 0, min: 0 }, // mcg DFE
+    potassium: { type: Number, default: 0, min: 0 }, // mg
+    vitaminC: { type: Number, default: 0, min: 0 }, // mg
+    category: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      default: 'other',
+    },
+    visibility: {
+      type: String,
+      enum: ['private', 'public'],
+      default: 'private',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+customFoodSchema.index({ visibility: 1, name: 1 });
+
+// Static: Search foods visible to a user (their own plus public ones).
+// query is a substring or a prepared RegExp.
+customFoodSchema.statics.search = async function (userId, query, limit = 10) {
+  const name = query instanceof RegExp
+    ? query
+    : { $regex: query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+
+  return this.find({
+    $or: [{ user: userId }, { visibility: 'public' }],
+    name,
+  })
+    .sort({ name: 1 })
+    .limit(limit);
+};
+
+// Method: Shape as a food-database item
+customFoodSchema.methods.toFoodItem = function () {
+  return {
+    id: `custom_${this._id}`,
+    name: this.name,
+    brand: this.brand,
+    servingSize: this.servingSize,
+    servingUnit: this.servingUnit,
+    servingWeight: this.servingWeight,
+    calories: this.calories,
+    protein: this.protein,
+    carbs: this.carbs,
+    fat: this.fat,
+    fiber: this.fiber,
+    sodium: this.sodium,
+    ...Object.fromEntries(MICRONUTRIENT_KEYS.map((key) => [key, this[key] || 0])),
+    category: this.category,
+    visibility: this.visibility,
+    source: 'custom',
+  };
+};
+
+const CustomFood = mongoose.model('CustomFood', customFoodSchema);
+
+module.exports = CustomFood;
@@ -0,0 +1,95 @@
+/**
+ * Daily Summary Model
+ * ===================
+ * One document per user per day with that day's nutrition totals, meal
+ * counts, water intake and the targets in force, so analytics read a
+ * handful of small documents instead of re-aggregating raw meals.
+ *
+ * Summaries are derived data: services/dailySummary.service.js refreshes
+ * a day whenever a meal or water record on it changes, and can rebuild
+ * any range from the meals and water records.
+ */
+
+const mongoose = require('mongoose');
+const { MICRONUTRIENT_KEYS } = require('../utils/nutrients');
+
+const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+const NUTRIENTS = ['calories', 'protein', 'carbs', 'fat', 'fiber', 'sugar', 'sodium'];
+
+const numberFields = (keys) => Object.fromEntries(
+  keys.map((key) => [key, { type: Number, default: 0 }])
+);
+
+const mealTypeSchema = new mongoose.Schema({
+  count: { type: Number, default: 0 },
+  calories: { type: Number, default: 0 },
+}, { _id: false });
+
+const dailySummarySchema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+
+    // "YYYY-MM-DD" in `timezone`
+    date: {
+      type: String,
+      required: true,
+      match: [/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'],
+    },
+
+    // Timezone the day was counted in; a summary from another zone is stale
+    timezone: {
+      type: String,
+      required: true,
+    },
+
+    // Sum of the day's meal nutrition
+    nutrition: numberFields([...NUTRIENTS, ...MICRONUTRIENT_KEYS]),
+
+    mealCount: {
+      type: Number,
+      default: 0,
+    },
+
+    // Meals and calories per meal type
+    mealTypes: Object.fromEntries(
+      MEAL_TYPES.map((type) => [type, { type: mealTypeSchema, default: () => ({}) }])
+    ),
+
+    water: {
+      totalMl: { type: Number, default: 0 },
+      target: { type: Number, default: 0 }, // ml
+    },
+
+    // Targets in force on the day (from TargetHistory)
+    targets: numberFields(['calories', 'protein', 'carbs', 'fat', 'fiber', 'water', ...MICRONUTRIENT_KEYS]),
+  },
+  {
+    timestamps: true,
+  }
+);
+
+dailySummarySchema.index({ user: 1, date: 1 }, { unique: true });
+
+/**
+ * Get a user's stored summaries between two date keys, oldest first
+ * @param {ObjectId} userId
+ * @param {string} startKey - "YYYY-MM-DD"
+ * @param {string} endKey - "YYYY-MM-DD"
+ */
+dailySummarySchema.statics.getRange = function (userId, startKey, endKey) {
+  return this.find({
+    user: userId,
+    date: { $gte: startKey, $lte: endKey },
+  })
+    .sort({ date: 1 })
+    .lean();
+};
+
+const DailySummary = mongoose.model('DailySummary', dailySummarySchema);
+
+module.exports = DailySummary;
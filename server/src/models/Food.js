@@ -0,0 +1,131 @@
+/**
+ * Food Model
+ * ==========
+ * Foods imported from offline nutrition datasets (USDA FoodData Central
+ * and the Indian Food Composition Tables), stored in the food-database
+ * item shape so search never needs a network call.
+ *
+ * Populated with `npm run import:foods` (see src/scripts/importFoods.js).
+ */
+
+const mongoose = require('mongoose');
+const { SERVING_UNITS } = require('../utils/servingUnits');
+const { MICRONUTRIENT_KEYS } = require('../utils/nutrients');
+
+const foodSchema = new mongoose.Schema(
+  {
+    // Food database ID (usda_<fdcId>, ifct_<code>) - stable across re-imports
+    foodId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Food name is required'],
+      trim: true,
+    },
+    brand: {
+      type: String,
+      trim: true,
+      default: 'Generic',
+    },
+    servingSize: {
+      type: Number,
+      default: 100,
+      min: 0,
+    },
+    servingUnit: {
+      type: String,
+      default: 'g',
+      enum: SERVING_UNITS,
+    },
+    // Weight of one serving in grams
+    servingWeight: {
+      type: Number,
+      min: 0,
+    },
+    calories: { type: Number, default: 0, min: 0 },
+    protein: { type: Number, default: 0, min: 0 },
+    carbs: { type: Number, default: 0, min: 0 },
+    fat: { type: Number, default: 0, min: 0 },
+    fiber: { type: Number, default: 0, min: 0 },
+    sodium: { type: Number, default: 0, min: 0 }, // in mg
+    // Micronutrients (units in utils/nutrients)
+    saturatedFat: { type: Number, default: 0, min: 0 }, // g
+    iron: { type: Number, default: 0, min: 0 }, // mg
+    calcium: { type: Number, default: 0, min: 0 }, // mg
+    vitaminD: { type: Number, default: 0, min: 0 }, // mcg
+    vitaminB12: { type: Number, default: 0, min: 0 }, // mcg
+    folate: { type: Number, default: 0, min: 0 }, // mcg DFE
+    potassium: { type: Number, default: 0, min: 0 }, // mg
+    vitaminC: { type: Number, default: 0, min: 0 }, // mg
+    category: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      default: 'other',
+    },
+    // Dataset the food was imported from
+    source: {
+      type: String,
+      required: true,
+      enum: ['usda', 'ifct'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Full-text search over names, weighted towards the food name
+foodSchema.index(
+  { name: 'text', brand: 'text', category: 'text' },
+  { weights: { name: 10, category: 2, brand: 1 }, name: 'food_text' }
+);
+foodSchema.index({ source: 1, name: 1 });
+
+// Static: Search imported foods, best text matches first.
+// Falls back to a name match for partial words ("chapa"), which the text
+// index does not cover - a substring of the query, or the given RegExp.
+foodSchema.statics.search = async function (query, limit = 25, fallback = null) {
+  const textResults = await this.find(
+    { $text: { $search: query } },
+    { score: { $meta: 'textScore' } }
+  )
+    .sort({ score: { $meta: 'textScore' } })
+    .limit(limit);
+
+  if (textResults.length > 0) return textResults;
+
+  const name = fallback
+    || { $regex: query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+  return this.find({ name })
+    .sort({ name: 1 })
+    .limit(limit);
+};
+
+// Method: Shape as a food-database item
+foodSchema.methods.toFoodItem = function () {
+  return {
+    id: this.foodId,
+    name: this.name,
+    brand: this.brand,
+    servingSize: this.servingSize,
+    servingUnit: this.servingUnit,
+    servingWeight: this.servingWeight,
+    calories: this.calories,
+    protein: this.protein,
+    carbs: this.carbs,
+    fat: this.fat,
+    fiber: this.fiber,
+    sodium: this.sodium,
+    ...Object.fromEntries(MICRONUTRIENT_KEYS.map((key) => [key, this[key] || 0])),
+    category: this.category,
+    source: this.source,
+  };
+};
+
+const Food = mongoose.model('Food', foodSchema);
+
+module.exports = Food;
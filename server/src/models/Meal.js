@@ -8,9 +8,70 @@
  * - Nutritional information
  * - When it was consumed
  * - Which meal category (breakfast, lunch, dinner, snack)
+ *
+ * Meals logged from food search store one `items` entry per food, each with
+ * the quantity eaten and its nutrition at that quantity. When a meal has
+ * items, its `nutrition` is their sum and is recalculated on every save.
+ * Meals typed in by hand have no items and keep the nutrition entered.
  */
 
 const mongoose = require('mongoose');
+const { SERVING_UNITS } = require('../utils/servingUnits');
+const { MICRONUTRIENT_KEYS, micronutrientSums, micronutrientTotals } = require('../utils/nutrients');
+const { DEFAULT_TIMEZONE, toDateKey, dayRange } = require('../utils/timezone');
+
+const NUTRIENTS = ['calories', 'protein', 'carbs', 'fat', 'fiber', 'sugar', 'sodium'];
+
+// Vitamins, minerals and saturated fat (units in utils/nutrients)
+const micronutrientFields = Object.fromEntries(
+  MICRONUTRIENT_KEYS.map((key) => [key, { type: Number, default: 0, min: 0 }])
+);
+
+// Where a meal item's nutrition came from (food-database ID prefix, or typed in)
+const ITEM_SOURCES = ['local', 'usda', 'ifct', 'custom', 'recipe', 'manual'];
+
+/**
+ * Meal Item Schema
+ * One food in a meal, with its nutrition for the quantity eaten
+ */
+const mealItemSchema = new mongoose.Schema({
+  // Food database ID (local_*, usda_*, ifct_*, custom_*, recipe_*), unset for manual items
+  foodId: {
+    type: String,
+    trim: true,
+  },
+  source: {
+    type: String,
+    enum: ITEM_SOURCES,
+    default: 'manual',
+  },
+  name: {
+    type: String,
+    trim: true,
+    maxlength: 100,
+  },
+  // Amount in `unit` (e.g. 2 pieces, 150 g)
+  quantity: {
+    type: Number,
+    required: [true, 'Item quantity is required'],
+    min: [0.01, 'Quantity must be greater than 0'],
+  },
+  unit: {
+    type: String,
+    default: 'serving',
+  },
+  // Nutrition for this quantity
+  nutrition: {
+    calories: { type: Number, default: 0, min: 0 },
+    protein: { type: Number, default: 0, min: 0 },
+    carbs: { type: Number, default: 0, min: 0 },
+    fat: { type: Number, default: 0, min: 0 },
+    fiber: { type: Number, default: 0, min: 0 },
+    sugar: { type: Number, default: 0, min: 0 },
+    sodium: { type: Number, default: 0, min: 0 }, // in mg
+    ...micronutrientFields,
+  },
+});
 
 /**
  * Meal Schema Definition
@@ -88,6 +149,7 @@ const mealSchema = new mongoose.Schema(
         default: 0,
         min: [0, 'Sodium cannot be negative'],
       },
+      ...micronutrientFields,
     },
 
     // Portion/serving information
@@ -100,7 +162,7 @@ const mealSchema = new mongoose.Schema(
       unit: {
         type: String,
         default: 'serving',
-        enum: ['g', 'ml', 'oz', 'cup', 'tbsp', 'tsp', 'piece', 'serving'],
+        enum: SERVING_UNITS,
       },
     },
 
@@ -136,6 +198,26 @@ const mealSchema = new mongoose.Schema(
       type: Boolean,
       default: false,
     },
+
+    // Set when this meal was logged by completing a planned meal
+    plannedMeal: {
+      plan: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'MealPlan',
+      },
+      meal: {
+        type: mongoose.Schema.Types.ObjectId,
+      },
+    },
+
+    // Set when this meal was logged from a saved recipe
+    recipe: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Recipe',
+    },
+
+    // Foods in this meal; when present, `nutrition` is derived from them
+    items: [mealItemSchema],
   },
   {
     timestamps: true, // createdAt and updatedAt
@@ -170,12 +252,37 @@ mealSchema.virtual('totalMacros').get(function () {
 });
 
 /**
- * Get the date portion only (without time)
+ * Get the date portion only (without time), in UTC
  */
 mealSchema.virtual('consumedDate').get(function () {
   return this.consumedAt.toISOString().split('T')[0];
 });
 
+// ============================================
+// MIDDLEWARE
+// ============================================
+
+/**
+ * Derive the meal's nutrition totals from its items
+ */
+mealSchema.pre('validate', function (next) {
+  if (!this.items || this.items.length === 0) return next();
+
+  const sum = (nutrient) => this.items.reduce((total, item) => total + (item.nutrition?.[nutrient] || 0), 0);
+
+  const totals = {};
+  for (const nutrient of NUTRIENTS) {
+    totals[nutrient] = Math.round(sum(nutrient) * 10) / 10;
+  }
+  for (const nutrient of MICRONUTRIENT_KEYS) {
+    totals[nutrient] = Math.round(sum(nutrient) * 100) / 100;
+  }
+  totals.calories = Math.round(totals.calories);
+
+  this.nutrition = totals;
+  next();
+});
+
 // ============================================
 // STATIC METHODS
 // ============================================
@@ -184,15 +291,12 @@ mealSchema.virtual('consumedDate').get(function () {
 /**
  * Get daily summary for a user
  * @param {ObjectId} userId - User's ID
- * @param {Date} date - Date to get summary for
+ * @param {Date|string} date - Day to get summary for (instant or "YYYY-MM-DD")
+ * @param {string} timezone - User's timezone, which decides where the day starts
  */
-mealSchema.statics.getDailySummary = async function (userId, date) {
-  // Create start and end of day
-  const startOfDay = new Date(date);
-  startOfDay.setHours(0, 0, 0, 0);
-  
-  const endOfDay = new Date(date);
-  endOfDay.setHours(23, 59, 59, 999);
+mealSchema.statics.getDailySummary = async function (userId, date, timezone = DEFAULT_TIMEZONE) {
+  // Start and end of the day in the user's timezone
+  const { start: startOfDay, end: endOfDay } = dayRange(toDateKey(date, timezone), timezone);
 
   // Aggregation pipeline to sum up nutrition
   const summary = await this.aggregate([
@@ -214,21 +318,25 @@ mealSchema.statics.getDailySummary = async function (userId, date) {
         totalFiber: { $sum: '$nutrition.fiber' },
         totalSugar: { $sum: '$nutrition.sugar' },
         totalSodium: { $sum: '$nutrition.sodium' },
+        ...micronutrientSums(),
         mealCount: { $sum: 1 },
       },
     },
   ]);
 
   // Return summary or default values
-  return summary[0] || {
-    totalCalories: 0,
-    totalProtein: 0,
-    totalCarbs: 0,
-    totalFat: 0,
-    totalFiber: 0,
-    totalSugar: 0,
-    totalSodium: 0,
-    mealCount: 0,
+  const totals = summary[0] || {};
+
+  return {
+    totalCalories: totals.totalCalories || 0,
+    totalProtein: totals.totalProtein || 0,
+    totalCarbs: totals.totalCarbs || 0,
+    totalFat: totals.totalFat || 0,
+    totalFiber: totals.totalFiber || 0,
+    totalSugar: totals.totalSugar || 0,
+    totalSodium: totals.totalSodium || 0,
+    micronutrients: micronutrientTotals(totals),
+    mealCount: totals.mealCount || 0,
   };
 };
 
@@ -237,8 +345,9 @@ mealSchema.statics.getDailySummary = async function (userId, date) {
  * @param {ObjectId} userId - User's ID
  * @param {Date} startDate - Start of range
  * @param {Date} endDate - End of range
+ * @param {string} timezone - Timezone the meals are grouped into days in
  */
-mealSchema.statics.getMealsByDateRange = async function (userId, startDate, endDate) {
+mealSchema.statics.getMealsByDateRange = async function (userId, startDate, endDate, timezone = DEFAULT_TIMEZONE) {
   return await this.aggregate([
     {
       $match: {
@@ -250,7 +359,7 @@ mealSchema.statics.getMealsByDateRange = async function (userId, startDate, endD
       // Group by date
       $group: {
         _id: {
-          $dateToString: { format: '%Y-%m-%d', date: '$consumedAt' },
+          $dateToString: { format: '%Y-%m-%d', date: '$consumedAt', timezone },
         },
         totalCalories: { $sum: '$nutrition.calories' },
         totalProtein: { $sum: '$nutrition.protein' },
@@ -5,6 +5,15 @@
  */
 
 const mongoose = require('mongoose');
+const {
+  DEFAULT_TIMEZONE,
+  todayKey,
+  toDateKey,
+  addDays,
+  dayOfWeek,
+  startOfDay,
+  endOfDay,
+} = require('../utils/timezone');
 
 const plannedMealSchema = new mongoose.Schema({
   name: {
@@ -41,6 +50,11 @@ const plannedMealSchema = new mongoose.Schema({
     default: false,
   },
   completedAt: Date,
+  // Meal log entry created when this planned meal was completed
+  loggedMeal: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Meal',
+  },
 });
 
 const dayPlanSchema = new mongoose.Schema({
@@ -110,6 +124,10 @@ const mealPlanSchema = new mongoose.Schema(
       type: String,
       trim: true,
     }],
+    // Grocery list item keys the user has checked off
+    groceryChecked: [{
+      type: String,
+    }],
     targetCalories: {
       type: Number,
       default: 2000,
@@ -146,20 +164,23 @@ dayPlanSchema.pre('save', function (next) {
   next();
 });
 
-// Get current week's plan
-mealPlanSchema.statics.getCurrentWeekPlan = async function (userId) {
-  const today = new Date();
-  const dayOfWeek = today.getDay();
-  
-  // Calculate week start (Sunday)
-  const weekStart = new Date(today);
-  weekStart.setDate(today.getDate() - dayOfWeek);
-  weekStart.setHours(0, 0, 0, 0);
-  
-  // Calculate week end (Saturday)
-  const weekEnd = new Date(weekStart);
-  weekEnd.setDate(weekStart.getDate() + 6);
-  weekEnd.setHours(23, 59, 59, 999);
+// Empty days of a week starting at a date key, each dated at its midnight in the timezone
+const weekDays = (startKey, timezone) => Array.from({ length: 7 }, (_, i) => {
+  const key = addDays(startKey, i);
+  return {
+    dayOfWeek: dayOfWeek(key),
+    date: startOfDay(key, timezone),
+    meals: [],
+  };
+});
+
+// Get current week's plan (Sunday start, in the user's timezone)
+mealPlanSchema.statics.getCurrentWeekPlan = async function (userId, timezone = DEFAULT_TIMEZONE) {
+  const today = todayKey(timezone);
+  const startKey = addDays(today, -dayOfWeek(today));
+
+  const weekStart = startOfDay(startKey, timezone);
+  const weekEnd = endOfDay(addDays(startKey, 6), timezone);
 
   let plan = await this.findOne({
     user: userId,
@@ -172,20 +193,65 @@ mealPlanSchema.statics.getCurrentWeekPlan = async function (userId) {
     // Create new week plan
     plan = await this.create({
       user: userId,
-      name: `Week of ${weekStart.toLocaleDateString()}`,
+      name: `Week of ${startKey}`,
       weekStart,
       weekEnd,
-      days: Array.from({ length: 7 }, (_, i) => ({
-        dayOfWeek: i,
-        date: new Date(weekStart.getTime() + i * 24 * 60 * 60 * 1000),
-        meals: [],
-      })),
+      days: weekDays(startKey, timezone),
     });
   }
 
   return plan;
 };
 
+// Get (or create) the plan for the 7 days starting at weekStart (date key or instant)
+mealPlanSchema.statics.getWeekPlan = async function (userId, weekStart, timezone = DEFAULT_TIMEZONE) {
+  const startKey = toDateKey(weekStart, timezone);
+  const start = startOfDay(startKey, timezone);
+
+  let plan = await this.findOne({
+    user: userId,
+    weekStart: start,
+    isTemplate: false,
+  });
+
+  if (!plan) {
+    plan = await this.create({
+      user: userId,
+      name: `Week of ${startKey}`,
+      weekStart: start,
+      weekEnd: endOfDay(addDays(startKey, 6), timezone),
+      days: weekDays(startKey, timezone),
+    });
+  }
+
+  return plan;
+};
+
+// Get the plan covering a date, creating a Monday-start week if none exists
+mealPlanSchema.statics.getPlanForDate = async function (userId, date, timezone = DEFAULT_TIMEZONE) {
+  const key = toDateKey(date, timezone);
+  const day = startOfDay(key, timezone);
+
+  const plan = await this.findOne({
+    user: userId,
+    weekStart: { $lte: day },
+    weekEnd: { $gte: day },
+    isTemplate: false,
+  }).sort({ weekStart: -1 });
+
+  if (plan) {
+    return plan;
+  }
+
+  return this.getWeekPlan(userId, addDays(key, -((dayOfWeek(key) + 6) % 7)), timezone);
+};
+
+// Find the day entry for a calendar date (date key or instant) within this plan
+mealPlanSchema.methods.getDay = function (date, timezone = DEFAULT_TIMEZONE) {
+  const weekday = dayOfWeek(toDateKey(date, timezone));
+  return this.days.find((d) => d.dayOfWeek === weekday);
+};
+
 // Virtual: week summary
 mealPlanSchema.virtual('weekSummary').get(function () {
   let totalCalories = 0;
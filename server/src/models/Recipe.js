@@ -0,0 +1,153 @@
+/**
+ * Recipe Model
+ * ============
+ * User-defined dishes made of several food-database ingredients.
+ *
+ * Each ingredient stores a nutrition snapshot for its quantity, so the
+ * recipe's total and per-serving nutrition can be derived without
+ * looking the foods up again.
+ */
+
+const mongoose = require('mongoose');
+const { MICRONUTRIENT_KEYS } = require('../utils/nutrients');
+
+const NUTRIENTS = ['calories', 'protein', 'carbs', 'fat', 'fiber', 'sodium', ...MICRONUTRIENT_KEYS];
+
+const nutritionFields = {
+  calories: { type: Number, default: 0, min: 0 },
+  protein: { type: Number, default: 0, min: 0 },
+  carbs: { type: Number, default: 0, min: 0 },
+  fat: { type: Number, default: 0, min: 0 },
+  fiber: { type: Number, default: 0, min: 0 },
+  sodium: { type: Number, default: 0, min: 0 }, // in mg
+  // Vitamins, minerals and saturated fat (units in utils/nutrients)
+  ...Object.fromEntries(MICRONUTRIENT_KEYS.map((key) => [key, { type: Number, default: 0, min: 0 }])),
+};
+
+const ingredientSchema = new mongoose.Schema({
+  // Food database ID (local_*, usda_*, ifct_*, custom_*)
+  foodId: {
+    type: String,
+    required: [true, 'Ingredient food is required'],
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  // Amount in `unit` (e.g. 2 pieces, 150 g)
+  quantity: {
+    type: Number,
+    required: [true, 'Ingredient quantity is required'],
+    min: [0.01, 'Quantity must be greater than 0'],
+  },
+  unit: {
+    type: String,
+    default: 'serving',
+  },
+  // Nutrition for this quantity
+  nutrition: nutritionFields,
+});
+
+const recipeSchema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Recipe name is required'],
+      trim: true,
+      maxlength: [100, 'Recipe name cannot exceed 100 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters'],
+    },
+    ingredients: {
+      type: [ingredientSchema],
+      validate: {
+        validator: (list) => list.length > 0,
+        message: 'A recipe needs at least one ingredient',
+      },
+    },
+    // Number of servings the recipe makes
+    servings: {
+      type: Number,
+      required: true,
+      default: 1,
+      min: [1, 'A recipe must make at least 1 serving'],
+      max: [50, 'Servings seem unrealistic'],
+    },
+    // Whole-recipe and per-serving nutrition (derived from ingredients)
+    totalNutrition: nutritionFields,
+    nutritionPerServing: nutritionFields,
+    tags: [{
+      type: String,
+      trim: true,
+      lowercase: true,
+    }],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+recipeSchema.index({ user: 1, name: 1 });
+
+// Derive total and per-serving nutrition from the ingredients
+recipeSchema.pre('save', function (next) {
+  const total = {};
+  const perServing = {};
+
+  for (const nutrient of NUTRIENTS) {
+    // Micronutrients are small amounts (B12 in mcg) - keep more precision
+    const factor = MICRONUTRIENT_KEYS.includes(nutrient) ? 100 : 10;
+    const sum = this.ingredients.reduce((s, i) => s + (i.nutrition[nutrient] || 0), 0);
+    total[nutrient] = Math.round(sum * factor) / factor;
+    perServing[nutrient] = Math.round((sum / this.servings) * factor) / factor;
+  }
+
+  this.totalNutrition = total;
+  this.nutritionPerServing = perServing;
+  next();
+});
+
+// Static: Search a user's recipes by name (substring or a prepared RegExp)
+recipeSchema.statics.search = async function (userId, query, limit = 10) {
+  const name = query instanceof RegExp
+    ? query
+    : { $regex: query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+
+  return this.find({ user: userId, name })
+    .sort({ updatedAt: -1 })
+    .limit(limit);
+};
+
+// Method: Shape as a food-database item (one serving)
+recipeSchema.methods.toFoodItem = function () {
+  const food = {
+    id: `recipe_${this._id}`,
+    name: this.name,
+    brand: 'My Recipe',
+    servingSize: 1,
+    servingUnit: 'serving',
+    servingWeight: null,
+    category: 'recipes',
+    source: 'recipe',
+  };
+
+  for (const nutrient of NUTRIENTS) {
+    food[nutrient] = this.nutritionPerServing[nutrient] || 0;
+  }
+
+  return food;
+};
+
+const Recipe = mongoose.model('Recipe', recipeSchema);
+
+module.exports = Recipe;
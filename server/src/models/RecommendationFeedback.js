@@ -0,0 +1,77 @@
+/**
+ * Recommendation Feedback Model
+ * =============================
+ * What a user did with a daily recommendation: dismissed it, snoozed it,
+ * or rated it helpful or not.
+ *
+ * One document per user per recommendation id ("<rule key>:<YYYY-MM-DD>",
+ * the day in the user's timezone), so a dismissal only hides that day's
+ * card. Snoozes hide the rule's cards until `snoozedUntil`, whatever the
+ * day; ratings feed the down-ranking of categories the user keeps marking
+ * unhelpful (see recommendation.service).
+ */
+
+const mongoose = require('mongoose');
+const { CATEGORY } = require('../utils/ruleEngine');
+
+const recommendationFeedbackSchema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+
+    recommendationId: {
+      type: String,
+      required: true,
+    },
+
+    // RecommendationRule key and category the card came from
+    rule: {
+      type: String,
+      required: true,
+    },
+    category: {
+      type: String,
+      enum: Object.values(CATEGORY),
+      required: true,
+    },
+
+    // Day ("YYYY-MM-DD", user's timezone) the card was shown for
+    date: {
+      type: String,
+      required: true,
+      match: [/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'],
+    },
+
+    dismissedAt: {
+      type: Date,
+      default: null,
+    },
+    snoozedUntil: {
+      type: Date,
+      default: null,
+    },
+
+    // null until rated
+    helpful: {
+      type: Boolean,
+      default: null,
+    },
+    ratedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+recommendationFeedbackSchema.index({ user: 1, recommendationId: 1 }, { unique: true });
+recommendationFeedbackSchema.index({ user: 1, updatedAt: -1 });
+
+const RecommendationFeedback = mongoose.model('RecommendationFeedback', recommendationFeedbackSchema);
+
+module.exports = RecommendationFeedback;
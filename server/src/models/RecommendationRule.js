@@ -0,0 +1,110 @@
+/**
+ * Recommendation Rule Model
+ * =========================
+ * Daily recommendation rules stored as data, so admins can add or tune
+ * them without a deploy. See utils/ruleEngine.js for how rules are
+ * evaluated; the defaults live in config/recommendationRules.json and
+ * seed an empty collection.
+ */
+
+const mongoose = require('mongoose');
+const {
+  CATEGORY,
+  PRIORITY,
+  OPERATORS,
+  isValidConditionValue,
+} = require('../utils/ruleEngine');
+
+const conditionSchema = new mongoose.Schema({
+  // Fact path, e.g. "calories.percent" (ruleEngine FACTS)
+  fact: {
+    type: String,
+    required: true,
+  },
+  op: {
+    type: String,
+    enum: Object.keys(OPERATORS),
+    required: true,
+  },
+  // Two numbers for between, an array for in / nin, else a number or string
+  value: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true,
+    validate: {
+      validator(value) {
+        return isValidConditionValue(this.op, value);
+      },
+      message: 'Value must be [min, max] for between, an array for in / nin, or a single value',
+    },
+  },
+}, { _id: false });
+
+const recommendationRuleSchema = new mongoose.Schema(
+  {
+    // Stable identifier, e.g. "low-protein-evening"
+    key: {
+      type: String,
+      required: [true, 'Rule key is required'],
+      unique: true,
+      trim: true,
+      match: [/^[a-z0-9-]+$/, 'Rule key may only contain lowercase letters, digits and dashes'],
+    },
+
+    category: {
+      type: String,
+      enum: Object.values(CATEGORY),
+      required: true,
+    },
+
+    priority: {
+      type: Number,
+      enum: Object.values(PRIORITY),
+      default: PRIORITY.MEDIUM,
+    },
+
+    // All must hold for the rule to fire
+    conditions: [conditionSchema],
+
+    // Only the first firing rule of a group (lowest order) is kept
+    group: {
+      type: String,
+      default: null,
+    },
+    order: {
+      type: Number,
+      default: 0,
+    },
+
+    // Templates: {{fact}} placeholders are filled in
+    title: {
+      type: String,
+      required: [true, 'Rule title is required'],
+    },
+    message: {
+      type: String,
+      required: [true, 'Rule message is required'],
+    },
+    action: {
+      type: String,
+      default: null,
+    },
+
+    icon: {
+      type: String,
+      default: '💡',
+    },
+    suggestions: [{ type: String }],
+
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const RecommendationRule = mongoose.model('RecommendationRule', recommendationRuleSchema);
+
+module.exports = RecommendationRule;
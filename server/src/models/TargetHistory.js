@@ -0,0 +1,82 @@
+/**
+ * Target History Model
+ * ====================
+ * Versioned log of each user's daily targets. Every change to
+ * User.dailyTargets is recorded with the date it takes effect, so a past
+ * day is judged against the targets that applied on that day rather than
+ * the current ones.
+ *
+ * Entries are written by the User save hooks; at most one per user per
+ * day (the day's last change wins).
+ */
+
+const mongoose = require('mongoose');
+const DailySummary = require('./DailySummary');
+const { MICRONUTRIENT_KEYS } = require('../utils/nutrients');
+
+// User.dailyTargets fields kept in each entry
+const TARGET_KEYS = ['calories', 'protein', 'carbs', 'fat', 'fiber', 'water', ...MICRONUTRIENT_KEYS];
+
+const targetHistorySchema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+
+    // First day ("YYYY-MM-DD", user's timezone) these targets apply to
+    effectiveDate: {
+      type: String,
+      required: true,
+      match: [/^\d{4}-\d{2}-\d{2}$/, 'Effective date must be YYYY-MM-DD'],
+    },
+
+    targets: Object.fromEntries(
+      TARGET_KEYS.map((key) => [key, { type: Number, default: 0 }])
+    ),
+  },
+  {
+    timestamps: true,
+  }
+);
+
+targetHistorySchema.index({ user: 1, effectiveDate: 1 }, { unique: true });
+
+// Static: Record targets from a day on, and restamp that day's summaries
+// (up to the next recorded change) with them
+targetHistorySchema.statics.record = async function (userId, dailyTargets, effectiveDate) {
+  const targets = Object.fromEntries(
+    TARGET_KEYS.map((key) => [key, dailyTargets?.[key] || 0])
+  );
+
+  await this.findOneAndUpdate(
+    { user: userId, effectiveDate },
+    { $set: { targets } },
+    { upsert: true }
+  );
+
+  const next = await this.findOne({ user: userId, effectiveDate: { $gt: effectiveDate } })
+    .sort({ effectiveDate: 1 })
+    .lean();
+
+  const dates = { $gte: effectiveDate };
+  if (next) dates.$lt = next.effectiveDate;
+
+  await DailySummary.updateMany({ user: userId, date: dates }, { $set: { targets } });
+};
+
+// Static: Entries that apply between two date keys, oldest first
+// (the one in force on startKey, then every change up to endKey)
+targetHistorySchema.statics.getTimeline = async function (userId, startKey, endKey) {
+  const [inForce, changes] = await Promise.all([
+    this.findOne({ user: userId, effectiveDate: { $lte: startKey } }).sort({ effectiveDate: -1 }).lean(),
+    this.find({ user: userId, effectiveDate: { $gt: startKey, $lte: endKey } }).sort({ effectiveDate: 1 }).lean(),
+  ]);
+
+  return inForce ? [inForce, ...changes] : changes;
+};
+
+const TargetHistory = mongoose.model('TargetHistory', targetHistorySchema);
+
+module.exports = TargetHistory;
@@ -4,6 +4,16 @@
 
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const BodyMeasurement = require('./BodyMeasurement');
+const TargetHistory = require('./TargetHistory');
+const { micronutrientTargets } = require('../utils/nutrients');
+const {
+  DEFAULT_TIMEZONE,
+  isValidTimezone,
+  timezoneOf,
+  dateKey,
+  todayKey,
+} = require('../utils/timezone');
 
 const userSchema = new mongoose.Schema(
   {
@@ -69,6 +79,12 @@ const userSchema = new mongoose.Schema(
         enum: ['lose-weight', 'maintain', 'gain-weight', 'build-muscle'],
         default: 'maintain',
       },
+      // Changes micronutrient targets (iron, folate...)
+      lifeStage: {
+        type: String,
+        enum: ['none', 'pregnant', 'breastfeeding'],
+        default: 'none',
+      },
     },
 
     dailyTargets: {
@@ -78,6 +94,15 @@ const userSchema = new mongoose.Schema(
       fat: { type: Number, default: 65 },
       fiber: { type: Number, default: 25 },
       water: { type: Number, default: 8 },
+      // Micronutrients - adult RDA defaults, set from age and gender by recalculateTargets
+      saturatedFat: { type: Number, default: 22 }, // g, upper limit
+      iron: { type: Number, default: 18 }, // mg
+      calcium: { type: Number, default: 1000 }, // mg
+      vitaminD: { type: Number, default: 15 }, // mcg
+      vitaminB12: { type: Number, default: 2.4 }, // mcg
+      folate: { type: Number, default: 400 }, // mcg DFE
+      potassium: { type: Number, default: 3400 }, // mg
+      vitaminC: { type: Number, default: 90 }, // mg
     },
 
     preferences: {
@@ -88,6 +113,28 @@ const userSchema = new mongoose.Schema(
       },
       allergies: [{ type: String, trim: true }],
       dislikedFoods: [{ type: String, trim: true }],
+      // Let the adaptive TDEE estimate adjust the calorie target (see tdee.service)
+      autoAdjustCalories: {
+        type: Boolean,
+        default: false,
+      },
+    },
+
+    // IANA timezone (e.g. "Asia/Kolkata") - decides which day a meal or drink counts towards
+    timezone: {
+      type: String,
+      default: DEFAULT_TIMEZONE,
+      validate: {
+        validator: isValidTimezone,
+        message: 'Invalid timezone',
+      },
+    },
+
+    // Admins can manage recommendation rules
+    role: {
+      type: String,
+      enum: ['user', 'admin'],
+      default: 'user',
     },
 
     isActive: {
@@ -133,6 +180,33 @@ userSchema.pre('save', async function () {
   }
 });
 
+/**
+ * Pre-save hook: Note target changes for the target history.
+ * The first change after history began also records the targets that
+ * applied until now, from the day the account was created.
+ */
+userSchema.pre('save', async function () {
+  this.$locals.targetsChanged = this.isNew || this.isModified('dailyTargets');
+  if (this.isNew || !this.$locals.targetsChanged) return;
+
+  if (await TargetHistory.exists({ user: this._id })) return;
+
+  const previous = await this.constructor.findById(this._id).select('dailyTargets timezone createdAt').lean();
+  if (previous?.createdAt) {
+    await TargetHistory.record(this._id, previous.dailyTargets, dateKey(previous.createdAt, timezoneOf(previous)));
+  }
+});
+
+/**
+ * Post-save hook: Record changed targets, effective today
+ */
+userSchema.post('save', async function () {
+  if (!this.$locals.targetsChanged) return;
+
+  this.$locals.targetsChanged = false;
+  await TargetHistory.record(this._id, this.dailyTargets, todayKey(timezoneOf(this)));
+});
+
 /**
  * Compare entered password with hashed password
  */
@@ -140,22 +214,33 @@ userSchema.methods.comparePassword = async function (candidatePassword) {
   return await bcrypt.compare(candidatePassword, this.password);
 };
 
+/**
+ * Get current weight from the latest body measurement,
+ * falling back to the profile weight
+ */
+userSchema.methods.getCurrentWeight = async function () {
+  const latest = await BodyMeasurement.getLatestWeight(this._id);
+  return latest ? latest.weight : this.profile.weight;
+};
+
 /**
  * Calculate BMI
+ * @param {number} weight - Weight in kg (default: profile weight)
  */
-userSchema.methods.calculateBMI = function () {
-  if (!this.profile.weight || !this.profile.height) {
+userSchema.methods.calculateBMI = function (weight = this.profile.weight) {
+  if (!weight || !this.profile.height) {
     return null;
   }
   const heightInMeters = this.profile.height / 100;
-  return Math.round((this.profile.weight / (heightInMeters * heightInMeters)) * 10) / 10;
+  return Math.round((weight / (heightInMeters * heightInMeters)) * 10) / 10;
 };
 
 /**
  * Calculate recommended daily calories (Mifflin-St Jeor Equation)
+ * @param {number} weight - Weight in kg (default: profile weight)
  */
-userSchema.methods.calculateDailyCalories = function () {
-  const { age, gender, height, weight, activityLevel, goal } = this.profile;
+userSchema.methods.calculateDailyCalories = function (weight = this.profile.weight) {
+  const { age, gender, height, activityLevel } = this.profile;
   
   if (!age || !gender || !height || !weight) {
     return this.dailyTargets.calories;
@@ -176,8 +261,16 @@ userSchema.methods.calculateDailyCalories = function () {
     'very-active': 1.9,
   };
 
-  let tdee = bmr * (activityMultipliers[activityLevel] || 1.55);
+  const tdee = bmr * (activityMultipliers[activityLevel] || 1.55);
+
+  return this.calorieTargetFor(tdee);
+};
 
+/**
+ * Daily calorie target for an energy expenditure, adjusted for the goal
+ * @param {number} tdee - Total daily energy expenditure (kcal)
+ */
+userSchema.methods.calorieTargetFor = function (tdee) {
   const goalAdjustments = {
     'lose-weight': -500,
     'maintain': 0,
@@ -185,8 +278,32 @@ userSchema.methods.calculateDailyCalories = function () {
     'build-muscle': 400,
   };
 
-  tdee += goalAdjustments[goal] || 0;
-  return Math.round(tdee);
+  return Math.round(tdee + (goalAdjustments[this.profile.goal] || 0));
+};
+
+/**
+ * Set the calorie target, with macro targets (20/50/30 split) and
+ * micronutrient targets from the age/gender RDA tables to match
+ * @param {number} calories - Daily calorie target
+ */
+userSchema.methods.setCalorieTarget = function (calories) {
+  this.dailyTargets.calories = calories;
+  this.dailyTargets.protein = Math.round((calories * 0.20) / 4);
+  this.dailyTargets.carbs = Math.round((calories * 0.50) / 4);
+  this.dailyTargets.fat = Math.round((calories * 0.30) / 9);
+
+  const micronutrients = micronutrientTargets(this.profile, calories);
+  for (const [nutrient, target] of Object.entries(micronutrients)) {
+    this.dailyTargets[nutrient] = target;
+  }
+};
+
+/**
+ * Recalculate all targets from the Mifflin-St Jeor estimate
+ * @param {number} weight - Weight in kg (default: profile weight)
+ */
+userSchema.methods.recalculateTargets = function (weight = this.profile.weight) {
+  this.setCalorieTarget(this.calculateDailyCalories(weight));
 };
 
 userSchema.virtual('bmi').get(function () {
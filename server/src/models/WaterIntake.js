@@ -5,6 +5,8 @@
  */
 
 const mongoose = require('mongoose');
+const { DEFAULT_TIMEZONE, todayKey, startOfDay } = require('../utils/timezone');
+const { ML_PER_GLASS, adjustedTargetMl } = require('../utils/hydration');
 
 const waterEntrySchema = new mongoose.Schema({
   amount: {
@@ -35,6 +37,7 @@ const waterIntakeSchema = new mongoose.Schema(
       ref: 'User',
       required: true,
     },
+    // Start of the day in the user's timezone
     date: {
       type: Date,
       required: true,
@@ -48,6 +51,16 @@ const waterIntakeSchema = new mongoose.Schema(
       type: Number,
       default: 2000, // 2 liters default
     },
+    // What the day asks of the user on top of the target (see utils/hydration)
+    conditions: {
+      hot: { type: Boolean, default: false },
+      workoutMinutes: {
+        type: Number,
+        default: 0,
+        min: [0, 'Workout minutes cannot be negative'],
+        max: [600, 'Workout minutes seem too high'],
+      },
+    },
   },
   {
     timestamps: true,
@@ -61,7 +74,7 @@ waterIntakeSchema.index({ user: 1, date: -1 }, { unique: true });
 const toMl = (amount, unit) => {
   const conversions = {
     ml: 1,
-    glass: 250,
+    glass: ML_PER_GLASS,
     bottle: 500,
     liter: 1000,
   };
@@ -76,10 +89,9 @@ waterIntakeSchema.pre('save', function (next) {
   next();
 });
 
-// Static: Get or create today's record
-waterIntakeSchema.statics.getOrCreateToday = async function (userId, target = 2000) {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+// Static: Get or create today's record (today in the user's timezone)
+waterIntakeSchema.statics.getOrCreateToday = async function (userId, target = 2000, timezone = DEFAULT_TIMEZONE) {
+  const today = startOfDay(todayKey(timezone), timezone);
 
   let record = await this.findOne({ user: userId, date: today });
 
@@ -100,9 +112,14 @@ waterIntakeSchema.virtual('progress').get(function () {
   return Math.min(100, Math.round((this.totalMl / this.target) * 100));
 });
 
+// Virtual: Target adjusted for a hot day or a workout
+waterIntakeSchema.virtual('adjustedTarget').get(function () {
+  return adjustedTargetMl(this.target, this.conditions);
+});
+
 // Virtual: Glasses equivalent
 waterIntakeSchema.virtual('glasses').get(function () {
-  return Math.round(this.totalMl / 250 * 10) / 10;
+  return Math.round(this.totalMl / ML_PER_GLASS * 10) / 10;
 });
 
 waterIntakeSchema.set('toJSON', { virtuals: true });
@@ -0,0 +1,37 @@
+/**
+ * Achievement Routes
+ * ==================
+ * Streak and badge endpoints.
+ *
+ * Route Structure:
+ * - GET  /api/achievements           - Streaks, totals and badges
+ * - POST /api/achievements/announced - Mark badges as announced
+ */
+
+const express = require('express');
+const { body } = require('express-validator');
+const router = express.Router();
+
+const {
+  getUserAchievements,
+  announceBadges,
+} = require('../controllers/achievement.controller');
+
+const { protect } = require('../middleware/auth');
+const validate = require('../middleware/validate');
+
+const announceValidation = [
+  body('keys')
+    .optional()
+    .isArray().withMessage('keys must be an array'),
+  body('keys.*')
+    .isString().withMessage('Badge keys must be strings'),
+];
+
+// All routes require authentication
+router.use(protect);
+
+router.get('/', getUserAchievements);
+router.post('/announced', announceValidation, validate, announceBadges);
+
+module.exports = router;
@@ -11,6 +11,9 @@
  * - GET    /api/auth/me        - Get current user profile
  * - PUT    /api/auth/profile   - Update profile
  * - PUT    /api/auth/targets   - Update nutrition targets
+ * - GET    /api/auth/targets/history - Target changes with effective dates
+ * - GET    /api/auth/targets/suggestion - Calorie target from the adaptive TDEE estimate
+ * - POST   /api/auth/targets/suggestion/apply - Apply the suggested calorie target
  * - PUT    /api/auth/password  - Change password
  */
 
@@ -27,12 +30,17 @@ const {
   getMe,
   updateProfile,
   updateTargets,
+  getTargetHistory,
+  getTargetSuggestion,
+  applyTargetSuggestion,
   changePassword,
 } = require('../controllers/auth.controller');
 
 // Import middleware
 const { protect } = require('../middleware/auth');
 const validate = require('../middleware/validate');
+const { MICRONUTRIENT_KEYS } = require('../utils/nutrients');
+const { isValidTimezone } = require('../utils/timezone');
 const { authLimiter, createAccountLimiter } = require('../middleware/rateLimiter');
 
 // ============================================
@@ -54,6 +62,10 @@ const registerValidation = [
   body('password')
     .notEmpty().withMessage('Password is required')
     .isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
+
+  body('timezone')
+    .optional()
+    .custom(isValidTimezone).withMessage('Invalid timezone'),
 ];
 
 const loginValidation = [
@@ -105,6 +117,19 @@ const profileValidation = [
     .optional()
     .isIn(['lose-weight', 'maintain', 'gain-weight', 'build-muscle'])
     .withMessage('Invalid goal option'),
+  
+  body('profile.lifeStage')
+    .optional()
+    .isIn(['none', 'pregnant', 'breastfeeding'])
+    .withMessage('Invalid life stage'),
+
+  body('preferences.autoAdjustCalories')
+    .optional()
+    .isBoolean().withMessage('autoAdjustCalories must be true or false'),
+
+  body('timezone')
+    .optional()
+    .custom(isValidTimezone).withMessage('Invalid timezone'),
 ];
 
 const targetsValidation = [
@@ -123,6 +148,10 @@ const targetsValidation = [
   body('fat')
     .optional()
     .isInt({ min: 0, max: 500 }).withMessage('Fat must be between 0 and 500g'),
+  
+  body(MICRONUTRIENT_KEYS)
+    .optional()
+    .isFloat({ min: 0, max: 10000 }).withMessage('Micronutrient targets must be between 0 and 10000'),
 ];
 
 const passwordValidation = [
@@ -149,6 +178,9 @@ router.post('/logout', protect, logout);
 router.get('/me', protect, getMe);
 router.put('/profile', protect, profileValidation, validate, updateProfile);
 router.put('/targets', protect, targetsValidation, validate, updateTargets);
+router.get('/targets/history', protect, getTargetHistory);
+router.get('/targets/suggestion', protect, getTargetSuggestion);
+router.post('/targets/suggestion/apply', protect, applyTargetSuggestion);
 router.put('/password', protect, passwordValidation, validate, changePassword);
 
 module.exports = router;
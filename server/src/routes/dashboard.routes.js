@@ -6,7 +6,7 @@
  */
 
 const express = require('express');
-const { query } = require('express-validator');
+const { query, body } = require('express-validator');
 const router = express.Router();
 
 // Import controller functions
@@ -17,12 +17,14 @@ const {
   getMealDistribution,
   getWeeklyOverview,
   getDashboardData,
+  getProgress,
+  rebuildSummaries,
 } = require('../controllers/dashboard.controller');
 
 // Import middleware
 const { protect } = require('../middleware/auth');
 const validate = require('../middleware/validate');
-const { cacheMiddleware } = require('../middleware/cacheMiddleware');
+const { cacheMiddleware, CACHE_TAGS } = require('../middleware/cacheMiddleware');
 
 // ============================================
 // VALIDATION RULES
@@ -53,20 +55,36 @@ const distributionValidation = [
     .withMessage('Days must be between 1 and 90'),
 ];
 
+const rebuildValidation = [
+  body('startDate')
+    .optional()
+    .matches(/^\d{4}-\d{2}-\d{2}$/)
+    .withMessage('Start date must be in YYYY-MM-DD format'),
+  body('endDate')
+    .optional()
+    .matches(/^\d{4}-\d{2}-\d{2}$/)
+    .withMessage('End date must be in YYYY-MM-DD format')
+    .custom((endDate, { req }) => !req.body.startDate || endDate >= req.body.startDate)
+    .withMessage('End date must not be before start date'),
+];
+
 // ============================================
 // CACHE CONFIGURATION
 // ============================================
 
 // Cache dashboard data for 2 minutes
+// (tagged, so logging a meal or changing targets evicts it straight away)
 const dashboardCache = cacheMiddleware({
   ttl: 120,
   userSpecific: true,
+  tags: [CACHE_TAGS.DASHBOARD],
 });
 
 // Cache trends for 5 minutes (less frequently updated)
 const trendsCache = cacheMiddleware({
   ttl: 300,
   userSpecific: true,
+  tags: [CACHE_TAGS.TRENDS],
 });
 
 // ============================================
@@ -85,5 +103,9 @@ router.get('/trends', trendsCache, trendsValidation, validate, getCalorieTrends)
 router.get('/macros', dashboardCache, macrosValidation, validate, getMacroBreakdown);
 router.get('/meal-distribution', trendsCache, distributionValidation, validate, getMealDistribution);
 router.get('/weekly-overview', trendsCache, getWeeklyOverview);
+router.get('/progress', trendsCache, trendsValidation, validate, getProgress);
+
+// Recompute the stored daily summaries
+router.post('/summaries/rebuild', rebuildValidation, validate, rebuildSummaries);
 
 module.exports = router;
@@ -6,35 +6,132 @@
  * Routes:
  * - GET /api/foods/search     - Search foods by name
  * - GET /api/foods/popular    - Get popular foods
+ * - GET /api/foods/recent     - Get user's recently logged foods
+ * - GET /api/foods/frequent   - Get user's most frequently logged foods
  * - GET /api/foods/categories - Get all categories
  * - GET /api/foods/category/:category - Get foods by category
- * - GET /api/foods/:id        - Get food details by ID
+ * - GET /api/foods/custom     - Get user's custom foods
+ * - POST /api/foods/custom    - Create custom food
+ * - PUT /api/foods/custom/:id - Update custom food
+ * - DELETE /api/foods/custom/:id - Delete custom food
+ * - GET /api/foods/:id        - Get food details by ID (local_, usda_, ifct_, custom_, recipe_)
+ * - GET /api/foods/:id/nutrition - Nutrition for a quantity in any compatible unit
  */
 
 const express = require('express');
+const { body, param, query } = require('express-validator');
 const router = express.Router();
 
 const {
   search,
   getFood,
+  getFoodNutrition,
   listCategories,
   byCategory,
   getPopular,
+  getRecent,
+  getFrequent,
+  getCustomFoods,
+  createCustomFood,
+  updateCustomFood,
+  deleteCustomFood,
 } = require('../controllers/food.controller');
 
 const { protect } = require('../middleware/auth');
+const validate = require('../middleware/validate');
+const { SERVING_UNITS } = require('../utils/servingUnits');
+const { MICRONUTRIENT_KEYS } = require('../utils/nutrients');
 
 // All routes require authentication
 router.use(protect);
 
+// Validation rules
+const customFoodValidation = (optional = false) => {
+  const field = (name) => (optional ? body(name).optional() : body(name));
+
+  return [
+    field('name')
+      .trim()
+      .notEmpty()
+      .withMessage('Food name is required')
+      .isLength({ max: 100 })
+      .withMessage('Name cannot exceed 100 characters'),
+    field('calories')
+      .isFloat({ min: 0, max: 10000 })
+      .withMessage('Calories must be 0-10000'),
+    body(['protein', 'carbs', 'fat', 'fiber', 'sodium', 'servingWeight', ...MICRONUTRIENT_KEYS])
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage('Nutrition values cannot be negative'),
+    body('servingSize')
+      .optional()
+      .isFloat({ gt: 0 })
+      .withMessage('Serving size must be greater than 0'),
+    body('servingUnit')
+      .optional()
+      .isIn(SERVING_UNITS)
+      .withMessage('Invalid serving unit'),
+    body('visibility')
+      .optional()
+      .isIn(['private', 'public'])
+      .withMessage('Visibility must be private or public'),
+    body('propagateToMeals')
+      .optional()
+      .isBoolean()
+      .withMessage('propagateToMeals must be true or false')
+      .toBoolean(),
+  ];
+};
+
+const historyValidation = [
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be 1-50')
+    .toInt(),
+  query('days')
+    .optional()
+    .isInt({ min: 1, max: 365 })
+    .withMessage('Days must be 1-365')
+    .toInt(),
+];
+
+const nutritionValidation = [
+  query('quantity')
+    .optional()
+    .isFloat({ gt: 0, max: 10000 })
+    .withMessage('Quantity must be greater than 0')
+    .toFloat(),
+  query('unit')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Unit cannot be empty'),
+];
+
+const customIdValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid food ID'),
+];
+
 // Search and browse routes
 router.get('/search', search);
 router.get('/popular', getPopular);
+router.get('/recent', historyValidation, validate, getRecent);
+router.get('/frequent', historyValidation, validate, getFrequent);
 router.get('/categories', listCategories);
 router.get('/category/:category', byCategory);
 
+// Custom foods (must be before /:id)
+router.get('/custom', getCustomFoods);
+router.post('/custom', customFoodValidation(), validate, createCustomFood);
+router.put('/custom/:id', customIdValidation, customFoodValidation(true), validate, updateCustomFood);
+router.delete('/custom/:id', customIdValidation, validate, deleteCustomFood);
+
 // Get specific food
 router.get('/:id', getFood);
+router.get('/:id/nutrition', nutritionValidation, validate, getFoodNutrition);
 
 module.exports = router;
 
@@ -35,11 +35,41 @@ const {
 // Import middleware
 const { protect } = require('../middleware/auth');
 const validate = require('../middleware/validate');
+const { SERVING_UNITS } = require('../utils/servingUnits');
+const { MICRONUTRIENT_KEYS } = require('../utils/nutrients');
 
 // ============================================
 // VALIDATION RULES
 // ============================================
 
+const itemsValidation = [
+  body('items')
+    .optional()
+    .isArray({ max: 50 }).withMessage('Items must be an array of at most 50 foods'),
+  
+  body('items.*.foodId')
+    .optional()
+    .isString()
+    .isLength({ max: 100 }).withMessage('Invalid food ID'),
+  
+  body('items.*.name')
+    .optional()
+    .trim()
+    .isLength({ max: 100 }).withMessage('Item name cannot exceed 100 characters'),
+  
+  body('items.*.quantity')
+    .isFloat({ min: 0.01 }).withMessage('Item quantity must be greater than 0'),
+  
+  body('items.*.unit')
+    .optional()
+    .isIn(SERVING_UNITS)
+    .withMessage('Invalid item unit'),
+  
+  body('items.*.nutrition.calories')
+    .optional()
+    .isFloat({ min: 0, max: 10000 }).withMessage('Item calories must be 0-10000'),
+];
+
 const mealValidation = [
   body('name')
     .trim()
@@ -51,7 +81,9 @@ const mealValidation = [
     .isIn(['breakfast', 'lunch', 'dinner', 'snack'])
     .withMessage('Invalid meal type'),
   
+  // Calories are derived from items when a meal has them
   body('nutrition.calories')
+    .if(body('items').not().isArray({ min: 1 }))
     .notEmpty().withMessage('Calories are required')
     .isFloat({ min: 0, max: 10000 }).withMessage('Calories must be 0-10000'),
   
@@ -67,6 +99,10 @@ const mealValidation = [
     .optional()
     .isFloat({ min: 0 }).withMessage('Fat cannot be negative'),
   
+  body(MICRONUTRIENT_KEYS.map((key) => `nutrition.${key}`))
+    .optional()
+    .isFloat({ min: 0 }).withMessage('Micronutrients cannot be negative'),
+  
   body('consumedAt')
     .optional()
     .isISO8601().withMessage('Invalid date format'),
@@ -77,8 +113,10 @@ const mealValidation = [
   
   body('servingSize.unit')
     .optional()
-    .isIn(['g', 'ml', 'oz', 'cup', 'tbsp', 'tsp', 'piece', 'serving'])
+    .isIn(SERVING_UNITS)
     .withMessage('Invalid serving unit'),
+  
+  ...itemsValidation,
 ];
 
 const mealUpdateValidation = [
@@ -95,6 +133,12 @@ const mealUpdateValidation = [
   body('nutrition.calories')
     .optional()
     .isFloat({ min: 0, max: 10000 }).withMessage('Calories must be 0-10000'),
+  
+  body('servingSize.amount')
+    .optional()
+    .isFloat({ min: 0.1 }).withMessage('Serving size must be at least 0.1'),
+  
+  ...itemsValidation,
 ];
 
 const idValidation = [
@@ -107,6 +151,16 @@ const dateValidation = [
     .matches(/^\d{4}-\d{2}-\d{2}$/).withMessage('Date must be in YYYY-MM-DD format'),
 ];
 
+const listValidation = [
+  query('startDate')
+    .optional()
+    .isISO8601().withMessage('startDate must be a valid date'),
+
+  query('endDate')
+    .optional()
+    .isISO8601().withMessage('endDate must be a valid date'),
+];
+
 const bulkDeleteValidation = [
   body('ids')
     .isArray({ min: 1 }).withMessage('IDs must be a non-empty array')
@@ -128,7 +182,7 @@ router.delete('/bulk', bulkDeleteValidation, validate, bulkDeleteMeals);
 // Standard CRUD routes
 router.route('/')
   .post(mealValidation, validate, createMeal)
-  .get(getMeals);
+  .get(listValidation, validate, getMeals);
 
 router.route('/:id')
   .get(idValidation, validate, getMealById)
@@ -2,13 +2,33 @@
  * Meal Plan Routes
  * ================
  * Endpoints for meal planning and scheduling.
+ * 
+ * Week planner routes:
+ * - GET    /api/meal-plans/week?weekStart= - Get week plan (created on demand)
+ * - POST   /api/meal-plans                 - Add planned meal to a date
+ * - DELETE /api/meal-plans/:mealId         - Remove planned meal
+ * - POST   /api/meal-plans/copy            - Copy a day's meals to another date
+ * - POST   /api/meal-plans/generate        - Generate a week that hits daily targets
+ *
+ * Deleting a completed planned meal (here or through
+ * DELETE /:planId/days/:dayOfWeek/meals/:mealId) also deletes the Meal it
+ * was logged as, the same as un-completing it first.
+ *
+ * Grocery list routes:
+ * - GET    /api/meal-plans/:planId/grocery-list?format=  - Shopping list (json, text or csv)
+ * - PATCH  /api/meal-plans/:planId/grocery-list/:itemKey - Check or uncheck an item
  */
 
 const express = require('express');
-const { body, param } = require('express-validator');
+const { body, param, query } = require('express-validator');
 const router = express.Router();
 
 const {
+  getWeek,
+  generatePlan,
+  addPlannedMeal,
+  deletePlannedMeal,
+  copyDay,
   getCurrentPlan,
   getPlan,
   getPlans,
@@ -16,8 +36,11 @@ const {
   updateMeal,
   deleteMeal,
   completeMeal,
+  uncompleteMeal,
   saveAsTemplate,
   applyTemplate,
+  getGroceryList,
+  checkGroceryItem,
 } = require('../controllers/mealPlan.controller');
 
 const { protect } = require('../middleware/auth');
@@ -61,6 +84,131 @@ const updateMealValidation = [
     .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/),
 ];
 
+const completeMealValidation = [
+  param('dayOfWeek')
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Day must be 0-6'),
+  body('portion')
+    .optional()
+    .isFloat({ min: 0.1, max: 10 })
+    .withMessage('Portion must be between 0.1 and 10'),
+  body('foods')
+    .optional()
+    .isArray()
+    .withMessage('Foods must be an array'),
+  body('foods.*.servingSize')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Serving size cannot be negative'),
+  body('consumedAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Invalid date format'),
+];
+
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+const weekValidation = [
+  query('weekStart')
+    .matches(dateRegex)
+    .withMessage('weekStart must be in YYYY-MM-DD format'),
+];
+
+const plannedMealValidation = [
+  body('date')
+    .matches(dateRegex)
+    .withMessage('Date must be in YYYY-MM-DD format'),
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Meal name is required')
+    .isLength({ max: 100 })
+    .withMessage('Name too long'),
+  body('mealType')
+    .isIn(['breakfast', 'lunch', 'dinner', 'snack'])
+    .withMessage('Invalid meal type'),
+  body('time')
+    .optional()
+    .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+    .withMessage('Time must be in HH:mm format'),
+  body(['calories', 'protein', 'carbs', 'fat'])
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Nutrition values cannot be negative'),
+  body('foods')
+    .optional()
+    .isArray()
+    .withMessage('Foods must be an array'),
+];
+
+const plannedMealIdValidation = [
+  param('mealId')
+    .isMongoId()
+    .withMessage('Invalid meal ID'),
+];
+
+const copyValidation = [
+  body('fromDate')
+    .matches(dateRegex)
+    .withMessage('fromDate must be in YYYY-MM-DD format'),
+  body('toDate')
+    .matches(dateRegex)
+    .withMessage('toDate must be in YYYY-MM-DD format'),
+  body('replace')
+    .optional()
+    .isBoolean()
+    .withMessage('replace must be true or false'),
+];
+
+const generateValidation = [
+  body('weekStart')
+    .optional()
+    .matches(dateRegex)
+    .withMessage('weekStart must be in YYYY-MM-DD format'),
+  body('tolerance')
+    .optional()
+    .isFloat({ min: 0.05, max: 0.25 })
+    .toFloat()
+    .withMessage('Tolerance must be between 0.05 and 0.25'),
+  body('maxRepeats')
+    .optional()
+    .isInt({ min: 1, max: 7 })
+    .toInt()
+    .withMessage('maxRepeats must be between 1 and 7'),
+  body('replace')
+    .optional()
+    .isBoolean()
+    .toBoolean()
+    .withMessage('replace must be true or false'),
+];
+
+const groceryListValidation = [
+  param('planId')
+    .isMongoId()
+    .withMessage('Invalid meal plan ID'),
+  query('format')
+    .optional()
+    .isIn(['json', 'text', 'csv'])
+    .withMessage('Format must be json, text or csv'),
+];
+
+const groceryItemValidation = [
+  param('planId')
+    .isMongoId()
+    .withMessage('Invalid meal plan ID'),
+  body('checked')
+    .isBoolean()
+    .withMessage('checked must be true or false')
+    .toBoolean(),
+];
+
+// Week planner (must be before /:id routes to avoid conflict)
+router.get('/week', weekValidation, validate, getWeek);
+router.post('/', plannedMealValidation, validate, addPlannedMeal);
+router.post('/copy', copyValidation, validate, copyDay);
+router.post('/generate', generateValidation, validate, generatePlan);
+router.delete('/:mealId', plannedMealIdValidation, validate, deletePlannedMeal);
+
 // Routes
 router.get('/current', getCurrentPlan);
 router.get('/', getPlans);
@@ -70,11 +218,16 @@ router.get('/:id', getPlan);
 router.post('/:planId/days/:dayOfWeek/meals', addMealValidation, validate, addMeal);
 router.put('/:planId/days/:dayOfWeek/meals/:mealId', updateMealValidation, validate, updateMeal);
 router.delete('/:planId/days/:dayOfWeek/meals/:mealId', deleteMeal);
-router.post('/:planId/days/:dayOfWeek/meals/:mealId/complete', completeMeal);
+router.post('/:planId/days/:dayOfWeek/meals/:mealId/complete', completeMealValidation, validate, completeMeal);
+router.delete('/:planId/days/:dayOfWeek/meals/:mealId/complete', uncompleteMeal);
 
 // Templates
 router.post('/:planId/save-template', saveAsTemplate);
 router.post('/apply-template/:templateId', applyTemplate);
 
+// Grocery list
+router.get('/:planId/grocery-list', groceryListValidation, validate, getGroceryList);
+router.patch('/:planId/grocery-list/:itemKey', groceryItemValidation, validate, checkGroceryItem);
+
 module.exports = router;
 
@@ -0,0 +1,88 @@
+/**
+ * Body Measurement Routes
+ * =======================
+ * Endpoints for the weight and body-measurement log.
+ *
+ * Routes:
+ * - GET    /api/measurements        - Get history (date range optional)
+ * - GET    /api/measurements/latest - Get latest weigh-in
+ * - GET    /api/measurements/:id    - Get single measurement
+ * - POST   /api/measurements        - Log measurement
+ * - PUT    /api/measurements/:id    - Update measurement
+ * - DELETE /api/measurements/:id    - Delete measurement
+ */
+
+const express = require('express');
+const { body, param, query } = require('express-validator');
+const router = express.Router();
+
+const {
+  getMeasurements,
+  getLatest,
+  getMeasurement,
+  createMeasurement,
+  updateMeasurement,
+  deleteMeasurement,
+} = require('../controllers/measurement.controller');
+
+const { protect } = require('../middleware/auth');
+const validate = require('../middleware/validate');
+
+// All routes require authentication
+router.use(protect);
+
+// Validation rules
+const measurementValidation = [
+  body('date')
+    .optional()
+    .isISO8601()
+    .withMessage('Invalid date format'),
+  body('weight')
+    .optional()
+    .isFloat({ min: 20, max: 500 })
+    .withMessage('Weight must be between 20 and 500 kg'),
+  body('waist')
+    .optional()
+    .isFloat({ min: 20, max: 300 })
+    .withMessage('Waist must be between 20 and 300 cm'),
+  body('hip')
+    .optional()
+    .isFloat({ min: 20, max: 300 })
+    .withMessage('Hip must be between 20 and 300 cm'),
+  body('bodyFat')
+    .optional()
+    .isFloat({ min: 1, max: 75 })
+    .withMessage('Body fat must be between 1 and 75%'),
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Notes cannot exceed 500 characters'),
+];
+
+const rangeValidation = [
+  query('startDate')
+    .optional()
+    .matches(/^\d{4}-\d{2}-\d{2}$/)
+    .withMessage('Start date must be in YYYY-MM-DD format'),
+  query('endDate')
+    .optional()
+    .matches(/^\d{4}-\d{2}-\d{2}$/)
+    .withMessage('End date must be in YYYY-MM-DD format'),
+];
+
+const idValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid measurement ID'),
+];
+
+// Routes
+router.get('/', rangeValidation, validate, getMeasurements);
+router.get('/latest', getLatest);
+router.get('/:id', idValidation, validate, getMeasurement);
+router.post('/', measurementValidation, validate, createMeasurement);
+router.put('/:id', idValidation, measurementValidation, validate, updateMeasurement);
+router.delete('/:id', idValidation, validate, deleteMeasurement);
+
+module.exports = router;
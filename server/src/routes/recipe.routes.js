@@ -0,0 +1,108 @@
+/**
+ * Recipe Routes
+ * =============
+ * Endpoints for the recipe builder.
+ *
+ * Routes:
+ * - GET    /api/recipes         - Get user's recipes (?q= to search)
+ * - GET    /api/recipes/:id     - Get single recipe
+ * - POST   /api/recipes         - Create recipe
+ * - PUT    /api/recipes/:id     - Update recipe
+ * - DELETE /api/recipes/:id     - Delete recipe
+ * - POST   /api/recipes/:id/log - Log servings of a recipe as a meal
+ */
+
+const express = require('express');
+const { body, param } = require('express-validator');
+const router = express.Router();
+
+const {
+  getRecipes,
+  getRecipe,
+  createRecipe,
+  updateRecipe,
+  deleteRecipe,
+  logRecipe,
+} = require('../controllers/recipe.controller');
+
+const { protect } = require('../middleware/auth');
+const validate = require('../middleware/validate');
+
+// All routes require authentication
+router.use(protect);
+
+// Validation rules
+const recipeValidation = (optional = false) => {
+  const field = (name) => (optional ? body(name).optional() : body(name));
+
+  return [
+    field('name')
+      .trim()
+      .notEmpty()
+      .withMessage('Recipe name is required')
+      .isLength({ max: 100 })
+      .withMessage('Name cannot exceed 100 characters'),
+    body('description')
+      .optional()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage('Description cannot exceed 500 characters'),
+    body('servings')
+      .optional()
+      .isFloat({ min: 1, max: 50 })
+      .withMessage('Servings must be between 1 and 50'),
+    field('ingredients')
+      .isArray({ min: 1 })
+      .withMessage('At least one ingredient is required'),
+    body('ingredients.*.foodId')
+      .isString()
+      .notEmpty()
+      .withMessage('Each ingredient needs a food ID'),
+    body('ingredients.*.quantity')
+      .isFloat({ gt: 0 })
+      .withMessage('Ingredient quantity must be greater than 0'),
+    body('ingredients.*.unit')
+      .optional()
+      .isString()
+      .withMessage('Ingredient unit must be a string'),
+    body('tags')
+      .optional()
+      .isArray()
+      .withMessage('Tags must be an array'),
+    body('propagateToMeals')
+      .optional()
+      .isBoolean()
+      .withMessage('propagateToMeals must be true or false')
+      .toBoolean(),
+  ];
+};
+
+const idValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid recipe ID'),
+];
+
+const logValidation = [
+  body('servings')
+    .optional()
+    .isFloat({ min: 0.25, max: 20 })
+    .withMessage('Servings must be between 0.25 and 20'),
+  body('mealType')
+    .isIn(['breakfast', 'lunch', 'dinner', 'snack'])
+    .withMessage('Invalid meal type'),
+  body('consumedAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Invalid date format'),
+];
+
+// Routes
+router.get('/', getRecipes);
+router.get('/:id', idValidation, validate, getRecipe);
+router.post('/', recipeValidation(), validate, createRecipe);
+router.put('/:id', idValidation, recipeValidation(true), validate, updateRecipe);
+router.delete('/:id', idValidation, validate, deleteRecipe);
+router.post('/:id/log', idValidation, logValidation, validate, logRecipe);
+
+module.exports = router;
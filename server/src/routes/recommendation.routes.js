@@ -7,25 +7,156 @@
  * - GET /api/recommendations              - Daily personalized recommendations
  * - GET /api/recommendations/meals/:type  - Meal suggestions
  * - GET /api/recommendations/insights     - Weekly insights
+ * - POST /api/recommendations/:id/dismiss - Hide a recommendation for the day
+ * - POST /api/recommendations/:id/snooze  - Hide a recommendation's rule for a few hours
+ * - POST /api/recommendations/:id/rate    - Rate a recommendation helpful or not
+ *
+ * Admin:
+ * - GET    /api/recommendations/rules      - All daily recommendation rules
+ * - POST   /api/recommendations/rules      - Add a rule
+ * - PUT    /api/recommendations/rules/:key - Tune a rule
+ * - DELETE /api/recommendations/rules/:key - Delete a rule
+ * - POST   /api/recommendations/rules/test - Run rules over fixture user-days
  */
 
 const express = require('express');
+const { body, param } = require('express-validator');
 const router = express.Router();
 
 const {
   getRecommendations,
   getSuggestions,
   getInsights,
+  dismissRecommendation,
+  snoozeRecommendation,
+  rateRecommendation,
 } = require('../controllers/recommendation.controller');
 
-const { protect } = require('../middleware/auth');
+const {
+  getRules,
+  createRule,
+  updateRule,
+  deleteRule,
+  testRules,
+} = require('../controllers/recommendationRule.controller');
+
+const { protect, authorize } = require('../middleware/auth');
+const validate = require('../middleware/validate');
+const {
+  CATEGORY,
+  PRIORITY,
+  OPERATORS,
+  FACTS,
+  isValidConditionValue,
+} = require('../utils/ruleEngine');
+const { cacheMiddleware, CACHE_TAGS } = require('../middleware/cacheMiddleware');
+
+// Cache recommendations for 5 minutes, evicted when the user logs or changes targets
+const recommendationCache = cacheMiddleware({
+  ttl: 300,
+  userSpecific: true,
+  tags: [CACHE_TAGS.RECOMMENDATIONS],
+});
+
+// Rule conditions at `path`; the value's shape depends on the operator
+const conditionsValidation = (path) => [
+  body(path)
+    .optional()
+    .isArray().withMessage('Conditions must be an array'),
+
+  body(`${path}.*.fact`)
+    .isIn(FACTS).withMessage('Unknown fact'),
+
+  body(`${path}.*.op`)
+    .isIn(Object.keys(OPERATORS)).withMessage(`Operator must be one of: ${Object.keys(OPERATORS).join(', ')}`),
+
+  body(`${path}.*.value`)
+    .exists().withMessage('Condition value is required'),
+
+  body(`${path}.*`)
+    .custom((condition) => isValidConditionValue(condition?.op, condition?.value))
+    .withMessage('Value must be [min, max] for between, an array for in / nin, or a single value'),
+];
+
+// Rule fields; required ones are checked by the model on create
+const ruleValidation = [
+  body('category')
+    .optional()
+    .isIn(Object.values(CATEGORY)).withMessage(`Category must be one of: ${Object.values(CATEGORY).join(', ')}`),
+
+  body('priority')
+    .optional()
+    .isIn(Object.values(PRIORITY)).withMessage('Priority must be 1 (low), 2 (medium) or 3 (high)'),
+
+  ...conditionsValidation('conditions'),
+
+  body('order')
+    .optional()
+    .isNumeric().withMessage('Order must be a number'),
+
+  body('enabled')
+    .optional()
+    .isBoolean().withMessage('Enabled must be true or false'),
+];
+
+const createRuleValidation = [
+  body('key')
+    .trim()
+    .matches(/^[a-z0-9-]+$/).withMessage('Rule key may only contain lowercase letters, digits and dashes'),
+  ...ruleValidation,
+];
+
+const testRulesValidation = [
+  body('days')
+    .isArray({ min: 1 }).withMessage('Provide at least one fixture day'),
+
+  body('days.*.today')
+    .isObject().withMessage('Each fixture day needs a `today` summary'),
+
+  body('rules')
+    .optional()
+    .isArray().withMessage('Rules must be an array'),
+
+  ...conditionsValidation('rules.*.conditions'),
+];
+
+// Recommendation ids are "<rule key>:<YYYY-MM-DD>"
+const feedbackValidation = [
+  param('id')
+    .matches(/^[a-z0-9-]+:\d{4}-\d{2}-\d{2}$/).withMessage('Invalid recommendation id'),
+];
+
+const snoozeValidation = [
+  ...feedbackValidation,
+  body('hours')
+    .optional()
+    .isFloat({ min: 0.25, max: 72 }).withMessage('Snooze for between 15 minutes and 72 hours'),
+];
+
+const rateValidation = [
+  ...feedbackValidation,
+  body('helpful')
+    .isBoolean().withMessage('helpful must be true or false'),
+];
 
 // All routes require authentication
 router.use(protect);
 
-router.get('/', getRecommendations);
-router.get('/meals/:mealType', getSuggestions);
-router.get('/insights', getInsights);
+// Rule administration
+router.get('/rules', authorize('admin'), getRules);
+router.post('/rules', authorize('admin'), createRuleValidation, validate, createRule);
+router.post('/rules/test', authorize('admin'), testRulesValidation, validate, testRules);
+router.put('/rules/:key', authorize('admin'), ruleValidation, validate, updateRule);
+router.delete('/rules/:key', authorize('admin'), deleteRule);
+
+router.get('/', recommendationCache, getRecommendations);
+router.get('/meals/:mealType', recommendationCache, getSuggestions);
+router.get('/insights', recommendationCache, getInsights);
+
+// Feedback
+router.post('/:id/dismiss', feedbackValidation, validate, dismissRecommendation);
+router.post('/:id/snooze', snoozeValidation, validate, snoozeRecommendation);
+router.post('/:id/rate', rateValidation, validate, rateRecommendation);
 
 module.exports = router;
 
@@ -9,6 +9,7 @@
  * - POST   /api/water          - Add water entry
  * - POST   /api/water/quick    - Quick add (presets)
  * - PUT    /api/water/target   - Update daily target
+ * - PUT    /api/water/conditions - Hot day / workout today
  * - DELETE /api/water/:entryId - Delete entry
  */
 
@@ -23,6 +24,7 @@ const {
   deleteEntry,
   getHistory,
   updateTarget,
+  updateConditions,
 } = require('../controllers/water.controller');
 
 const { protect } = require('../middleware/auth');
@@ -54,6 +56,17 @@ const targetValidation = [
     .withMessage('Target must be between 500 and 10000 ml'),
 ];
 
+const conditionsValidation = [
+  body('hot')
+    .optional()
+    .isBoolean()
+    .withMessage('hot must be true or false'),
+  body('workoutMinutes')
+    .optional()
+    .isInt({ min: 0, max: 600 })
+    .withMessage('Workout minutes must be between 0 and 600'),
+];
+
 const historyValidation = [
   query('days')
     .optional()
@@ -67,6 +80,7 @@ router.get('/history', historyValidation, validate, getHistory);
 router.post('/', addValidation, validate, addEntry);
 router.post('/quick', quickValidation, validate, quickAdd);
 router.put('/target', targetValidation, validate, updateTarget);
+router.put('/conditions', conditionsValidation, validate, updateConditions);
 router.delete('/:entryId', deleteEntry);
 
 module.exports = router;
@@ -0,0 +1,58 @@
+/**
+ * Food Import Command
+ * ===================
+ * Imports an offline nutrition dataset into the Food collection.
+ *
+ * Usage:
+ *   npm run import:foods -- --source usda --file ./FoodData_Central_foundation_food_json.json
+ *   npm run import:foods -- --source usda --file ./FoodData_Central_csv/
+ *   npm run import:foods -- --source ifct --file ./ifct2017.csv [--replace]
+ *
+ * --replace removes previously imported foods from the same source first.
+ */
+
+require('dotenv').config();
+const mongoose = require('mongoose');
+const connectDB = require('../config/database');
+const { importFoods } = require('../services/foodImport.service');
+
+const USAGE = 'Usage: npm run import:foods -- --source <usda|ifct> --file <path> [--replace]';
+
+const parseArgs = (argv) => {
+  const args = { replace: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--source') args.source = argv[++i];
+    else if (argv[i] === '--file') args.path = argv[++i];
+    else if (argv[i] === '--replace') args.replace = true;
+  }
+
+  return args;
+};
+
+const run = async () => {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!args.source || !args.path) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  await connectDB();
+
+  try {
+    console.log(`📥 Importing ${args.source.toUpperCase()} foods from ${args.path}...`);
+    const started = Date.now();
+    const { imported, skipped } = await importFoods(args);
+    const seconds = ((Date.now() - started) / 1000).toFixed(1);
+
+    console.log(`✅ Imported ${imported} foods in ${seconds}s (${skipped} skipped)`);
+  } catch (error) {
+    console.error('❌ Import failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+};
+
+run();
@@ -0,0 +1,277 @@
+/**
+ * Achievement Service
+ * ===================
+ * Streaks and milestone badges, worked out from the user's daily
+ * summaries so meals, water and targets all share one definition of a
+ * good day.
+ *
+ * Streaks count consecutive days meeting a condition:
+ * - logging:  at least one meal logged
+ * - calories: within 10% of that day's calorie target
+ * - protein:  that day's protein target met
+ * - water:    that day's water target met
+ * Today doesn't break a streak until it's over.
+ *
+ * evaluateAchievements runs whenever summaries are refreshed, stores the
+ * results and unlocks any badges newly earned. Each unlock is emitted on
+ * `achievementEvents` ('unlocked', { userId, badges }) and stays
+ * unannounced until the UI marks it seen.
+ */
+
+const { EventEmitter } = require('events');
+const Achievement = require('../models/Achievement');
+const DailySummary = require('../models/DailySummary');
+const { timezoneOf, todayKey, addDays, eachDay } = require('../utils/timezone');
+const { ML_PER_GLASS } = require('../utils/hydration');
+
+const STREAKS = ['logging', 'calories', 'protein', 'water'];
+
+/**
+ * Badge catalogue
+ * `value` reads the stat a badge is earned on; reaching `threshold` unlocks it.
+ */
+const BADGES = [
+  {
+    key: 'first-meal',
+    title: 'First Bite',
+    description: 'Log your first meal',
+    icon: '🍽️',
+    threshold: 1,
+    value: (stats) => stats.totals.meals,
+  },
+  {
+    key: 'meals-100',
+    title: 'Century',
+    description: 'Log 100 meals',
+    icon: '💯',
+    threshold: 100,
+    value: (stats) => stats.totals.meals,
+  },
+  ...[
+    { days: 3, title: 'Getting Started', icon: '🌱' },
+    { days: 7, title: 'One Week Strong', icon: '🔥' },
+    { days: 30, title: 'Habit Formed', icon: '📅' },
+    { days: 100, title: 'Unstoppable', icon: '🏆' },
+  ].map(({ days, title, icon }) => ({
+    key: `logging-streak-${days}`,
+    title,
+    description: `Log meals ${days} days in a row`,
+    icon,
+    threshold: days,
+    value: (stats) => stats.streaks.logging.longest,
+  })),
+  ...[
+    { streak: 'calories', days: 7, title: 'On Target', icon: '🎯', goal: 'Stay within 10% of your calorie target' },
+    { streak: 'calories', days: 30, title: 'Dialled In', icon: '⚖️', goal: 'Stay within 10% of your calorie target' },
+    { streak: 'protein', days: 7, title: 'Protein Pro', icon: '💪', goal: 'Meet your protein target' },
+    { streak: 'protein', days: 30, title: 'Built to Last', icon: '🏋️', goal: 'Meet your protein target' },
+    { streak: 'water', days: 7, title: 'Well Watered', icon: '💧', goal: 'Meet your water target' },
+    { streak: 'water', days: 30, title: 'Hydration Hero', icon: '🌊', goal: 'Meet your water target' },
+  ].map(({ streak, days, title, icon, goal }) => ({
+    key: `${streak === 'calories' ? 'calorie' : streak}-streak-${days}`,
+    title,
+    description: `${goal} ${days} days in a row`,
+    icon,
+    threshold: days,
+    value: (stats) => stats.streaks[streak].longest,
+  })),
+];
+
+/**
+ * Announces newly unlocked badges: 'unlocked' -> { userId, badges }
+ */
+const achievementEvents = new EventEmitter();
+
+/**
+ * Which streak conditions a day's summary meets
+ * @param {Object} summary - DailySummary (or an empty day)
+ * @returns {Object} { logging, calories, protein, water } booleans
+ */
+const dayHits = (summary) => {
+  const { nutrition, targets, water } = summary;
+  const logged = summary.mealCount > 0;
+  const waterTarget = water?.target || (targets?.water || 0) * ML_PER_GLASS;
+
+  return {
+    logging: logged,
+    calories: logged && targets.calories > 0
+      && Math.abs(nutrition.calories - targets.calories) <= targets.calories * 0.1,
+    protein: logged && targets.protein > 0 && nutrition.protein >= targets.protein,
+    water: waterTarget > 0 && (water?.totalMl || 0) >= waterTarget,
+  };
+};
+
+/**
+ * Current and longest run of hits, oldest first, with today last
+ * (a miss today doesn't end the current run)
+ * @param {Array<boolean>} hits
+ * @returns {Object} { current, longest }
+ */
+const streakOf = (hits) => {
+  let longest = 0;
+  let run = 0;
+  for (const hit of hits) {
+    run = hit ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+
+  let current = 0;
+  const lastIndex = hits[hits.length - 1] ? hits.length - 1 : hits.length - 2;
+  for (let i = lastIndex; i >= 0 && hits[i]; i--) {
+    current++;
+  }
+
+  return { current, longest };
+};
+
+/**
+ * Streaks and totals from a user's summaries, up to today
+ * Days with no summary count as days with nothing logged.
+ * @param {Array} summaries - DailySummary documents, oldest first
+ * @param {string} today - "YYYY-MM-DD" in the user's timezone
+ * @returns {Object} { streaks: { logging, calories, protein, water }, totals: { loggedDays, meals } }
+ */
+const computeStats = (summaries, today) => {
+  const byDate = new Map(summaries.map((s) => [s.date, s]));
+  const days = summaries.length > 0 && summaries[0].date <= today
+    ? eachDay(summaries[0].date, today)
+    : [today];
+
+  const hits = days.map((date) => (byDate.has(date)
+    ? dayHits(byDate.get(date))
+    : { logging: false, calories: false, protein: false, water: false }));
+
+  const streaks = {};
+  for (const name of STREAKS) {
+    const { current, longest } = streakOf(hits.map((hit) => hit[name]));
+    // Last day of the current run, so a stored streak can be checked later
+    const lastDate = current > 0 ? days[hits[hits.length - 1][name] ? days.length - 1 : days.length - 2] : null;
+    streaks[name] = { current, longest, lastDate };
+  }
+
+  const logged = summaries.filter((s) => s.date <= today && s.mealCount > 0);
+
+  return {
+    streaks,
+    totals: {
+      loggedDays: logged.length,
+      meals: logged.reduce((sum, s) => sum + s.mealCount, 0),
+    },
+  };
+};
+
+/**
+ * Current length of a stored streak (0 once a full day has been missed)
+ * @param {Object} streak - { current, lastDate }
+ * @param {string} today - "YYYY-MM-DD" in the user's timezone
+ */
+const activeStreak = (streak, today) => (
+  streak?.lastDate && streak.lastDate >= addDays(today, -1) ? streak.current : 0
+);
+
+/**
+ * Badge catalogue with the user's progress and unlocks
+ */
+const describeBadges = (stats, owned) => BADGES.map((badge) => {
+  const unlock = owned.find((b) => b.key === badge.key);
+
+  return {
+    key: badge.key,
+    title: badge.title,
+    description: badge.description,
+    icon: badge.icon,
+    threshold: badge.threshold,
+    progress: Math.min(badge.value(stats), badge.threshold),
+    unlocked: Boolean(unlock),
+    unlockedAt: unlock?.unlockedAt || null,
+    announced: unlock?.announced ?? false,
+  };
+});
+
+/**
+ * Recompute a user's streaks and totals, and unlock badges newly earned
+ * @param {Object} user - User document
+ * @returns {Object} the stored Achievement document (lean)
+ */
+const evaluateAchievements = async (user) => {
+  const today = todayKey(timezoneOf(user));
+  const summaries = await DailySummary.find({ user: user._id })
+    .select('date mealCount nutrition.calories nutrition.protein targets.calories targets.protein targets.water water')
+    .sort({ date: 1 })
+    .lean();
+
+  const stats = computeStats(summaries, today);
+
+  const record = await Achievement.findOneAndUpdate(
+    { user: user._id },
+    { $set: stats },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  ).lean();
+
+  const owned = new Set(record.badges.map((b) => b.key));
+  const earned = BADGES.filter((badge) => !owned.has(badge.key) && badge.value(stats) >= badge.threshold);
+  const unlocked = [];
+
+  for (const badge of earned) {
+    // Conditional push, so concurrent evaluations unlock a badge only once
+    const unlockedAt = new Date();
+    const result = await Achievement.updateOne(
+      { user: user._id, 'badges.key': { $ne: badge.key } },
+      { $push: { badges: { key: badge.key, unlockedAt } } }
+    );
+    if (result.modifiedCount > 0) {
+      unlocked.push({ key: badge.key, unlockedAt, announced: false });
+    }
+  }
+
+  if (unlocked.length > 0) {
+    achievementEvents.emit('unlocked', {
+      userId: user._id,
+      badges: describeBadges(stats, unlocked).filter((b) => b.unlocked),
+    });
+  }
+
+  return { ...record, badges: [...record.badges, ...unlocked] };
+};
+
+/**
+ * A user's streaks, totals and full badge catalogue, brought up to date
+ * @param {Object} user - User document
+ * @returns {Object} { streaks, totals, badges, unannounced }
+ */
+const getAchievements = async (user) => {
+  const record = await evaluateAchievements(user);
+  const badges = describeBadges(record, record.badges);
+
+  return {
+    streaks: record.streaks,
+    totals: record.totals,
+    badges,
+    unannounced: badges.filter((b) => b.unlocked && !b.announced),
+  };
+};
+
+/**
+ * Mark unlocked badges as announced
+ * @param {ObjectId} userId
+ * @param {Array<string>} keys - badge keys (default: every badge)
+ */
+const markAnnounced = async (userId, keys) => {
+  await Achievement.updateOne(
+    { user: userId },
+    { $set: { 'badges.$[badge].announced': true } },
+    { arrayFilters: [keys ? { 'badge.key': { $in: keys } } : { 'badge.announced': false }] }
+  );
+};
+
+module.exports = {
+  BADGES,
+  achievementEvents,
+  dayHits,
+  streakOf,
+  computeStats,
+  activeStreak,
+  evaluateAchievements,
+  getAchievements,
+  markAnnounced,
+};
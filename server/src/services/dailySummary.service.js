@@ -0,0 +1,259 @@
+/**
+ * Daily Summary Service
+ * =====================
+ * Keeps the DailySummary collection in step with meals and water, and
+ * reads it for analytics.
+ *
+ * - Meal and water writes refresh just the days they touch
+ * - Reads fill in days with no summary yet (or one counted in another
+ *   timezone), so existing data needs no migration
+ * - A user's summaries can be rebuilt from scratch on demand
+ * - Streaks and badges are re-evaluated whenever summaries change
+ */
+
+const Meal = require('../models/Meal');
+const WaterIntake = require('../models/WaterIntake');
+const User = require('../models/User');
+const DailySummary = require('../models/DailySummary');
+const TargetHistory = require('../models/TargetHistory');
+const { MICRONUTRIENT_KEYS } = require('../utils/nutrients');
+const { evaluateAchievements } = require('./achievement.service');
+const {
+  timezoneOf,
+  dateKey,
+  todayKey,
+  toDateKey,
+  startOfDay,
+  endOfDay,
+  eachDay,
+} = require('../utils/timezone');
+
+const NUTRIENTS = ['calories', 'protein', 'carbs', 'fat', 'fiber', 'sugar', 'sodium'];
+
+const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+// User.dailyTargets fields kept in each summary
+const TARGET_KEYS = ['calories', 'protein', 'carbs', 'fat', 'fiber', 'water', ...MICRONUTRIENT_KEYS];
+
+const round = (value, decimals = 1) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const emptyNutrition = () => Object.fromEntries(
+  [...NUTRIENTS, ...MICRONUTRIENT_KEYS].map((key) => [key, 0])
+);
+
+const emptyDay = () => ({
+  nutrition: emptyNutrition(),
+  mealCount: 0,
+  mealTypes: Object.fromEntries(MEAL_TYPES.map((type) => [type, { count: 0, calories: 0 }])),
+  water: { totalMl: 0, target: 0 },
+});
+
+/**
+ * Add up nutrition objects (macros to 1 decimal, micronutrients to 2)
+ */
+const addNutrition = (total, nutrition = {}) => {
+  for (const key of NUTRIENTS) {
+    total[key] = round(total[key] + (nutrition[key] || 0));
+  }
+  for (const key of MICRONUTRIENT_KEYS) {
+    total[key] = round(total[key] + (nutrition[key] || 0), 2);
+  }
+  return total;
+};
+
+/**
+ * Totals for each day key from the user's meals and water records
+ * @returns {Map} date key -> { nutrition, mealCount, mealTypes, water }
+ */
+const computeDays = async (userId, keys, timezone) => {
+  const sorted = [...keys].sort();
+  const start = startOfDay(sorted[0], timezone);
+  const end = endOfDay(sorted[sorted.length - 1], timezone);
+
+  const [mealGroups, waterRecords] = await Promise.all([
+    Meal.aggregate([
+      {
+        $match: {
+          user: userId,
+          consumedAt: { $gte: start, $lte: end },
+        },
+      },
+      {
+        $group: {
+          _id: {
+            date: { $dateToString: { format: '%Y-%m-%d', date: '$consumedAt', timezone } },
+            mealType: '$mealType',
+          },
+          ...Object.fromEntries(
+            [...NUTRIENTS, ...MICRONUTRIENT_KEYS].map((key) => [key, { $sum: `$nutrition.${key}` }])
+          ),
+          count: { $sum: 1 },
+        },
+      },
+    ]),
+    WaterIntake.find({
+      user: userId,
+      date: { $gte: start, $lte: end },
+    }).lean(),
+  ]);
+
+  const days = new Map(keys.map((key) => [key, emptyDay()]));
+
+  for (const group of mealGroups) {
+    // The span can include days that weren't asked for
+    const day = days.get(group._id.date);
+    if (!day) continue;
+
+    addNutrition(day.nutrition, group);
+    day.mealCount += group.count;
+    day.mealTypes[group._id.mealType] = { count: group.count, calories: round(group.calories) };
+  }
+
+  for (const record of waterRecords) {
+    const day = days.get(dateKey(record.date, timezone));
+    if (day) day.water = { totalMl: record.totalMl, target: record.target };
+  }
+
+  return days;
+};
+
+/**
+ * Targets in force on a day, from a TargetHistory timeline (oldest first)
+ */
+const targetsOn = (timeline, date) => {
+  let applied = null;
+  for (const entry of timeline) {
+    if (entry.effectiveDate > date) break;
+    applied = entry.targets;
+  }
+  return applied;
+};
+
+/**
+ * Store computed days, each with the targets that applied on it
+ * (the user's current targets when no history covers the day)
+ */
+const saveDays = async (user, days) => {
+  if (days.size === 0) return;
+
+  const timezone = timezoneOf(user);
+  const dates = [...days.keys()].sort();
+  const timeline = await TargetHistory.getTimeline(user._id, dates[0], dates[dates.length - 1]);
+  const currentTargets = Object.fromEntries(
+    TARGET_KEYS.map((key) => [key, user.dailyTargets?.[key] || 0])
+  );
+
+  await DailySummary.bulkWrite([...days].map(([date, totals]) => ({
+    updateOne: {
+      filter: { user: user._id, date },
+      update: { $set: { ...totals, timezone, targets: targetsOn(timeline, date) || currentTargets } },
+      upsert: true,
+    },
+  })), { ordered: false });
+};
+
+/**
+ * Recompute the summaries of the days containing `dates`
+ * Called after a meal or water write, with the dates it touched.
+ * @param {ObjectId} userId
+ * @param {Array<Date|string>} dates - instants or "YYYY-MM-DD" keys (empty values are skipped)
+ */
+const refreshDailySummaries = async (userId, dates) => {
+  const user = await User.findById(userId);
+  if (!user) return;
+
+  const timezone = timezoneOf(user);
+  const keys = [...new Set(dates.filter(Boolean).map((date) => toDateKey(date, timezone)))];
+  if (keys.length === 0) return;
+
+  await saveDays(user, await computeDays(user._id, keys, timezone));
+  await evaluateAchievements(user);
+};
+
+/**
+ * Recompute every summary in a range
+ * @param {ObjectId} userId
+ * @param {Object} range - { startDate, endDate } (default: first meal or water record to today)
+ * @returns {Object} { startDate, endDate, days }
+ */
+const rebuildDailySummaries = async (userId, { startDate, endDate } = {}) => {
+  const user = await User.findById(userId);
+  const timezone = timezoneOf(user);
+  const endKey = endDate ? toDateKey(endDate, timezone) : todayKey(timezone);
+  let startKey = startDate ? toDateKey(startDate, timezone) : null;
+
+  if (!startKey) {
+    const [firstMeal, firstWater] = await Promise.all([
+      Meal.findOne({ user: user._id }).sort({ consumedAt: 1 }).select('consumedAt').lean(),
+      WaterIntake.findOne({ user: user._id }).sort({ date: 1 }).select('date').lean(),
+    ]);
+    const first = [firstMeal?.consumedAt, firstWater?.date].filter(Boolean).sort((a, b) => a - b)[0];
+    startKey = first ? dateKey(first, timezone) : endKey;
+  }
+
+  const keys = eachDay(startKey, endKey);
+  if (keys.length > 0) {
+    await saveDays(user, await computeDays(user._id, keys, timezone));
+    await evaluateAchievements(user);
+  }
+
+  return { startDate: startKey, endDate: endKey, days: keys.length };
+};
+
+/**
+ * Summaries for every day in a range, oldest first
+ * Days never summarised (or summarised in another timezone) are computed
+ * and stored first.
+ * @param {Object} user - User document (timezone and dailyTargets are used)
+ * @param {string} startKey - "YYYY-MM-DD"
+ * @param {string} endKey - "YYYY-MM-DD"
+ */
+const getDailySummaries = async (user, startKey, endKey) => {
+  const timezone = timezoneOf(user);
+  let summaries = await DailySummary.getRange(user._id, startKey, endKey);
+
+  const current = new Set(summaries.filter((s) => s.timezone === timezone).map((s) => s.date));
+  const missing = eachDay(startKey, endKey).filter((key) => !current.has(key));
+
+  if (missing.length > 0) {
+    await saveDays(user, await computeDays(user._id, missing, timezone));
+    summaries = await DailySummary.getRange(user._id, startKey, endKey);
+  }
+
+  return summaries;
+};
+
+/**
+ * Total nutrition across summaries
+ */
+const sumNutrition = (summaries) => summaries.reduce(
+  (total, summary) => addNutrition(total, summary.nutrition),
+  emptyNutrition()
+);
+
+/**
+ * Meals and calories per meal type across summaries, most frequent first
+ * @returns {Array} [{ mealType, count, calories }] (types with no meals left out)
+ */
+const mealTypeTotals = (summaries) => MEAL_TYPES
+  .map((mealType) => summaries.reduce(
+    (total, summary) => ({
+      mealType,
+      count: total.count + (summary.mealTypes?.[mealType]?.count || 0),
+      calories: total.calories + (summary.mealTypes?.[mealType]?.calories || 0),
+    }),
+    { mealType, count: 0, calories: 0 }
+  ))
+  .filter((type) => type.count > 0)
+  .sort((a, b) => b.count - a.count);
+
+module.exports = {
+  refreshDailySummaries,
+  rebuildDailySummaries,
+  getDailySummaries,
+  sumNutrition,
+  mealTypeTotals,
+};
@@ -1,22 +1,31 @@
 /**
  * Food Database Service
  * =====================
- * Integrates with USDA FoodData Central API and local food database.
+ * Serves food search from data held locally, so it works offline.
  * 
  * Features:
  * - Search foods by name
  * - Get nutrition info by food ID
- * - Cache common foods in local database
- * - Fallback to local data if API is unavailable
+ * - Built-in common Indian foods
+ * - Imported USDA FoodData Central / IFCT foods (Food collection,
+ *   populated with `npm run import:foods`)
  */
 
-const axios = require('axios');
+const mongoose = require('mongoose');
+const Food = require('../models/Food');
+const Recipe = require('../models/Recipe');
+const CustomFood = require('../models/CustomFood');
+const { rankFoods, candidatePattern, transliterate } = require('./foodSearch.service');
+const { parseUnit } = require('../utils/servingUnits');
+const { MICRONUTRIENTS } = require('../utils/nutrients');
 
-// USDA FoodData Central API
-const USDA_API_BASE = 'https://api.nal.usda.gov/fdc/v1';
-const USDA_API_KEY = process.env.USDA_API_KEY || 'DEMO_KEY';
+// Database candidates fetched per requested result, before fuzzy ranking
+const CANDIDATE_FACTOR = 3;
 
 // Common Indian foods database (fallback/supplement)
+// aliases: synonyms and regional/Hindi names used by fuzzy search
+// density / unitWeights: g per ml and g per count unit, for unit conversion
+// saturatedFat ... vitaminC: approximate micronutrients per serving (IFCT / USDA)
 const COMMON_FOODS = [
   {
     id: 'local_1',
@@ -31,7 +40,17 @@ const COMMON_FOODS = [
     fat: 2.5,
     fiber: 2,
     sodium: 120,
+    saturatedFat: 0.4,
+    iron: 1,
+    calcium: 12,
+    vitaminD: 0,
+    vitaminB12: 0,
+    folate: 8,
+    potassium: 80,
+    vitaminC: 0,
     category: 'grains',
+    aliases: ['chapati', 'chapathi', 'phulka', 'fulka', 'rotli'],
+    unitWeights: { small: 30, large: 60 },
   },
   {
     id: 'local_2',
@@ -46,7 +65,17 @@ const COMMON_FOODS = [
     fat: 4,
     fiber: 8,
     sodium: 450,
+    saturatedFat: 0.6,
+    iron: 3,
+    calcium: 40,
+    vitaminD: 0,
+    vitaminB12: 0,
+    folate: 180,
+    potassium: 500,
+    vitaminC: 3,
     category: 'legumes',
+    aliases: ['daal', 'dhal', 'lentils', 'toor dal', 'moong dal'],
+    unitWeights: { bowl: 150 },
   },
   {
     id: 'local_3',
@@ -61,7 +90,17 @@ const COMMON_FOODS = [
     fat: 0.5,
     fiber: 0.6,
     sodium: 2,
+    saturatedFat: 0.1,
+    iron: 0.4,
+    calcium: 4,
+    vitaminD: 0,
+    vitaminB12: 0,
+    folate: 6,
+    potassium: 60,
+    vitaminC: 0,
     category: 'grains',
+    aliases: ['chawal', 'rice', 'steamed rice', 'plain rice'],
+    unitWeights: { bowl: 150 },
   },
   {
     id: 'local_4',
@@ -76,7 +115,18 @@ const COMMON_FOODS = [
     fat: 20,
     fiber: 0,
     sodium: 25,
+    saturatedFat: 12,
+    iron: 0.2,
+    calcium: 480,
+    vitaminD: 0.2,
+    vitaminB12: 0.8,
+    folate: 10,
+    potassium: 100,
+    vitaminC: 0,
     category: 'dairy',
+    aliases: ['panir', 'cottage cheese'],
+    density: 0.54,
+    unitWeights: { piece: 25 },
   },
   {
     id: 'local_5',
@@ -91,7 +141,17 @@ const COMMON_FOODS = [
     fat: 15,
     fiber: 2,
     sodium: 320,
+    saturatedFat: 3.5,
+    iron: 1.2,
+    calcium: 20,
+    vitaminD: 0,
+    vitaminB12: 0,
+    folate: 15,
+    potassium: 250,
+    vitaminC: 5,
     category: 'snacks',
+    aliases: ['singhara', 'samsa'],
+    unitWeights: { small: 50, large: 120 },
   },
   {
     id: 'local_6',
@@ -106,7 +166,17 @@ const COMMON_FOODS = [
     fat: 18,
     fiber: 2,
     sodium: 890,
+    saturatedFat: 4,
+    iron: 1.8,
+    calcium: 40,
+    vitaminD: 0.1,
+    vitaminB12: 0.3,
+    folate: 20,
+    potassium: 350,
+    vitaminC: 3,
     category: 'mixed-dish',
+    aliases: ['biriyani', 'murgh biryani'],
+    unitWeights: { bowl: 200 },
   },
   {
     id: 'local_7',
@@ -121,7 +191,16 @@ const COMMON_FOODS = [
     fat: 4,
     fiber: 0,
     sodium: 45,
+    saturatedFat: 1.5,
+    iron: 0.1,
+    calcium: 110,
+    vitaminD: 0.1,
+    vitaminB12: 0.3,
+    folate: 5,
+    potassium: 160,
+    vitaminC: 0,
     category: 'beverages',
+    aliases: ['chai', 'tea', 'masala tea'],
   },
   {
     id: 'local_8',
@@ -136,7 +215,16 @@ const COMMON_FOODS = [
     fat: 0.2,
     fiber: 0.6,
     sodium: 180,
+    saturatedFat: 0,
+    iron: 0.3,
+    calcium: 5,
+    vitaminD: 0,
+    vitaminB12: 0,
+    folate: 5,
+    potassium: 25,
+    vitaminC: 0,
     category: 'grains',
+    aliases: ['idly', 'rice cake'],
   },
   {
     id: 'local_9',
@@ -151,7 +239,17 @@ const COMMON_FOODS = [
     fat: 5,
     fiber: 1,
     sodium: 280,
+    saturatedFat: 1.5,
+    iron: 0.8,
+    calcium: 15,
+    vitaminD: 0,
+    vitaminB12: 0,
+    folate: 10,
+    potassium: 80,
+    vitaminC: 0,
     category: 'grains',
+    aliases: ['dosai', 'dose', 'crepe'],
+    unitWeights: { small: 70, large: 150 },
   },
   {
     id: 'local_10',
@@ -166,7 +264,18 @@ const COMMON_FOODS = [
     fat: 30,
     fiber: 2,
     sodium: 820,
+    saturatedFat: 10,
+    iron: 1.5,
+    calcium: 60,
+    vitaminD: 0.3,
+    vitaminB12: 0.5,
+    folate: 15,
+    potassium: 450,
+    vitaminC: 5,
     category: 'protein',
+    aliases: ['murgh makhani', 'makhani chicken'],
+    density: 1.05,
+    unitWeights: { bowl: 200 },
   },
   {
     id: 'local_11',
@@ -181,7 +290,18 @@ const COMMON_FOODS = [
     fat: 0.4,
     fiber: 3.1,
     sodium: 1,
+    saturatedFat: 0.1,
+    iron: 0.3,
+    calcium: 6,
+    vitaminD: 0,
+    vitaminB12: 0,
+    folate: 24,
+    potassium: 422,
+    vitaminC: 10.3,
     category: 'fruits',
+    aliases: ['kela'],
+    density: 0.63,
+    unitWeights: { piece: 118, small: 90, large: 136, slice: 8 },
   },
   {
     id: 'local_12',
@@ -196,7 +316,18 @@ const COMMON_FOODS = [
     fat: 0.3,
     fiber: 4.4,
     sodium: 2,
+    saturatedFat: 0.1,
+    iron: 0.2,
+    calcium: 11,
+    vitaminD: 0,
+    vitaminB12: 0,
+    folate: 5,
+    potassium: 195,
+    vitaminC: 8.4,
     category: 'fruits',
+    aliases: ['seb', 'saeb'],
+    density: 0.45,
+    unitWeights: { piece: 182, small: 149, large: 223, slice: 20 },
   },
   {
     id: 'local_13',
@@ -211,7 +342,17 @@ const COMMON_FOODS = [
     fat: 5,
     fiber: 0,
     sodium: 62,
+    saturatedFat: 1.6,
+    iron: 0.6,
+    calcium: 25,
+    vitaminD: 1.1,
+    vitaminB12: 0.6,
+    folate: 22,
+    potassium: 63,
+    vitaminC: 0,
     category: 'protein',
+    aliases: ['anda', 'ande', 'boiled egg'],
+    unitWeights: { small: 38, medium: 44, large: 50 },
   },
   {
     id: 'local_14',
@@ -226,7 +367,16 @@ const COMMON_FOODS = [
     fat: 8,
     fiber: 0,
     sodium: 98,
+    saturatedFat: 4.6,
+    iron: 0.1,
+    calcium: 276,
+    vitaminD: 2.9,
+    vitaminB12: 1.1,
+    folate: 12,
+    potassium: 322,
+    vitaminC: 0,
     category: 'dairy',
+    aliases: ['doodh', 'dudh', 'whole milk'],
   },
   {
     id: 'local_15',
@@ -241,55 +391,25 @@ const COMMON_FOODS = [
     fat: 2,
     fiber: 0,
     sodium: 113,
+    saturatedFat: 5,
+    iron: 0.1,
+    calcium: 296,
+    vitaminD: 0.1,
+    vitaminB12: 0.9,
+    folate: 17,
+    potassium: 380,
+    vitaminC: 1.2,
     category: 'dairy',
+    aliases: ['dahi', 'curd', 'yogurt', 'yoghurt', 'thayir'],
+    unitWeights: { bowl: 150 },
   },
 ];
 
 /**
- * Normalize serving unit to valid enum values
- * Maps various units to our accepted values: 'g', 'ml', 'oz', 'cup', 'tbsp', 'tsp', 'piece', 'serving'
+ * Normalize serving unit to a known unit ("Tablespoons" → "tbsp",
+ * "slices" → "slice"). Unknown labels become 'serving'.
  */
-const normalizeServingUnit = (unit) => {
-  if (!unit) return 'serving';
-  
-  const unitLower = unit.toLowerCase().trim();
-  
-  // Direct matches
-  if (['g', 'ml', 'oz', 'cup', 'tbsp', 'tsp', 'piece', 'serving'].includes(unitLower)) {
-    return unitLower;
-  }
-  
-  // Common mappings
-  const unitMap = {
-    'gram': 'g',
-    'grams': 'g',
-    'grm': 'g',
-    'milliliter': 'ml',
-    'milliliters': 'ml',
-    'mlt': 'ml',
-    'ounce': 'oz',
-    'ounces': 'oz',
-    'tablespoon': 'tbsp',
-    'tablespoons': 'tbsp',
-    'teaspoon': 'tsp',
-    'teaspoons': 'tsp',
-    'cups': 'cup',
-    'pieces': 'piece',
-    'pcs': 'piece',
-    'large': 'piece',
-    'medium': 'piece',
-    'small': 'piece',
-    'each': 'piece',
-    'slice': 'piece',
-    'slices': 'piece',
-    'glass': 'ml',
-    'bowl': 'serving',
-    'portion': 'serving',
-    'servings': 'serving',
-  };
-  
-  return unitMap[unitLower] || 'serving';
-};
+const normalizeServingUnit = (unit) => parseUnit(unit) || 'serving';
 
 /**
  * Transform USDA food data to our format
@@ -304,6 +424,21 @@ const transformUSDAFood = (food) => {
     return nutrient?.value || 0;
   };
 
+  // Micronutrients by their USDA names; vitamin D is also listed in IU, skip that one
+  const getMicronutrient = (names) => {
+    const nutrient = names
+      .map((name) => nutrients.find((n) =>
+        n.nutrientName?.toLowerCase().includes(name) && n.unitName?.toUpperCase() !== 'IU'
+      ))
+      .find(Boolean);
+    return Math.round((nutrient?.value || 0) * 100) / 100;
+  };
+
+  const micronutrients = {};
+  for (const [key, { usda }] of Object.entries(MICRONUTRIENTS)) {
+    micronutrients[key] = getMicronutrient(usda);
+  }
+
   return {
     id: `usda_${food.fdcId}`,
     name: food.description,
@@ -317,118 +452,153 @@ const transformUSDAFood = (food) => {
     fat: Math.round(getNutrient('total lipid') * 10) / 10,
     fiber: Math.round(getNutrient('fiber') * 10) / 10,
     sodium: Math.round(getNutrient('sodium')),
+    ...micronutrients,
     category: food.foodCategory || 'other',
     source: 'usda',
   };
 };
 
 /**
- * Search foods in USDA database
+ * Search imported foods (USDA / IFCT)
  */
-const searchUSDA = async (query, limit = 25) => {
-  try {
-    const response = await axios.post(
-      `${USDA_API_BASE}/foods/search?api_key=${USDA_API_KEY}`,
-      {
-        query,
-        pageSize: limit,
-        dataType: ['Foundation', 'Survey (FNDDS)', 'Branded'],
-      },
-      { timeout: 5000 }
-    );
-
-    return response.data.foods?.map(transformUSDAFood) || [];
-  } catch (error) {
-    console.error('USDA API Error:', error.message);
-    return [];
-  }
+const searchImported = async (query, limit = 25) => {
+  if (limit <= 0) return [];
+  const foods = await Food.search(
+    transliterate(query),
+    limit * CANDIDATE_FACTOR,
+    candidatePattern(query)
+  );
+  return rankFoods(query, foods.map(food => food.toFoodItem())).slice(0, limit);
 };
 
 /**
- * Get food details by ID from USDA
+ * Search local foods database (fuzzy, including aliases)
  */
-const getUSDAFood = async (fdcId) => {
-  try {
-    const response = await axios.get(
-      `${USDA_API_BASE}/food/${fdcId}?api_key=${USDA_API_KEY}`,
-      { timeout: 5000 }
-    );
+const searchLocal = (query, limit = 25) => {
+  const foods = COMMON_FOODS.map(food => ({ ...food, source: 'local' }));
+  
+  return rankFoods(query, foods).slice(0, limit);
+};
 
-    return transformUSDAFood(response.data);
-  } catch (error) {
-    console.error('USDA API Error:', error.message);
-    return null;
-  }
+/**
+ * Search a user's recipes
+ */
+const searchRecipes = async (userId, query, limit = 25) => {
+  const pattern = candidatePattern(query);
+  if (!pattern) return [];
+  const recipes = await Recipe.search(userId, pattern, limit * CANDIDATE_FACTOR);
+  return rankFoods(query, recipes.map(recipe => recipe.toFoodItem())).slice(0, limit);
 };
 
 /**
- * Search local foods database
+ * Search custom foods visible to a user
  */
-const searchLocal = (query, limit = 25) => {
-  const lowerQuery = query.toLowerCase();
-  
-  return COMMON_FOODS
-    .filter(food => 
-      food.name.toLowerCase().includes(lowerQuery) ||
-      food.category.toLowerCase().includes(lowerQuery)
-    )
-    .slice(0, limit)
-    .map(food => ({ ...food, source: 'local' }));
+const searchCustom = async (userId, query, limit = 25) => {
+  const pattern = candidatePattern(query);
+  // .limit(0) means no limit to MongoDB
+  if (!pattern || limit <= 0) return [];
+  const foods = await CustomFood.search(userId, pattern, limit * CANDIDATE_FACTOR);
+  return rankFoods(query, foods.map(food => food.toFoodItem())).slice(0, limit);
 };
 
 /**
- * Combined search - local first, then USDA
+ * Order results by relevance score; ties keep source order
+ * (recipes, custom, local, imported)
+ */
+const byScore = (foods) => [...foods].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+
+/**
+ * Combined search - user's recipes and custom foods, local, then imported,
+ * ranked by fuzzy relevance. Each food carries a `score` (0-1) and the
+ * name words it `matches`.
  */
 const searchFoods = async (query, options = {}) => {
-  const { limit = 25, includeUSDA = true } = options;
+  const { limit = 25, includeUSDA = true, userId } = options;
   
-  // Search local database first (faster, more relevant for Indian foods)
-  const localResults = searchLocal(query, limit);
+  // User's own recipes and custom foods come first when a user is given
+  const recipeResults = userId && query ? await searchRecipes(userId, query, limit) : [];
+  const customResults = userId && query
+    ? await searchCustom(userId, query, limit - recipeResults.length)
+    : [];
+  const userResults = [...recipeResults, ...customResults];
   
-  // If we have enough local results or USDA is disabled, return local only
+  // Search local database next (faster, more relevant for Indian foods)
+  const localResults = byScore([
+    ...userResults,
+    ...searchLocal(query, limit - userResults.length),
+  ]);
+  const localSources = [
+    ...(recipeResults.length > 0 ? ['recipe'] : []),
+    ...(customResults.length > 0 ? ['custom'] : []),
+    'local',
+  ];
+  
+  // If we have enough local results or imported foods are disabled, return local only
   if (localResults.length >= limit || !includeUSDA) {
     return {
       foods: localResults,
       totalResults: localResults.length,
-      sources: ['local'],
+      sources: localSources,
     };
   }
   
-  // Search USDA for remaining slots
+  // Search imported foods for remaining slots
   const remaining = limit - localResults.length;
-  const usdaResults = await searchUSDA(query, remaining);
+  const importedResults = await searchImported(query, remaining);
   
   // Combine and dedupe by name
   const combined = [...localResults];
   const localNames = new Set(localResults.map(f => f.name.toLowerCase()));
   
-  for (const food of usdaResults) {
+  for (const food of importedResults) {
     if (!localNames.has(food.name.toLowerCase())) {
       combined.push(food);
     }
   }
   
+  const importedSources = [...new Set(importedResults.map(f => f.source))];
+  
   return {
-    foods: combined.slice(0, limit),
+    foods: byScore(combined).slice(0, limit),
     totalResults: combined.length,
-    sources: usdaResults.length > 0 ? ['local', 'usda'] : ['local'],
+    sources: [...localSources, ...importedSources],
   };
 };
 
 /**
- * Get food by ID (local or USDA)
+ * Get food by ID (local, imported, custom, or the user's recipe when userId is given)
+ * Custom foods resolve when public or owned by userId.
  */
-const getFoodById = async (id) => {
+const getFoodById = async (id, userId) => {
   // Check if it's a local food
   if (id.startsWith('local_')) {
     const food = COMMON_FOODS.find(f => f.id === id);
     return food ? { ...food, source: 'local' } : null;
   }
   
-  // Check if it's a USDA food
-  if (id.startsWith('usda_')) {
-    const fdcId = id.replace('usda_', '');
-    return await getUSDAFood(fdcId);
+  // Check if it's an imported USDA / IFCT food
+  if (id.startsWith('usda_') || id.startsWith('ifct_')) {
+    const food = await Food.findOne({ foodId: id });
+    return food ? food.toFoodItem() : null;
+  }
+  
+  // Check if it's a custom food
+  if (id.startsWith('custom_')) {
+    const customId = id.replace('custom_', '');
+    if (!mongoose.isValidObjectId(customId)) return null;
+    const visible = userId
+      ? [{ visibility: 'public' }, { user: userId }]
+      : [{ visibility: 'public' }];
+    const food = await CustomFood.findOne({ _id: customId, $or: visible });
+    return food ? food.toFoodItem() : null;
+  }
+  
+  // Check if it's one of the user's recipes
+  if (id.startsWith('recipe_') && userId) {
+    const recipeId = id.replace('recipe_', '');
+    if (!mongoose.isValidObjectId(recipeId)) return null;
+    const recipe = await Recipe.findOne({ _id: recipeId, user: userId });
+    return recipe ? recipe.toFoodItem() : null;
   }
   
   return null;
@@ -456,6 +626,8 @@ module.exports = {
   getFoodById,
   getCategories,
   getFoodsByCategory,
+  normalizeServingUnit,
+  transformUSDAFood,
   COMMON_FOODS,
 };
 
@@ -0,0 +1,163 @@
+/**
+ * Food History Service
+ * ====================
+ * Per-user recent and frequent foods, built from the user's Meal history.
+ *
+ * Each food in a meal's `items` counts as one log, grouped by food
+ * database ID (or by name for manual items). Meals without items count
+ * as a single food named after the meal. Each food is returned in the
+ * food-database item shape using the quantity and nutrition of its latest
+ * log, so it can be re-logged with one tap.
+ *
+ * Frequency decays exponentially: a log counts 1 today, 0.5 after one
+ * half-life, 0.25 after two, and so on. Foods eaten often but not lately
+ * drop below today's staples.
+ */
+
+const Meal = require('../models/Meal');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Food-database ID prefixes that map to a food source
+const SOURCES = ['local', 'usda', 'ifct', 'custom', 'recipe'];
+
+const round = (value, decimals = 2) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Grouping key for a logged food (food ID, else its name)
+ */
+const foodKey = (foodId, name) => foodId || `name:${name.trim().toLowerCase()}`;
+
+/**
+ * Shape a logged food as a food-database item
+ * @param {Object} entry - { id, foodId, name, quantity, unit, nutrition }
+ */
+const toFoodItem = ({ id, foodId, name, quantity, unit, nutrition = {} }) => {
+  const prefix = foodId ? foodId.split('_')[0] : null;
+
+  return {
+    id: foodId || id,
+    name,
+    brand: 'From your log',
+    servingSize: quantity || 1,
+    servingUnit: unit || 'serving',
+    servingWeight: null,
+    calories: nutrition.calories || 0,
+    protein: nutrition.protein || 0,
+    carbs: nutrition.carbs || 0,
+    fat: nutrition.fat || 0,
+    fiber: nutrition.fiber || 0,
+    sodium: nutrition.sodium || 0,
+    category: 'history',
+    source: SOURCES.includes(prefix) ? prefix : 'history',
+  };
+};
+
+/**
+ * Foods logged in a meal: one per item, or the meal itself without items
+ */
+const loggedFoods = (meal) => {
+  if (!meal.items || meal.items.length === 0) {
+    return [{
+      id: `meal_${meal._id}`,
+      name: meal.name,
+      quantity: meal.servingSize?.amount,
+      unit: meal.servingSize?.unit,
+      nutrition: meal.nutrition,
+    }];
+  }
+
+  return meal.items.map((item) => ({
+    id: `meal_${meal._id}_${item._id}`,
+    foodId: item.foodId,
+    name: item.name || meal.name,
+    quantity: item.quantity,
+    unit: item.unit,
+    nutrition: item.nutrition,
+  }));
+};
+
+/**
+ * Meals logged by a user in the last `days` days, newest first
+ */
+const loadMeals = (userId, days) => Meal.find({
+  user: userId,
+  consumedAt: { $gte: new Date(Date.now() - days * DAY_MS), $lte: new Date() },
+})
+  .sort({ consumedAt: -1 })
+  .select('name items nutrition servingSize consumedAt')
+  .lean();
+
+/**
+ * Most recently logged distinct foods
+ * @param {string} userId
+ * @param {Object} options - { limit = 10, days = 30 }
+ * @returns {Array} food items with `lastLoggedAt`
+ */
+const getRecentFoods = async (userId, { limit = 10, days = 30 } = {}) => {
+  const meals = await loadMeals(userId, days);
+  const seen = new Set();
+  const foods = [];
+
+  for (const meal of meals) {
+    for (const entry of loggedFoods(meal)) {
+      const key = foodKey(entry.foodId, entry.name);
+      if (seen.has(key)) continue;
+
+      seen.add(key);
+      foods.push({ ...toFoodItem(entry), lastLoggedAt: meal.consumedAt });
+    }
+    if (foods.length >= limit) break;
+  }
+
+  return foods.slice(0, limit);
+};
+
+/**
+ * Most frequently logged foods, weighted towards recent logs
+ * @param {string} userId
+ * @param {Object} options - { limit = 10, days = 90, halfLifeDays = 14 }
+ * @returns {Array} food items with `frequency` (decayed count), `count`
+ *   (logs in the window) and `lastLoggedAt`
+ */
+const getFrequentFoods = async (userId, { limit = 10, days = 90, halfLifeDays = 14 } = {}) => {
+  const meals = await loadMeals(userId, days);
+  const now = Date.now();
+  const groups = new Map();
+
+  for (const meal of meals) {
+    const ageDays = (now - new Date(meal.consumedAt).getTime()) / DAY_MS;
+    const weight = 0.5 ** (ageDays / halfLifeDays);
+
+    for (const entry of loggedFoods(meal)) {
+      const key = foodKey(entry.foodId, entry.name);
+
+      if (!groups.has(key)) {
+        // Meals are newest first, so the first one seen is the latest log
+        groups.set(key, { meal, entry, frequency: 0, count: 0 });
+      }
+
+      const group = groups.get(key);
+      group.frequency += weight;
+      group.count += 1;
+    }
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => b.frequency - a.frequency)
+    .slice(0, limit)
+    .map(({ meal, entry, frequency, count }) => ({
+      ...toFoodItem(entry),
+      frequency: round(frequency),
+      count,
+      lastLoggedAt: meal.consumedAt,
+    }));
+};
+
+module.exports = {
+  getRecentFoods,
+  getFrequentFoods,
+};
@@ -0,0 +1,427 @@
+/**
+ * Food Import Service
+ * ===================
+ * Loads downloaded nutrition datasets into the local Food collection so
+ * food search works without internet access.
+ *
+ * Supported inputs:
+ * - USDA FoodData Central JSON download (Foundation, SR Legacy, Survey)
+ * - USDA FoodData Central CSV download (directory with food.csv,
+ *   nutrient.csv and food_nutrient.csv)
+ * - Indian Food Composition Tables (IFCT 2017) CSV
+ *
+ * Every record is converted to the USDA shape and passed through
+ * transformUSDAFood, so units and nutrients are normalised the same way
+ * as the live API results were.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const readline = require('readline');
+const Food = require('../models/Food');
+const { transformUSDAFood } = require('./foodDatabase.service');
+const { MICRONUTRIENTS, MICRONUTRIENT_KEYS } = require('../utils/nutrients');
+
+const BATCH_SIZE = 500;
+
+// Nutrients kept from USDA downloads (matched the way transformUSDAFood does)
+const USDA_NUTRIENTS = [
+  'energy', 'protein', 'carbohydrate', 'total lipid', 'fiber', 'sodium',
+  ...Object.values(MICRONUTRIENTS).flatMap((m) => m.usda),
+];
+
+// IFCT column aliases (IFCT 2017 codes first, then common spreadsheet headers)
+const IFCT_COLUMNS = {
+  code: ['code', 'food_code', 'food code'],
+  name: ['name', 'food_name', 'food name'],
+  category: ['grup', 'group', 'food group', 'category'],
+  energyKcal: ['enerc_kcal', 'energy_kcal', 'energy (kcal)', 'kcal'],
+  energyKj: ['enerc', 'energy_kj', 'energy (kj)', 'kj'],
+  protein: ['protcnt', 'protein', 'protein (g)'],
+  carbs: ['choavldf', 'carbohydrate', 'carbohydrates', 'carbs', 'carbohydrate (g)'],
+  fat: ['fatce', 'fat', 'total fat', 'fat (g)'],
+  fiber: ['fibtg', 'fibre', 'fiber', 'dietary fibre', 'fibre (g)'],
+  sodium: ['na', 'sodium', 'sodium (mg)'],
+  saturatedFat: ['fasat', 'saturated fat', 'saturated fat (g)'],
+  iron: ['fe', 'iron', 'iron (mg)'],
+  calcium: ['ca', 'calcium', 'calcium (mg)'],
+  vitaminD: ['vitd', 'chocal', 'vitamin d', 'vitamin d (mcg)'],
+  vitaminB12: ['vitb12', 'vitamin b12', 'vitamin b12 (mcg)'],
+  folate: ['folsum', 'folate', 'folate (mcg)'],
+  potassium: ['k', 'potassium', 'potassium (mg)'],
+  vitaminC: ['vitc', 'vitamin c', 'vitamin c (mg)'],
+};
+
+const KJ_PER_KCAL = 4.184;
+
+/**
+ * Split one CSV line into fields (handles quoted fields and "" escapes)
+ */
+const parseCsvLine = (line) => {
+  const fields = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields.map((f) => f.trim());
+};
+
+/**
+ * Stream a CSV file as row objects keyed by lower-cased header.
+ * Quoted fields spanning several lines are joined back together.
+ */
+async function* readCsv(filePath) {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: 'utf8' }),
+    crlfDelay: Infinity,
+  });
+
+  let headers = null;
+  let pending = '';
+
+  for await (const line of lines) {
+    pending = pending ? `${pending}\n${line}` : line;
+
+    // An odd number of quotes means the row continues on the next line
+    if ((pending.match(/"/g) || []).length % 2 === 1) continue;
+
+    const fields = parseCsvLine(pending.replace(/^﻿/, ''));
+    pending = '';
+
+    if (!headers) {
+      headers = fields.map((h) => h.toLowerCase());
+      continue;
+    }
+    if (fields.length === 1 && fields[0] === '') continue;
+
+    const row = {};
+    headers.forEach((header, i) => {
+      row[header] = fields[i] ?? '';
+    });
+    yield row;
+  }
+}
+
+const toNumber = (value) => {
+  const num = parseFloat(value);
+  return Number.isFinite(num) ? num : 0;
+};
+
+const round = (value, decimals = 1) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Convert a USDA FoodData Central record (API or download format) to a food item.
+ * Download files nest nutrient names ({ nutrient: { name }, amount }) and
+ * categories ({ foodCategory: { description } }); both are flattened first.
+ */
+const fromUSDARecord = (record) => {
+  if (!record || !record.fdcId || !record.description) return null;
+
+  const foodNutrients = (record.foodNutrients || [])
+    .map((n) => ({
+      nutrientName: n.nutrientName || n.nutrient?.name,
+      unitName: n.unitName || n.nutrient?.unitName,
+      value: n.value ?? n.amount ?? 0,
+    }))
+    // Energy is listed in both kcal and kJ - keep kcal only
+    .filter((n) => n.nutrientName && n.unitName?.toLowerCase() !== 'kj');
+
+  const category = typeof record.foodCategory === 'object'
+    ? record.foodCategory?.description
+    : record.foodCategory
+      || record.brandedFoodCategory
+      || record.wweiaFoodCategory?.wweiaFoodCategoryDescription;
+
+  const food = transformUSDAFood({
+    ...record,
+    // Foods without a labelled serving are described per 100 g
+    servingSizeUnit: record.servingSize ? record.servingSizeUnit : 'g',
+    foodNutrients,
+    foodCategory: category,
+  });
+
+  // Download nutrients are per 100 g/ml; scale to the labelled serving
+  const unit = food.servingUnit;
+  if ((unit === 'g' || unit === 'ml') && food.servingSize !== 100) {
+    const factor = food.servingSize / 100;
+    food.calories = Math.round(food.calories * factor);
+    food.protein = round(food.protein * factor);
+    food.carbs = round(food.carbs * factor);
+    food.fat = round(food.fat * factor);
+    food.fiber = round(food.fiber * factor);
+    food.sodium = Math.round(food.sodium * factor);
+    for (const nutrient of MICRONUTRIENT_KEYS) {
+      food[nutrient] = round(food[nutrient] * factor, 2);
+    }
+  }
+
+  return food;
+};
+
+/**
+ * Convert one IFCT CSV row (values per 100 g edible portion) to a food item
+ */
+const fromIFCTRow = (row) => {
+  const pick = (column) => {
+    const key = IFCT_COLUMNS[column].find((alias) => row[alias] !== undefined && row[alias] !== '');
+    return key ? row[key] : undefined;
+  };
+
+  const code = pick('code');
+  const name = pick('name');
+  if (!code || !name) return null;
+
+  const energy = pick('energyKcal') !== undefined
+    ? toNumber(pick('energyKcal'))
+    : toNumber(pick('energyKj')) / KJ_PER_KCAL;
+
+  const food = transformUSDAFood({
+    fdcId: code,
+    description: name,
+    brandName: 'IFCT 2017',
+    servingSize: 100,
+    servingSizeUnit: 'g',
+    foodCategory: pick('category'),
+    foodNutrients: [
+      { nutrientName: 'Energy', value: energy },
+      { nutrientName: 'Protein', value: toNumber(pick('protein')) },
+      { nutrientName: 'Carbohydrate', value: toNumber(pick('carbs')) },
+      { nutrientName: 'Total lipid (fat)', value: toNumber(pick('fat')) },
+      { nutrientName: 'Fiber, total dietary', value: toNumber(pick('fiber')) },
+      { nutrientName: 'Sodium, Na', value: toNumber(pick('sodium')) },
+      // Named the way USDA lists them, so transformUSDAFood picks them up
+      ...MICRONUTRIENT_KEYS.map((key) => ({
+        nutrientName: MICRONUTRIENTS[key].usda[0],
+        value: toNumber(pick(key)),
+      })),
+    ],
+  });
+
+  return { ...food, id: `ifct_${code}`, source: 'ifct' };
+};
+
+/**
+ * Read USDA records from a JSON download.
+ * Accepts the FDC download wrapper ({ FoundationFoods: [...] }), an API
+ * search response ({ foods: [...] }) or a plain array; the records are the
+ * first array found at the top level.
+ *
+ * Branded dumps run to gigabytes, so the file is streamed: only the
+ * record being read is held in memory, and each is parsed on its own.
+ */
+async function* readUSDAJson(filePath) {
+  const stream = fs.createReadStream(filePath, { encoding: 'utf8' });
+
+  let depth = 0;
+  let topLevel = null; // '[' or '{'
+  let recordsDepth = null; // depth of the records array's elements
+  let inString = false;
+  let escaped = false;
+  let pending = null; // text of a record that spans chunks
+
+  for await (const chunk of stream) {
+    let start = pending !== null ? 0 : -1;
+
+    for (let i = 0; i < chunk.length; i += 1) {
+      const ch = chunk[i];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+
+      if (ch === '"') {
+        inString = true;
+      } else if (ch === '{' || ch === '[') {
+        if (depth === 0) topLevel = ch;
+        if (ch === '{' && depth === recordsDepth) start = i;
+        if (ch === '[' && recordsDepth === null && (depth === 0 || (depth === 1 && topLevel === '{'))) {
+          recordsDepth = depth + 1;
+        }
+        depth += 1;
+      } else if (ch === '}' || ch === ']') {
+        depth -= 1;
+        if (ch === '}' && depth === recordsDepth && start !== -1) {
+          const text = (pending || '') + chunk.slice(start, i + 1);
+          pending = null;
+          start = -1;
+          yield JSON.parse(text);
+        } else if (ch === ']' && depth === recordsDepth - 1) {
+          // End of the records array; the rest of the file is not needed
+          return;
+        }
+      }
+    }
+
+    if (start !== -1) pending = (pending || '') + chunk.slice(start);
+  }
+}
+
+/**
+ * Read USDA records from a CSV download directory.
+ * food_nutrient.csv is streamed, so only the foods and the handful of
+ * nutrients we keep are held in memory.
+ */
+async function* readUSDACsv(dirPath) {
+  const file = (name) => path.join(dirPath, name);
+
+  const nutrients = new Map();
+  for await (const row of readCsv(file('nutrient.csv'))) {
+    const name = row.name || '';
+    const wanted = USDA_NUTRIENTS.some((n) => name.toLowerCase().includes(n));
+    if (wanted && row.unit_name?.toLowerCase() !== 'kj') {
+      nutrients.set(row.id, { nutrientName: name, unitName: row.unit_name });
+    }
+  }
+
+  const categories = new Map();
+  if (fs.existsSync(file('food_category.csv'))) {
+    for await (const row of readCsv(file('food_category.csv'))) {
+      categories.set(row.id, row.description);
+    }
+  }
+
+  const foods = new Map();
+  for await (const row of readCsv(file('food.csv'))) {
+    foods.set(row.fdc_id, {
+      fdcId: row.fdc_id,
+      description: row.description,
+      foodCategory: categories.get(row.food_category_id) || row.food_category_id || undefined,
+      foodNutrients: [],
+    });
+  }
+
+  if (fs.existsSync(file('branded_food.csv'))) {
+    for await (const row of readCsv(file('branded_food.csv'))) {
+      const food = foods.get(row.fdc_id);
+      if (!food) continue;
+      food.brandOwner = row.brand_owner || undefined;
+      food.brandName = row.brand_name || undefined;
+      food.servingSize = toNumber(row.serving_size) || undefined;
+      food.servingSizeUnit = row.serving_size_unit || undefined;
+      food.foodCategory = row.branded_food_category || food.foodCategory;
+    }
+  }
+
+  for await (const row of readCsv(file('food_nutrient.csv'))) {
+    const nutrient = nutrients.get(row.nutrient_id);
+    const food = nutrient && foods.get(row.fdc_id);
+    if (food) {
+      food.foodNutrients.push({ ...nutrient, value: toNumber(row.amount) });
+    }
+  }
+
+  yield* foods.values();
+}
+
+/**
+ * Write food items to the Food collection in batches, upserting by food ID
+ */
+const saveBatch = async (batch) => {
+  if (batch.length === 0) return;
+
+  await Food.bulkWrite(
+    batch.map(({ id, ...food }) => ({
+      updateOne: {
+        filter: { foodId: id },
+        update: { $set: { ...food, foodId: id } },
+        upsert: true,
+      },
+    })),
+    { ordered: false }
+  );
+};
+
+/**
+ * Import a dataset into the Food collection
+ * @param {Object} options
+ * @param {string} options.source - 'usda' or 'ifct'
+ * @param {string} options.path - JSON file, CSV file or USDA CSV directory
+ * @param {boolean} options.replace - remove existing foods from this source first
+ * @returns {Object} { imported, skipped }
+ */
+const importFoods = async ({ source, path: inputPath, replace = false }) => {
+  if (!fs.existsSync(inputPath)) {
+    throw new Error(`File not found: ${inputPath}`);
+  }
+
+  let records;
+  let convert;
+
+  if (source === 'usda') {
+    const isDir = fs.statSync(inputPath).isDirectory();
+    records = isDir ? readUSDACsv(inputPath) : readUSDAJson(inputPath);
+    convert = fromUSDARecord;
+  } else if (source === 'ifct') {
+    records = readCsv(inputPath);
+    convert = fromIFCTRow;
+  } else {
+    throw new Error(`Unknown source "${source}" (expected usda or ifct)`);
+  }
+
+  if (replace) {
+    await Food.deleteMany({ source });
+  }
+
+  let batch = [];
+  let imported = 0;
+  let skipped = 0;
+
+  for await (const record of records) {
+    const food = convert(record);
+    if (!food) {
+      skipped++;
+      continue;
+    }
+
+    batch.push(food);
+    if (batch.length >= BATCH_SIZE) {
+      await saveBatch(batch);
+      imported += batch.length;
+      batch = [];
+    }
+  }
+
+  await saveBatch(batch);
+  imported += batch.length;
+
+  // Make sure the text index exists before search starts using it
+  await Food.syncIndexes();
+
+  return { imported, skipped };
+};
+
+module.exports = {
+  importFoods,
+  fromUSDARecord,
+  fromIFCTRow,
+  parseCsvLine,
+  readUSDAJson,
+};
@@ -0,0 +1,269 @@
+/**
+ * Food Search Service
+ * ===================
+ * Fuzzy, typo-tolerant ranking for food search.
+ *
+ * Queries and food names are compared token by token after:
+ * - Devanagari → Latin transliteration ("दाल" → "dal")
+ * - phonetic folding of common romanised-Hindi spellings
+ *   ("chapatti" / "chapati", "paneer" / "panir", "dhal" / "dal")
+ * - edit-distance matching for typos ("biryni" → "biryani")
+ *
+ * Foods can carry an `aliases` list (synonyms and regional names), which
+ * is matched alongside the name.
+ */
+
+// Devanagari transliteration tables (simplified Hunterian scheme)
+const DEVANAGARI_VOWELS = {
+  'अ': 'a', 'आ': 'a', 'इ': 'i', 'ई': 'i', 'उ': 'u', 'ऊ': 'u',
+  'ऋ': 'ri', 'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au',
+};
+
+const DEVANAGARI_SIGNS = {
+  'ा': 'a', 'ि': 'i', 'ी': 'i', 'ु': 'u', 'ू': 'u',
+  'ृ': 'ri', 'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au',
+};
+
+const DEVANAGARI_CONSONANTS = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n',
+  'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n',
+  'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm',
+  'य': 'y', 'र': 'r', 'ल': 'l', 'व': 'v',
+  'श': 'sh', 'ष': 'sh', 'स': 's', 'ह': 'h',
+};
+
+const HALANT = '्';
+const NUKTA = '़';
+const NASALS = ['ं', 'ँ'];
+const VISARGA = 'ः';
+
+// Result thresholds and weights
+const MIN_SCORE = 0.5;
+const ALIAS_WEIGHT = 0.95;
+const CATEGORY_WEIGHT = 0.6;
+
+/**
+ * Transliterate Devanagari to Latin. Inherent "a" is dropped at the end
+ * of a word, matching how Hindi food names are usually romanised.
+ */
+const transliterate = (text) => {
+  const chars = [...text.normalize('NFC')];
+  let out = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+
+    if (DEVANAGARI_CONSONANTS[char]) {
+      out += DEVANAGARI_CONSONANTS[char];
+      if (chars[i + 1] === NUKTA) i++;
+
+      const next = chars[i + 1];
+      if (DEVANAGARI_SIGNS[next]) {
+        out += DEVANAGARI_SIGNS[next];
+        i++;
+      } else if (next === HALANT) {
+        i++;
+      } else if (DEVANAGARI_CONSONANTS[next] || NASALS.includes(next) || next === VISARGA) {
+        out += 'a';
+      }
+    } else if (DEVANAGARI_VOWELS[char]) {
+      out += DEVANAGARI_VOWELS[char];
+    } else if (NASALS.includes(char)) {
+      out += 'n';
+    } else if (char === VISARGA) {
+      out += 'h';
+    } else if (char !== HALANT && char !== NUKTA) {
+      out += char;
+    }
+  }
+
+  return out;
+};
+
+/**
+ * Fold spelling variants of romanised Hindi onto one form
+ */
+const phonetic = (token) => token
+  .replace(/ee/g, 'i')
+  .replace(/oo/g, 'u')
+  .replace(/ck/g, 'k')
+  .replace(/([bcdgjkpt])h/g, '$1')
+  .replace(/w/g, 'v')
+  .replace(/(.)\1+/g, '$1');
+
+/**
+ * Split text into { text, key } tokens, where text is the original word
+ * and key its folded form used for matching
+ */
+const tokenize = (text) => {
+  const words = (text || '').normalize('NFC').match(/[\p{L}\p{M}\p{N}]+/gu) || [];
+
+  return words
+    .map((word) => {
+      const latin = transliterate(word)
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase();
+      return { text: word, key: phonetic(latin) };
+    })
+    .filter((token) => token.key);
+};
+
+/**
+ * Levenshtein edit distance
+ */
+const editDistance = (a, b) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// Typos allowed for a query token of this length
+const allowedTypos = (length) => {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  return 2;
+};
+
+/**
+ * Score one query token against one food token (0-1)
+ */
+const tokenScore = (query, target) => {
+  if (query === target) return 1;
+  if (query.length >= 2 && target.startsWith(query)) return 0.9;
+
+  const allowed = allowedTypos(query.length);
+  if (allowed > 0) {
+    const distance = editDistance(query, target);
+    if (distance <= allowed) return 0.85 - 0.1 * (distance - 1);
+
+    // Typo in a partly typed word ("chapt" → "chapati")
+    if (query.length >= 4 && editDistance(query, target.slice(0, query.length)) <= 1) {
+      return 0.7;
+    }
+  }
+
+  if (query.length >= 3 && target.includes(query)) return 0.6;
+  return 0;
+};
+
+/**
+ * Score query tokens against one searchable term (name, alias or category).
+ * Query words with no match lower the score without ruling the term out,
+ * so "paneer tika" still finds "Paneer".
+ * @returns {Object} { score, matched } - matched are the term's original words
+ */
+const termScore = (queryTokens, termTokens) => {
+  const matched = new Set();
+  let total = 0;
+  let found = 0;
+
+  for (const query of queryTokens) {
+    let best = 0;
+    let bestIndex = -1;
+
+    termTokens.forEach((token, index) => {
+      const score = tokenScore(query.key, token.key);
+      if (score > best) {
+        best = score;
+        bestIndex = index;
+      }
+    });
+
+    if (bestIndex !== -1) {
+      total += best;
+      found++;
+      matched.add(bestIndex);
+    }
+  }
+
+  if (found === 0) return { score: 0, matched: [] };
+
+  // Share of query words found, and share of the term they cover
+  // (prefers "Dal" over "Dal Makhani Special")
+  const recall = found / queryTokens.length;
+  const coverage = matched.size / termTokens.length;
+  const score = (total / found) * (0.6 + 0.4 * recall) * (0.9 + 0.1 * coverage);
+
+  return { score, matched: [...matched].map((index) => termTokens[index].text) };
+};
+
+/**
+ * Score a food against a query
+ * @returns {Object} { score, matches } - matches are the words of the
+ *   food name that matched, for highlighting
+ */
+const scoreFood = (queryTokens, food) => {
+  const name = termScore(queryTokens, tokenize(food.name));
+  let best = name.score;
+
+  for (const alias of food.aliases || []) {
+    best = Math.max(best, termScore(queryTokens, tokenize(alias)).score * ALIAS_WEIGHT);
+  }
+
+  if (food.category) {
+    best = Math.max(best, termScore(queryTokens, tokenize(food.category)).score * CATEGORY_WEIGHT);
+  }
+
+  return {
+    score: Math.round(best * 100) / 100,
+    matches: name.score > 0 ? name.matched : [],
+  };
+};
+
+/**
+ * Rank foods by relevance to a query, dropping weak matches.
+ * Ties keep their input order, so callers list preferred sources first.
+ * @param {string} query - raw search text (Latin or Devanagari)
+ * @param {Array} foods - food-database items
+ * @returns {Array} foods with `score` (0-1) and `matches` added, best first
+ */
+const rankFoods = (query, foods) => {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return foods;
+
+  return foods
+    .map((food) => ({ ...food, ...scoreFood(queryTokens, food) }))
+    .filter((food) => food.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Broad name pattern for fetching database candidates before ranking:
+ * names containing the first three letters of any query word, in the
+ * original spelling or its transliteration.
+ */
+const candidatePattern = (query) => {
+  const prefixes = new Set();
+
+  for (const word of (query.normalize('NFC').match(/[\p{L}\p{M}\p{N}]+/gu) || [])) {
+    for (const form of [word, transliterate(word)]) {
+      prefixes.add(form.slice(0, 3).toLowerCase());
+    }
+  }
+
+  const escaped = [...prefixes]
+    .filter(Boolean)
+    .map((prefix) => prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+  return escaped.length > 0 ? new RegExp(escaped.join('|'), 'i') : null;
+};
+
+module.exports = {
+  rankFoods,
+  candidatePattern,
+  transliterate,
+  tokenize,
+  editDistance,
+};
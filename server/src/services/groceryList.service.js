@@ -0,0 +1,191 @@
+/**
+ * Grocery List Service
+ * ====================
+ * Builds a consolidated shopping list from a week's meal plan.
+ *
+ * Every food line across the week is aggregated by name and unit.
+ * Weights are normalised to grams and volumes to millilitres so the
+ * same food planned in different units adds up, and items are grouped
+ * by the food-database category.
+ */
+
+const { COMMON_FOODS, normalizeServingUnit } = require('./foodDatabase.service');
+const { UNITS } = require('../utils/servingUnits');
+
+// Units converted to a base unit before aggregating
+const UNIT_CONVERSIONS = {
+  kg: { unit: 'g', factor: 1000 },
+  oz: { unit: 'g', factor: 28.35 },
+  l: { unit: 'ml', factor: 1000 },
+  litre: { unit: 'ml', factor: 1000 },
+  liter: { unit: 'ml', factor: 1000 },
+  cup: { unit: 'ml', factor: 240 },
+  glass: { unit: 'ml', factor: 250 },
+  tbsp: { unit: 'ml', factor: 15 },
+  tsp: { unit: 'ml', factor: 5 },
+};
+
+// Category order on the list (anything else is sorted after these)
+const CATEGORY_ORDER = ['fruits', 'vegetables', 'dairy', 'protein', 'grains', 'legumes', 'snacks', 'beverages'];
+
+const round = (value, decimals = 2) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Convert a quantity to its base unit (g, ml, piece or serving)
+ */
+const normalizeQuantity = (quantity, unit) => {
+  const raw = (unit || '').toLowerCase().trim();
+  const conversion = UNIT_CONVERSIONS[raw] || UNIT_CONVERSIONS[normalizeServingUnit(raw)];
+
+  if (conversion) {
+    return { quantity: quantity * conversion.factor, unit: conversion.unit };
+  }
+
+  return { quantity, unit: normalizeServingUnit(raw) };
+};
+
+/**
+ * Human-readable quantity, switching to kg / L for large amounts
+ */
+const formatQuantity = (quantity, unit) => {
+  if (unit === 'g' && quantity >= 1000) return `${round(quantity / 1000)} kg`;
+  if (unit === 'ml' && quantity >= 1000) return `${round(quantity / 1000)} L`;
+  if (UNITS[unit]?.kind === 'count') {
+    const count = round(quantity);
+    return `${count} ${unit}${count === 1 ? '' : 's'}`;
+  }
+  return `${round(quantity)} ${unit}`;
+};
+
+/**
+ * Look up a food's category by food-database ID, falling back to its name
+ */
+const findCategory = (food) => {
+  const match = COMMON_FOODS.find((f) => f.id === food.foodId)
+    || COMMON_FOODS.find((f) => f.name.toLowerCase() === (food.name || '').toLowerCase());
+
+  return match ? match.category : 'other';
+};
+
+/**
+ * Stable key for a list item (used for check-off)
+ */
+const itemKey = (name, unit) => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug}_${unit}`;
+};
+
+/**
+ * Aggregate all planned foods in a meal plan into a grouped shopping list
+ * @param {Object} plan - MealPlan document
+ * @returns {Object} { categories: [{ category, items }], totalItems, checkedItems }
+ */
+const buildGroceryList = (plan) => {
+  const checked = new Set(plan.groceryChecked || []);
+  const items = new Map();
+
+  for (const day of plan.days) {
+    for (const meal of day.meals) {
+      for (const food of meal.foods) {
+        if (!food.name) continue;
+
+        const { quantity, unit } = normalizeQuantity(food.servingSize || 1, food.servingUnit);
+        const key = itemKey(food.name, unit);
+
+        if (!items.has(key)) {
+          items.set(key, {
+            key,
+            name: food.name,
+            category: findCategory(food),
+            quantity: 0,
+            unit,
+            meals: 0,
+          });
+        }
+
+        const item = items.get(key);
+        item.quantity += quantity;
+        item.meals += 1;
+      }
+    }
+  }
+
+  const groups = new Map();
+  for (const item of items.values()) {
+    if (!groups.has(item.category)) groups.set(item.category, []);
+    groups.get(item.category).push({
+      key: item.key,
+      name: item.name,
+      quantity: round(item.quantity),
+      unit: item.unit,
+      display: formatQuantity(item.quantity, item.unit),
+      meals: item.meals,
+      checked: checked.has(item.key),
+    });
+  }
+
+  const rank = (category) => {
+    const index = CATEGORY_ORDER.indexOf(category);
+    return index === -1 ? CATEGORY_ORDER.length : index;
+  };
+
+  const categories = [...groups.entries()]
+    .sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b))
+    .map(([category, list]) => ({
+      category,
+      items: list.sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+
+  const all = categories.flatMap((c) => c.items);
+
+  return {
+    categories,
+    totalItems: all.length,
+    checkedItems: all.filter((item) => item.checked).length,
+  };
+};
+
+/**
+ * Plain-text export with checkboxes
+ */
+const toText = (list, title) => {
+  const lines = [title, ''];
+
+  for (const { category, items } of list.categories) {
+    lines.push(category.toUpperCase());
+    for (const item of items) {
+      lines.push(`[${item.checked ? 'x' : ' '}] ${item.name} - ${item.display}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * CSV export (one row per item)
+ */
+const toCsv = (list) => {
+  const escape = (value) => {
+    const str = String(value);
+    return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+  };
+
+  const rows = [['Category', 'Item', 'Quantity', 'Unit', 'Checked']];
+  for (const { category, items } of list.categories) {
+    for (const item of items) {
+      rows.push([category, item.name, item.quantity, item.unit, item.checked ? 'yes' : 'no']);
+    }
+  }
+
+  return rows.map((row) => row.map(escape).join(',')).join('\n');
+};
+
+module.exports = {
+  buildGroceryList,
+  toText,
+  toCsv,
+};
@@ -0,0 +1,185 @@
+/**
+ * Meal Items Service
+ * ==================
+ * Resolves the foods in a meal (`Meal.items`) to nutrition lines, and
+ * re-applies food corrections to meals already logged.
+ *
+ * An item is { foodId, quantity, unit } for a food-database food, or
+ * { name, quantity, unit, nutrition } for something typed in by hand.
+ * Food items are scaled from the food's current nutrition, so editing a
+ * quantity or unit always rescales from the source food.
+ */
+
+const Meal = require('../models/Meal');
+const ApiError = require('../utils/ApiError');
+const { getFoodById } = require('./foodDatabase.service');
+const { scaleNutrition, parseUnit } = require('../utils/servingUnits');
+const { MICRONUTRIENT_KEYS } = require('../utils/nutrients');
+const { refreshDailySummaries } = require('./dailySummary.service');
+const { invalidateUserCache } = require('../middleware/cacheMiddleware');
+
+const NUTRIENTS = ['calories', 'protein', 'carbs', 'fat', 'fiber', 'sugar', 'sodium'];
+
+// Food-database ID prefixes that map to an item source
+const SOURCES = ['local', 'usda', 'ifct', 'custom', 'recipe'];
+
+const round = (value, decimals = 1) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Item source from its food ID prefix
+ */
+const sourceOf = (foodId) => {
+  const prefix = foodId ? foodId.split('_')[0] : null;
+  return SOURCES.includes(prefix) ? prefix : 'manual';
+};
+
+/**
+ * Copy the tracked nutrients, multiplied by `factor`
+ */
+const pickNutrition = (nutrition = {}, factor = 1) => {
+  const result = {};
+  for (const nutrient of NUTRIENTS) {
+    result[nutrient] = round((nutrition[nutrient] || 0) * factor);
+  }
+  for (const nutrient of MICRONUTRIENT_KEYS) {
+    result[nutrient] = round((nutrition[nutrient] || 0) * factor, 2);
+  }
+  result.calories = Math.round(result.calories);
+  return result;
+};
+
+/**
+ * Rescale a previously logged item to a new quantity of the same unit.
+ * Used when the source food is gone (deleted custom food or recipe).
+ */
+const rescaleFromPrevious = (item, previous) => {
+  if (!previous || previous.unit !== item.unit || !previous.quantity) return null;
+
+  return pickNutrition(previous.nutrition, item.quantity / previous.quantity);
+};
+
+/**
+ * Resolve meal items to nutrition lines
+ * @param {ObjectId} userId - Owner (for custom foods and recipes)
+ * @param {Array} items - [{ foodId?, name?, quantity, unit?, nutrition? }]
+ * @param {Array} previousItems - the meal's current items, when editing
+ * @returns {Array} [{ foodId, source, name, quantity, unit, nutrition }]
+ */
+const resolveItems = async (userId, items, previousItems = []) => Promise.all(
+  items.map(async (item) => {
+    const { foodId, quantity } = item;
+    const unit = parseUnit(item.unit) || item.unit;
+
+    if (!foodId) {
+      if (item.nutrition?.calories === undefined) {
+        throw ApiError.badRequest(`Nutrition is required for ${item.name || 'manual items'}`);
+      }
+
+      return {
+        source: 'manual',
+        name: item.name,
+        quantity,
+        unit: unit || 'serving',
+        nutrition: pickNutrition(item.nutrition),
+      };
+    }
+
+    const food = await getFoodById(foodId, userId);
+
+    if (!food) {
+      const previous = previousItems.find((p) => p.foodId === foodId);
+      const nutrition = rescaleFromPrevious({ quantity, unit: unit || previous?.unit }, previous);
+
+      if (!nutrition) {
+        throw ApiError.badRequest(`Food not found: ${foodId}`);
+      }
+
+      return {
+        foodId,
+        source: previous.source,
+        name: item.name || previous.name,
+        quantity,
+        unit: previous.unit,
+        nutrition,
+      };
+    }
+
+    const scaled = scaleNutrition(food, quantity, unit || food.servingUnit);
+
+    if (!scaled) {
+      throw ApiError.badRequest(`Cannot measure ${food.name} in ${unit}`);
+    }
+
+    return {
+      foodId,
+      source: sourceOf(foodId),
+      name: item.name || food.name,
+      quantity,
+      unit: scaled.unit,
+      nutrition: pickNutrition(scaled.nutrition),
+    };
+  })
+);
+
+/**
+ * Rescale every item in a meal by `factor` (serving-size edits)
+ */
+const scaleItems = (items, factor) => items.map((item) => ({
+  foodId: item.foodId,
+  source: item.source,
+  name: item.name,
+  quantity: round(item.quantity * factor, 2),
+  unit: item.unit,
+  nutrition: pickNutrition(item.nutrition, factor),
+}));
+
+/**
+ * Re-apply a food's current nutrition to the user's logged meals containing it
+ * @param {ObjectId} userId
+ * @param {string} foodId - food database ID (custom_*, recipe_*, ...)
+ * @returns {number} number of meals updated
+ */
+const refreshFoodInMeals = async (userId, foodId) => {
+  const food = await getFoodById(foodId, userId);
+  if (!food) return 0;
+
+  const meals = await Meal.find({ user: userId, 'items.foodId': foodId });
+  const updatedDates = [];
+
+  for (const meal of meals) {
+    let changed = false;
+
+    for (const item of meal.items) {
+      if (item.foodId !== foodId) continue;
+
+      const scaled = scaleNutrition(food, item.quantity, item.unit);
+      if (!scaled) continue;
+
+      item.nutrition = pickNutrition(scaled.nutrition);
+      item.name = food.name;
+      changed = true;
+    }
+
+    if (changed) {
+      await meal.save();
+      updatedDates.push(meal.consumedAt);
+    }
+  }
+
+  if (updatedDates.length > 0) {
+    await refreshDailySummaries(userId, updatedDates);
+    await invalidateUserCache(userId);
+  }
+
+  return updatedDates.length;
+};
+
+module.exports = {
+  sourceOf,
+  resolveItems,
+  scaleItems,
+  refreshFoodInMeals,
+};
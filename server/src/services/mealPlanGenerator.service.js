@@ -0,0 +1,281 @@
+/**
+ * Meal Plan Generator Service
+ * ===========================
+ * Builds a week of planned meals that lands each day close to the
+ * user's daily calorie and macro targets.
+ *
+ * Dishes come from the recommendation meal catalog; single foods from the
+ * local food database are added as sides to close remaining macro gaps.
+ * Diet type, allergies and disliked foods are respected, and each dish
+ * may only appear a limited number of times per week.
+ */
+
+const { MEAL_CATALOG } = require('./recommendation.service');
+const { COMMON_FOODS } = require('./foodDatabase.service');
+const { buildExclusions } = require('../utils/dietRules');
+
+const MEAL_SLOTS = ['breakfast', 'lunch', 'dinner', 'snack'];
+const MACROS = ['calories', 'protein', 'carbs', 'fat'];
+
+// How much each macro counts towards a day's deviation score
+const MACRO_WEIGHTS = {
+  calories: 2,
+  protein: 1.5,
+  carbs: 1,
+  fat: 1,
+};
+
+// Portion multipliers are kept to quarter servings within this range
+const MIN_PORTION = 0.5;
+const MAX_PORTION = 2;
+
+// Maximum single-food sides added to a day
+const MAX_SIDES = 2;
+
+// Local food categories usable as sides, and the meal they are served with
+const SIDE_SLOTS = {
+  grains: 'dinner',
+  legumes: 'lunch',
+  protein: 'dinner',
+  dairy: 'snack',
+  fruits: 'snack',
+};
+
+const round = (value, decimals = 0) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Weighted squared relative deviation of totals from targets
+ */
+const scoreTotals = (totals, targets) => MACROS.reduce((score, macro) => {
+  if (!targets[macro]) return score;
+  const relative = (totals[macro] - targets[macro]) / targets[macro];
+  return score + MACRO_WEIGHTS[macro] * relative * relative;
+}, 0);
+
+const addTotals = (a, b, scale = 1) => ({
+  calories: a.calories + b.calories * scale,
+  protein: a.protein + b.protein * scale,
+  carbs: a.carbs + b.carbs * scale,
+  fat: a.fat + b.fat * scale,
+});
+
+const ZERO = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+
+/**
+ * Per-macro deviation of totals from targets
+ */
+const buildDeviation = (totals, targets, tolerance) => {
+  const deviation = {};
+  let withinTolerance = true;
+
+  for (const macro of MACROS) {
+    const amount = round(totals[macro] - targets[macro], 1);
+    const percent = targets[macro] ? round((amount / targets[macro]) * 100, 1) : 0;
+
+    if (Math.abs(percent) > tolerance * 100) withinTolerance = false;
+    deviation[macro] = { amount, percent };
+  }
+
+  return { deviation, withinTolerance };
+};
+
+/**
+ * Pick one dish per open slot, a common portion size and up to MAX_SIDES
+ * sides so that the day's totals best match the targets.
+ * Dishes may be used limits[slot] times per week, sides maxRepeats times.
+ */
+const planDay = ({ slots, candidates, sides, targets, fixed, usage, limits, maxRepeats }) => {
+  const available = (limit) => (item) => (usage.get(item.name) || 0) < limit;
+  const options = slots
+    .filter((slot) => candidates[slot].length > 0)
+    .map((slot) => ({ slot, dishes: candidates[slot].filter(available(limits[slot])) }))
+    .filter((option) => option.dishes.length > 0);
+
+  const remainingCalories = Math.max(0, targets.calories - fixed.calories);
+  let best = null;
+
+  // Exhaustively try every dish combination (catalog is small)
+  const search = (index, chosen, totals) => {
+    if (index === options.length) {
+      if (chosen.length === 0) return;
+
+      const rawPortion = totals.calories > 0 ? remainingCalories / totals.calories : 1;
+      const portion = Math.min(MAX_PORTION, Math.max(MIN_PORTION, round(rawPortion * 4) / 4));
+      const dayTotals = addTotals(fixed, totals, portion);
+
+      // Prefer dishes that have been used less this week
+      const repeats = chosen.reduce((sum, c) => sum + (usage.get(c.dish.name) || 0), 0);
+      const score = scoreTotals(dayTotals, targets) + repeats * 0.01;
+
+      if (!best || score < best.score) {
+        best = { score, portion, dishes: [...chosen], totals: dayTotals };
+      }
+      return;
+    }
+
+    for (const dish of options[index].dishes) {
+      chosen.push({ slot: options[index].slot, dish });
+      search(index + 1, chosen, addTotals(totals, dish));
+      chosen.pop();
+    }
+  };
+
+  search(0, [], { ...ZERO });
+
+  const result = best || { portion: 1, dishes: [], totals: { ...fixed } };
+  result.sides = [];
+
+  // Greedily add sides while they reduce the deviation
+  for (let i = 0; i < MAX_SIDES; i += 1) {
+    const current = scoreTotals(result.totals, targets);
+    let bestSide = null;
+
+    for (const side of sides.filter(available(maxRepeats))) {
+      if (result.sides.some((s) => s.name === side.name)) continue;
+      const score = scoreTotals(addTotals(result.totals, side), targets);
+      if (score < current && (!bestSide || score < bestSide.score)) {
+        bestSide = { score, side };
+      }
+    }
+
+    if (!bestSide) break;
+    result.sides.push(bestSide.side);
+    result.totals = addTotals(result.totals, bestSide.side);
+  }
+
+  return result;
+};
+
+/**
+ * Turn a day's selection into planned meals (without times)
+ */
+const buildMeals = ({ portion, dishes, sides }) => {
+  const meals = dishes.map(({ slot, dish }) => ({
+    name: dish.name,
+    mealType: slot,
+    foods: [{
+      name: dish.name,
+      servingSize: portion,
+      servingUnit: 'serving',
+      calories: round(dish.calories * portion),
+      protein: round(dish.protein * portion, 1),
+      carbs: round(dish.carbs * portion, 1),
+      fat: round(dish.fat * portion, 1),
+    }],
+  }));
+
+  for (const side of sides) {
+    const slot = SIDE_SLOTS[side.category];
+    const food = {
+      name: side.name,
+      servingSize: side.servingSize,
+      servingUnit: side.servingUnit,
+      calories: side.calories,
+      protein: side.protein,
+      carbs: side.carbs,
+      fat: side.fat,
+      foodId: side.id,
+    };
+
+    const host = meals.find((m) => m.mealType === slot);
+    if (host) {
+      host.foods.push(food);
+    } else {
+      meals.push({ name: side.name, mealType: slot, foods: [food] });
+    }
+  }
+
+  return meals;
+};
+
+/**
+ * Generate a week of meals for a user.
+ *
+ * @param {Object} user - User document (dailyTargets and preferences are used)
+ * @param {Array<Object>} days - Days to plan as [{ date, fixed, skipSlots }]
+ *   where fixed is nutrition already eaten and skipSlots are meal types to leave alone
+ * @param {Object} options - { tolerance (fraction, default 0.1), maxRepeats (default 2) }
+ * @returns {Object} { days: [{ date, meals, totals, targets, deviation, withinTolerance }], warnings }
+ */
+const generateWeek = (user, days, options = {}) => {
+  const { tolerance = 0.1, maxRepeats = 2 } = options;
+  const exclusionsFor = buildExclusions(user.preferences || {});
+  const isAllowed = (item) => exclusionsFor(item).length === 0;
+  const warnings = [];
+
+  const targets = {
+    calories: user.dailyTargets.calories,
+    protein: user.dailyTargets.protein,
+    carbs: user.dailyTargets.carbs,
+    fat: user.dailyTargets.fat,
+  };
+
+  const candidates = {};
+  const limits = {};
+  for (const slot of MEAL_SLOTS) {
+    candidates[slot] = (MEAL_CATALOG[slot] || [])
+      .filter(isAllowed);
+
+    if (candidates[slot].length === 0) {
+      warnings.push(`No ${slot} dishes match your diet and allergies`);
+      continue;
+    }
+
+    // Too few dishes to fill the week within the repeat limit
+    limits[slot] = Math.max(maxRepeats, Math.ceil(days.length / candidates[slot].length));
+    if (limits[slot] > maxRepeats) {
+      warnings.push(`Only ${candidates[slot].length} ${slot} dish(es) available, some repeat up to ${limits[slot]} times`);
+    }
+  }
+
+  const sides = COMMON_FOODS
+    .filter((food) => SIDE_SLOTS[food.category])
+    .filter(isAllowed);
+
+  const usage = new Map();
+
+  const plannedDays = days.map(({ date, fixed = ZERO, skipSlots = [] }) => {
+    const selection = planDay({
+      slots: MEAL_SLOTS.filter((slot) => !skipSlots.includes(slot)),
+      candidates,
+      sides,
+      targets,
+      fixed,
+      usage,
+      limits,
+      maxRepeats,
+    });
+
+    for (const { dish } of selection.dishes) {
+      usage.set(dish.name, (usage.get(dish.name) || 0) + 1);
+    }
+    for (const side of selection.sides) {
+      usage.set(side.name, (usage.get(side.name) || 0) + 1);
+    }
+
+    const meals = buildMeals(selection);
+
+    // Report on the rounded values that are actually stored
+    const totals = meals
+      .flatMap((meal) => meal.foods)
+      .reduce((sum, food) => addTotals(sum, food), { ...fixed });
+    MACROS.forEach((macro) => { totals[macro] = round(totals[macro], 1); });
+
+    return {
+      date,
+      meals,
+      totals,
+      targets,
+      ...buildDeviation(totals, targets, tolerance),
+    };
+  });
+
+  return { days: plannedDays, warnings };
+};
+
+module.exports = {
+  generateWeek,
+};
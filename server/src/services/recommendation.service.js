@@ -8,373 +8,438 @@
  * - User's goals (lose weight, maintain, gain)
  * - Eating patterns and habits
  * 
- * And provides actionable recommendations.
+ * And provides actionable recommendations. Daily recommendation rules are
+ * data (RecommendationRule documents) so they can be tuned without a deploy.
  */
 
-const Meal = require('../models/Meal');
 const User = require('../models/User');
+const RecommendationRule = require('../models/RecommendationRule');
+const RecommendationFeedback = require('../models/RecommendationFeedback');
+const WaterIntake = require('../models/WaterIntake');
+const Meal = require('../models/Meal');
+const { getDailySummaries } = require('./dailySummary.service');
+const { buildExclusions } = require('../utils/dietRules');
+const { PRIORITY, buildFacts, evaluateRules } = require('../utils/ruleEngine');
+const DEFAULT_RULES = require('../config/recommendationRules.json');
+const {
+  timezoneOf,
+  todayKey,
+  dateKey,
+  addDays,
+  minutesIntoDay,
+  startOfDay,
+} = require('../utils/timezone');
+
+// Meal catalog (simplified - in production, this would come from a food database)
+// Shared by meal suggestions and the weekly meal-plan generator.
+// `allergens` lists the allergen groups each dish contains (see utils/dietRules).
+const MEAL_CATALOG = {
+  breakfast: [
+    { name: "Oatmeal with Fruits", calories: 300, protein: 10, carbs: 50, fat: 8, tags: ["vegetarian", "vegan", "fiber-rich"], allergens: [] },
+    { name: "Eggs & Toast", calories: 350, protein: 18, carbs: 30, fat: 16, tags: ["high-protein"], allergens: ["egg", "gluten"] },
+    { name: "Greek Yogurt Parfait", calories: 280, protein: 15, carbs: 35, fat: 8, tags: ["vegetarian", "high-protein"], allergens: ["dairy"] },
+    { name: "Avocado Toast", calories: 320, protein: 8, carbs: 28, fat: 22, tags: ["vegetarian", "healthy-fats"], allergens: ["gluten"] },
+    { name: "Protein Smoothie", calories: 350, protein: 25, carbs: 40, fat: 8, tags: ["high-protein", "quick"], allergens: ["dairy"] },
+    { name: "Poha with Vegetables", calories: 280, protein: 6, carbs: 45, fat: 10, tags: ["vegetarian", "vegan", "indian"], allergens: ["peanut"] },
+    { name: "Idli with Sambar", calories: 250, protein: 8, carbs: 42, fat: 5, tags: ["vegetarian", "vegan", "indian", "low-fat"], allergens: [] },
+  ],
+  lunch: [
+    { name: "Grilled Chicken Salad", calories: 450, protein: 35, carbs: 20, fat: 25, tags: ["high-protein", "low-carb"], allergens: [] },
+    { name: "Dal Rice Bowl", calories: 500, protein: 15, carbs: 75, fat: 12, tags: ["vegetarian", "vegan", "indian"], allergens: [] },
+    { name: "Paneer Tikka Wrap", calories: 480, protein: 22, carbs: 45, fat: 22, tags: ["vegetarian", "indian"], allergens: ["dairy", "gluten"] },
+    { name: "Quinoa Buddha Bowl", calories: 420, protein: 18, carbs: 55, fat: 15, tags: ["vegetarian", "vegan", "balanced"], allergens: [] },
+    { name: "Chicken Biryani", calories: 550, protein: 28, carbs: 60, fat: 20, tags: ["indian", "high-protein"], allergens: ["dairy"] },
+    { name: "Vegetable Stir Fry", calories: 380, protein: 12, carbs: 45, fat: 16, tags: ["vegetarian", "vegan", "quick"], allergens: ["soy"] },
+  ],
+  dinner: [
+    { name: "Grilled Fish with Vegetables", calories: 400, protein: 32, carbs: 25, fat: 18, tags: ["high-protein", "low-carb"], allergens: ["seafood"] },
+    { name: "Chicken Curry with Roti", calories: 480, protein: 28, carbs: 45, fat: 18, tags: ["indian", "high-protein"], allergens: ["gluten"] },
+    { name: "Palak Paneer with Rice", calories: 520, protein: 18, carbs: 55, fat: 24, tags: ["vegetarian", "indian"], allergens: ["dairy"] },
+    { name: "Lentil Soup with Bread", calories: 350, protein: 16, carbs: 50, fat: 8, tags: ["vegetarian", "vegan", "fiber-rich"], allergens: ["gluten"] },
+    { name: "Egg Curry with Chapati", calories: 420, protein: 20, carbs: 40, fat: 18, tags: ["indian", "high-protein"], allergens: ["egg", "gluten"] },
+    { name: "Mixed Vegetable Khichdi", calories: 380, protein: 12, carbs: 60, fat: 10, tags: ["vegetarian", "indian", "comfort"], allergens: ["dairy"] },
+  ],
+  snack: [
+    { name: "Mixed Nuts (handful)", calories: 180, protein: 5, carbs: 8, fat: 16, tags: ["vegetarian", "vegan", "healthy-fats", "quick"], allergens: ["nuts"] },
+    { name: "Apple with Peanut Butter", calories: 200, protein: 5, carbs: 25, fat: 10, tags: ["vegetarian", "vegan", "quick"], allergens: ["peanut"] },
+    { name: "Protein Bar", calories: 220, protein: 15, carbs: 25, fat: 8, tags: ["high-protein", "convenient", "processed"], allergens: ["dairy", "soy", "nuts"] },
+    { name: "Hummus with Carrots", calories: 150, protein: 5, carbs: 18, fat: 7, tags: ["vegetarian", "vegan", "fiber-rich"], allergens: [] },
+    { name: "Boiled Eggs (2)", calories: 140, protein: 12, carbs: 1, fat: 10, tags: ["high-protein", "low-carb"], allergens: ["egg"] },
+    { name: "Chana Chaat", calories: 180, protein: 8, carbs: 28, fat: 5, tags: ["vegetarian", "vegan", "indian"], allergens: [] },
+  ],
+};
+
+// Rules are re-read from the database at most this often
+const RULE_CACHE_MS = 60 * 1000;
+
+let ruleCache = null;
 
 /**
- * Recommendation categories with priority levels
+ * Enabled recommendation rules, seeding the defaults into an empty collection
+ * @returns {Array} rule definitions
  */
-const PRIORITY = {
-  HIGH: 3,
-  MEDIUM: 2,
-  LOW: 1,
+const getRecommendationRules = async () => {
+  if (ruleCache && ruleCache.expires > Date.now()) {
+    return ruleCache.rules;
+  }
+
+  if (await RecommendationRule.estimatedDocumentCount() === 0) {
+    // Another request may seed them at the same time; duplicates are skipped
+    await RecommendationRule.insertMany(DEFAULT_RULES, { ordered: false }).catch(() => {});
+  }
+
+  const rules = await RecommendationRule.find({ enabled: true }).lean();
+  ruleCache = { rules, expires: Date.now() + RULE_CACHE_MS };
+
+  return rules;
 };
 
-const CATEGORY = {
-  CALORIE: 'calorie',
-  PROTEIN: 'protein',
-  CARBS: 'carbs',
-  FAT: 'fat',
-  HYDRATION: 'hydration',
-  MEAL_TIMING: 'meal_timing',
-  BALANCE: 'balance',
-  GOAL: 'goal',
+/**
+ * Drop cached rules so the next evaluation reads the database (after admin edits)
+ */
+const clearRuleCache = () => {
+  ruleCache = null;
+};
+
+// Ratings older than this no longer affect ranking
+const FEEDBACK_WINDOW_DAYS = 30;
+
+// Net "not helpful" ratings in a category per priority level it drops
+const UNHELPFUL_STEP = 2;
+
+/**
+ * Stable id of a rule's recommendation on a day
+ * @param {string} rule - RecommendationRule key
+ * @param {string} date - "YYYY-MM-DD" in the user's timezone
+ */
+const recommendationId = (rule, date) => `${rule}:${date}`;
+
+/**
+ * Apply a user's feedback to the day's recommendations
+ * - Drops recommendations dismissed today, or whose rule is snoozed
+ * - Lowers the priority of categories rated unhelpful more often than
+ *   helpful (one level per UNHELPFUL_STEP), and ranks them last among equals
+ * @param {Array} recommendations - from evaluateRules
+ * @param {Array} feedback - RecommendationFeedback documents
+ * @param {Object} options - { date: today's key, now: Date }
+ * @returns {Array} recommendations with `id` (and today's `helpful` rating)
+ */
+const applyFeedback = (recommendations, feedback, { date, now = new Date() }) => {
+  const byId = new Map(feedback.map((entry) => [entry.recommendationId, entry]));
+  const snoozedRules = new Set(
+    feedback
+      .filter((entry) => entry.snoozedUntil && entry.snoozedUntil > now)
+      .map((entry) => entry.rule)
+  );
+
+  // Net unhelpful ratings per category
+  const unhelpful = {};
+  for (const entry of feedback) {
+    if (entry.helpful === null || entry.helpful === undefined) continue;
+    unhelpful[entry.category] = (unhelpful[entry.category] || 0) + (entry.helpful ? -1 : 1);
+  }
+
+  return recommendations
+    .map((recommendation) => ({ ...recommendation, id: recommendationId(recommendation.rule, date) }))
+    .filter((recommendation) => !byId.get(recommendation.id)?.dismissedAt
+      && !snoozedRules.has(recommendation.rule))
+    .map((recommendation) => {
+      const net = unhelpful[recommendation.category] || 0;
+      const steps = Math.max(0, Math.floor(net / UNHELPFUL_STEP));
+      const helpful = byId.get(recommendation.id)?.helpful ?? null;
+
+      return {
+        ...recommendation,
+        priority: Math.max(PRIORITY.LOW, recommendation.priority - steps),
+        helpful,
+      };
+    })
+    .sort((a, b) => b.priority - a.priority
+      || (unhelpful[a.category] || 0) - (unhelpful[b.category] || 0));
 };
 
 /**
  * Generate daily recommendations based on user's data
+ * Rules (see utils/ruleEngine) are evaluated against today's summary and
+ * water intake, the past week, the user's goal and the time of day; the
+ * user's dismissals, snoozes and ratings are then applied (see applyFeedback).
  * @param {ObjectId} userId - User's ID
  * @returns {Array} Array of recommendation objects
  */
 const generateDailyRecommendations = async (userId) => {
   const user = await User.findById(userId);
-  const targets = user.dailyTargets;
-  const profile = user.profile;
-  const goal = profile.goal || 'maintain';
-
-  // Get today's consumption
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const todaySummary = await Meal.getDailySummary(userId, today);
-
-  // Get last 7 days for pattern analysis
-  const weekAgo = new Date();
-  weekAgo.setDate(weekAgo.getDate() - 7);
-  const weeklyMeals = await Meal.find({
-    user: userId,
-    consumedAt: { $gte: weekAgo },
-  }).lean();
-
-  const recommendations = [];
-
-  // ============================================
-  // CALORIE RECOMMENDATIONS
-  // ============================================
-  const caloriePercentage = (todaySummary.totalCalories / targets.calories) * 100;
-  const currentHour = new Date().getHours();
-
-  if (caloriePercentage === 0 && currentHour >= 10) {
-    recommendations.push({
-      category: CATEGORY.CALORIE,
-      priority: PRIORITY.HIGH,
-      title: "Haven't logged any meals today",
-      message: "Start your day right by logging your breakfast! Consistent tracking helps you reach your goals faster.",
-      action: "Log your first meal",
-      icon: "🍳",
-    });
-  } else if (caloriePercentage < 30 && currentHour >= 14) {
-    recommendations.push({
-      category: CATEGORY.CALORIE,
-      priority: PRIORITY.HIGH,
-      title: "Low calorie intake for this time of day",
-      message: `You've only consumed ${Math.round(caloriePercentage)}% of your daily target. Remember to eat regular meals to maintain energy levels.`,
-      action: "Plan your remaining meals",
-      icon: "⚡",
-    });
-  } else if (caloriePercentage > 100) {
-    const overBy = todaySummary.totalCalories - targets.calories;
-    
-    if (goal === 'lose-weight') {
-      recommendations.push({
-        category: CATEGORY.CALORIE,
-        priority: PRIORITY.HIGH,
-        title: "Daily calorie target exceeded",
-        message: `You're ${overBy} calories over your target. Consider a light dinner and some physical activity.`,
-        action: "Plan a lighter dinner",
-        icon: "⚠️",
-      });
-    } else {
-      recommendations.push({
-        category: CATEGORY.CALORIE,
-        priority: PRIORITY.LOW,
-        title: "Above your calorie target",
-        message: `You're ${overBy} calories over today. This is fine occasionally, but try to balance it out over the week.`,
-        action: null,
-        icon: "📊",
-      });
-    }
-  } else if (caloriePercentage >= 80 && caloriePercentage <= 100) {
-    recommendations.push({
-      category: CATEGORY.CALORIE,
-      priority: PRIORITY.LOW,
-      title: "Great calorie balance! 🎯",
-      message: "You're on track with your daily calorie goal. Keep up the excellent work!",
-      action: null,
-      icon: "✅",
-    });
-  }
 
-  // ============================================
-  // PROTEIN RECOMMENDATIONS
-  // ============================================
-  const proteinPercentage = (todaySummary.totalProtein / targets.protein) * 100;
-
-  if (proteinPercentage < 50 && currentHour >= 18) {
-    recommendations.push({
-      category: CATEGORY.PROTEIN,
-      priority: PRIORITY.HIGH,
-      title: "Protein intake is low",
-      message: `Only ${Math.round(proteinPercentage)}% of your protein target. Try adding lean meats, eggs, legumes, or dairy to your next meal.`,
-      action: "Add protein-rich foods",
-      icon: "💪",
-      suggestions: ["Chicken breast", "Greek yogurt", "Lentils", "Eggs", "Paneer", "Tofu"],
-    });
-  } else if (goal === 'build-muscle' && proteinPercentage < 80 && currentHour >= 15) {
-    recommendations.push({
-      category: CATEGORY.PROTEIN,
-      priority: PRIORITY.MEDIUM,
-      title: "Boost your protein for muscle gain",
-      message: "For muscle building, aim for higher protein. Consider a protein-rich snack or supplement.",
-      action: "Add a protein snack",
-      icon: "🏋️",
-    });
-  }
+  // "Today" in the user's timezone, and the 7 days before it for patterns
+  const timezone = timezoneOf(user);
+  const today = todayKey(timezone);
+
+  const now = new Date();
+  const [summaries, water, rules, feedback] = await Promise.all([
+    getDailySummaries(user, addDays(today, -7), today),
+    WaterIntake.findOne({ user: user._id, date: startOfDay(today, timezone) }).lean(),
+    getRecommendationRules(),
+    RecommendationFeedback.find({
+      user: user._id,
+      updatedAt: { $gte: new Date(now.getTime() - FEEDBACK_WINDOW_DAYS * 24 * 60 * 60 * 1000) },
+    }).lean(),
+  ]);
+
+  const facts = buildFacts({
+    targets: user.dailyTargets,
+    goal: user.profile.goal,
+    summaries,
+    water,
+    minutes: minutesIntoDay(now, timezone),
+  });
 
-  // ============================================
-  // MACRO BALANCE RECOMMENDATIONS
-  // ============================================
-  const totalMacros = todaySummary.totalProtein + todaySummary.totalCarbs + todaySummary.totalFat;
-  
-  if (totalMacros > 0) {
-    const proteinRatio = (todaySummary.totalProtein / totalMacros) * 100;
-    const carbsRatio = (todaySummary.totalCarbs / totalMacros) * 100;
-    const fatRatio = (todaySummary.totalFat / totalMacros) * 100;
-
-    if (carbsRatio > 70) {
-      recommendations.push({
-        category: CATEGORY.BALANCE,
-        priority: PRIORITY.MEDIUM,
-        title: "High carbohydrate ratio",
-        message: "Your meals are carb-heavy today. Try adding more protein and healthy fats for better satiety.",
-        action: "Balance with protein",
-        icon: "⚖️",
+  return applyFeedback(evaluateRules(rules, facts), feedback, { date: today, now });
+};
+
+/**
+ * Record feedback on a recommendation
+ * @param {ObjectId} userId - User's ID
+ * @param {string} id - recommendation id ("<rule key>:<YYYY-MM-DD>")
+ * @param {Object} update - fields to set (dismissedAt, snoozedUntil, helpful, ratedAt)
+ * @returns {Object|null} the feedback, or null if the rule doesn't exist
+ */
+const recordFeedback = async (userId, id, update) => {
+  const [rule, date] = id.split(':');
+
+  const definition = await RecommendationRule.findOne({ key: rule }).lean();
+  if (!definition) return null;
+
+  return RecommendationFeedback.findOneAndUpdate(
+    { user: userId, recommendationId: id },
+    {
+      $set: update,
+      $setOnInsert: { rule, category: definition.category, date },
+    },
+    { new: true, upsert: true, runValidators: true }
+  );
+};
+
+// How far back the user's own meals are drawn on for suggestions
+const PERSONAL_HISTORY_DAYS = 60;
+
+// A logged meal's weight halves every this many days (see foodHistory.service)
+const FAMILIARITY_HALF_LIFE_DAYS = 14;
+
+// Logs (in the history window) before a non-favorite meal is suggested
+const MIN_PERSONAL_LOGS = 2;
+
+// Score taken off a dish eaten today, yesterday, the day before
+const VARIETY_PENALTY = [30, 20, 10];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dishKey = (name) => name.trim().toLowerCase();
+
+/**
+ * The user's own dishes for a meal type, grouped by name
+ * @param {Array} meals - Meal documents of one meal type, newest first
+ * @param {Object} options - { today: "YYYY-MM-DD", timezone, now: Date }
+ * @returns {Map} dish key -> { name, nutrition, tags, mealId, isFavorite,
+ *   timesEaten, frequency (decayed count), daysSinceEaten }
+ */
+const personalDishes = (meals, { today, timezone, now = new Date() }) => {
+  const dishes = new Map();
+
+  for (const meal of meals) {
+    const key = dishKey(meal.name);
+    const ageDays = (now.getTime() - new Date(meal.consumedAt).getTime()) / DAY_MS;
+
+    if (!dishes.has(key)) {
+      // Meals are newest first, so the first one seen is the latest log
+      dishes.set(key, {
+        name: meal.name,
+        nutrition: meal.nutrition,
+        tags: meal.tags || [],
+        mealId: meal._id,
+        isFavorite: false,
+        timesEaten: 0,
+        frequency: 0,
+        daysSinceEaten: (Date.parse(today) - Date.parse(dateKey(meal.consumedAt, timezone))) / DAY_MS,
       });
     }
 
-    if (fatRatio > 50) {
-      recommendations.push({
-        category: CATEGORY.FAT,
-        priority: PRIORITY.MEDIUM,
-        title: "High fat intake",
-        message: "Today's meals are high in fat. Consider lighter options for your remaining meals.",
-        action: "Choose lighter options",
-        icon: "🥗",
-      });
+    const dish = dishes.get(key);
+    dish.isFavorite = dish.isFavorite || Boolean(meal.isFavorite);
+    if (ageDays <= PERSONAL_HISTORY_DAYS) {
+      dish.timesEaten += 1;
+      dish.frequency += 0.5 ** (ageDays / FAMILIARITY_HALF_LIFE_DAYS);
     }
   }
 
-  // ============================================
-  // MEAL TIMING RECOMMENDATIONS
-  // ============================================
-  if (weeklyMeals.length > 0) {
-    // Analyze meal timing patterns
-    const breakfastMeals = weeklyMeals.filter((m) => m.mealType === 'breakfast');
-    const snackMeals = weeklyMeals.filter((m) => m.mealType === 'snack');
-
-    if (breakfastMeals.length < 3) {
-      recommendations.push({
-        category: CATEGORY.MEAL_TIMING,
-        priority: PRIORITY.MEDIUM,
-        title: "Breakfast skipping detected",
-        message: "You've skipped breakfast on several days this week. A healthy breakfast can boost metabolism and energy.",
-        action: "Plan breakfast ahead",
-        icon: "🌅",
-      });
-    }
+  return dishes;
+};
 
-    if (snackMeals.length > 10) {
-      recommendations.push({
-        category: CATEGORY.MEAL_TIMING,
-        priority: PRIORITY.LOW,
-        title: "Frequent snacking",
-        message: "You're snacking frequently. Consider if these are mindful choices or could be consolidated into main meals.",
-        action: "Review snacking habits",
-        icon: "🍿",
-      });
-    }
+/**
+ * How well a dish fits the remaining nutrition and the user's goal
+ */
+const macroFitScore = (dish, remaining, goal) => {
+  let score = 100;
+
+  // Penalize if meal exceeds remaining calories significantly
+  if (dish.calories > remaining.calories * 1.2) {
+    score -= 30;
   }
 
-  // ============================================
-  // GOAL-SPECIFIC RECOMMENDATIONS
-  // ============================================
-  switch (goal) {
-    case 'lose-weight':
-      if (todaySummary.totalFiber < targets.fiber * 0.5) {
-        recommendations.push({
-          category: CATEGORY.GOAL,
-          priority: PRIORITY.MEDIUM,
-          title: "Increase fiber intake",
-          message: "Fiber helps you feel full longer. Add vegetables, fruits, and whole grains to support your weight loss goal.",
-          action: "Add fiber-rich foods",
-          icon: "🥬",
-          suggestions: ["Broccoli", "Oats", "Apples", "Beans", "Brown rice"],
-        });
-      }
-      break;
-
-    case 'gain-weight':
-    case 'build-muscle':
-      if (caloriePercentage < 90 && currentHour >= 20) {
-        recommendations.push({
-          category: CATEGORY.GOAL,
-          priority: PRIORITY.HIGH,
-          title: "Need more calories for your goal",
-          message: "You're under your calorie target. Add a calorie-dense snack to support your weight/muscle gain goal.",
-          action: "Add calorie-dense foods",
-          icon: "🥜",
-          suggestions: ["Nuts", "Peanut butter", "Avocado", "Cheese", "Banana shake"],
-        });
-      }
-      break;
-
-    case 'maintain':
-      if (Math.abs(caloriePercentage - 100) <= 10) {
-        recommendations.push({
-          category: CATEGORY.GOAL,
-          priority: PRIORITY.LOW,
-          title: "Perfect maintenance! 🎯",
-          message: "You're right on track with your maintenance calories. Great job staying consistent!",
-          action: null,
-          icon: "🏆",
-        });
-      }
-      break;
+  // ...or would blow the remaining carbs or fat
+  if (dish.carbs > remaining.carbs * 1.2) score -= 10;
+  if (dish.fat > remaining.fat * 1.2) score -= 10;
+
+  // Bonus for good protein content when protein is needed
+  if (remaining.protein > 20 && dish.protein >= 15) {
+    score += 20;
   }
 
-  // ============================================
-  // HYDRATION REMINDER (Time-based)
-  // ============================================
-  if (currentHour >= 12 && currentHour <= 18) {
-    recommendations.push({
-      category: CATEGORY.HYDRATION,
-      priority: PRIORITY.LOW,
-      title: "Stay hydrated",
-      message: `Aim for ${targets.water} glasses of water today. Proper hydration aids digestion and metabolism.`,
-      action: "Drink a glass of water",
-      icon: "💧",
-    });
+  // Goal-specific scoring
+  if (goal === 'lose-weight' && dish.calories <= remaining.calories * 0.4) {
+    score += 15;
+  }
+  if (goal === 'build-muscle' && dish.protein >= 20) {
+    score += 20;
   }
 
-  // Sort by priority (highest first)
-  recommendations.sort((a, b) => b.priority - a.priority);
+  return score;
+};
 
-  return recommendations;
+/**
+ * Bonus for dishes the user likes: favorites and meals eaten often lately.
+ * Capped below the calorie overshoot penalty plus a macro one, so a
+ * favorite that blows the budget doesn't beat a dish that fits.
+ */
+const familiarityScore = (history) => {
+  if (!history) return 0;
+  return (history.isFavorite ? 15 : 0) + Math.min(15, Math.round(history.frequency * 5));
+};
+
+/**
+ * Penalty (negative) for dishes eaten in the last few days
+ */
+const varietyScore = (history) => {
+  const penalty = history ? VARIETY_PENALTY[history.daysSinceEaten] : undefined;
+  return penalty ? -penalty : 0;
+};
+
+/**
+ * Score and rank suggestion candidates
+ * @param {Array} dishes - { name, calories, protein, carbs, fat, history? }
+ * @param {Object} remaining - remaining calories and macros
+ * @param {string} goal - User.profile.goal
+ * @returns {Array} dishes with `score` and its `scores` breakdown, best first
+ */
+const rankDishes = (dishes, remaining, goal) => dishes
+  .map((dish) => {
+    const scores = {
+      macroFit: macroFitScore(dish, remaining, goal),
+      familiarity: familiarityScore(dish.history),
+      variety: varietyScore(dish.history),
+    };
+    return { ...dish, scores, score: scores.macroFit + scores.familiarity + scores.variety };
+  })
+  .sort((a, b) => b.score - a.score);
+
+/**
+ * Leave out dishes that break the diet, contain an allergen or a disliked food
+ * Only catalogue tags are trusted for diet rules; the user's own meals are
+ * free-form (often untagged), so they are judged by name.
+ * @param {Array} dishes - suggestion candidates
+ * @param {Object} preferences - User.preferences
+ * @returns {Object} { allowed, excluded: [{ name, reasons }] }
+ */
+const filterDishes = (dishes, preferences) => {
+  const exclusionsFor = buildExclusions(preferences);
+  const allowed = [];
+  const excluded = [];
+
+  for (const dish of dishes) {
+    const reasons = exclusionsFor(dish.source === 'catalog' ? dish : { ...dish, tags: undefined });
+    if (reasons.length > 0) {
+      excluded.push({ name: dish.name, reasons });
+    } else {
+      allowed.push(dish);
+    }
+  }
+
+  return { allowed, excluded };
 };
 
 /**
  * Generate meal suggestions based on remaining nutrition needs
+ * Candidates are the catalogue dishes plus the user's own favorites and
+ * meals they log often for this meal type. They are ranked by how well
+ * they fit the remaining macros, how familiar they are, and how recently
+ * they were eaten (for variety). Dishes that don't suit the user's diet
+ * type, allergies or disliked foods are left out and listed with the
+ * reasons.
  * @param {ObjectId} userId - User's ID
  * @param {string} mealType - Type of meal (breakfast, lunch, dinner, snack)
- * @returns {Array} Array of meal suggestion objects
+ * @returns {Object} { mealType, remainingNutrition, suggestions, excluded }
  */
 const getMealSuggestions = async (userId, mealType) => {
   const user = await User.findById(userId);
   const targets = user.dailyTargets;
-  const preferences = user.preferences;
   const goal = user.profile.goal;
 
-  // Get today's consumption
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const todaySummary = await Meal.getDailySummary(userId, today);
+  // Get today's consumption, and the user's own meals of this type
+  const timezone = timezoneOf(user);
+  const today = todayKey(timezone);
+  const now = new Date();
+  const [[{ nutrition: consumed }], meals] = await Promise.all([
+    getDailySummaries(user, today, today),
+    Meal.find({
+      user: user._id,
+      mealType,
+      consumedAt: { $lte: now },
+      $or: [
+        { consumedAt: { $gte: new Date(now.getTime() - PERSONAL_HISTORY_DAYS * DAY_MS) } },
+        { isFavorite: true },
+      ],
+    })
+      .sort({ consumedAt: -1 })
+      .select('name nutrition tags isFavorite consumedAt')
+      .lean(),
+  ]);
 
   // Calculate remaining needs
   const remaining = {
-    calories: Math.max(0, targets.calories - todaySummary.totalCalories),
-    protein: Math.max(0, targets.protein - todaySummary.totalProtein),
-    carbs: Math.max(0, targets.carbs - todaySummary.totalCarbs),
-    fat: Math.max(0, targets.fat - todaySummary.totalFat),
-  };
-
-  // Meal database (simplified - in production, this would come from a food database)
-  const mealDatabase = {
-    breakfast: [
-      { name: "Oatmeal with Fruits", calories: 300, protein: 10, carbs: 50, fat: 8, tags: ["vegetarian", "fiber-rich"] },
-      { name: "Eggs & Toast", calories: 350, protein: 18, carbs: 30, fat: 16, tags: ["high-protein"] },
-      { name: "Greek Yogurt Parfait", calories: 280, protein: 15, carbs: 35, fat: 8, tags: ["vegetarian", "high-protein"] },
-      { name: "Avocado Toast", calories: 320, protein: 8, carbs: 28, fat: 22, tags: ["vegetarian", "healthy-fats"] },
-      { name: "Protein Smoothie", calories: 350, protein: 25, carbs: 40, fat: 8, tags: ["high-protein", "quick"] },
-      { name: "Poha with Vegetables", calories: 280, protein: 6, carbs: 45, fat: 10, tags: ["vegetarian", "indian"] },
-      { name: "Idli with Sambar", calories: 250, protein: 8, carbs: 42, fat: 5, tags: ["vegetarian", "indian", "low-fat"] },
-    ],
-    lunch: [
-      { name: "Grilled Chicken Salad", calories: 450, protein: 35, carbs: 20, fat: 25, tags: ["high-protein", "low-carb"] },
-      { name: "Dal Rice Bowl", calories: 500, protein: 15, carbs: 75, fat: 12, tags: ["vegetarian", "indian"] },
-      { name: "Paneer Tikka Wrap", calories: 480, protein: 22, carbs: 45, fat: 22, tags: ["vegetarian", "indian"] },
-      { name: "Quinoa Buddha Bowl", calories: 420, protein: 18, carbs: 55, fat: 15, tags: ["vegetarian", "balanced"] },
-      { name: "Chicken Biryani", calories: 550, protein: 28, carbs: 60, fat: 20, tags: ["indian", "high-protein"] },
-      { name: "Vegetable Stir Fry", calories: 380, protein: 12, carbs: 45, fat: 16, tags: ["vegetarian", "quick"] },
-    ],
-    dinner: [
-      { name: "Grilled Fish with Vegetables", calories: 400, protein: 32, carbs: 25, fat: 18, tags: ["high-protein", "low-carb"] },
-      { name: "Chicken Curry with Roti", calories: 480, protein: 28, carbs: 45, fat: 18, tags: ["indian", "high-protein"] },
-      { name: "Palak Paneer with Rice", calories: 520, protein: 18, carbs: 55, fat: 24, tags: ["vegetarian", "indian"] },
-      { name: "Lentil Soup with Bread", calories: 350, protein: 16, carbs: 50, fat: 8, tags: ["vegetarian", "fiber-rich"] },
-      { name: "Egg Curry with Chapati", calories: 420, protein: 20, carbs: 40, fat: 18, tags: ["indian", "high-protein"] },
-      { name: "Mixed Vegetable Khichdi", calories: 380, protein: 12, carbs: 60, fat: 10, tags: ["vegetarian", "indian", "comfort"] },
-    ],
-    snack: [
-      { name: "Mixed Nuts (handful)", calories: 180, protein: 5, carbs: 8, fat: 16, tags: ["healthy-fats", "quick"] },
-      { name: "Apple with Peanut Butter", calories: 200, protein: 5, carbs: 25, fat: 10, tags: ["vegetarian", "quick"] },
-      { name: "Protein Bar", calories: 220, protein: 15, carbs: 25, fat: 8, tags: ["high-protein", "convenient"] },
-      { name: "Hummus with Carrots", calories: 150, protein: 5, carbs: 18, fat: 7, tags: ["vegetarian", "fiber-rich"] },
-      { name: "Boiled Eggs (2)", calories: 140, protein: 12, carbs: 1, fat: 10, tags: ["high-protein", "low-carb"] },
-      { name: "Chana Chaat", calories: 180, protein: 8, carbs: 28, fat: 5, tags: ["vegetarian", "indian"] },
-    ],
+    calories: Math.max(0, targets.calories - consumed.calories),
+    protein: Math.max(0, targets.protein - consumed.protein),
+    carbs: Math.max(0, targets.carbs - consumed.carbs),
+    fat: Math.max(0, targets.fat - consumed.fat),
   };
 
-  const meals = mealDatabase[mealType] || [];
-
-  // Filter based on dietary preferences
-  let filteredMeals = [...meals];
-  
-  if (preferences.dietType === 'vegetarian' || preferences.dietType === 'vegan') {
-    filteredMeals = filteredMeals.filter((m) => 
-      m.tags.includes('vegetarian') || m.tags.includes('vegan')
-    );
+  // Catalogue dishes, with the user's history where they've eaten them,
+  // then the user's own favorites and regulars
+  const history = personalDishes(meals, { today, timezone, now });
+  const candidates = (MEAL_CATALOG[mealType] || []).map((dish) => ({
+    ...dish,
+    source: 'catalog',
+    history: history.get(dishKey(dish.name)),
+  }));
+  const catalogKeys = new Set(candidates.map((dish) => dishKey(dish.name)));
+
+  for (const [key, dish] of history) {
+    if (catalogKeys.has(key) || (!dish.isFavorite && dish.timesEaten < MIN_PERSONAL_LOGS)) continue;
+
+    candidates.push({
+      name: dish.name,
+      calories: dish.nutrition.calories || 0,
+      protein: dish.nutrition.protein || 0,
+      carbs: dish.nutrition.carbs || 0,
+      fat: dish.nutrition.fat || 0,
+      tags: dish.tags,
+      allergens: [],
+      source: dish.isFavorite ? 'favorite' : 'history',
+      mealId: dish.mealId,
+      history: dish,
+    });
   }
 
-  // Score meals based on nutritional fit
-  const scoredMeals = filteredMeals.map((meal) => {
-    let score = 100;
-
-    // Penalize if meal exceeds remaining calories significantly
-    if (meal.calories > remaining.calories * 1.2) {
-      score -= 30;
-    }
-
-    // Bonus for good protein content when protein is needed
-    if (remaining.protein > 20 && meal.protein >= 15) {
-      score += 20;
-    }
-
-    // Goal-specific scoring
-    if (goal === 'lose-weight' && meal.calories <= remaining.calories * 0.4) {
-      score += 15;
-    }
-    if (goal === 'build-muscle' && meal.protein >= 20) {
-      score += 20;
-    }
+  const { allowed: filteredMeals, excluded } = filterDishes(candidates, user.preferences);
+  const scoredMeals = rankDishes(filteredMeals, remaining, goal);
 
-    return { ...meal, score };
-  });
-
-  // Sort by score and return top 5
-  scoredMeals.sort((a, b) => b.score - a.score);
-  
   return {
     mealType,
     remainingNutrition: remaining,
@@ -387,8 +452,20 @@ const getMealSuggestions = async (userId, mealType) => {
         fat: m.fat,
       },
       tags: m.tags,
+      allergens: m.allergens,
+      source: m.source,
+      // Set for the user's own meals, to re-log them
+      ...(m.mealId && { mealId: m.mealId }),
+      isFavorite: m.history?.isFavorite || false,
+      timesEaten: m.history?.timesEaten || 0,
+      lastEatenDaysAgo: m.history ? m.history.daysSinceEaten : null,
       matchScore: m.score,
+      scores: m.scores,
     })),
+    excluded,
+    ...(scoredMeals.length === 0 && {
+      message: `No ${mealType} dishes match your diet, allergies and dislikes`,
+    }),
   };
 };
 
@@ -399,33 +476,21 @@ const getMealSuggestions = async (userId, mealType) => {
  */
 const getWeeklyInsights = async (userId) => {
   const user = await User.findById(userId);
-  const targets = user.dailyTargets;
-
-  // Get last 7 days of meals
-  const weekAgo = new Date();
-  weekAgo.setDate(weekAgo.getDate() - 7);
-  weekAgo.setHours(0, 0, 0, 0);
-
-  const meals = await Meal.find({
-    user: userId,
-    consumedAt: { $gte: weekAgo },
-  }).lean();
-
-  // Calculate daily totals
-  const dailyTotals = {};
-  meals.forEach((meal) => {
-    const dateKey = meal.consumedAt.toISOString().split('T')[0];
-    if (!dailyTotals[dateKey]) {
-      dailyTotals[dateKey] = { calories: 0, protein: 0, carbs: 0, fat: 0, meals: 0 };
-    }
-    dailyTotals[dateKey].calories += meal.nutrition.calories;
-    dailyTotals[dateKey].protein += meal.nutrition.protein;
-    dailyTotals[dateKey].carbs += meal.nutrition.carbs;
-    dailyTotals[dateKey].fat += meal.nutrition.fat;
-    dailyTotals[dateKey].meals += 1;
-  });
 
-  const days = Object.values(dailyTotals);
+  // Daily totals for the last 7 days (days in the user's timezone)
+  const today = todayKey(timezoneOf(user));
+  const summaries = await getDailySummaries(user, addDays(today, -7), today);
+
+  const days = summaries
+    .filter((summary) => summary.mealCount > 0)
+    .map(({ nutrition, mealCount, targets }) => ({
+      calories: nutrition.calories,
+      protein: nutrition.protein,
+      carbs: nutrition.carbs,
+      fat: nutrition.fat,
+      meals: mealCount,
+      targets,
+    }));
   const daysTracked = days.length;
 
   if (daysTracked === 0) {
@@ -437,6 +502,12 @@ const getWeeklyInsights = async (userId) => {
 
   const insights = [];
 
+  // Compare against the targets each tracked day had, averaged
+  const targets = {
+    calories: Math.round(days.reduce((sum, d) => sum + d.targets.calories, 0) / daysTracked),
+    protein: Math.round(days.reduce((sum, d) => sum + d.targets.protein, 0) / daysTracked),
+  };
+
   // Average daily calories
   const avgCalories = Math.round(days.reduce((sum, d) => sum + d.calories, 0) / daysTracked);
   const calorieDeviation = Math.abs(avgCalories - targets.calories);
@@ -509,8 +580,16 @@ const getWeeklyInsights = async (userId) => {
 };
 
 module.exports = {
+  getRecommendationRules,
+  clearRuleCache,
   generateDailyRecommendations,
+  applyFeedback,
+  recordFeedback,
+  personalDishes,
+  filterDishes,
+  rankDishes,
   getMealSuggestions,
   getWeeklyInsights,
+  MEAL_CATALOG,
 };
 
@@ -0,0 +1,214 @@
+/**
+ * Adaptive TDEE Service
+ * =====================
+ * Estimates a user's real daily energy expenditure (TDEE) from what they
+ * logged and how their weight moved, instead of the Mifflin-St Jeor
+ * formula and a fixed activity multiplier.
+ *
+ * Over the last 2-6 weeks:
+ *   TDEE = average daily intake - weight trend (kg/day) x 7700 kcal/kg
+ *
+ * The weight trend is a least-squares line through the weigh-ins, so one
+ * heavy morning doesn't swing the estimate. Days logged at under 40% of
+ * their target are treated as partly logged and left out of the intake
+ * average. Confidence grows with the span covered, the share of fully
+ * logged days and the number of weigh-ins.
+ */
+
+const BodyMeasurement = require('../models/BodyMeasurement');
+const TargetHistory = require('../models/TargetHistory');
+const { getDailySummaries } = require('./dailySummary.service');
+const { invalidateUserCache } = require('../middleware/cacheMiddleware');
+const {
+  timezoneOf,
+  dateKey,
+  todayKey,
+  addDays,
+  startOfDay,
+  endOfDay,
+} = require('../utils/timezone');
+
+// Energy in a kilogram of body weight
+const KCAL_PER_KG = 7700;
+
+// Days of history looked at, and the least a weight trend may span
+const MAX_DAYS = 42;
+const MIN_DAYS = 14;
+
+// Fully logged days needed for an intake average
+const MIN_LOGGED_DAYS = 7;
+
+// Weigh-ins for full confidence in the weight trend
+const FULL_WEIGH_INS = 8;
+
+// A day logged under this share of its target counts as partly logged
+const PARTIAL_DAY_SHARE = 0.4;
+
+// Lowest calorie target ever suggested
+const MIN_CALORIES = 1200;
+
+// Auto-adjust moves the target at most this far, at most once a week
+const MAX_STEP = 250;
+const AUTO_ADJUST_INTERVAL_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value, decimals = 0) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Days between two date keys
+ */
+const daysBetween = (startKey, endKey) => (Date.parse(endKey) - Date.parse(startKey)) / DAY_MS;
+
+/**
+ * Least-squares slope of weight against days (kg per day)
+ * @param {Array} weighIns - [{ date: "YYYY-MM-DD", weight }]
+ */
+const weightTrend = (weighIns) => {
+  const points = weighIns.map((w) => ({ x: daysBetween(weighIns[0].date, w.date), y: w.weight }));
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+
+  let covariance = 0;
+  let variance = 0;
+  for (const { x, y } of points) {
+    covariance += (x - meanX) * (y - meanY);
+    variance += (x - meanX) ** 2;
+  }
+
+  return variance > 0 ? covariance / variance : 0;
+};
+
+/**
+ * Confidence level for a 0-1 confidence score
+ */
+const confidenceLevel = (confidence) => {
+  if (confidence >= 0.75) return 'high';
+  if (confidence >= 0.5) return 'medium';
+  return 'low';
+};
+
+/**
+ * Estimate TDEE from daily intake and weigh-ins
+ * @param {Array} days - [{ date, calories, target }] oldest first
+ * @param {Array} weighIns - [{ date, weight }] oldest first
+ * @returns {Object|null} estimate, or null when there isn't enough data
+ */
+const estimateTdee = (days, weighIns) => {
+  if (weighIns.length < 2) return null;
+
+  // Intake between the first and last weigh-in
+  const startKey = weighIns[0].date;
+  const endKey = weighIns[weighIns.length - 1].date;
+  const spanDays = daysBetween(startKey, endKey);
+  if (spanDays < MIN_DAYS) return null;
+
+  const spanned = days.filter((d) => d.date >= startKey && d.date <= endKey);
+  const logged = spanned.filter((d) => d.calories > 0 && d.calories >= d.target * PARTIAL_DAY_SHARE);
+  if (logged.length < MIN_LOGGED_DAYS) return null;
+
+  const averageIntake = logged.reduce((sum, d) => sum + d.calories, 0) / logged.length;
+  const trend = weightTrend(weighIns);
+  const tdee = averageIntake - trend * KCAL_PER_KG;
+
+  const confidence = round(
+    0.3 * Math.min(1, spanDays / MAX_DAYS)
+    + 0.5 * (logged.length / spanned.length)
+    + 0.2 * Math.min(1, weighIns.length / FULL_WEIGH_INS),
+    2
+  );
+
+  return {
+    tdee: Math.round(tdee),
+    averageIntake: Math.round(averageIntake),
+    weightChangePerWeek: round(trend * 7, 2),
+    startDate: startKey,
+    endDate: endKey,
+    days: spanned.length,
+    loggedDays: logged.length,
+    weighIns: weighIns.length,
+    confidence,
+    level: confidenceLevel(confidence),
+  };
+};
+
+/**
+ * Calorie target suggestion from the adaptive estimate
+ * @param {Object} user - User document
+ * @returns {Object} { estimate, currentCalories, formulaCalories, suggestedCalories, change, autoAdjust }
+ */
+const getCalorieSuggestion = async (user) => {
+  const timezone = timezoneOf(user);
+  const today = todayKey(timezone);
+  // Today isn't over, so its intake would read low
+  const endKey = addDays(today, -1);
+  const startKey = addDays(endKey, -MAX_DAYS + 1);
+
+  const [summaries, measurements] = await Promise.all([
+    getDailySummaries(user, startKey, endKey),
+    BodyMeasurement.getRange(user._id, startOfDay(startKey, timezone), endOfDay(today, timezone)),
+  ]);
+
+  const days = summaries.map((s) => ({
+    date: s.date,
+    calories: s.nutrition.calories,
+    target: s.targets.calories,
+  }));
+  const weighIns = measurements
+    .filter((m) => m.weight != null)
+    .map((m) => ({ date: dateKey(m.date, timezone), weight: m.weight }));
+
+  const estimate = estimateTdee(days, weighIns);
+  const currentCalories = user.dailyTargets.calories;
+  const suggestedCalories = estimate
+    ? Math.max(MIN_CALORIES, Math.round(user.calorieTargetFor(estimate.tdee) / 10) * 10)
+    : null;
+
+  return {
+    estimate,
+    currentCalories,
+    formulaCalories: user.calculateDailyCalories(),
+    suggestedCalories,
+    change: suggestedCalories ? suggestedCalories - currentCalories : 0,
+    autoAdjust: Boolean(user.preferences?.autoAdjustCalories),
+    ...(!estimate && {
+      message: `Log your meals and weigh in regularly for at least ${MIN_DAYS} days to get an estimate.`,
+    }),
+  };
+};
+
+/**
+ * Move the calorie target towards the suggestion for users who opted in.
+ * Skipped on low confidence or when targets changed in the last week.
+ * @param {Object} user - User document
+ * @returns {number|null} the new calorie target, or null when unchanged
+ */
+const autoAdjustCalories = async (user) => {
+  if (!user.preferences?.autoAdjustCalories) return null;
+
+  const today = todayKey(timezoneOf(user));
+  const lastChange = await TargetHistory.findOne({ user: user._id }).sort({ effectiveDate: -1 }).lean();
+  if (lastChange && lastChange.effectiveDate > addDays(today, -AUTO_ADJUST_INTERVAL_DAYS)) return null;
+
+  const suggestion = await getCalorieSuggestion(user);
+  if (!suggestion.estimate || suggestion.estimate.level === 'low') return null;
+
+  const step = Math.max(-MAX_STEP, Math.min(MAX_STEP, suggestion.change));
+  if (step === 0) return null;
+
+  user.setCalorieTarget(suggestion.currentCalories + step);
+  await user.save();
+  await invalidateUserCache(user._id);
+
+  return user.dailyTargets.calories;
+};
+
+module.exports = {
+  weightTrend,
+  estimateTdee,
+  getCalorieSuggestion,
+  autoAdjustCalories,
+};
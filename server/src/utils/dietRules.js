@@ -0,0 +1,143 @@
+/**
+ * Diet Rules
+ * ==========
+ * Decides whether a dish or food suits a user's preferences: diet type,
+ * allergies and disliked foods. Shared by meal suggestions and the
+ * meal-plan generator so both leave out the same things.
+ *
+ * Catalogue dishes carry `tags` (vegetarian, vegan, ...) and `allergens`
+ * (dairy, egg, gluten, nuts, peanut, seafood, soy); plain foods are
+ * judged by the ingredients their name mentions.
+ */
+
+// Ingredient keywords used for diet rules and allergy matching
+const KEYWORDS = {
+  meat: ['chicken', 'fish', 'mutton', 'lamb', 'beef', 'pork', 'prawn', 'shrimp'],
+  redMeat: ['mutton', 'lamb', 'beef', 'pork', 'bacon', 'sausage', 'ham', 'salami'],
+  egg: ['egg'],
+  dairy: ['milk', 'paneer', 'curd', 'yogurt', 'cheese', 'ghee', 'chai', 'lassi'],
+  grains: ['rice', 'roti', 'chapati', 'bread', 'toast', 'oat', 'quinoa', 'idli', 'dosa', 'poha', 'wrap', 'biryani', 'khichdi'],
+  legumes: ['dal', 'lentil', 'chana', 'hummus', 'sambar', 'peanut'],
+  gluten: ['roti', 'chapati', 'bread', 'toast', 'wrap', 'wheat', 'samosa'],
+  nuts: ['nut', 'almond', 'cashew', 'walnut', 'pistachio'],
+  peanut: ['peanut'],
+  seafood: ['fish', 'prawn', 'shrimp', 'crab'],
+  soy: ['soy', 'tofu'],
+};
+
+// Common allergy names mapped to allergen groups
+const ALLERGENS = {
+  dairy: 'dairy',
+  milk: 'dairy',
+  lactose: 'dairy',
+  egg: 'egg',
+  eggs: 'egg',
+  gluten: 'gluten',
+  wheat: 'gluten',
+  nuts: 'nuts',
+  'tree nuts': 'nuts',
+  peanut: 'peanut',
+  peanuts: 'peanut',
+  fish: 'seafood',
+  seafood: 'seafood',
+  shellfish: 'seafood',
+  soy: 'soy',
+};
+
+// Largest share of calories from carbs on a keto diet
+const KETO_CARB_SHARE = 0.2;
+
+const mentions = (name, words) => {
+  const lower = name.toLowerCase();
+  return words.some((word) => lower.includes(word));
+};
+
+const singular = (word) => word.toLowerCase().trim().replace(/s$/, '');
+
+/**
+ * Diet type rules: each returns why an item breaks the diet, or null
+ */
+const DIET_RULES = {
+  vegetarian: (item) => {
+    const fits = item.tags
+      ? item.tags.includes('vegetarian')
+      : !mentions(item.name, [...KEYWORDS.meat, ...KEYWORDS.egg]);
+    return fits ? null : 'Contains meat, fish or egg (not vegetarian)';
+  },
+
+  vegan: (item) => {
+    const fits = item.tags
+      ? item.tags.includes('vegan')
+      : !mentions(item.name, [...KEYWORDS.meat, ...KEYWORDS.egg, ...KEYWORDS.dairy]);
+    return fits ? null : 'Contains animal products (not vegan)';
+  },
+
+  keto: (item) => {
+    const carbShare = item.calories > 0 ? (item.carbs * 4) / item.calories : 0;
+    return carbShare <= KETO_CARB_SHARE
+      ? null
+      : `${Math.round(carbShare * 100)}% of calories from carbs (keto allows ${KETO_CARB_SHARE * 100}%)`;
+  },
+
+  paleo: (item) => {
+    const fits = !mentions(item.name, [...KEYWORDS.grains, ...KEYWORDS.legumes, ...KEYWORDS.dairy])
+      && !(item.allergens || []).some((group) => ['dairy', 'gluten', 'peanut', 'soy'].includes(group));
+    return fits ? null : 'Contains grains, legumes or dairy (not paleo)';
+  },
+
+  mediterranean: (item) => {
+    if (mentions(item.name, KEYWORDS.redMeat)) return 'Red or processed meat (not Mediterranean)';
+    if ((item.tags || []).includes('processed')) return 'Highly processed (not Mediterranean)';
+    return null;
+  },
+};
+
+/**
+ * Build a checker listing why an item doesn't suit the preferences
+ * @param {Object} preferences - User.preferences ({ dietType, allergies, dislikedFoods })
+ * @returns {Function} item -> [{ rule: 'diet'|'allergy'|'disliked', message }] (empty when allowed)
+ */
+const buildExclusions = (preferences = {}) => {
+  const dietRule = DIET_RULES[preferences.dietType];
+
+  const allergies = (preferences.allergies || [])
+    .map((allergy) => allergy.toLowerCase().trim())
+    .filter(Boolean)
+    .map((allergy) => {
+      const group = ALLERGENS[allergy];
+      return {
+        allergy,
+        group: group || singular(allergy),
+        words: group ? KEYWORDS[group] : [singular(allergy)],
+      };
+    });
+
+  const disliked = (preferences.dislikedFoods || [])
+    .map((food) => food.trim())
+    .filter(Boolean);
+
+  return (item) => {
+    const reasons = [];
+
+    const dietReason = dietRule ? dietRule(item) : null;
+    if (dietReason) reasons.push({ rule: 'diet', message: dietReason });
+
+    for (const { allergy, group, words } of allergies) {
+      if ((item.allergens || []).includes(group) || mentions(item.name, words)) {
+        reasons.push({ rule: 'allergy', message: `Contains ${group} (allergy: ${allergy})` });
+      }
+    }
+
+    for (const food of disliked) {
+      if (mentions(item.name, [singular(food)])) {
+        reasons.push({ rule: 'disliked', message: `Contains ${food}, which you dislike` });
+      }
+    }
+
+    return reasons;
+  };
+};
+
+module.exports = {
+  buildExclusions,
+};
@@ -0,0 +1,59 @@
+/**
+ * Hydration
+ * =========
+ * How much water a user needs today and how much they should have had by
+ * now. Shared by the water endpoints and the recommendation engine.
+ *
+ * - Hot days and workouts add to the day's target (WaterIntake.conditions)
+ * - Drinking is expected to be spread evenly over waking hours, so pace
+ *   compares intake with the share of the target due by the time of day
+ */
+
+// Extra water on a hot day
+const HOT_DAY_EXTRA_ML = 500;
+
+// Extra water per minute of exercise (about 350ml per half hour)
+const WORKOUT_ML_PER_MINUTE = 12;
+
+// Waking hours intake is spread over (local time)
+const WAKING_START_HOUR = 7;
+const WAKING_END_HOUR = 21;
+
+const ML_PER_GLASS = 250;
+
+/**
+ * Extra water for the day's conditions
+ * @param {Object} conditions - WaterIntake.conditions ({ hot, workoutMinutes })
+ * @returns {number} ml
+ */
+const extraWaterMl = (conditions = {}) => (conditions.hot ? HOT_DAY_EXTRA_ML : 0)
+  + Math.round((conditions.workoutMinutes || 0) * WORKOUT_ML_PER_MINUTE);
+
+/**
+ * Day's target in ml, adjusted for its conditions
+ * @param {number} baseMl - WaterIntake.target
+ * @param {Object} conditions - WaterIntake.conditions
+ */
+const adjustedTargetMl = (baseMl, conditions) => baseMl + extraWaterMl(conditions);
+
+/**
+ * Share of the day's target due by a time of day
+ * @param {number} targetMl
+ * @param {number} minutes - minutes into the day (user's timezone)
+ * @returns {number} ml
+ */
+const expectedByNowMl = (targetMl, minutes) => {
+  const start = WAKING_START_HOUR * 60;
+  const end = WAKING_END_HOUR * 60;
+  const share = Math.min(1, Math.max(0, (minutes - start) / (end - start)));
+  return Math.round(targetMl * share);
+};
+
+module.exports = {
+  HOT_DAY_EXTRA_ML,
+  WORKOUT_ML_PER_MINUTE,
+  ML_PER_GLASS,
+  extraWaterMl,
+  adjustedTargetMl,
+  expectedByNowMl,
+};
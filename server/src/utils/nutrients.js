@@ -0,0 +1,128 @@
+/**
+ * Micronutrients
+ * ==============
+ * Vitamins, minerals and saturated fat tracked alongside calories and
+ * macros, with their recommended daily intakes.
+ *
+ * Targets follow the US Dietary Reference Intakes (RDA, or AI where no RDA
+ * exists) by age and gender. Pregnancy and breastfeeding use their own
+ * adult values. Saturated fat is an upper limit (10% of calories) rather
+ * than a goal.
+ */
+
+/**
+ * Tracked micronutrients
+ * - unit: amounts are stored in this unit per food / meal
+ * - usda: USDA FoodData Central nutrient names, best match first
+ * - limit: target is a maximum, not a minimum
+ */
+const MICRONUTRIENTS = {
+  saturatedFat: { label: 'Saturated fat', unit: 'g', usda: ['fatty acids, total saturated'], limit: true },
+  iron: { label: 'Iron', unit: 'mg', usda: ['iron, fe'] },
+  calcium: { label: 'Calcium', unit: 'mg', usda: ['calcium, ca'] },
+  vitaminD: { label: 'Vitamin D', unit: 'mcg', usda: ['vitamin d (d2 + d3)'] },
+  vitaminB12: { label: 'Vitamin B12', unit: 'mcg', usda: ['vitamin b-12'] },
+  folate: { label: 'Folate', unit: 'mcg', usda: ['folate, dfe', 'folate, total'] },
+  potassium: { label: 'Potassium', unit: 'mg', usda: ['potassium, k'] },
+  vitaminC: { label: 'Vitamin C', unit: 'mg', usda: ['vitamin c'] },
+};
+
+const MICRONUTRIENT_KEYS = Object.keys(MICRONUTRIENTS);
+
+// Daily intakes by age band: [up to age, male, female]
+const RDA = {
+  iron: [[3, 7, 7], [8, 10, 10], [13, 8, 8], [18, 11, 15], [50, 8, 18], [Infinity, 8, 8]],
+  calcium: [[3, 700, 700], [8, 1000, 1000], [18, 1300, 1300], [50, 1000, 1000], [70, 1000, 1200], [Infinity, 1200, 1200]],
+  vitaminD: [[70, 15, 15], [Infinity, 20, 20]],
+  vitaminB12: [[3, 0.9, 0.9], [8, 1.2, 1.2], [13, 1.8, 1.8], [Infinity, 2.4, 2.4]],
+  folate: [[3, 150, 150], [8, 200, 200], [13, 300, 300], [Infinity, 400, 400]],
+  potassium: [[3, 2000, 2000], [8, 2300, 2300], [13, 2500, 2300], [18, 3000, 2300], [Infinity, 3400, 2600]],
+  vitaminC: [[3, 15, 15], [8, 25, 25], [13, 45, 45], [18, 75, 65], [Infinity, 90, 75]],
+};
+
+// Adult intakes during pregnancy and breastfeeding (replace the female values)
+const LIFE_STAGE_RDA = {
+  pregnant: { iron: 27, folate: 600, vitaminB12: 2.6, potassium: 2900, vitaminC: 85 },
+  breastfeeding: { iron: 9, folate: 500, vitaminB12: 2.8, potassium: 2800, vitaminC: 120 },
+};
+
+// Age used when the profile has none
+const DEFAULT_AGE = 30;
+
+// Share of calories saturated fat should stay under
+const SATURATED_FAT_SHARE = 0.1;
+
+const round = (value, decimals = 1) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Daily micronutrient targets for a profile
+ * Without a male/female gender the higher of the two values is used.
+ * @param {Object} profile - { age, gender, lifeStage }
+ * @param {number} calories - daily calorie target (for the saturated fat limit)
+ */
+const micronutrientTargets = ({ age, gender, lifeStage } = {}, calories = 2000) => {
+  const years = age || DEFAULT_AGE;
+  const targets = {};
+
+  for (const [nutrient, bands] of Object.entries(RDA)) {
+    const [, male, female] = bands.find(([maxAge]) => years <= maxAge);
+    if (gender === 'male') targets[nutrient] = male;
+    else if (gender === 'female') targets[nutrient] = female;
+    else targets[nutrient] = Math.max(male, female);
+  }
+
+  const stage = gender !== 'male' && LIFE_STAGE_RDA[lifeStage];
+  if (stage) Object.assign(targets, stage);
+
+  targets.saturatedFat = Math.round((calories * SATURATED_FAT_SHARE) / 9);
+
+  return targets;
+};
+
+/**
+ * $group accumulators summing each micronutrient of meal nutrition
+ */
+const micronutrientSums = () => Object.fromEntries(
+  MICRONUTRIENT_KEYS.map((key) => [key, { $sum: `$nutrition.${key}` }])
+);
+
+/**
+ * Micronutrient amounts from an object (missing values are 0)
+ */
+const micronutrientTotals = (values = {}) => Object.fromEntries(
+  MICRONUTRIENT_KEYS.map((key) => [key, round(values?.[key] || 0, 2)])
+);
+
+/**
+ * Consumed vs target for each micronutrient
+ * @param {Object} consumed - { iron, calcium, ... }
+ * @param {Object} targets - daily targets (already scaled to the period)
+ * @returns {Object} { iron: { label, unit, consumed, target, progress, limit }, ... }
+ */
+const micronutrientReport = (consumed, targets) => Object.fromEntries(
+  MICRONUTRIENT_KEYS.map((key) => {
+    const { label, unit, limit = false } = MICRONUTRIENTS[key];
+    const target = targets[key] || 0;
+
+    return [key, {
+      label,
+      unit,
+      consumed: consumed[key] || 0,
+      target,
+      progress: target > 0 ? Math.round(((consumed[key] || 0) / target) * 100) : 0,
+      limit,
+    }];
+  })
+);
+
+module.exports = {
+  MICRONUTRIENTS,
+  MICRONUTRIENT_KEYS,
+  micronutrientTargets,
+  micronutrientSums,
+  micronutrientTotals,
+  micronutrientReport,
+};
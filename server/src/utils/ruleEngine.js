@@ -0,0 +1,312 @@
+/**
+ * Recommendation Rule Engine
+ * ==========================
+ * Evaluates recommendation rules written as data against the facts of a
+ * user's day.
+ *
+ * A rule is:
+ *   {
+ *     key: 'low-protein-evening',
+ *     category: 'protein', priority: 3,
+ *     title, message, action, icon, suggestions,
+ *     conditions: [{ fact: 'protein.percent', op: 'lt', value: 50 }, ...],
+ *     group: 'protein-status', order: 1,
+ *     enabled: true,
+ *   }
+ *
+ * - Every condition must hold for the rule to fire
+ * - Within a group only the first firing rule (lowest `order`) is kept,
+ *   for "if / else if" chains
+ * - `{{fact}}` placeholders in title, message and action are filled from
+ *   the facts (numbers rounded)
+ */
+
+const { ML_PER_GLASS, extraWaterMl, expectedByNowMl } = require('./hydration');
+
+/**
+ * Recommendation categories with priority levels
+ */
+const PRIORITY = {
+  HIGH: 3,
+  MEDIUM: 2,
+  LOW: 1,
+};
+
+const CATEGORY = {
+  CALORIE: 'calorie',
+  PROTEIN: 'protein',
+  CARBS: 'carbs',
+  FAT: 'fat',
+  HYDRATION: 'hydration',
+  MEAL_TIMING: 'meal_timing',
+  BALANCE: 'balance',
+  GOAL: 'goal',
+};
+
+/**
+ * Condition operators: (fact value, rule value) -> boolean
+ */
+const OPERATORS = {
+  eq: (actual, expected) => actual === expected,
+  ne: (actual, expected) => actual !== expected,
+  lt: (actual, expected) => actual < expected,
+  lte: (actual, expected) => actual <= expected,
+  gt: (actual, expected) => actual > expected,
+  gte: (actual, expected) => actual >= expected,
+  between: (actual, [min, max]) => actual >= min && actual <= max,
+  in: (actual, expected) => expected.includes(actual),
+  nin: (actual, expected) => !expected.includes(actual),
+};
+
+/**
+ * Whether a rule value has the shape its operator needs: two numbers for
+ * `between`, an array for `in` / `nin`, a single number, string or boolean
+ * for the comparisons
+ */
+const isValidConditionValue = (op, value) => {
+  if (op === 'between') {
+    return Array.isArray(value) && value.length === 2 && value.every((v) => typeof v === 'number');
+  }
+  if (op === 'in' || op === 'nin') {
+    return Array.isArray(value);
+  }
+  return ['number', 'string', 'boolean'].includes(typeof value);
+};
+
+const NUTRIENTS = ['calories', 'protein', 'carbs', 'fat', 'fiber'];
+
+const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+/**
+ * Facts rules can test, by path
+ */
+const FACTS = [
+  'goal',
+  'hour',
+  ...NUTRIENTS.flatMap((n) => ['consumed', 'target', 'percent', 'remaining', 'over'].map((f) => `${n}.${f}`)),
+  'macros.total',
+  'macros.proteinRatio',
+  'macros.carbsRatio',
+  'macros.fatRatio',
+  'water.consumedMl',
+  'water.baseTargetMl',
+  'water.targetMl',
+  'water.extraMl',
+  'water.hot',
+  'water.workoutMinutes',
+  'water.percent',
+  'water.remainingMl',
+  'water.expectedMl',
+  'water.pacePercent',
+  'water.behindMl',
+  'water.glassesTarget',
+  'week.meals',
+  'week.loggedDays',
+  ...MEAL_TYPES.map((type) => `week.${type}`),
+];
+
+const percentOf = (value, target) => (target > 0 ? (value / target) * 100 : 0);
+
+/**
+ * Facts for a user's day
+ * @param {Object} input
+ * @param {Object} input.targets - User.dailyTargets
+ * @param {string} input.goal - User.profile.goal
+ * @param {Array} input.summaries - DailySummary documents for the past week, today last
+ * @param {Object} input.water - today's WaterIntake record (default: today's summary water)
+ * @param {number} input.minutes - minutes into today (user's timezone)
+ * @returns {Object} facts (see FACTS)
+ */
+const buildFacts = ({ targets, goal, summaries, water, minutes }) => {
+  const today = summaries[summaries.length - 1];
+  const consumed = today.nutrition;
+
+  const facts = {
+    goal: goal || 'maintain',
+    hour: Math.floor(minutes / 60),
+  };
+
+  for (const nutrient of NUTRIENTS) {
+    const target = targets[nutrient] || 0;
+    facts[nutrient] = {
+      consumed: consumed[nutrient] || 0,
+      target,
+      percent: percentOf(consumed[nutrient] || 0, target),
+      remaining: Math.max(0, target - (consumed[nutrient] || 0)),
+      over: Math.max(0, (consumed[nutrient] || 0) - target),
+    };
+  }
+
+  const total = consumed.protein + consumed.carbs + consumed.fat;
+  facts.macros = {
+    total,
+    proteinRatio: percentOf(consumed.protein, total),
+    carbsRatio: percentOf(consumed.carbs, total),
+    fatRatio: percentOf(consumed.fat, total),
+  };
+
+  // Hydration: the day's intake against its target, adjusted for heat and
+  // exercise, and against the share of it due by now
+  const record = water || today.water || {};
+  const consumedMl = record.totalMl || 0;
+  const baseTargetMl = record.target || (targets.water || 0) * ML_PER_GLASS;
+  const extraMl = extraWaterMl(record.conditions);
+  const targetMl = baseTargetMl + extraMl;
+  const expectedMl = expectedByNowMl(targetMl, minutes);
+  facts.water = {
+    consumedMl,
+    baseTargetMl,
+    targetMl,
+    extraMl,
+    hot: Boolean(record.conditions?.hot),
+    workoutMinutes: record.conditions?.workoutMinutes || 0,
+    percent: percentOf(consumedMl, targetMl),
+    remainingMl: Math.max(0, targetMl - consumedMl),
+    expectedMl,
+    // On pace until anything is due
+    pacePercent: expectedMl > 0 ? percentOf(consumedMl, expectedMl) : 100,
+    behindMl: Math.max(0, expectedMl - consumedMl),
+    glassesTarget: Math.round(targetMl / ML_PER_GLASS),
+  };
+
+  facts.week = {
+    meals: summaries.reduce((sum, day) => sum + day.mealCount, 0),
+    loggedDays: summaries.filter((day) => day.mealCount > 0).length,
+  };
+  for (const type of MEAL_TYPES) {
+    facts.week[type] = summaries.reduce((sum, day) => sum + (day.mealTypes?.[type]?.count || 0), 0);
+  }
+
+  return facts;
+};
+
+/**
+ * Facts for a fixture user-day (rule test harness)
+ * @param {Object} fixture - { goal, targets, hour, today, history }
+ *   where today and history (the days before, oldest first) are
+ *   summary-like { nutrition, mealCount, mealTypes, water }; today's
+ *   water is WaterIntake-like { totalMl, target, conditions }
+ */
+const factsFromFixture = (fixture) => {
+  const day = (summary = {}) => ({
+    ...summary,
+    nutrition: { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, ...summary.nutrition },
+    mealCount: summary.mealCount || 0,
+  });
+
+  return buildFacts({
+    targets: fixture.targets || {},
+    goal: fixture.goal,
+    summaries: [...(fixture.history || []), fixture.today].map(day),
+    minutes: (fixture.hour ?? 12) * 60,
+  });
+};
+
+/**
+ * Value of a fact by path ("calories.percent")
+ */
+const factValue = (facts, path) => path.split('.').reduce((value, key) => value?.[key], facts);
+
+/**
+ * Check one condition against the facts (unknown facts and malformed
+ * conditions never match)
+ */
+const checkCondition = (facts, condition) => {
+  const { fact, op, value } = condition;
+  const operator = OPERATORS[op];
+  if (!operator) return false;
+
+  if (typeof fact !== 'string' || !isValidConditionValue(op, value)) {
+    console.warn('Skipping malformed rule condition:', JSON.stringify(condition));
+    return false;
+  }
+
+  const actual = factValue(facts, fact);
+  if (actual === undefined) return false;
+  return operator(actual, value);
+};
+
+/**
+ * Fill `{{fact}}` placeholders from the facts
+ */
+const renderTemplate = (template, facts) => {
+  if (!template) return template ?? null;
+
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, path) => {
+    const value = factValue(facts, path);
+    if (value === undefined) return match;
+    return typeof value === 'number' ? String(Math.round(value)) : String(value);
+  });
+};
+
+/**
+ * Evaluate rules against facts
+ * @param {Array} rules - rule definitions (disabled rules are skipped)
+ * @param {Object} facts - from buildFacts
+ * @returns {Array} recommendations, highest priority first
+ */
+const evaluateRules = (rules, facts) => {
+  const firing = rules
+    .filter((rule) => rule.enabled !== false)
+    .filter((rule) => (rule.conditions || []).every((condition) => checkCondition(facts, condition)))
+    .sort((a, b) => (a.order || 0) - (b.order || 0));
+
+  const claimedGroups = new Set();
+  const recommendations = [];
+
+  for (const rule of firing) {
+    if (rule.group) {
+      if (claimedGroups.has(rule.group)) continue;
+      claimedGroups.add(rule.group);
+    }
+
+    recommendations.push({
+      rule: rule.key,
+      category: rule.category,
+      priority: rule.priority,
+      title: renderTemplate(rule.title, facts),
+      message: renderTemplate(rule.message, facts),
+      action: renderTemplate(rule.action, facts),
+      icon: rule.icon,
+      ...(rule.suggestions?.length > 0 && { suggestions: rule.suggestions }),
+    });
+  }
+
+  // Sort by priority (highest first)
+  return recommendations.sort((a, b) => b.priority - a.priority);
+};
+
+/**
+ * Run rules over fixture user-days
+ * @param {Array} rules - rule definitions
+ * @param {Array} fixtures - user-days (see factsFromFixture), each with an
+ *   optional `expect`: the rule keys that should fire, in order
+ * @returns {Array} [{ name, fired, expected, passed, recommendations }]
+ */
+const runFixtures = (rules, fixtures) => fixtures.map((fixture, index) => {
+  const recommendations = evaluateRules(rules, factsFromFixture(fixture));
+  const fired = recommendations.map((r) => r.rule);
+  const expected = fixture.expect || null;
+
+  return {
+    name: fixture.name || `Day ${index + 1}`,
+    fired,
+    expected,
+    passed: expected ? JSON.stringify(fired) === JSON.stringify(expected) : null,
+    recommendations,
+  };
+});
+
+module.exports = {
+  PRIORITY,
+  CATEGORY,
+  OPERATORS,
+  FACTS,
+  isValidConditionValue,
+  buildFacts,
+  factsFromFixture,
+  checkCondition,
+  renderTemplate,
+  evaluateRules,
+  runFixtures,
+};
@@ -0,0 +1,225 @@
+/**
+ * Serving Units
+ * =============
+ * Converts food quantities between units and scales nutrition to match.
+ *
+ * Units come in three kinds:
+ * - mass (g, kg, oz...) - convert by fixed factors
+ * - volume (ml, cup, tbsp...) - convert by fixed factors, and to grams
+ *   through the food's density
+ * - count (piece, slice, bowl, medium...) - convert through the food's
+ *   own gram weight for that unit
+ *
+ * Food-specific data used (all optional):
+ * - servingSize / servingUnit / servingWeight - the labelled serving
+ * - density - grams per ml (derived from a volume serving's weight if missing)
+ * - unitWeights - grams per count unit, e.g. { piece: 40, slice: 25 }
+ */
+
+const UNITS = {
+  g: { kind: 'mass', factor: 1 },
+  kg: { kind: 'mass', factor: 1000 },
+  oz: { kind: 'mass', factor: 28.35 },
+  lb: { kind: 'mass', factor: 453.6 },
+  ml: { kind: 'volume', factor: 1 },
+  l: { kind: 'volume', factor: 1000 },
+  tsp: { kind: 'volume', factor: 5 },
+  tbsp: { kind: 'volume', factor: 15 },
+  cup: { kind: 'volume', factor: 240 },
+  glass: { kind: 'volume', factor: 250 },
+  piece: { kind: 'count' },
+  slice: { kind: 'count' },
+  bowl: { kind: 'count' },
+  small: { kind: 'count' },
+  medium: { kind: 'count' },
+  large: { kind: 'count' },
+  serving: { kind: 'count' },
+};
+
+// Units a serving can be stored in
+const SERVING_UNITS = Object.keys(UNITS);
+
+const UNIT_ALIASES = {
+  gram: 'g', grams: 'g', gm: 'g', gms: 'g', grm: 'g',
+  kilogram: 'kg', kilograms: 'kg', kgs: 'kg',
+  ounce: 'oz', ounces: 'oz', onz: 'oz',
+  pound: 'lb', pounds: 'lb', lbs: 'lb',
+  milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml', mlt: 'ml',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  teaspoon: 'tsp', teaspoons: 'tsp',
+  tablespoon: 'tbsp', tablespoons: 'tbsp',
+  cups: 'cup',
+  glasses: 'glass',
+  pieces: 'piece', pcs: 'piece', pc: 'piece', each: 'piece', whole: 'piece',
+  slices: 'slice',
+  bowls: 'bowl', katori: 'bowl',
+  servings: 'serving', portion: 'serving', portions: 'serving', plate: 'serving',
+};
+
+const { MICRONUTRIENT_KEYS } = require('./nutrients');
+
+const NUTRIENTS = ['calories', 'protein', 'carbs', 'fat', 'fiber', 'sugar', 'sodium'];
+
+// Density used for volumes when a food gives none (water)
+const DEFAULT_DENSITY = 1;
+
+const round = (value, decimals = 1) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Canonical unit for a label ("Tablespoons" → "tbsp"), or null if unknown
+ */
+const parseUnit = (unit) => {
+  if (!unit) return null;
+  const key = String(unit).toLowerCase().trim();
+  if (UNITS[key]) return key;
+  return UNIT_ALIASES[key] || null;
+};
+
+/**
+ * Grams per ml for a food, and whether it was guessed
+ */
+const densityOf = (food) => {
+  if (food.density) return { density: food.density, approximate: false };
+
+  const unit = UNITS[parseUnit(food.servingUnit)];
+  if (unit?.kind === 'volume' && food.servingWeight && food.servingSize) {
+    return {
+      density: food.servingWeight / (food.servingSize * unit.factor),
+      approximate: false,
+    };
+  }
+
+  return { density: DEFAULT_DENSITY, approximate: true };
+};
+
+/**
+ * Grams in one of `unit` for a food, or null if unknown
+ * @returns {Object|null} { grams, approximate }
+ */
+const gramsPerUnit = (food, unit) => {
+  const key = parseUnit(unit) || unit;
+  const info = UNITS[key];
+
+  if (info?.kind === 'mass') return { grams: info.factor, approximate: false };
+
+  if (info?.kind === 'volume') {
+    const { density, approximate } = densityOf(food);
+    return { grams: info.factor * density, approximate };
+  }
+
+  // Count and custom units need a food-specific weight
+  if (food.unitWeights?.[key]) return { grams: food.unitWeights[key], approximate: false };
+
+  if (food.servingWeight) {
+    if (key === parseUnit(food.servingUnit) && food.servingSize) {
+      return { grams: food.servingWeight / food.servingSize, approximate: false };
+    }
+    if (key === 'serving') return { grams: food.servingWeight, approximate: false };
+  }
+
+  return null;
+};
+
+/**
+ * How many labelled servings `quantity unit` is, or null if the units
+ * cannot be converted for this food
+ * @returns {Object|null} { servings, grams, approximate }
+ */
+const toServings = (food, quantity, unit) => {
+  const servingSize = food.servingSize || 1;
+  const from = parseUnit(unit) || unit;
+  const to = parseUnit(food.servingUnit) || food.servingUnit || 'serving';
+  const servingGrams = gramsPerUnit(food, to);
+  const grams = (info) => (info ? round(quantity * info.grams) : null);
+
+  // Same unit, or "serving" of the labelled serving - no weights needed
+  if (from === to) {
+    return { servings: quantity / servingSize, grams: grams(servingGrams), approximate: false };
+  }
+  if (from === 'serving') {
+    return {
+      servings: quantity,
+      grams: servingGrams ? round(quantity * servingSize * servingGrams.grams) : null,
+      approximate: false,
+    };
+  }
+
+  // Same kind of measure (cup → tbsp, kg → g) - fixed factors
+  const fromInfo = UNITS[from];
+  const toInfo = UNITS[to];
+  if (fromInfo && toInfo && fromInfo.kind === toInfo.kind && fromInfo.kind !== 'count') {
+    return {
+      servings: (quantity * fromInfo.factor) / (servingSize * toInfo.factor),
+      grams: grams(gramsPerUnit(food, from)),
+      approximate: false,
+    };
+  }
+
+  // Anything else goes through grams
+  const unitGrams = gramsPerUnit(food, from);
+  if (!unitGrams || !servingGrams) return null;
+
+  return {
+    servings: (quantity * unitGrams.grams) / (servingSize * servingGrams.grams),
+    grams: grams(unitGrams),
+    approximate: unitGrams.approximate || servingGrams.approximate,
+  };
+};
+
+/**
+ * Scale a food's nutrition to `quantity` of `unit`
+ * @param {Object} food - food-database item (nutrition per labelled serving)
+ * @returns {Object|null} { quantity, unit, grams, approximate, nutrition },
+ *   or null if the unit is not convertible for this food
+ */
+const scaleNutrition = (food, quantity, unit) => {
+  const result = toServings(food, quantity, unit);
+  if (!result) return null;
+
+  const nutrition = {};
+  for (const nutrient of NUTRIENTS) {
+    if (food[nutrient] !== undefined && food[nutrient] !== null) {
+      nutrition[nutrient] = round(food[nutrient] * result.servings);
+    }
+  }
+  // Micronutrients are small amounts (B12 in mcg) - keep more precision
+  for (const nutrient of MICRONUTRIENT_KEYS) {
+    if (food[nutrient] !== undefined && food[nutrient] !== null) {
+      nutrition[nutrient] = round(food[nutrient] * result.servings, 2);
+    }
+  }
+  if (nutrition.calories !== undefined) nutrition.calories = Math.round(nutrition.calories);
+
+  return {
+    quantity,
+    unit: parseUnit(unit) || unit,
+    grams: result.grams,
+    approximate: result.approximate,
+    nutrition,
+  };
+};
+
+/**
+ * Units a food can be measured in without guessing, labelled serving unit first
+ */
+const availableUnits = (food) => {
+  const servingUnit = parseUnit(food.servingUnit) || food.servingUnit || 'serving';
+  const units = [servingUnit, ...Object.keys(food.unitWeights || {}), ...SERVING_UNITS];
+
+  return [...new Set(units)].filter((unit) => {
+    const result = toServings(food, 1, unit);
+    return result !== null && !result.approximate;
+  });
+};
+
+module.exports = {
+  UNITS,
+  SERVING_UNITS,
+  parseUnit,
+  gramsPerUnit,
+  scaleNutrition,
+  availableUnits,
+};
@@ -0,0 +1,173 @@
+/**
+ * Timezones
+ * =========
+ * Day boundaries in a user's own timezone (IANA name, e.g. "Asia/Kolkata").
+ *
+ * Days are handled as "YYYY-MM-DD" keys in that zone. A key is turned into
+ * the instants where the day starts and ends for database queries, so a
+ * dinner logged at 11pm in Mumbai lands on Mumbai's date whatever the
+ * server's own timezone is.
+ */
+
+const DEFAULT_TIMEZONE = 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Intl formatters are slow to build; keep one per zone
+const formatters = new Map();
+
+const formatterFor = (timezone) => {
+  if (!formatters.has(timezone)) {
+    formatters.set(timezone, new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }));
+  }
+  return formatters.get(timezone);
+};
+
+/**
+ * Whether `timezone` is an IANA zone name this runtime knows
+ */
+const isValidTimezone = (timezone) => {
+  if (!timezone || typeof timezone !== 'string') return false;
+  try {
+    formatterFor(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * A user's timezone, falling back to the default
+ */
+const timezoneOf = (user) => (isValidTimezone(user?.timezone) ? user.timezone : DEFAULT_TIMEZONE);
+
+/**
+ * Wall-clock parts of an instant in a timezone
+ */
+const partsIn = (date, timezone) => {
+  const parts = {};
+  for (const { type, value } of formatterFor(timezone).formatToParts(date)) {
+    if (type !== 'literal') parts[type] = Number(value);
+  }
+  return parts;
+};
+
+/**
+ * Minutes the timezone is ahead of UTC at an instant (IST: 330)
+ */
+const offsetMinutes = (date, timezone) => {
+  const p = partsIn(date, timezone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+/**
+ * "YYYY-MM-DD" of an instant in a timezone
+ */
+const dateKey = (date, timezone = DEFAULT_TIMEZONE) => {
+  const p = partsIn(new Date(date), timezone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+};
+
+/**
+ * Today's date key in a timezone
+ */
+const todayKey = (timezone = DEFAULT_TIMEZONE) => dateKey(new Date(), timezone);
+
+/**
+ * Date key for a request value: "YYYY-MM-DD" is taken as is,
+ * anything else is parsed as an instant. Missing values mean today.
+ */
+const toDateKey = (value, timezone = DEFAULT_TIMEZONE) => {
+  if (typeof value === 'string' && DATE_KEY.test(value)) return value;
+  return value ? dateKey(new Date(value), timezone) : todayKey(timezone);
+};
+
+/**
+ * Shift a date key by whole days
+ */
+const addDays = (key, days) => new Date(Date.parse(`${key}T00:00:00Z`) + days * DAY_MS)
+  .toISOString()
+  .split('T')[0];
+
+/**
+ * Day of week of a date key (0 = Sunday)
+ */
+const dayOfWeek = (key) => new Date(`${key}T00:00:00Z`).getUTCDay();
+
+/**
+ * Instant of a wall-clock time on a date key, in a timezone
+ */
+const zonedTime = (key, timezone = DEFAULT_TIMEZONE, hours = 0, minutes = 0) => {
+  const wallClock = Date.parse(`${key}T00:00:00Z`) + (hours * 60 + minutes) * 60000;
+  // The offset can differ either side of a DST change; re-check once
+  let instant = wallClock - offsetMinutes(new Date(wallClock), timezone) * 60000;
+  instant = wallClock - offsetMinutes(new Date(instant), timezone) * 60000;
+  return new Date(instant);
+};
+
+/**
+ * First instant of a day in a timezone
+ */
+const startOfDay = (key, timezone = DEFAULT_TIMEZONE) => zonedTime(key, timezone);
+
+/**
+ * Last instant (ms) of a day in a timezone
+ */
+const endOfDay = (key, timezone = DEFAULT_TIMEZONE) => new Date(startOfDay(addDays(key, 1), timezone).getTime() - 1);
+
+/**
+ * { start, end } instants of a day in a timezone
+ */
+const dayRange = (key, timezone = DEFAULT_TIMEZONE) => ({
+  start: startOfDay(key, timezone),
+  end: endOfDay(key, timezone),
+});
+
+/**
+ * Date keys from `startKey` to `endKey`, inclusive
+ */
+const eachDay = (startKey, endKey) => {
+  const keys = [];
+  for (let key = startKey; key <= endKey; key = addDays(key, 1)) {
+    keys.push(key);
+  }
+  return keys;
+};
+
+/**
+ * Minutes since local midnight of an instant in a timezone
+ */
+const minutesIntoDay = (date, timezone = DEFAULT_TIMEZONE) => {
+  const p = partsIn(new Date(date), timezone);
+  return p.hour * 60 + p.minute;
+};
+
+module.exports = {
+  DEFAULT_TIMEZONE,
+  isValidTimezone,
+  timezoneOf,
+  offsetMinutes,
+  dateKey,
+  todayKey,
+  toDateKey,
+  addDays,
+  dayOfWeek,
+  zonedTime,
+  startOfDay,
+  endOfDay,
+  dayRange,
+  eachDay,
+  minutesIntoDay,
+};
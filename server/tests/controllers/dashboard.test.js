@@ -0,0 +1,273 @@
+/**
+ * Dashboard Controller Tests
+ * ===========================
+ */
+
+const request = require('supertest');
+const express = require('express');
+const User = require('../../src/models/User');
+const Meal = require('../../src/models/Meal');
+const TargetHistory = require('../../src/models/TargetHistory');
+const dashboardRoutes = require('../../src/routes/dashboard.routes');
+const { generateAccessToken } = require('../../src/middleware/auth');
+const { todayKey, addDays, zonedTime } = require('../../src/utils/timezone');
+
+// Create test app
+const app = express();
+app.use(express.json());
+app.use('/api/dashboard', dashboardRoutes);
+
+// Error handler
+app.use((err, req, res, next) => {
+  res.status(err.statusCode || 500).json({
+    success: false,
+    message: err.message,
+  });
+});
+
+describe('Dashboard Controller', () => {
+  let authToken;
+  let user;
+
+  beforeEach(async () => {
+    user = await User.create({
+      name: 'Progress User',
+      email: 'progress@test.com',
+      password: 'password123',
+      profile: { weight: 70 },
+      dailyTargets: { calories: 2000 },
+    });
+
+    authToken = generateAccessToken(user._id);
+  });
+
+  describe('GET /api/dashboard/progress', () => {
+    it('should return all progress sections', async () => {
+      const today = new Date();
+      today.setHours(12, 0, 0, 0);
+
+      const yesterday = new Date(today);
+      yesterday.setDate(yesterday.getDate() - 1);
+
+      await Meal.create([
+        {
+          user: user._id,
+          name: 'Dal Rice',
+          mealType: 'lunch',
+          nutrition: { calories: 1900, protein: 60, carbs: 250, fat: 50 },
+          consumedAt: today,
+        },
+        {
+          user: user._id,
+          name: 'Paneer Roti',
+          mealType: 'dinner',
+          nutrition: { calories: 1000, protein: 40, carbs: 100, fat: 40 },
+          consumedAt: yesterday,
+        },
+      ]);
+
+      const res = await request(app)
+        .get('/api/dashboard/progress?period=7d')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.success).toBe(true);
+
+      const { weight, calories, macros, streaks } = res.body.data;
+      expect(weight.current).toBe(70);
+      expect(calories.trend).toHaveLength(7);
+      expect(calories.target).toBe(2000);
+      expect(calories.average).toBe(1450);
+      expect(macros.averageProtein).toBe(50);
+      expect(macros.distribution).toHaveLength(3);
+      expect(streaks.current).toBe(2);
+      expect(streaks.longest).toBe(2);
+      expect(streaks.goalsReached).toBe(1);
+    });
+
+    it("should judge past days against that day's targets", async () => {
+      const today = todayKey();
+
+      // 1200 kcal was the target yesterday; today's is 2000
+      await TargetHistory.record(user._id, { calories: 1200 }, addDays(today, -1));
+      await Meal.create([
+        {
+          user: user._id,
+          name: 'Khichdi',
+          mealType: 'dinner',
+          nutrition: { calories: 1250 },
+          consumedAt: zonedTime(addDays(today, -1), 'UTC', 19),
+        },
+        {
+          user: user._id,
+          name: 'Thali',
+          mealType: 'lunch',
+          nutrition: { calories: 1950 },
+          consumedAt: zonedTime(today, 'UTC', 0, 5),
+        },
+      ]);
+
+      const res = await request(app)
+        .get('/api/dashboard/progress?period=7d')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      const { calories, streaks } = res.body.data;
+      expect(calories.trend.slice(-2).map((d) => d.target)).toEqual([1200, 2000]);
+      expect(streaks.goalsReached).toBe(2);
+    });
+
+    it('should return empty stats when nothing is logged', async () => {
+      const res = await request(app)
+        .get('/api/dashboard/progress')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.period).toBe('30d');
+      expect(res.body.data.calories.average).toBe(0);
+      expect(res.body.data.streaks.current).toBe(0);
+    });
+
+    it('should reject an invalid period', async () => {
+      const res = await request(app)
+        .get('/api/dashboard/progress?period=1y')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(res.status).toBe(400);
+      expect(res.body.success).toBe(false);
+    });
+
+    it('should require authentication', async () => {
+      const res = await request(app).get('/api/dashboard/progress');
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('Micronutrients', () => {
+    beforeEach(async () => {
+      const today = new Date();
+      today.setHours(12, 0, 0, 0);
+
+      await Meal.create({
+        user: user._id,
+        name: 'Palak Dal',
+        mealType: 'lunch',
+        nutrition: { calories: 300, iron: 4.5, calcium: 200, saturatedFat: 2 },
+        consumedAt: today,
+      });
+    });
+
+    it('should report micronutrients against targets today', async () => {
+      const res = await request(app)
+        .get('/api/dashboard/today')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.micronutrients.iron).toMatchObject({
+        consumed: 4.5,
+        target: 18,
+        progress: 25,
+        unit: 'mg',
+      });
+      expect(res.body.data.micronutrients.saturatedFat.limit).toBe(true);
+    });
+
+    it('should scale micronutrient targets to the breakdown period', async () => {
+      const res = await request(app)
+        .get('/api/dashboard/macros?period=week')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.micronutrients.calcium.consumed).toBe(200);
+      expect(res.body.data.micronutrients.calcium.target).toBe(7000);
+    });
+  });
+
+  describe('Timezones', () => {
+    const timezone = 'Asia/Kolkata';
+
+    beforeEach(async () => {
+      user.timezone = timezone;
+      await user.save();
+
+      // 11:30pm yesterday and 12:30am today in India - both the previous UTC day
+      const today = todayKey(timezone);
+      await Meal.create([
+        {
+          user: user._id,
+          name: 'Late Dinner',
+          mealType: 'dinner',
+          nutrition: { calories: 700 },
+          consumedAt: zonedTime(addDays(today, -1), timezone, 23, 30),
+        },
+        {
+          user: user._id,
+          name: 'Midnight Snack',
+          mealType: 'snack',
+          nutrition: { calories: 200 },
+          consumedAt: zonedTime(today, timezone, 0, 30),
+        },
+      ]);
+    });
+
+    it("should count meals towards the user's own day", async () => {
+      const res = await request(app)
+        .get('/api/dashboard/today')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.date).toBe(todayKey(timezone));
+      expect(res.body.data.consumed.calories).toBe(200);
+    });
+
+    it('should bucket trends by local date', async () => {
+      const res = await request(app)
+        .get('/api/dashboard/trends?period=7d')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      const { trends } = res.body.data;
+      expect(trends[trends.length - 1]).toMatchObject({ date: todayKey(timezone), calories: 200 });
+      expect(trends[trends.length - 2].calories).toBe(700);
+    });
+  });
+
+  describe('POST /api/dashboard/summaries/rebuild', () => {
+    it('should recompute stored summaries from meals', async () => {
+      const today = todayKey();
+      await request(app)
+        .get('/api/dashboard/today')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      // Written straight to the collection, so the stored summary is stale
+      await Meal.create({
+        user: user._id,
+        name: 'Poha',
+        mealType: 'breakfast',
+        nutrition: { calories: 250 },
+        consumedAt: zonedTime(today, 'UTC', 8),
+      });
+
+      const res = await request(app)
+        .post('/api/dashboard/summaries/rebuild')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ startDate: addDays(today, -1), endDate: today });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.days).toBe(2);
+
+      const todayRes = await request(app)
+        .get('/api/dashboard/today')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(todayRes.body.data.consumed.calories).toBe(250);
+    });
+
+    it('should reject an end date before the start date', async () => {
+      const res = await request(app)
+        .post('/api/dashboard/summaries/rebuild')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ startDate: '2025-02-01', endDate: '2025-01-01' });
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Food Controller Tests
+ * =====================
+ */
+
+const request = require('supertest');
+const express = require('express');
+const User = require('../../src/models/User');
+const Meal = require('../../src/models/Meal');
+const foodRoutes = require('../../src/routes/food.routes');
+const { generateAccessToken } = require('../../src/middleware/auth');
+
+// Create test app
+const app = express();
+app.use(express.json());
+app.use('/api/foods', foodRoutes);
+
+// Error handler
+app.use((err, req, res, next) => {
+  res.status(err.statusCode || 500).json({
+    success: false,
+    message: err.message,
+  });
+});
+
+describe('Food Controller', () => {
+  let ownerId;
+  let ownerToken;
+  let otherToken;
+
+  beforeEach(async () => {
+    const owner = await User.create({
+      name: 'Food Owner',
+      email: 'owner@test.com',
+      password: 'password123',
+    });
+    const other = await User.create({
+      name: 'Other User',
+      email: 'other@test.com',
+      password: 'password123',
+    });
+
+    ownerId = owner._id;
+    ownerToken = generateAccessToken(owner._id);
+    otherToken = generateAccessToken(other._id);
+  });
+
+  const createFood = (data) => request(app)
+    .post('/api/foods/custom')
+    .set('Authorization', `Bearer ${ownerToken}`)
+    .send(data);
+
+  const searchAs = (token, q) => request(app)
+    .get(`/api/foods/search?q=${q}&includeUSDA=false`)
+    .set('Authorization', `Bearer ${token}`);
+
+  describe('POST /api/foods/custom', () => {
+    it('should create a custom food in the food-item shape', async () => {
+      const res = await createFood({
+        name: 'Besan Chilla',
+        servingSize: 1,
+        servingUnit: 'piece',
+        calories: 120,
+        protein: 6,
+      });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.food.id).toMatch(/^custom_/);
+      expect(res.body.data.food.source).toBe('custom');
+      expect(res.body.data.food.visibility).toBe('private');
+    });
+
+    it('should require calories', async () => {
+      const res = await createFood({ name: 'Mystery snack' });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/foods/search', () => {
+    it('should only show private foods to their owner', async () => {
+      await createFood({ name: 'Besan Chilla', calories: 120 });
+
+      const own = await searchAs(ownerToken, 'chilla');
+      expect(own.body.data.foods.map((f) => f.source)).toContain('custom');
+
+      const other = await searchAs(otherToken, 'chilla');
+      expect(other.body.data.foods).toHaveLength(0);
+    });
+
+    it('should show public foods to everyone', async () => {
+      await createFood({ name: 'Sattu Drink', calories: 150, visibility: 'public' });
+
+      const res = await searchAs(otherToken, 'sattu');
+      expect(res.body.data.foods[0].name).toBe('Sattu Drink');
+    });
+  });
+
+  describe('GET /api/foods/:id', () => {
+    it('should resolve custom_ ids', async () => {
+      const created = await createFood({ name: 'Besan Chilla', calories: 120 });
+
+      const res = await request(app)
+        .get(`/api/foods/${created.body.data.food.id}`)
+        .set('Authorization', `Bearer ${ownerToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.food.calories).toBe(120);
+
+      const hidden = await request(app)
+        .get(`/api/foods/${created.body.data.food.id}`)
+        .set('Authorization', `Bearer ${otherToken}`);
+
+      expect(hidden.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/foods/recent and /frequent', () => {
+    const daysAgo = (days) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const logMeal = (name, days, foodId) => Meal.create({
+      user: ownerId,
+      name,
+      mealType: 'breakfast',
+      nutrition: { calories: 100 },
+      consumedAt: daysAgo(days),
+      items: foodId
+        ? [{ foodId, name, quantity: 1, unit: 'piece', nutrition: { calories: 100 } }]
+        : [],
+    });
+
+    const getAs = (token, path) => request(app)
+      .get(`/api/foods/${path}`)
+      .set('Authorization', `Bearer ${token}`);
+
+    it('should list distinct foods, latest first', async () => {
+      await logMeal('Poha', 3);
+      await logMeal('Roti (Chapati)', 2, 'local_1');
+      await logMeal('Roti (Chapati)', 1, 'local_1');
+      await logMeal('poha', 0);
+
+      const res = await getAs(ownerToken, 'recent');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.foods.map((f) => f.name)).toEqual(['poha', 'Roti (Chapati)']);
+      expect(res.body.data.foods[1].id).toBe('local_1');
+      expect(res.body.data.foods[1].source).toBe('local');
+    });
+
+    it('should rank frequent foods with older logs decayed', async () => {
+      // Four old logs are outweighed by two logs this week
+      for (const days of [60, 61, 62, 63]) {
+        await logMeal('Upma', days);
+      }
+      await logMeal('Idli', 1, 'local_8');
+      await logMeal('Idli', 2, 'local_8');
+
+      const res = await getAs(ownerToken, 'frequent');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.foods[0].name).toBe('Idli');
+      expect(res.body.data.foods[1].count).toBe(4);
+      expect(res.body.data.foods[0].frequency).toBeGreaterThan(res.body.data.foods[1].frequency);
+    });
+
+    it('should count each food in a meal with several items', async () => {
+      await Meal.create({
+        user: ownerId,
+        name: 'Thali',
+        mealType: 'lunch',
+        consumedAt: daysAgo(0),
+        items: [
+          { foodId: 'local_1', name: 'Roti (Chapati)', quantity: 2, unit: 'piece', nutrition: { calories: 208 } },
+          { foodId: 'local_2', name: 'Dal (Lentil Curry)', quantity: 1, unit: 'bowl', nutrition: { calories: 150 } },
+        ],
+      });
+
+      const res = await getAs(ownerToken, 'recent');
+
+      expect(res.body.data.foods.map((f) => f.id)).toEqual(['local_1', 'local_2']);
+      expect(res.body.data.foods[0].servingSize).toBe(2);
+      expect(res.body.data.foods[0].calories).toBe(208);
+    });
+
+    it('should only include the requesting user\'s meals', async () => {
+      await logMeal('Poha', 1);
+
+      const res = await getAs(otherToken, 'frequent');
+
+      expect(res.body.data.foods).toHaveLength(0);
+    });
+
+    it('should validate limit', async () => {
+      const res = await getAs(ownerToken, 'recent?limit=0');
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
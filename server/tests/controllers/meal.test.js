@@ -0,0 +1,176 @@
+/**
+ * Meal Controller Tests
+ * =====================
+ */
+
+const request = require('supertest');
+const express = require('express');
+const User = require('../../src/models/User');
+const Meal = require('../../src/models/Meal');
+const mealRoutes = require('../../src/routes/meal.routes');
+const foodRoutes = require('../../src/routes/food.routes');
+const { generateAccessToken } = require('../../src/middleware/auth');
+
+// Create test app
+const app = express();
+app.use(express.json());
+app.use('/api/meals', mealRoutes);
+app.use('/api/foods', foodRoutes);
+
+// Error handler
+app.use((err, req, res, next) => {
+  res.status(err.statusCode || 500).json({
+    success: false,
+    message: err.message,
+  });
+});
+
+describe('Meal Controller', () => {
+  let authToken;
+
+  beforeEach(async () => {
+    const user = await User.create({
+      name: 'Meal User',
+      email: 'meal@test.com',
+      password: 'password123',
+    });
+
+    authToken = generateAccessToken(user._id);
+  });
+
+  const send = (method, path, body) => request(app)[method](`/api/${path}`)
+    .set('Authorization', `Bearer ${authToken}`)
+    .send(body);
+
+  // Roti: 1 piece (40 g) = 104 cal
+  const logRoti = (quantity, extra = {}) => send('post', 'meals', {
+    name: 'Roti',
+    mealType: 'dinner',
+    items: [{ foodId: 'local_1', quantity }],
+    ...extra,
+  });
+
+  describe('POST /api/meals', () => {
+    it('should derive nutrition from items', async () => {
+      const res = await logRoti(2, { nutrition: { calories: 999 } });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.meal.nutrition.calories).toBe(208);
+      expect(res.body.data.meal.items[0].unit).toBe('piece');
+      expect(res.body.data.meal.items[0].source).toBe('local');
+    });
+
+    it('should sum food and manual items', async () => {
+      const res = await send('post', 'meals', {
+        name: 'Roti with pickle',
+        mealType: 'lunch',
+        items: [
+          { foodId: 'local_1', quantity: 80, unit: 'g' },
+          { name: 'Mango pickle', quantity: 1, unit: 'tbsp', nutrition: { calories: 30, fat: 3 } },
+        ],
+      });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.meal.nutrition.calories).toBe(238);
+      expect(res.body.data.meal.nutrition.fat).toBe(8);
+    });
+
+    it('should require nutrition for manual items', async () => {
+      const res = await send('post', 'meals', {
+        name: 'Pickle',
+        mealType: 'lunch',
+        items: [{ name: 'Mango pickle', quantity: 1 }],
+      });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should still require calories for meals without items', async () => {
+      const res = await send('post', 'meals', { name: 'Poha', mealType: 'breakfast' });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/meals', () => {
+    it('should reject date filters that are not dates', async () => {
+      const res = await send('get', 'meals?startDate=yesterday');
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('PUT /api/meals/:id', () => {
+    it('should rescale an item from its food', async () => {
+      const created = await logRoti(2);
+
+      const res = await send('put', `meals/${created.body.data.meal._id}`, {
+        items: [{ foodId: 'local_1', quantity: 3 }],
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.meal.nutrition.calories).toBe(312);
+    });
+
+    it('should scale items with the serving size', async () => {
+      const created = await logRoti(2);
+
+      const res = await send('put', `meals/${created.body.data.meal._id}`, {
+        servingSize: { amount: 2, unit: 'serving' },
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.meal.items[0].quantity).toBe(4);
+      expect(res.body.data.meal.nutrition.calories).toBe(416);
+    });
+  });
+
+  describe('PUT /api/foods/custom/:id', () => {
+    const createBar = async () => {
+      const res = await send('post', 'foods/custom', {
+        name: 'Protein Bar',
+        servingUnit: 'piece',
+        calories: 200,
+        protein: 20,
+      });
+      return res.body.data.food.id;
+    };
+
+    it('should update logged meals when asked to', async () => {
+      const foodId = await createBar();
+      const meal = await send('post', 'meals', {
+        name: 'Protein Bar',
+        mealType: 'snack',
+        items: [{ foodId, quantity: 2 }],
+      });
+
+      const res = await send('put', `foods/${foodId.replace('_', '/')}`, {
+        calories: 180,
+        propagateToMeals: true,
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.mealsUpdated).toBe(1);
+
+      const updated = await Meal.findById(meal.body.data.meal._id);
+      expect(updated.nutrition.calories).toBe(360);
+      expect(updated.nutrition.protein).toBe(40);
+    });
+
+    it('should leave logged meals alone by default', async () => {
+      const foodId = await createBar();
+      const meal = await send('post', 'meals', {
+        name: 'Protein Bar',
+        mealType: 'snack',
+        items: [{ foodId, quantity: 1 }],
+      });
+
+      const res = await send('put', `foods/${foodId.replace('_', '/')}`, { calories: 180 });
+
+      expect(res.body.data.mealsUpdated).toBe(0);
+
+      const unchanged = await Meal.findById(meal.body.data.meal._id);
+      expect(unchanged.nutrition.calories).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * Meal Plan Controller Tests
+ * ===========================
+ */
+
+const request = require('supertest');
+const express = require('express');
+const User = require('../../src/models/User');
+const MealPlan = require('../../src/models/MealPlan');
+const Meal = require('../../src/models/Meal');
+const mealPlanRoutes = require('../../src/routes/mealPlan.routes');
+const { generateAccessToken } = require('../../src/middleware/auth');
+
+// Create test app
+const app = express();
+app.use(express.json());
+app.use('/api/meal-plans', mealPlanRoutes);
+
+// Error handler
+app.use((err, req, res, next) => {
+  res.status(err.statusCode || 500).json({
+    success: false,
+    message: err.message,
+  });
+});
+
+describe('Meal Plan Controller', () => {
+  let authToken;
+
+  beforeEach(async () => {
+    const user = await User.create({
+      name: 'Planner User',
+      email: 'planner@test.com',
+      password: 'password123',
+    });
+
+    authToken = generateAccessToken(user._id);
+  });
+
+  const addMeal = (data) => request(app)
+    .post('/api/meal-plans')
+    .set('Authorization', `Bearer ${authToken}`)
+    .send(data);
+
+  describe('GET /api/meal-plans/week', () => {
+    it('should create the week plan on demand', async () => {
+      const res = await request(app)
+        .get('/api/meal-plans/week?weekStart=2024-06-03')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.weekStart).toBe('2024-06-03');
+      expect(res.body.data.days).toHaveLength(7);
+      expect(res.body.data.days[0].date).toBe('2024-06-03');
+      expect(res.body.data.days[6].date).toBe('2024-06-09');
+
+      // Second call reuses the same plan
+      await request(app)
+        .get('/api/meal-plans/week?weekStart=2024-06-03')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(await MealPlan.countDocuments()).toBe(1);
+    });
+
+    it("should date the week in the user's timezone", async () => {
+      await User.updateOne({}, { timezone: 'Asia/Kolkata' });
+
+      const res = await request(app)
+        .get('/api/meal-plans/week?weekStart=2024-06-03')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(res.body.data.weekStart).toBe('2024-06-03');
+      expect(res.body.data.days[0].date).toBe('2024-06-03');
+
+      const plan = await MealPlan.findOne();
+      expect(plan.weekStart.toISOString()).toBe('2024-06-02T18:30:00.000Z');
+      expect(plan.weekEnd.toISOString()).toBe('2024-06-09T18:29:59.999Z');
+    });
+
+    it('should validate weekStart', async () => {
+      const res = await request(app)
+        .get('/api/meal-plans/week?weekStart=June')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/meal-plans', () => {
+    it('should add a flat planned meal to a date', async () => {
+      const res = await addMeal({
+        date: '2024-06-05',
+        mealType: 'lunch',
+        name: 'Dal tadka with roti',
+        calories: 480,
+        protein: 18,
+        carbs: 62,
+        fat: 16,
+      });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.meal.calories).toBe(480);
+      expect(res.body.data.meal.time).toBe('13:00');
+
+      const week = await request(app)
+        .get('/api/meal-plans/week?weekStart=2024-06-03')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      const day = week.body.data.days.find((d) => d.date === '2024-06-05');
+      expect(day.meals).toHaveLength(1);
+      expect(day.totalCalories).toBe(480);
+    });
+  });
+
+  describe('DELETE /api/meal-plans/:mealId', () => {
+    it('should remove a planned meal', async () => {
+      const added = await addMeal({
+        date: '2024-06-05',
+        mealType: 'snack',
+        name: 'Mixed nuts',
+        calories: 170,
+      });
+
+      const res = await request(app)
+        .delete(`/api/meal-plans/${added.body.data.meal._id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(res.status).toBe(200);
+
+      const plan = await MealPlan.findOne();
+      expect(plan.days.every((d) => d.meals.length === 0)).toBe(true);
+    });
+
+    it('should delete the logged Meal of a completed planned meal', async () => {
+      const added = await addMeal({
+        date: '2024-06-05',
+        mealType: 'lunch',
+        name: 'Dal tadka with roti',
+        calories: 480,
+      });
+
+      const plan = await MealPlan.findOne();
+      const day = plan.days.find((d) => d.meals.length);
+      await request(app)
+        .post(`/api/meal-plans/${plan._id}/days/${day.dayOfWeek}/meals/${day.meals[0]._id}/complete`)
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(await Meal.countDocuments()).toBe(1);
+
+      const res = await request(app)
+        .delete(`/api/meal-plans/${added.body.data.meal._id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(res.status).toBe(200);
+      expect(await Meal.countDocuments()).toBe(0);
+    });
+  });
+
+  describe('POST /api/meal-plans/copy', () => {
+    it('should copy meals into the next week', async () => {
+      await addMeal({ date: '2024-06-09', mealType: 'breakfast', name: 'Poha', calories: 280 });
+      await addMeal({ date: '2024-06-09', mealType: 'dinner', name: 'Khichdi', calories: 380 });
+
+      const res = await request(app)
+        .post('/api/meal-plans/copy')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ fromDate: '2024-06-09', toDate: '2024-06-10' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.copied).toBe(2);
+
+      const week = await request(app)
+        .get('/api/meal-plans/week?weekStart=2024-06-10')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(week.body.data.days[0].meals).toHaveLength(2);
+      expect(week.body.data.days[0].totalCalories).toBe(660);
+    });
+
+    it('should keep completed meals when replacing the target day', async () => {
+      await addMeal({ date: '2024-06-09', mealType: 'breakfast', name: 'Poha', calories: 280 });
+      await addMeal({ date: '2024-06-10', mealType: 'lunch', name: 'Rajma', calories: 450 });
+      await addMeal({ date: '2024-06-10', mealType: 'dinner', name: 'Pasta', calories: 600 });
+
+      const plan = await MealPlan.getPlanForDate((await User.findOne())._id, '2024-06-10');
+      const day = plan.getDay('2024-06-10');
+      await request(app)
+        .post(`/api/meal-plans/${plan._id}/days/${day.dayOfWeek}/meals/${day.meals[0]._id}/complete`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      const res = await request(app)
+        .post('/api/meal-plans/copy')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ fromDate: '2024-06-09', toDate: '2024-06-10', replace: true });
+
+      expect(res.status).toBe(200);
+
+      const week = await request(app)
+        .get('/api/meal-plans/week?weekStart=2024-06-10')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(week.body.data.days[0].meals.map((m) => m.name)).toEqual(['Rajma', 'Poha']);
+    });
+
+    it('should reject copying a day onto itself', async () => {
+      const res = await request(app)
+        .post('/api/meal-plans/copy')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ fromDate: '2024-06-09', toDate: '2024-06-09' });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/meal-plans/:planId/days/:dayOfWeek/meals/:mealId/complete', () => {
+    const completeUrl = (plan, day, meal) =>
+      `/api/meal-plans/${plan._id}/days/${day.dayOfWeek}/meals/${meal._id}/complete`;
+
+    it('should log a Meal scaled by portion and allow undo', async () => {
+      await addMeal({
+        date: '2024-06-05',
+        mealType: 'lunch',
+        name: 'Dal tadka with roti',
+        calories: 480,
+        protein: 18,
+      });
+
+      const plan = await MealPlan.findOne();
+      const day = plan.days.find((d) => d.meals.length);
+      const meal = day.meals[0];
+
+      const res = await request(app)
+        .post(completeUrl(plan, day, meal))
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ portion: 1.5 });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.loggedMeal.nutrition.calories).toBe(720);
+      expect(res.body.data.loggedMeal.mealType).toBe('lunch');
+      expect(await Meal.countDocuments()).toBe(1);
+
+      // Completing twice is rejected
+      const again = await request(app)
+        .post(completeUrl(plan, day, meal))
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(again.status).toBe(400);
+
+      const undo = await request(app)
+        .delete(completeUrl(plan, day, meal))
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(undo.status).toBe(200);
+      expect(await Meal.countDocuments()).toBe(0);
+    });
+  });
+
+  describe('POST /api/meal-plans/generate', () => {
+    const generate = (data) => request(app)
+      .post('/api/meal-plans/generate')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send(data);
+
+    it('should fill the week and report deviation per day', async () => {
+      const res = await generate({ weekStart: '2024-06-03' });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.days).toHaveLength(7);
+      expect(res.body.data.report).toHaveLength(7);
+      expect(res.body.data.days.every((d) => d.meals.length > 0)).toBe(true);
+      expect(res.body.data.report[0].deviation.calories).toHaveProperty('percent');
+
+      // No dish more than twice in the week
+      const counts = {};
+      res.body.data.days.forEach((d) => d.meals.forEach((m) => {
+        counts[m.name] = (counts[m.name] || 0) + 1;
+      }));
+      expect(Math.max(...Object.values(counts))).toBeLessThanOrEqual(2);
+    });
+
+    it('should respect diet type and disliked foods', async () => {
+      await User.updateOne({}, {
+        preferences: { dietType: 'vegetarian', allergies: [], dislikedFoods: ['paneer'] },
+      });
+
+      const res = await generate({ weekStart: '2024-06-03' });
+
+      const names = res.body.data.days
+        .flatMap((d) => d.meals)
+        .flatMap((m) => m.foods.map((f) => f.name.toLowerCase()));
+
+      expect(names.some((n) => /chicken|fish|egg|paneer/.test(n))).toBe(false);
+    });
+
+    it('should not overwrite planned meals unless asked', async () => {
+      await addMeal({ date: '2024-06-05', mealType: 'lunch', name: 'Dal tadka', calories: 480 });
+
+      const res = await generate({ weekStart: '2024-06-03' });
+      expect(res.status).toBe(409);
+
+      const replaced = await generate({ weekStart: '2024-06-03', replace: true });
+      expect(replaced.status).toBe(201);
+    });
+  });
+
+  describe('GET /api/meal-plans/:planId/grocery-list', () => {
+    beforeEach(async () => {
+      await addMeal({
+        date: '2024-06-04',
+        mealType: 'dinner',
+        name: 'Paneer dinner',
+        foods: [
+          { name: 'Paneer (Cottage Cheese)', servingSize: 100, servingUnit: 'g', foodId: 'local_4' },
+          { name: 'Roti (Chapati)', servingSize: 2, servingUnit: 'piece', foodId: 'local_1' },
+        ],
+      });
+      await addMeal({
+        date: '2024-06-06',
+        mealType: 'lunch',
+        name: 'Paneer lunch',
+        foods: [
+          { name: 'Paneer (Cottage Cheese)', servingSize: 0.15, servingUnit: 'kg' },
+          { name: 'Roti (Chapati)', servingSize: 3, servingUnit: 'pieces' },
+        ],
+      });
+    });
+
+    it('should aggregate foods across the week by category', async () => {
+      const plan = await MealPlan.findOne();
+
+      const res = await request(app)
+        .get(`/api/meal-plans/${plan._id}/grocery-list`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(res.status).toBe(200);
+
+      const dairy = res.body.data.categories.find((c) => c.category === 'dairy');
+      expect(dairy.items[0].quantity).toBe(250);
+      expect(dairy.items[0].unit).toBe('g');
+
+      const grains = res.body.data.categories.find((c) => c.category === 'grains');
+      expect(grains.items[0].quantity).toBe(5);
+    });
+
+    it('should check items off and export as CSV', async () => {
+      const plan = await MealPlan.findOne();
+
+      const check = await request(app)
+        .patch(`/api/meal-plans/${plan._id}/grocery-list/paneer-cottage-cheese_g`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ checked: true });
+
+      expect(check.status).toBe(200);
+
+      const res = await request(app)
+        .get(`/api/meal-plans/${plan._id}/grocery-list?format=csv`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(res.headers['content-type']).toMatch(/text\/csv/);
+      expect(res.text).toContain('dairy,Paneer (Cottage Cheese),250,g,yes');
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Recipe Controller Tests
+ * =======================
+ */
+
+const request = require('supertest');
+const express = require('express');
+const User = require('../../src/models/User');
+const Meal = require('../../src/models/Meal');
+const recipeRoutes = require('../../src/routes/recipe.routes');
+const foodRoutes = require('../../src/routes/food.routes');
+const { generateAccessToken } = require('../../src/middleware/auth');
+
+// Create test app
+const app = express();
+app.use(express.json());
+app.use('/api/recipes', recipeRoutes);
+app.use('/api/foods', foodRoutes);
+
+// Error handler
+app.use((err, req, res, next) => {
+  res.status(err.statusCode || 500).json({
+    success: false,
+    message: err.message,
+  });
+});
+
+describe('Recipe Controller', () => {
+  let authToken;
+
+  beforeEach(async () => {
+    const user = await User.create({
+      name: 'Recipe User',
+      email: 'recipe@test.com',
+      password: 'password123',
+    });
+
+    authToken = generateAccessToken(user._id);
+  });
+
+  // Dal (1 cup = 198 cal), Rice (1 cup = 210 cal), Roti (1 piece = 104 cal)
+  const createThali = () => request(app)
+    .post('/api/recipes')
+    .set('Authorization', `Bearer ${authToken}`)
+    .send({
+      name: 'Dal Rice Roti Thali',
+      servings: 2,
+      ingredients: [
+        { foodId: 'local_2', quantity: 2 },
+        { foodId: 'local_3', quantity: 1 },
+        { foodId: 'local_1', quantity: 4 },
+      ],
+    });
+
+  describe('POST /api/recipes', () => {
+    it('should compute total and per-serving nutrition', async () => {
+      const res = await createThali();
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.recipe.totalNutrition.calories).toBe(1022);
+      expect(res.body.data.recipe.nutritionPerServing.calories).toBe(511);
+      expect(res.body.data.recipe.ingredients[2].unit).toBe('piece');
+    });
+
+    it('should convert ingredient quantities given in other units', async () => {
+      const res = await request(app)
+        .post('/api/recipes')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          name: 'Roti Wrap',
+          ingredients: [{ foodId: 'local_1', quantity: 80, unit: 'g' }],
+        });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.recipe.totalNutrition.calories).toBe(208);
+      expect(res.body.data.recipe.ingredients[0].unit).toBe('g');
+    });
+
+    it('should reject units the food cannot be measured in', async () => {
+      const res = await request(app)
+        .post('/api/recipes')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          name: 'Roti Handful',
+          ingredients: [{ foodId: 'local_1', quantity: 1, unit: 'handful' }],
+        });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should reject unknown ingredients', async () => {
+      const res = await request(app)
+        .post('/api/recipes')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          name: 'Mystery',
+          ingredients: [{ foodId: 'local_999', quantity: 1 }],
+        });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/recipes/:id/log', () => {
+    it('should log servings as a meal', async () => {
+      const created = await createThali();
+
+      const res = await request(app)
+        .post(`/api/recipes/${created.body.data.recipe._id}/log`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ servings: 1.5, mealType: 'lunch' });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.meal.nutrition.calories).toBe(767);
+      expect(res.body.data.meal.recipe).toBe(created.body.data.recipe._id);
+      expect(await Meal.countDocuments()).toBe(1);
+    });
+  });
+
+  describe('GET /api/foods/search', () => {
+    it('should include recipes in food search', async () => {
+      await createThali();
+
+      const res = await request(app)
+        .get('/api/foods/search?q=thali&includeUSDA=false')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.foods[0].source).toBe('recipe');
+      expect(res.body.data.foods[0].calories).toBe(511);
+    });
+  });
+});
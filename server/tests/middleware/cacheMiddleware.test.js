@@ -0,0 +1,92 @@
+/**
+ * Cache Middleware Tests
+ * ======================
+ */
+
+const request = require('supertest');
+const express = require('express');
+
+// In-memory stand-in for Redis
+jest.mock('../../src/config/redis', () => {
+  const store = new Map();
+  const tags = new Map();
+
+  return {
+    isAvailable: () => true,
+    keys: { tag: (userId, tag) => `tag:${userId}:${tag}` },
+    cache: {
+      store,
+      get: async (key) => store.get(key) ?? null,
+      set: async (key, value) => {
+        store.set(key, value);
+      },
+      tag: async (key, tagKeys) => {
+        for (const tagKey of tagKeys) {
+          if (!tags.has(tagKey)) tags.set(tagKey, new Set());
+          tags.get(tagKey).add(key);
+        }
+      },
+      invalidateTags: async (tagKeys) => {
+        for (const tagKey of tagKeys) {
+          for (const key of tags.get(tagKey) || []) store.delete(key);
+          tags.delete(tagKey);
+        }
+      },
+    },
+  };
+});
+
+const { cache } = require('../../src/config/redis');
+const {
+  CACHE_TAGS,
+  cacheMiddleware,
+  invalidateUserCache,
+} = require('../../src/middleware/cacheMiddleware');
+
+// Test app: the user comes from the x-user header
+const app = express();
+app.use((req, res, next) => {
+  req.user = { _id: req.get('x-user') };
+  next();
+});
+app.get('/dashboard', cacheMiddleware({ tags: [CACHE_TAGS.DASHBOARD] }), (req, res) => {
+  res.json({ user: req.user._id });
+});
+app.get('/trends', cacheMiddleware({ tags: [CACHE_TAGS.TRENDS] }), (req, res) => {
+  res.json({ user: req.user._id });
+});
+
+const fetch = (path, userId) => request(app).get(path).set('x-user', userId);
+
+describe('Cache Middleware', () => {
+  beforeEach(() => {
+    cache.store.clear();
+  });
+
+  it('should serve a repeated request from the cache', async () => {
+    expect((await fetch('/dashboard', 'alice')).headers['x-cache']).toBe('MISS');
+    expect((await fetch('/dashboard', 'alice')).headers['x-cache']).toBe('HIT');
+  });
+
+  it("should evict only the user's responses with the given tags", async () => {
+    await fetch('/dashboard', 'alice');
+    await fetch('/trends', 'alice');
+    await fetch('/dashboard', 'bob');
+
+    await invalidateUserCache('alice', [CACHE_TAGS.DASHBOARD]);
+
+    expect((await fetch('/dashboard', 'alice')).headers['x-cache']).toBe('MISS');
+    expect((await fetch('/trends', 'alice')).headers['x-cache']).toBe('HIT');
+    expect((await fetch('/dashboard', 'bob')).headers['x-cache']).toBe('HIT');
+  });
+
+  it('should evict every nutrition tag by default', async () => {
+    await fetch('/dashboard', 'alice');
+    await fetch('/trends', 'alice');
+
+    await invalidateUserCache('alice');
+
+    expect((await fetch('/dashboard', 'alice')).headers['x-cache']).toBe('MISS');
+    expect((await fetch('/trends', 'alice')).headers['x-cache']).toBe('MISS');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * BodyMeasurement Model Tests
+ * ============================
+ */
+
+const BodyMeasurement = require('../../src/models/BodyMeasurement');
+const User = require('../../src/models/User');
+
+describe('BodyMeasurement Model', () => {
+  let user;
+
+  beforeEach(async () => {
+    user = await User.create({
+      name: 'Weight User',
+      email: 'weight@test.com',
+      password: 'password123',
+      profile: { age: 30, gender: 'male', height: 175, weight: 80 },
+    });
+  });
+
+  it('should require at least one measurement', async () => {
+    await expect(
+      BodyMeasurement.create({ user: user._id, notes: 'Nothing measured' })
+    ).rejects.toThrow();
+  });
+
+  it('should calculate waist-to-hip ratio', async () => {
+    const entry = await BodyMeasurement.create({
+      user: user._id,
+      waist: 80,
+      hip: 100,
+    });
+
+    expect(entry.waistToHip).toBe(0.8);
+  });
+
+  it('should return the latest weigh-in', async () => {
+    await BodyMeasurement.create([
+      { user: user._id, date: new Date('2024-01-01'), weight: 82 },
+      { user: user._id, date: new Date('2024-02-01'), weight: 79 },
+      { user: user._id, date: new Date('2024-03-01'), waist: 85 },
+    ]);
+
+    const latest = await BodyMeasurement.getLatestWeight(user._id);
+    expect(latest.weight).toBe(79);
+  });
+
+  it('should return entries in a date range, oldest first', async () => {
+    await BodyMeasurement.create([
+      { user: user._id, date: new Date('2024-01-01'), weight: 82 },
+      { user: user._id, date: new Date('2024-02-01'), weight: 80 },
+      { user: user._id, date: new Date('2024-03-01'), weight: 79 },
+    ]);
+
+    const entries = await BodyMeasurement.getRange(
+      user._id,
+      new Date('2024-01-15'),
+      new Date('2024-03-15')
+    );
+
+    expect(entries.map((e) => e.weight)).toEqual([80, 79]);
+  });
+
+  it('should be used by user BMI and calorie calculations', async () => {
+    await BodyMeasurement.create({ user: user._id, weight: 70 });
+
+    const weight = await user.getCurrentWeight();
+
+    expect(weight).toBe(70);
+    expect(user.calculateBMI(weight)).toBe(22.9);
+    expect(user.calculateDailyCalories(weight)).toBeLessThan(user.calculateDailyCalories());
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Target History Model Tests
+ * ==========================
+ */
+
+const User = require('../../src/models/User');
+const TargetHistory = require('../../src/models/TargetHistory');
+const DailySummary = require('../../src/models/DailySummary');
+const { todayKey, addDays } = require('../../src/utils/timezone');
+
+describe('TargetHistory Model', () => {
+  const today = todayKey();
+  let user;
+
+  beforeEach(async () => {
+    user = await User.create({
+      name: 'History User',
+      email: 'history@test.com',
+      password: 'password123',
+      dailyTargets: { calories: 2000 },
+    });
+  });
+
+  it('should record the targets a user starts with', async () => {
+    const history = await TargetHistory.find({ user: user._id }).lean();
+
+    expect(history).toHaveLength(1);
+    expect(history[0].effectiveDate).toBe(today);
+    expect(history[0].targets.calories).toBe(2000);
+  });
+
+  it('should record target changes from today, one entry per day', async () => {
+    user.dailyTargets.calories = 1800;
+    await user.save();
+    user.dailyTargets.calories = 1700;
+    await user.save();
+
+    const history = await TargetHistory.find({ user: user._id }).lean();
+
+    expect(history).toHaveLength(1);
+    expect(history[0].targets.calories).toBe(1700);
+  });
+
+  it('should not record saves that leave targets alone', async () => {
+    user.lastLogin = new Date();
+    await user.save();
+
+    expect(await TargetHistory.countDocuments({ user: user._id })).toBe(1);
+  });
+
+  it('should keep the old targets when the first change comes after history began', async () => {
+    // An account from before target history existed
+    await TargetHistory.deleteMany({ user: user._id });
+    await User.collection.updateOne(
+      { _id: user._id },
+      { $set: { createdAt: new Date(`${addDays(today, -10)}T09:00:00Z`) } }
+    );
+
+    user.dailyTargets.calories = 1500;
+    await user.save();
+
+    const history = await TargetHistory.find({ user: user._id }).sort({ effectiveDate: 1 }).lean();
+    expect(history.map((h) => [h.effectiveDate, h.targets.calories])).toEqual([
+      [addDays(today, -10), 2000],
+      [today, 1500],
+    ]);
+  });
+
+  describe('record', () => {
+    it('should restamp summaries up to the next change', async () => {
+      const days = [-3, -2, -1, 0].map((n) => addDays(today, n));
+      await DailySummary.insertMany(days.map((date) => ({
+        user: user._id,
+        date,
+        timezone: 'UTC',
+        targets: { calories: 2000 },
+      })));
+
+      await TargetHistory.record(user._id, { calories: 1600 }, days[1]);
+
+      const summaries = await DailySummary.getRange(user._id, days[0], days[3]);
+      expect(summaries.map((s) => s.targets.calories)).toEqual([2000, 1600, 1600, 2000]);
+    });
+  });
+
+  describe('getTimeline', () => {
+    it('should return the entry in force at the start and later changes', async () => {
+      await TargetHistory.record(user._id, { calories: 2200 }, addDays(today, -10));
+      await TargetHistory.record(user._id, { calories: 2100 }, addDays(today, -5));
+
+      const timeline = await TargetHistory.getTimeline(user._id, addDays(today, -7), today);
+
+      expect(timeline.map((t) => t.targets.calories)).toEqual([2200, 2100, 2000]);
+    });
+  });
+});
@@ -110,6 +110,19 @@ describe('User Model', () => {
       expect(user.preferences.dietType).toBe('none');
       expect(user.preferences.allergies).toHaveLength(0);
     });
+
+    it('should default to UTC and reject unknown timezones', async () => {
+      const user = await User.create({
+        name: 'Test User',
+        email: 'tz@example.com',
+        password: 'password123',
+      });
+
+      expect(user.timezone).toBe('UTC');
+
+      user.timezone = 'Mars/Olympus';
+      await expect(user.save()).rejects.toThrow('Invalid timezone');
+    });
   });
 
   describe('BMI calculation', () => {
@@ -139,5 +152,32 @@ describe('User Model', () => {
       expect(bmi).toBeNull();
     });
   });
-});
 
+  describe('Micronutrient targets', () => {
+    it('should set RDA targets from age, gender and life stage', async () => {
+      const user = await User.create({
+        name: 'Test User',
+        email: 'rda@example.com',
+        password: 'password123',
+        profile: {
+          age: 28,
+          gender: 'female',
+          height: 160,
+          weight: 55,
+          lifeStage: 'pregnant',
+        },
+      });
+
+      expect(user.dailyTargets.iron).toBe(18);
+
+      user.recalculateTargets();
+
+      expect(user.dailyTargets.iron).toBe(27);
+      expect(user.dailyTargets.folate).toBe(600);
+      expect(user.dailyTargets.calcium).toBe(1000);
+      expect(user.dailyTargets.saturatedFat).toBe(
+        Math.round((user.dailyTargets.calories * 0.1) / 9)
+      );
+    });
+  });
+});
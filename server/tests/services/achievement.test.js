@@ -0,0 +1,170 @@
+/**
+ * Achievement Service Tests
+ * =========================
+ */
+
+const User = require('../../src/models/User');
+const Achievement = require('../../src/models/Achievement');
+const DailySummary = require('../../src/models/DailySummary');
+const {
+  achievementEvents,
+  dayHits,
+  streakOf,
+  computeStats,
+  activeStreak,
+  evaluateAchievements,
+  getAchievements,
+  markAnnounced,
+} = require('../../src/services/achievement.service');
+const { todayKey, addDays } = require('../../src/utils/timezone');
+
+const TARGETS = { calories: 2000, protein: 100, water: 8 };
+
+// A summary for a day with `calories` and `protein` eaten over two meals
+const summaryFor = (date, { calories = 2000, protein = 100, water = 2000, meals = 2 } = {}) => ({
+  date,
+  mealCount: meals,
+  nutrition: { calories, protein },
+  water: { totalMl: water, target: 2000 },
+  targets: TARGETS,
+});
+
+describe('Achievement Service', () => {
+  const today = '2024-03-10';
+
+  describe('dayHits', () => {
+    it('should judge each condition against the day\'s own targets', () => {
+      expect(dayHits(summaryFor(today))).toEqual({
+        logging: true,
+        calories: true,
+        protein: true,
+        water: true,
+      });
+
+      expect(dayHits(summaryFor(today, { calories: 2300, protein: 80, water: 1500 }))).toEqual({
+        logging: true,
+        calories: false,
+        protein: false,
+        water: false,
+      });
+    });
+
+    it('should fall back to the water target in glasses', () => {
+      const day = { ...summaryFor(today), water: { totalMl: 2000, target: 0 } };
+
+      expect(dayHits(day).water).toBe(true);
+    });
+
+    it('should not count calorie or protein targets on days with nothing logged', () => {
+      const day = summaryFor(today, { calories: 0, protein: 0, meals: 0 });
+
+      expect(dayHits({ ...day, targets: { calories: 0, protein: 0 } })).toMatchObject({
+        logging: false,
+        calories: false,
+        protein: false,
+      });
+    });
+  });
+
+  describe('streakOf', () => {
+    it('should find the current and longest runs', () => {
+      expect(streakOf([true, true, true, false, true, true])).toEqual({ current: 2, longest: 3 });
+    });
+
+    it('should not break the current run on a miss today', () => {
+      expect(streakOf([false, true, true, false])).toEqual({ current: 2, longest: 2 });
+      expect(streakOf([true, false, false])).toEqual({ current: 0, longest: 1 });
+    });
+  });
+
+  describe('computeStats', () => {
+    it('should count days with no summary as missed', () => {
+      const stats = computeStats([
+        summaryFor(addDays(today, -5)),
+        summaryFor(addDays(today, -4)),
+        summaryFor(addDays(today, -2)),
+        summaryFor(addDays(today, -1), { calories: 1500 }),
+      ], today);
+
+      expect(stats.streaks.logging).toEqual({ current: 2, longest: 2, lastDate: addDays(today, -1) });
+      expect(stats.streaks.calories).toEqual({ current: 0, longest: 2, lastDate: null });
+      expect(stats.totals).toEqual({ loggedDays: 4, meals: 8 });
+    });
+
+    it('should start from nothing', () => {
+      expect(computeStats([], today).streaks.logging).toEqual({ current: 0, longest: 0, lastDate: null });
+    });
+  });
+
+  describe('activeStreak', () => {
+    it('should drop a stored streak once a full day is missed', () => {
+      const streak = { current: 4, lastDate: addDays(today, -1) };
+
+      expect(activeStreak(streak, today)).toBe(4);
+      expect(activeStreak(streak, addDays(today, 1))).toBe(0);
+      expect(activeStreak(null, today)).toBe(0);
+    });
+  });
+
+  describe('evaluateAchievements', () => {
+    let user;
+    const now = todayKey();
+
+    const storeDays = (count) => DailySummary.insertMany(
+      Array.from({ length: count }, (_, i) => ({
+        user: user._id,
+        timezone: 'UTC',
+        ...summaryFor(addDays(now, -count + i + 1)),
+      }))
+    );
+
+    beforeEach(async () => {
+      user = await User.create({
+        name: 'Streak User',
+        email: 'streaks@test.com',
+        password: 'password123',
+      });
+    });
+
+    it('should store streaks and unlock badges once', async () => {
+      await storeDays(7);
+      const listener = jest.fn();
+      achievementEvents.on('unlocked', listener);
+
+      await evaluateAchievements(user);
+      await evaluateAchievements(user);
+      achievementEvents.off('unlocked', listener);
+
+      const record = await Achievement.findOne({ user: user._id }).lean();
+      expect(record.streaks.logging).toMatchObject({ current: 7, longest: 7 });
+      expect(record.badges.map((b) => b.key)).toEqual(expect.arrayContaining([
+        'first-meal',
+        'logging-streak-3',
+        'logging-streak-7',
+        'calorie-streak-7',
+        'protein-streak-7',
+        'water-streak-7',
+      ]));
+      expect(record.badges).toHaveLength(6);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].badges).toHaveLength(6);
+    });
+
+    it('should list unannounced badges until they are marked', async () => {
+      await storeDays(3);
+
+      const before = await getAchievements(user);
+      expect(before.unannounced.map((b) => b.key)).toEqual(['first-meal', 'logging-streak-3']);
+      expect(before.badges.find((b) => b.key === 'logging-streak-7')).toMatchObject({
+        unlocked: false,
+        progress: 3,
+        threshold: 7,
+      });
+
+      await markAnnounced(user._id, ['first-meal']);
+      const after = await getAchievements(user);
+      expect(after.unannounced.map((b) => b.key)).toEqual(['logging-streak-3']);
+    });
+  });
+});
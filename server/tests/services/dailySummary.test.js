@@ -0,0 +1,125 @@
+/**
+ * Daily Summary Service Tests
+ * ===========================
+ */
+
+const User = require('../../src/models/User');
+const Meal = require('../../src/models/Meal');
+const WaterIntake = require('../../src/models/WaterIntake');
+const DailySummary = require('../../src/models/DailySummary');
+const TargetHistory = require('../../src/models/TargetHistory');
+const {
+  refreshDailySummaries,
+  rebuildDailySummaries,
+  getDailySummaries,
+  sumNutrition,
+  mealTypeTotals,
+} = require('../../src/services/dailySummary.service');
+const { todayKey, addDays, zonedTime, startOfDay } = require('../../src/utils/timezone');
+
+describe('Daily Summary Service', () => {
+  let user;
+  const today = todayKey();
+  const yesterday = addDays(today, -1);
+
+  const logMeal = (day, mealType, nutrition) => Meal.create({
+    user: user._id,
+    name: `${mealType} on ${day}`,
+    mealType,
+    nutrition,
+    consumedAt: zonedTime(day, 'UTC', 12),
+  });
+
+  beforeEach(async () => {
+    user = await User.create({
+      name: 'Summary User',
+      email: 'summary@test.com',
+      password: 'password123',
+      dailyTargets: { calories: 2000 },
+    });
+  });
+
+  describe('getDailySummaries', () => {
+    it('should return one summary per day, computed from meals and water', async () => {
+      await logMeal(yesterday, 'lunch', { calories: 500, protein: 20, iron: 2.5 });
+      await logMeal(yesterday, 'dinner', { calories: 700, protein: 30 });
+      await WaterIntake.create({
+        user: user._id,
+        date: startOfDay(yesterday),
+        entries: [{ amount: 2, unit: 'glass' }],
+        target: 2000,
+      });
+
+      const summaries = await getDailySummaries(user, addDays(today, -2), today);
+
+      expect(summaries.map((s) => s.date)).toEqual([addDays(today, -2), yesterday, today]);
+      expect(summaries[1]).toMatchObject({
+        mealCount: 2,
+        nutrition: { calories: 1200, protein: 50, iron: 2.5 },
+        mealTypes: { lunch: { count: 1, calories: 500 }, breakfast: { count: 0 } },
+        water: { totalMl: 500, target: 2000 },
+        targets: { calories: 2000 },
+      });
+      expect(summaries[2].mealCount).toBe(0);
+      expect(await DailySummary.countDocuments({ user: user._id })).toBe(3);
+    });
+
+    it('should recompute days summarised in another timezone', async () => {
+      await DailySummary.create({ user: user._id, date: today, timezone: 'Asia/Kolkata', mealCount: 9 });
+
+      const [summary] = await getDailySummaries(user, today, today);
+
+      expect(summary.timezone).toBe('UTC');
+      expect(summary.mealCount).toBe(0);
+    });
+  });
+
+  describe('refreshDailySummaries', () => {
+    it('should update the stored days a write touched', async () => {
+      await getDailySummaries(user, yesterday, today);
+      const meal = await logMeal(yesterday, 'snack', { calories: 150 });
+
+      await refreshDailySummaries(user._id, [meal.consumedAt]);
+
+      const [stored] = await DailySummary.getRange(user._id, yesterday, yesterday);
+      expect(stored.nutrition.calories).toBe(150);
+      expect(stored.mealTypes.snack.count).toBe(1);
+    });
+
+    it('should stamp each day with the targets in force on it', async () => {
+      await TargetHistory.record(user._id, { calories: 1800 }, yesterday);
+
+      await refreshDailySummaries(user._id, [yesterday, today]);
+
+      const [before, current] = await DailySummary.getRange(user._id, yesterday, today);
+      expect(before.targets.calories).toBe(1800);
+      expect(current.targets.calories).toBe(2000);
+    });
+  });
+
+  describe('rebuildDailySummaries', () => {
+    it('should rebuild from the first logged day to today', async () => {
+      await logMeal(addDays(today, -3), 'breakfast', { calories: 400 });
+
+      const result = await rebuildDailySummaries(user._id);
+
+      expect(result).toEqual({ startDate: addDays(today, -3), endDate: today, days: 4 });
+      expect(await DailySummary.countDocuments({ user: user._id })).toBe(4);
+    });
+  });
+
+  describe('totals', () => {
+    it('should add up nutrition and meal types across days', () => {
+      const summaries = [
+        { nutrition: { calories: 500, protein: 20.2 }, mealTypes: { lunch: { count: 1, calories: 500 } } },
+        { nutrition: { calories: 300, protein: 10.1 }, mealTypes: { lunch: { count: 1, calories: 200 }, snack: { count: 2, calories: 100 } } },
+      ];
+
+      expect(sumNutrition(summaries)).toMatchObject({ calories: 800, protein: 30.3 });
+      expect(mealTypeTotals(summaries)).toEqual([
+        { mealType: 'lunch', count: 2, calories: 700 },
+        { mealType: 'snack', count: 2, calories: 100 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Food Import Service Tests
+ * =========================
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const Food = require('../../src/models/Food');
+const {
+  importFoods,
+  fromUSDARecord,
+  fromIFCTRow,
+  parseCsvLine,
+  readUSDAJson,
+} = require('../../src/services/foodImport.service');
+const { searchFoods, getFoodById } = require('../../src/services/foodDatabase.service');
+
+const IFCT_CSV = [
+  'code,name,grup,enerc,protcnt,choavldf,fatce,fibtg,na',
+  'A001,"Amaranth seed, black",Cereals and Millets,1490,14.59,61.46,5.74,7.02,8.23',
+  'D015,"Bathua leaves",Green Leafy Vegetables,155,3.5,2.8,0.4,3.6,30',
+].join('\n');
+
+const USDA_JSON = {
+  FoundationFoods: [
+    {
+      fdcId: 2346404,
+      description: 'Oats, whole grain, rolled',
+      foodCategory: { description: 'Cereal Grains and Pasta' },
+      foodNutrients: [
+        { nutrient: { name: 'Energy', unitName: 'kJ' }, amount: 1580 },
+        { nutrient: { name: 'Energy', unitName: 'kcal' }, amount: 379 },
+        { nutrient: { name: 'Protein', unitName: 'g' }, amount: 13.5 },
+        { nutrient: { name: 'Total lipid (fat)', unitName: 'g' }, amount: 5.89 },
+        { nutrient: { name: 'Carbohydrate, by difference', unitName: 'g' }, amount: 68.7 },
+        { nutrient: { name: 'Iron, Fe', unitName: 'mg' }, amount: 4.25 },
+        { nutrient: { name: 'Vitamin D (D2 + D3), International Units', unitName: 'IU' }, amount: 40 },
+        { nutrient: { name: 'Vitamin D (D2 + D3)', unitName: 'µg' }, amount: 1 },
+        { nutrient: { name: 'Fatty acids, total saturated', unitName: 'g' }, amount: 1.07 },
+      ],
+    },
+  ],
+};
+
+describe('Food Import Service', () => {
+  let tmpDir;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'food-import-'));
+    fs.writeFileSync(path.join(tmpDir, 'ifct.csv'), IFCT_CSV);
+    fs.writeFileSync(path.join(tmpDir, 'usda.json'), JSON.stringify(USDA_JSON));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('parseCsvLine', () => {
+    it('should handle quoted fields with commas and escaped quotes', () => {
+      expect(parseCsvLine('1,"Rice, cooked","5"" plate"')).toEqual(['1', 'Rice, cooked', '5" plate']);
+    });
+  });
+
+  describe('fromIFCTRow', () => {
+    it('should convert kJ energy and keep values per 100 g', () => {
+      const food = fromIFCTRow({ code: 'A001', name: 'Amaranth seed', enerc: '1490', protcnt: '14.59' });
+
+      expect(food.id).toBe('ifct_A001');
+      expect(food.source).toBe('ifct');
+      expect(food.calories).toBe(356);
+      expect(food.protein).toBe(14.6);
+      expect(food.servingSize).toBe(100);
+      expect(food.servingUnit).toBe('g');
+    });
+
+    it('should read micronutrient columns', () => {
+      const food = fromIFCTRow({ code: 'D015', name: 'Bathua leaves', enerc: '155', fe: '4.2', vitc: '35', folsum: '30' });
+
+      expect(food.iron).toBe(4.2);
+      expect(food.vitaminC).toBe(35);
+      expect(food.folate).toBe(30);
+      expect(food.vitaminB12).toBe(0);
+    });
+
+    it('should skip rows without a code or name', () => {
+      expect(fromIFCTRow({ name: 'No code' })).toBeNull();
+    });
+  });
+
+  describe('fromUSDARecord', () => {
+    it('should read nested download nutrients and prefer kcal energy', () => {
+      const food = fromUSDARecord(USDA_JSON.FoundationFoods[0]);
+
+      expect(food.id).toBe('usda_2346404');
+      expect(food.calories).toBe(379);
+      expect(food.carbs).toBe(68.7);
+      expect(food.category).toBe('Cereal Grains and Pasta');
+    });
+
+    it('should read micronutrients, skipping vitamin D in IU', () => {
+      const food = fromUSDARecord(USDA_JSON.FoundationFoods[0]);
+
+      expect(food.iron).toBe(4.25);
+      expect(food.vitaminD).toBe(1);
+      expect(food.saturatedFat).toBe(1.07);
+    });
+
+    it('should scale per-100 g nutrients to the labelled serving', () => {
+      const food = fromUSDARecord({
+        fdcId: 1,
+        description: 'Granola bar',
+        servingSize: 40,
+        servingSizeUnit: 'GRM',
+        foodNutrients: [{ nutrientName: 'Energy', unitName: 'KCAL', value: 450 }],
+      });
+
+      expect(food.servingUnit).toBe('g');
+      expect(food.calories).toBe(180);
+    });
+  });
+
+  describe('readUSDAJson', () => {
+    const readAll = async (file) => {
+      const records = [];
+      for await (const record of readUSDAJson(file)) records.push(record);
+      return records;
+    };
+
+    it('should stream records from the first top-level array', async () => {
+      const file = path.join(tmpDir, 'search.json');
+      fs.writeFileSync(file, JSON.stringify({
+        totalHits: 2,
+        criteria: { dataType: ['Branded'] },
+        foods: [{ fdcId: 1, description: 'Say "cheese" {brand}' }, { fdcId: 2, description: 'Back\\slash [x]' }],
+        aggregations: [{ ignored: true }],
+      }));
+
+      expect(await readAll(file)).toEqual([
+        { fdcId: 1, description: 'Say "cheese" {brand}' },
+        { fdcId: 2, description: 'Back\\slash [x]' },
+      ]);
+    });
+
+    it('should read records that span stream chunks', async () => {
+      const file = path.join(tmpDir, 'branded.json');
+      const foods = Array.from({ length: 3000 }, (_, i) => ({
+        fdcId: i,
+        description: `Food ${i} ${'x'.repeat(i % 50)}`,
+        foodNutrients: [{ nutrientName: 'Energy', value: i }],
+      }));
+      fs.writeFileSync(file, JSON.stringify(foods));
+
+      const records = await readAll(file);
+      expect(records).toHaveLength(3000);
+      expect(records[2999]).toEqual(foods[2999]);
+    });
+  });
+
+  describe('importFoods', () => {
+    it('should import an IFCT CSV and upsert on re-import', async () => {
+      const file = path.join(tmpDir, 'ifct.csv');
+
+      const first = await importFoods({ source: 'ifct', path: file });
+      const second = await importFoods({ source: 'ifct', path: file });
+
+      expect(first.imported).toBe(2);
+      expect(second.imported).toBe(2);
+      expect(await Food.countDocuments({ source: 'ifct' })).toBe(2);
+    });
+
+    it('should import a USDA JSON download', async () => {
+      const result = await importFoods({ source: 'usda', path: path.join(tmpDir, 'usda.json') });
+
+      expect(result.imported).toBe(1);
+      const food = await getFoodById('usda_2346404');
+      expect(food.name).toBe('Oats, whole grain, rolled');
+    });
+
+    it('should reject unknown sources', async () => {
+      await expect(importFoods({ source: 'nin', path: path.join(tmpDir, 'ifct.csv') }))
+        .rejects.toThrow('Unknown source');
+    });
+  });
+
+  describe('searchFoods', () => {
+    it('should serve imported foods from the local collection', async () => {
+      await importFoods({ source: 'ifct', path: path.join(tmpDir, 'ifct.csv') });
+
+      const results = await searchFoods('bathua');
+
+      expect(results.foods[0].id).toBe('ifct_D015');
+      expect(results.sources).toContain('ifct');
+    });
+
+    it('should match partial words', async () => {
+      await importFoods({ source: 'ifct', path: path.join(tmpDir, 'ifct.csv') });
+
+      const results = await searchFoods('amara');
+
+      expect(results.foods.map((f) => f.id)).toContain('ifct_A001');
+    });
+  });
+});
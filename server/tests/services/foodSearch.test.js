@@ -0,0 +1,93 @@
+/**
+ * Food Search Service Tests
+ * =========================
+ */
+
+const {
+  rankFoods,
+  candidatePattern,
+  transliterate,
+  editDistance,
+} = require('../../src/services/foodSearch.service');
+const { searchFoods } = require('../../src/services/foodDatabase.service');
+
+const search = async (q) => (await searchFoods(q, { includeUSDA: false })).foods;
+
+describe('Food Search Service', () => {
+  describe('transliterate', () => {
+    it('should romanise Devanagari food names', () => {
+      expect(transliterate('दाल')).toBe('dal');
+      expect(transliterate('पनीर')).toBe('panir');
+      expect(transliterate('रोटी')).toBe('roti');
+    });
+
+    it('should leave Latin text unchanged', () => {
+      expect(transliterate('Masala Chai')).toBe('Masala Chai');
+    });
+  });
+
+  describe('editDistance', () => {
+    it('should count single-character edits', () => {
+      expect(editDistance('biryni', 'biryani')).toBe(1);
+      expect(editDistance('dosa', 'dosa')).toBe(0);
+    });
+  });
+
+  describe('rankFoods', () => {
+    const foods = [
+      { name: 'Dal Makhani Special', category: 'legumes' },
+      { name: 'Dal', category: 'legumes' },
+      { name: 'Apple', category: 'fruits' },
+    ];
+
+    it('should rank closer matches first and drop non-matches', () => {
+      const ranked = rankFoods('dal', foods);
+
+      expect(ranked.map((f) => f.name)).toEqual(['Dal', 'Dal Makhani Special']);
+      expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+      expect(ranked[0].matches).toEqual(['Dal']);
+    });
+
+    it('should return foods unscored for an empty query', () => {
+      expect(rankFoods('', foods)).toHaveLength(3);
+    });
+  });
+
+  describe('candidatePattern', () => {
+    it('should match word prefixes in both scripts', () => {
+      const pattern = candidatePattern('दाल');
+
+      expect(pattern.test('Dal Tadka')).toBe(true);
+      expect(pattern.test('Apple')).toBe(false);
+    });
+  });
+
+  describe('searchFoods', () => {
+    it.each([
+      ['chapatti', 'Roti (Chapati)'],
+      ['dhal', 'Dal (Lentil Curry)'],
+      ['दाल', 'Dal (Lentil Curry)'],
+      ['biryni', 'Chicken Biryani'],
+      ['paneer tika', 'Paneer (Cottage Cheese)'],
+    ])('should find %s', async (query, name) => {
+      const foods = await search(query);
+
+      expect(foods[0].name).toBe(name);
+    });
+
+    it('should match synonyms and Hindi names through aliases', async () => {
+      for (const query of ['dahi', 'yogurt', 'दही']) {
+        const foods = await search(query);
+        expect(foods[0].name).toBe('Curd/Yogurt');
+      }
+    });
+
+    it('should return relevance scores and matched words', async () => {
+      const foods = await search('butter chicken');
+
+      expect(foods[0].name).toBe('Butter Chicken');
+      expect(foods[0].score).toBe(1);
+      expect(foods[0].matches).toEqual(['Butter', 'Chicken']);
+    });
+  });
+});
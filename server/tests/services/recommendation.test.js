@@ -0,0 +1,183 @@
+/**
+ * Recommendation Service Tests
+ * ============================
+ */
+
+const {
+  applyFeedback,
+  personalDishes,
+  filterDishes,
+  rankDishes,
+} = require('../../src/services/recommendation.service');
+
+const DATE = '2026-03-10';
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+const recommendation = (rule, category, priority) => ({
+  rule,
+  category,
+  priority,
+  title: rule,
+  message: rule,
+  icon: '💡',
+});
+
+const feedback = (rule, category, overrides = {}) => ({
+  recommendationId: `${rule}:${DATE}`,
+  rule,
+  category,
+  date: DATE,
+  dismissedAt: null,
+  snoozedUntil: null,
+  helpful: null,
+  ...overrides,
+});
+
+const RECOMMENDATIONS = [
+  recommendation('calories-exceeded', 'calorie', 3),
+  recommendation('high-carb-ratio', 'carbs', 2),
+  recommendation('hydration-reminder', 'hydration', 2),
+];
+
+describe('Recommendation Service', () => {
+  describe('applyFeedback', () => {
+    it('should give each recommendation a stable id for the day', () => {
+      const result = applyFeedback(RECOMMENDATIONS, [], { date: DATE, now: NOW });
+
+      expect(result.map((r) => r.id)).toEqual([
+        'calories-exceeded:2026-03-10',
+        'high-carb-ratio:2026-03-10',
+        'hydration-reminder:2026-03-10',
+      ]);
+      expect(result.every((r) => r.helpful === null)).toBe(true);
+    });
+
+    it('should drop recommendations dismissed today only', () => {
+      const result = applyFeedback(RECOMMENDATIONS, [
+        feedback('hydration-reminder', 'hydration', { dismissedAt: NOW }),
+        feedback('high-carb-ratio', 'carbs', { recommendationId: 'high-carb-ratio:2026-03-09', dismissedAt: NOW }),
+      ], { date: DATE, now: NOW });
+
+      expect(result.map((r) => r.rule)).toEqual(['calories-exceeded', 'high-carb-ratio']);
+    });
+
+    it('should drop a snoozed rule until the snooze ends', () => {
+      const snoozed = [feedback('high-carb-ratio', 'carbs', {
+        recommendationId: 'high-carb-ratio:2026-03-09',
+        snoozedUntil: new Date('2026-03-10T14:00:00Z'),
+      })];
+
+      expect(applyFeedback(RECOMMENDATIONS, snoozed, { date: DATE, now: NOW }).map((r) => r.rule))
+        .not.toContain('high-carb-ratio');
+      expect(applyFeedback(RECOMMENDATIONS, snoozed, { date: DATE, now: new Date('2026-03-10T15:00:00Z') })
+        .map((r) => r.rule)).toContain('high-carb-ratio');
+    });
+
+    it('should down-rank categories the user keeps marking unhelpful', () => {
+      const ratings = ['2026-03-07', '2026-03-08', '2026-03-09'].map((day) => feedback('hydration-reminder', 'hydration', {
+        recommendationId: `hydration-reminder:${day}`,
+        helpful: false,
+      }));
+
+      const result = applyFeedback(RECOMMENDATIONS, ratings, { date: DATE, now: NOW });
+
+      expect(result.map((r) => [r.rule, r.priority])).toEqual([
+        ['calories-exceeded', 3],
+        ['high-carb-ratio', 2],
+        ['hydration-reminder', 1],
+      ]);
+    });
+
+    it('should let helpful ratings offset unhelpful ones', () => {
+      const ratings = [
+        feedback('calories-exceeded', 'calorie', { recommendationId: 'calories-exceeded:2026-03-08', helpful: false }),
+        feedback('calories-exceeded', 'calorie', { recommendationId: 'calories-exceeded:2026-03-09', helpful: false }),
+        feedback('calories-exceeded', 'calorie', { helpful: true }),
+      ];
+
+      const result = applyFeedback(RECOMMENDATIONS, ratings, { date: DATE, now: NOW });
+
+      expect(result[0]).toMatchObject({ rule: 'calories-exceeded', priority: 3, helpful: true });
+    });
+  });
+
+  describe('personalDishes', () => {
+    const meal = (name, consumedAt, overrides = {}) => ({
+      _id: `${name}-${consumedAt}`,
+      name,
+      nutrition: { calories: 400, protein: 25, carbs: 40, fat: 12 },
+      consumedAt: new Date(consumedAt),
+      isFavorite: false,
+      ...overrides,
+    });
+
+    it('should group meals by name with the latest log and how often they were eaten', () => {
+      const dishes = personalDishes([
+        meal('Rajma Chawal', '2026-03-09T13:00:00Z', { nutrition: { calories: 520 } }),
+        meal('rajma chawal ', '2026-03-02T13:00:00Z'),
+        meal('Curd Rice', '2026-02-20T13:00:00Z', { isFavorite: true }),
+        meal('Curd Rice', '2025-10-01T13:00:00Z'),
+      ], { today: DATE, timezone: 'UTC', now: NOW });
+
+      expect(dishes.get('rajma chawal')).toMatchObject({
+        name: 'Rajma Chawal',
+        nutrition: { calories: 520 },
+        isFavorite: false,
+        timesEaten: 2,
+        daysSinceEaten: 1,
+      });
+      // Older logs count for less, and ones outside the window not at all
+      expect(dishes.get('rajma chawal').frequency).toBeGreaterThan(1.6);
+      expect(dishes.get('curd rice')).toMatchObject({ isFavorite: true, timesEaten: 1, daysSinceEaten: 18 });
+    });
+  });
+
+  describe('filterDishes', () => {
+    it("should judge a vegetarian's own untagged meals by name", () => {
+      const { allowed, excluded } = filterDishes([
+        { name: 'Dal Tadka', calories: 350, carbs: 45, tags: [], source: 'favorite' },
+        { name: 'Chicken Curry', calories: 480, carbs: 20, tags: [], source: 'favorite' },
+        { name: 'Eggs & Toast', calories: 350, carbs: 30, tags: ['high-protein'], source: 'catalog' },
+      ], { dietType: 'vegetarian' });
+
+      expect(allowed.map((d) => d.name)).toEqual(['Dal Tadka']);
+      expect(excluded.map((d) => d.name)).toEqual(['Chicken Curry', 'Eggs & Toast']);
+    });
+  });
+
+  describe('rankDishes', () => {
+    const remaining = { calories: 700, protein: 40, carbs: 80, fat: 25 };
+    const dish = (name, history) => ({ name, calories: 450, protein: 25, carbs: 45, fat: 15, history });
+
+    it('should rank familiar dishes above unfamiliar ones that fit as well', () => {
+      const ranked = rankDishes([
+        dish('Quinoa Bowl'),
+        dish('Rajma Chawal', { isFavorite: true, frequency: 3, daysSinceEaten: 5 }),
+      ], remaining, 'maintain');
+
+      expect(ranked.map((d) => d.name)).toEqual(['Rajma Chawal', 'Quinoa Bowl']);
+      expect(ranked[0].scores).toEqual({ macroFit: 120, familiarity: 30, variety: 0 });
+    });
+
+    it('should push down dishes eaten in the last few days', () => {
+      const ranked = rankDishes([
+        dish('Rajma Chawal', { isFavorite: false, frequency: 4, daysSinceEaten: 0 }),
+        dish('Curd Rice', { isFavorite: false, frequency: 1, daysSinceEaten: 6 }),
+      ], remaining, 'maintain');
+
+      expect(ranked.map((d) => [d.name, d.scores.variety])).toEqual([
+        ['Curd Rice', 0],
+        ['Rajma Chawal', -30],
+      ]);
+    });
+
+    it('should still favour macro fit over familiarity', () => {
+      const ranked = rankDishes([
+        { ...dish('Chole Bhature', { isFavorite: true, frequency: 5, daysSinceEaten: 7 }), calories: 950, fat: 45 },
+        dish('Quinoa Bowl'),
+      ], remaining, 'maintain');
+
+      expect(ranked[0].name).toBe('Quinoa Bowl');
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Adaptive TDEE Tests
+ * ===================
+ */
+
+const { weightTrend, estimateTdee } = require('../../src/services/tdee.service');
+const { addDays, eachDay } = require('../../src/utils/timezone');
+
+const START = '2024-03-01';
+
+// A logged day for each date from START, eating `calories` against a 2000 target
+const loggedDays = (count, calories = 2000) => eachDay(START, addDays(START, count - 1))
+  .map((date) => ({ date, calories, target: 2000 }));
+
+// Weekly weigh-ins from START, changing by `perWeek` kg
+const weeklyWeighIns = (weeks, perWeek = 0, start = 80) => Array.from(
+  { length: weeks + 1 },
+  (_, week) => ({ date: addDays(START, week * 7), weight: start + week * perWeek })
+);
+
+describe('Adaptive TDEE', () => {
+  describe('weightTrend', () => {
+    it('should give the change per day', () => {
+      expect(weightTrend(weeklyWeighIns(4, -0.7))).toBeCloseTo(-0.1);
+    });
+
+    it('should not be swung by one outlying weigh-in', () => {
+      const weighIns = weeklyWeighIns(4, -0.7);
+      weighIns[2].weight += 1.5;
+
+      expect(weightTrend(weighIns)).toBeCloseTo(-0.1, 1);
+    });
+  });
+
+  describe('estimateTdee', () => {
+    it('should need two weigh-ins at least two weeks apart', () => {
+      expect(estimateTdee(loggedDays(28), weeklyWeighIns(0))).toBeNull();
+      expect(estimateTdee(loggedDays(28), weeklyWeighIns(1))).toBeNull();
+      expect(estimateTdee(loggedDays(28), weeklyWeighIns(2))).not.toBeNull();
+    });
+
+    it('should need a week of logged days', () => {
+      const days = loggedDays(28).map((day, i) => (i % 5 === 0 ? day : { ...day, calories: 0 }));
+
+      expect(estimateTdee(days, weeklyWeighIns(4))).toBeNull();
+    });
+
+    it('should equal intake when weight holds steady', () => {
+      const estimate = estimateTdee(loggedDays(29, 2300), weeklyWeighIns(4));
+
+      expect(estimate.tdee).toBe(2300);
+      expect(estimate.weightChangePerWeek).toBe(0);
+    });
+
+    it('should add the energy of weight lost to intake', () => {
+      // 0.7 kg a week is 770 kcal a day
+      const estimate = estimateTdee(loggedDays(29, 1800), weeklyWeighIns(4, -0.7));
+
+      expect(estimate.tdee).toBe(2570);
+      expect(estimate.weightChangePerWeek).toBe(-0.7);
+    });
+
+    it('should leave partly logged days out of the intake', () => {
+      const days = loggedDays(29, 2200).map((day, i) => (i % 4 === 0 ? { ...day, calories: 400 } : day));
+      const estimate = estimateTdee(days, weeklyWeighIns(4));
+
+      expect(estimate.averageIntake).toBe(2200);
+      expect(estimate.loggedDays).toBe(21);
+      expect(estimate.days).toBe(29);
+    });
+
+    it('should be confident with six weeks of full logs and weekly weigh-ins', () => {
+      const estimate = estimateTdee(loggedDays(43), weeklyWeighIns(6));
+
+      expect(estimate.confidence).toBeGreaterThanOrEqual(0.75);
+      expect(estimate.level).toBe('high');
+    });
+
+    it('should be less confident with patchy logs and few weigh-ins', () => {
+      const days = loggedDays(15).map((day, i) => (i % 2 === 0 ? day : { ...day, calories: 0 }));
+      const estimate = estimateTdee(days, weeklyWeighIns(2));
+
+      expect(estimate.level).toBe('low');
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Diet Rules Tests
+ * ================
+ */
+
+const { buildExclusions } = require('../../src/utils/dietRules');
+const { MEAL_CATALOG } = require('../../src/services/recommendation.service');
+
+const dish = (name) => Object.values(MEAL_CATALOG).flat().find((d) => d.name === name);
+
+describe('Diet Rules', () => {
+  describe('buildExclusions', () => {
+    it('should allow everything without preferences', () => {
+      const exclusionsFor = buildExclusions();
+
+      expect(Object.values(MEAL_CATALOG).flat().filter((d) => exclusionsFor(d).length > 0)).toEqual([]);
+    });
+
+    it('should keep meat and dairy dishes from vegans', () => {
+      const exclusionsFor = buildExclusions({ dietType: 'vegan' });
+
+      expect(exclusionsFor(dish('Grilled Chicken Salad'))).toEqual([
+        { rule: 'diet', message: 'Contains animal products (not vegan)' },
+      ]);
+      expect(exclusionsFor(dish('Palak Paneer with Rice'))).toHaveLength(1);
+      expect(exclusionsFor(dish('Dal Rice Bowl'))).toEqual([]);
+    });
+
+    it('should judge untagged foods by their name', () => {
+      const exclusionsFor = buildExclusions({ dietType: 'vegetarian' });
+
+      expect(exclusionsFor({ name: 'Chicken Breast', calories: 165, carbs: 0 })).toHaveLength(1);
+      expect(exclusionsFor({ name: 'Moong Dal', calories: 105, carbs: 19 })).toEqual([]);
+    });
+
+    it('should apply keto, paleo and Mediterranean rules', () => {
+      expect(buildExclusions({ dietType: 'keto' })(dish('Dal Rice Bowl'))[0].message)
+        .toBe('60% of calories from carbs (keto allows 20%)');
+      expect(buildExclusions({ dietType: 'keto' })(dish('Boiled Eggs (2)'))).toEqual([]);
+
+      expect(buildExclusions({ dietType: 'paleo' })(dish('Vegetable Stir Fry'))).toHaveLength(1);
+      expect(buildExclusions({ dietType: 'paleo' })(dish('Grilled Fish with Vegetables'))).toEqual([]);
+
+      expect(buildExclusions({ dietType: 'mediterranean' })(dish('Protein Bar'))[0].message)
+        .toBe('Highly processed (not Mediterranean)');
+      expect(buildExclusions({ dietType: 'mediterranean' })({ name: 'Lamb Kebab', calories: 300, carbs: 5 }))
+        .toHaveLength(1);
+    });
+
+    it('should match allergies by allergen tag and by name', () => {
+      const exclusionsFor = buildExclusions({ allergies: ['Peanuts', 'tree nuts'] });
+
+      // Poha is tagged with peanuts without naming them
+      expect(exclusionsFor(dish('Poha with Vegetables'))).toEqual([
+        { rule: 'allergy', message: 'Contains peanut (allergy: peanuts)' },
+      ]);
+      expect(exclusionsFor(dish('Mixed Nuts (handful)'))).toEqual([
+        { rule: 'allergy', message: 'Contains nuts (allergy: tree nuts)' },
+      ]);
+      expect(exclusionsFor(dish('Hummus with Carrots'))).toEqual([]);
+    });
+
+    it('should match unlisted allergies and disliked foods by name', () => {
+      const exclusionsFor = buildExclusions({ allergies: ['Avocados'], dislikedFoods: ['Eggs', ' '] });
+
+      expect(exclusionsFor(dish('Avocado Toast'))).toEqual([
+        { rule: 'allergy', message: 'Contains avocado (allergy: avocados)' },
+      ]);
+      expect(exclusionsFor(dish('Egg Curry with Chapati'))).toEqual([
+        { rule: 'disliked', message: 'Contains Eggs, which you dislike' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Hydration Tests
+ * ===============
+ */
+
+const {
+  extraWaterMl,
+  adjustedTargetMl,
+  expectedByNowMl,
+} = require('../../src/utils/hydration');
+
+describe('Hydration', () => {
+  describe('extraWaterMl', () => {
+    it('should add water for heat and exercise', () => {
+      expect(extraWaterMl()).toBe(0);
+      expect(extraWaterMl({ hot: true })).toBe(500);
+      expect(extraWaterMl({ workoutMinutes: 30 })).toBe(360);
+      expect(adjustedTargetMl(2000, { hot: true, workoutMinutes: 45 })).toBe(3040);
+    });
+  });
+
+  describe('expectedByNowMl', () => {
+    it('should spread the target over waking hours', () => {
+      expect(expectedByNowMl(2000, 6 * 60)).toBe(0);
+      expect(expectedByNowMl(2000, 14 * 60)).toBe(1000);
+      expect(expectedByNowMl(2000, 23 * 60)).toBe(2000);
+    });
+  });
+});
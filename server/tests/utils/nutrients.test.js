@@ -0,0 +1,49 @@
+/**
+ * Micronutrient Tests
+ * ===================
+ */
+
+const {
+  micronutrientTargets,
+  micronutrientReport,
+} = require('../../src/utils/nutrients');
+
+describe('Micronutrients', () => {
+  describe('micronutrientTargets', () => {
+    it('should use the RDA for the age band and gender', () => {
+      const man = micronutrientTargets({ age: 40, gender: 'male' });
+      const woman = micronutrientTargets({ age: 40, gender: 'female' });
+
+      expect(man.iron).toBe(8);
+      expect(woman.iron).toBe(18);
+      expect(micronutrientTargets({ age: 75, gender: 'female' }).vitaminD).toBe(20);
+      expect(micronutrientTargets({ age: 15, gender: 'male' }).calcium).toBe(1300);
+    });
+
+    it('should use the higher value without a male/female gender', () => {
+      const targets = micronutrientTargets({ age: 30, gender: 'other' });
+
+      expect(targets.iron).toBe(18);
+      expect(targets.potassium).toBe(3400);
+    });
+
+    it('should apply pregnancy and breastfeeding values', () => {
+      expect(micronutrientTargets({ age: 30, gender: 'female', lifeStage: 'pregnant' }).iron).toBe(27);
+      expect(micronutrientTargets({ age: 30, gender: 'female', lifeStage: 'breastfeeding' }).vitaminC).toBe(120);
+    });
+
+    it('should cap saturated fat at 10% of calories', () => {
+      expect(micronutrientTargets({}, 1800).saturatedFat).toBe(20);
+    });
+  });
+
+  describe('micronutrientReport', () => {
+    it('should report progress against targets', () => {
+      const report = micronutrientReport({ iron: 9 }, { iron: 18, saturatedFat: 20 });
+
+      expect(report.iron).toMatchObject({ consumed: 9, target: 18, progress: 50, unit: 'mg' });
+      expect(report.saturatedFat.limit).toBe(true);
+      expect(report.calcium.progress).toBe(0);
+    });
+  });
+});
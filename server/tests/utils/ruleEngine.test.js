@@ -0,0 +1,133 @@
+/**
+ * Recommendation Rule Engine Tests
+ * ================================
+ * The default rules are run over the fixture user-days in
+ * tests/fixtures/recommendationDays.json; add a day there to pin down how
+ * a rule change should behave.
+ */
+
+const RecommendationRule = require('../../src/models/RecommendationRule');
+const DEFAULT_RULES = require('../../src/config/recommendationRules.json');
+const FIXTURE_DAYS = require('../fixtures/recommendationDays.json');
+const {
+  factsFromFixture,
+  checkCondition,
+  renderTemplate,
+  evaluateRules,
+  runFixtures,
+} = require('../../src/utils/ruleEngine');
+
+const rule = (overrides) => ({
+  key: 'test-rule',
+  category: 'calorie',
+  priority: 2,
+  title: 'Test',
+  message: 'Test message',
+  conditions: [],
+  ...overrides,
+});
+
+describe('Recommendation Rule Engine', () => {
+  describe('default rules', () => {
+    it('should be valid rule documents', () => {
+      for (const definition of DEFAULT_RULES) {
+        expect(new RecommendationRule(definition).validateSync()).toBeUndefined();
+      }
+    });
+
+    it('should reject condition values that do not fit the operator', () => {
+      const invalid = [
+        { fact: 'calories.percent', op: 'between', value: [80] },
+        { fact: 'goal', op: 'nin', value: 'maintain' },
+        { fact: 'hour', op: 'lt', value: { hour: 15 } },
+      ];
+
+      for (const condition of invalid) {
+        expect(new RecommendationRule(rule({ conditions: [condition] })).validateSync()).toBeDefined();
+      }
+    });
+
+    it('should have unique keys', () => {
+      const keys = DEFAULT_RULES.map((r) => r.key);
+      expect(new Set(keys).size).toBe(keys.length);
+    });
+
+    describe.each(runFixtures(DEFAULT_RULES, FIXTURE_DAYS).map((result) => [result.name, result]))(
+      '%s',
+      (name, result) => {
+        it('should fire the expected rules', () => {
+          expect(result.fired).toEqual(result.expected);
+        });
+      }
+    );
+  });
+
+  describe('checkCondition', () => {
+    const facts = { hour: 15, goal: 'lose-weight', calories: { percent: 85 } };
+
+    it('should compare facts by path', () => {
+      expect(checkCondition(facts, { fact: 'calories.percent', op: 'between', value: [80, 100] })).toBe(true);
+      expect(checkCondition(facts, { fact: 'goal', op: 'in', value: ['gain-weight', 'build-muscle'] })).toBe(false);
+      expect(checkCondition(facts, { fact: 'hour', op: 'gte', value: 15 })).toBe(true);
+    });
+
+    it('should never match unknown facts or operators', () => {
+      expect(checkCondition(facts, { fact: 'sleep.hours', op: 'lt', value: 7 })).toBe(false);
+      expect(checkCondition(facts, { fact: 'hour', op: 'near', value: 15 })).toBe(false);
+    });
+
+    it('should skip conditions whose value does not fit the operator', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(checkCondition(facts, { fact: 'calories.percent', op: 'between', value: 80 })).toBe(false);
+      expect(checkCondition(facts, { fact: 'goal', op: 'in', value: 'lose-weight' })).toBe(false);
+      expect(checkCondition(facts, { fact: 'hour', op: 'gte', value: [15] })).toBe(false);
+      expect(warn).toHaveBeenCalledTimes(3);
+
+      warn.mockRestore();
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('should fill placeholders, rounding numbers', () => {
+      const facts = { calories: { over: 312.4 }, goal: 'maintain' };
+
+      expect(renderTemplate("You're {{calories.over}} kcal over ({{ goal }})", facts))
+        .toBe("You're 312 kcal over (maintain)");
+      expect(renderTemplate('Keep {{unknown.fact}}', facts)).toBe('Keep {{unknown.fact}}');
+      expect(renderTemplate(null, facts)).toBeNull();
+    });
+  });
+
+  describe('evaluateRules', () => {
+    const facts = factsFromFixture(FIXTURE_DAYS[1]);
+
+    it('should keep only the first firing rule of a group', () => {
+      const rules = [
+        rule({ key: 'second', group: 'status', order: 2 }),
+        rule({ key: 'first', group: 'status', order: 1 }),
+        rule({ key: 'ungrouped', order: 3 }),
+      ];
+
+      expect(evaluateRules(rules, facts).map((r) => r.rule)).toEqual(['first', 'ungrouped']);
+    });
+
+    it('should sort by priority and skip disabled rules', () => {
+      const rules = [
+        rule({ key: 'low', priority: 1 }),
+        rule({ key: 'high', priority: 3 }),
+        rule({ key: 'off', priority: 3, enabled: false }),
+      ];
+
+      expect(evaluateRules(rules, facts).map((r) => r.rule)).toEqual(['high', 'low']);
+    });
+
+    it('should let a tuned threshold change what fires', () => {
+      const tuned = DEFAULT_RULES.map((r) => (r.key === 'low-calories-afternoon'
+        ? { ...r, conditions: [{ fact: 'calories.percent', op: 'lt', value: 15 }, ...r.conditions.slice(1)] }
+        : r));
+
+      expect(evaluateRules(tuned, facts).map((r) => r.rule)).not.toContain('low-calories-afternoon');
+    });
+  });
+});
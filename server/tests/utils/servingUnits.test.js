@@ -0,0 +1,80 @@
+/**
+ * Serving Units Tests
+ * ===================
+ */
+
+const {
+  parseUnit,
+  scaleNutrition,
+  availableUnits,
+} = require('../../src/utils/servingUnits');
+
+// 1 cup (185 g) of cooked rice
+const rice = {
+  servingSize: 1,
+  servingUnit: 'cup',
+  servingWeight: 185,
+  calories: 210,
+  protein: 4.3,
+  unitWeights: { bowl: 150 },
+};
+
+// 1 piece (40 g) of roti
+const roti = {
+  servingSize: 1,
+  servingUnit: 'piece',
+  servingWeight: 40,
+  calories: 104,
+};
+
+describe('Serving Units', () => {
+  describe('parseUnit', () => {
+    it('should map labels to canonical units', () => {
+      expect(parseUnit('Tablespoons')).toBe('tbsp');
+      expect(parseUnit('slices')).toBe('slice');
+      expect(parseUnit('handful')).toBeNull();
+    });
+  });
+
+  describe('scaleNutrition', () => {
+    it('should scale within the serving unit without weights', () => {
+      expect(scaleNutrition(roti, 3, 'pieces').nutrition.calories).toBe(312);
+    });
+
+    it('should convert between volumes by fixed factors', () => {
+      const result = scaleNutrition(rice, 8, 'tbsp');
+
+      expect(result.nutrition.calories).toBe(105);
+      expect(result.grams).toBe(92.5);
+    });
+
+    it('should convert mass to volume through the food density', () => {
+      expect(scaleNutrition(rice, 370, 'g').nutrition.calories).toBe(420);
+    });
+
+    it('should use food-specific weights for count units', () => {
+      const result = scaleNutrition(rice, 1, 'bowl');
+
+      expect(result.grams).toBe(150);
+      expect(result.nutrition.calories).toBe(170);
+    });
+
+    it('should flag volume conversions that assume water density', () => {
+      expect(scaleNutrition(roti, 1, 'cup').approximate).toBe(true);
+    });
+
+    it('should return null for units with no known weight', () => {
+      expect(scaleNutrition(roti, 1, 'bowl')).toBeNull();
+    });
+  });
+
+  describe('availableUnits', () => {
+    it('should list the serving unit first and skip guessed units', () => {
+      const units = availableUnits(roti);
+
+      expect(units[0]).toBe('piece');
+      expect(units).toContain('g');
+      expect(units).not.toContain('cup');
+    });
+  });
+});
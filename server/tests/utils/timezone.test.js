@@ -0,0 +1,68 @@
+/**
+ * Timezone Tests
+ * ==============
+ */
+
+const {
+  isValidTimezone,
+  dateKey,
+  toDateKey,
+  addDays,
+  dayRange,
+  zonedTime,
+  eachDay,
+} = require('../../src/utils/timezone');
+
+describe('Timezones', () => {
+  // 11:15pm on 5 March in India
+  const lateDinner = new Date('2024-03-05T17:45:00Z');
+
+  describe('dateKey', () => {
+    it('should give the date in the timezone', () => {
+      expect(dateKey(lateDinner, 'Asia/Kolkata')).toBe('2024-03-05');
+      expect(dateKey(new Date('2024-03-05T19:00:00Z'), 'Asia/Kolkata')).toBe('2024-03-06');
+      expect(dateKey(new Date('2024-03-05T03:00:00Z'), 'America/New_York')).toBe('2024-03-04');
+    });
+  });
+
+  describe('toDateKey', () => {
+    it('should keep date keys and convert instants', () => {
+      expect(toDateKey('2024-01-01', 'Asia/Kolkata')).toBe('2024-01-01');
+      expect(toDateKey('2024-01-01T20:00:00Z', 'Asia/Kolkata')).toBe('2024-01-02');
+    });
+  });
+
+  describe('dayRange', () => {
+    it('should start and end the day at local midnight', () => {
+      const { start, end } = dayRange('2024-03-05', 'Asia/Kolkata');
+
+      expect(start.toISOString()).toBe('2024-03-04T18:30:00.000Z');
+      expect(end.toISOString()).toBe('2024-03-05T18:29:59.999Z');
+    });
+
+    it('should handle daylight saving changes', () => {
+      // 23-hour day in New York
+      const { start, end } = dayRange('2024-03-10', 'America/New_York');
+
+      expect(start.toISOString()).toBe('2024-03-10T05:00:00.000Z');
+      expect(end.toISOString()).toBe('2024-03-11T03:59:59.999Z');
+      expect(zonedTime('2024-03-10', 'America/New_York', 12).toISOString()).toBe('2024-03-10T16:00:00.000Z');
+    });
+  });
+
+  describe('addDays / eachDay', () => {
+    it('should step across month and year ends', () => {
+      expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+      expect(addDays('2024-01-01', -1)).toBe('2023-12-31');
+      expect(eachDay('2024-02-28', '2024-03-01')).toEqual(['2024-02-28', '2024-02-29', '2024-03-01']);
+    });
+  });
+
+  describe('isValidTimezone', () => {
+    it('should accept IANA names only', () => {
+      expect(isValidTimezone('Asia/Kolkata')).toBe(true);
+      expect(isValidTimezone('Mars/Olympus')).toBe(false);
+      expect(isValidTimezone('')).toBe(false);
+    });
+  });
+});